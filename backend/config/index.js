@@ -0,0 +1,200 @@
+const fs = require('fs');
+const path = require('path');
+
+// 설정 우선순위: 기본값 < 설정 파일(JSON) < 환경변수
+// 설정 파일 경로는 TORTEE_CONFIG_FILE로 지정하며, 없으면 backend/config.json을 사용 (선택 사항)
+const DEFAULT_CONFIG_FILE = path.join(__dirname, '../config.json');
+
+// 기본 JWT 비밀키 (운영 환경에서는 사용 불가)
+const DEV_JWT_SECRET = 'tortee-secret-key-for-mvp';
+
+// 설정 항목 정의: key(점 표기 경로), env(환경변수 이름), type, 기본값, 검증 조건
+const SETTINGS = [
+  { key: 'env', env: 'NODE_ENV', type: 'enum', values: ['development', 'production', 'test'], default: 'development' },
+
+  { key: 'server.port', env: 'PORT', type: 'int', min: 1, max: 65535, default: 8080 },
+  { key: 'server.corsOrigin', env: 'CORS_ORIGIN', type: 'string', default: '*' },
+
+  { key: 'database.path', env: 'DB_PATH', type: 'path', default: path.join(__dirname, '../database.sqlite') },
+
+  { key: 'auth.jwtSecret', env: 'JWT_SECRET', type: 'string', default: DEV_JWT_SECRET },
+  { key: 'auth.accessTokenTtlSeconds', env: 'ACCESS_TOKEN_TTL_SECONDS', type: 'int', min: 60, default: 3600 },
+  { key: 'auth.refreshTokenTtlSeconds', env: 'REFRESH_TOKEN_TTL_SECONDS', type: 'int', min: 300, default: 14 * 24 * 3600 },
+  { key: 'auth.refreshReuseGraceSeconds', env: 'REFRESH_REUSE_GRACE_SECONDS', type: 'int', min: 0, default: 30 },
+  { key: 'auth.passwordResetTtlSeconds', env: 'PASSWORD_RESET_TTL_SECONDS', type: 'int', min: 60, default: 3600 },
+  { key: 'auth.emailVerificationTtlSeconds', env: 'EMAIL_VERIFICATION_TTL_SECONDS', type: 'int', min: 60, default: 24 * 3600 },
+
+  { key: 'loginThrottle.attemptWindowSeconds', env: 'LOGIN_ATTEMPT_WINDOW_SECONDS', type: 'int', min: 1, default: 15 * 60 },
+  { key: 'loginThrottle.lockoutSeconds', env: 'LOGIN_LOCKOUT_SECONDS', type: 'int', min: 1, default: 15 * 60 },
+  { key: 'loginThrottle.maxBackoffSeconds', env: 'LOGIN_MAX_BACKOFF_SECONDS', type: 'int', min: 1, default: 5 * 60 },
+  { key: 'loginThrottle.account.backoffAfter', env: 'LOGIN_ACCOUNT_BACKOFF_AFTER', type: 'int', min: 1, default: 3 },
+  { key: 'loginThrottle.account.lockAfter', env: 'LOGIN_ACCOUNT_LOCK_AFTER', type: 'int', min: 1, default: 10 },
+  { key: 'loginThrottle.ip.backoffAfter', env: 'LOGIN_IP_BACKOFF_AFTER', type: 'int', min: 1, default: 10 },
+  { key: 'loginThrottle.ip.lockAfter', env: 'LOGIN_IP_LOCK_AFTER', type: 'int', min: 1, default: 50 },
+
+  { key: 'app.url', env: 'APP_URL', type: 'url', default: 'http://localhost:3000' },
+
+  { key: 'mail.transport', env: 'MAIL_TRANSPORT', type: 'enum', values: ['console', 'file'], default: 'console' },
+  { key: 'mail.from', env: 'MAIL_FROM', type: 'string', default: 'Tortee <no-reply@tortee.local>' },
+  { key: 'mail.outboxDir', env: 'MAIL_OUTBOX_DIR', type: 'path', default: path.join(__dirname, '../mail-outbox') },
+
+  { key: 'upload.maxImageBytes', env: 'UPLOAD_MAX_IMAGE_BYTES', type: 'int', min: 1024, default: 1024 * 1024 },
+  { key: 'upload.minImageDimension', env: 'IMAGE_MIN_DIMENSION', type: 'int', min: 1, default: 500 },
+  { key: 'upload.maxImageDimension', env: 'IMAGE_MAX_DIMENSION', type: 'int', min: 1, default: 1000 },
+
+  { key: 'matching.maxMenteesLimit', env: 'MATCHING_MAX_MENTEES_LIMIT', type: 'int', min: 1, default: 10 },
+  { key: 'matching.requestExpiryDays', env: 'MATCHING_REQUEST_EXPIRY_DAYS', type: 'int', min: 1, default: 7 },
+
+  { key: 'jobs.pollIntervalSeconds', env: 'JOBS_POLL_INTERVAL_SECONDS', type: 'int', min: 1, default: 60 },
+  { key: 'jobs.expireRequestsIntervalSeconds', env: 'JOBS_EXPIRE_REQUESTS_INTERVAL_SECONDS', type: 'int', min: 1, default: 15 * 60 }
+];
+
+function getPath(object, key) {
+  return key.split('.').reduce((value, part) => (value == null ? undefined : value[part]), object);
+}
+
+function setPath(object, key, value) {
+  const parts = key.split('.');
+  const last = parts.pop();
+  const target = parts.reduce((node, part) => {
+    if (!node[part]) node[part] = {};
+    return node[part];
+  }, object);
+  target[last] = value;
+}
+
+function readConfigFile(errors) {
+  const filePath = process.env.TORTEE_CONFIG_FILE || DEFAULT_CONFIG_FILE;
+
+  if (!fs.existsSync(filePath)) {
+    if (process.env.TORTEE_CONFIG_FILE) {
+      errors.push(`Config file not found: ${filePath}`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    errors.push(`Failed to read config file ${filePath}: ${error.message}`);
+    return {};
+  }
+}
+
+// 값 변환 및 검증 (오류는 errors에 누적하고 기본값 유지)
+function coerce(setting, rawValue, source, errors) {
+  const label = `${setting.key} (${source})`;
+
+  switch (setting.type) {
+    case 'int': {
+      const value = typeof rawValue === 'number' ? rawValue : Number(String(rawValue).trim());
+      if (!Number.isInteger(value)) {
+        errors.push(`${label} must be an integer, got "${rawValue}"`);
+        return setting.default;
+      }
+      if (setting.min !== undefined && value < setting.min) {
+        errors.push(`${label} must be >= ${setting.min}, got ${value}`);
+      }
+      if (setting.max !== undefined && value > setting.max) {
+        errors.push(`${label} must be <= ${setting.max}, got ${value}`);
+      }
+      return value;
+    }
+    case 'enum':
+      if (!setting.values.includes(rawValue)) {
+        errors.push(`${label} must be one of ${setting.values.join(', ')}, got "${rawValue}"`);
+        return setting.default;
+      }
+      return rawValue;
+    case 'url':
+      try {
+        new URL(rawValue);
+      } catch {
+        errors.push(`${label} must be a valid URL, got "${rawValue}"`);
+        return setting.default;
+      }
+      return String(rawValue).replace(/\/$/, '');
+    case 'path':
+      return path.resolve(path.join(__dirname, '..'), String(rawValue));
+    default:
+      if (typeof rawValue !== 'string' || rawValue.length === 0) {
+        errors.push(`${label} must be a non-empty string`);
+        return setting.default;
+      }
+      return rawValue;
+  }
+}
+
+// 항목 간 관계 및 운영 환경 요구사항 검증
+function validateRelations(config, errors) {
+  if (config.upload.minImageDimension > config.upload.maxImageDimension) {
+    errors.push('upload.minImageDimension must not exceed upload.maxImageDimension');
+  }
+
+  for (const scope of ['account', 'ip']) {
+    const policy = config.loginThrottle[scope];
+    if (policy.backoffAfter > policy.lockAfter) {
+      errors.push(`loginThrottle.${scope}.backoffAfter must not exceed loginThrottle.${scope}.lockAfter`);
+    }
+  }
+
+  if (config.auth.accessTokenTtlSeconds >= config.auth.refreshTokenTtlSeconds) {
+    errors.push('auth.accessTokenTtlSeconds must be shorter than auth.refreshTokenTtlSeconds');
+  }
+
+  if (config.env === 'production') {
+    if (config.auth.jwtSecret === DEV_JWT_SECRET) {
+      errors.push('auth.jwtSecret (JWT_SECRET) must be set in production');
+    } else if (config.auth.jwtSecret.length < 32) {
+      errors.push('auth.jwtSecret (JWT_SECRET) must be at least 32 characters in production');
+    }
+  }
+}
+
+function loadConfig(env = process.env) {
+  const errors = [];
+  const fileConfig = readConfigFile(errors);
+  const config = {};
+
+  for (const setting of SETTINGS) {
+    let value = setting.default;
+
+    const fileValue = getPath(fileConfig, setting.key);
+    if (fileValue !== undefined) {
+      value = coerce(setting, fileValue, 'config file', errors);
+    }
+
+    if (env[setting.env] !== undefined && env[setting.env] !== '') {
+      value = coerce(setting, env[setting.env], setting.env, errors);
+    }
+
+    setPath(config, setting.key, value);
+  }
+
+  validateRelations(config, errors);
+
+  return { config: deepFreeze(config), errors };
+}
+
+function deepFreeze(object) {
+  Object.values(object).forEach(value => {
+    if (value && typeof value === 'object') deepFreeze(value);
+  });
+  return Object.freeze(object);
+}
+
+const { config, errors } = loadConfig();
+
+// 서버 시작 시 호출: 설정 오류가 하나라도 있으면 전체 목록과 함께 예외 발생
+function validateConfig() {
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+  return config;
+}
+
+module.exports = {
+  config,
+  validateConfig,
+  loadConfig
+};
@@ -0,0 +1,11 @@
+const { config } = require('../config');
+const { expireStaleRequests } = require('../services/requestExpiry');
+
+// 오래된 대기 중인 매칭 요청 만료
+
+/** @type {import('./scheduler').JobDefinition} */
+module.exports = {
+  name: 'expire-stale-requests',
+  intervalSeconds: config.jobs.expireRequestsIntervalSeconds,
+  run: expireStaleRequests
+};
@@ -0,0 +1,24 @@
+const { startScheduler, stopScheduler, runJob, getJobStatuses } = require('./scheduler');
+const expireRequestsJob = require('./expireRequests');
+
+// 서버에서 주기적으로 실행하는 작업 목록
+const JOBS = [
+  expireRequestsJob
+];
+
+function startJobs() {
+  startScheduler(JOBS);
+}
+
+function findJob(name) {
+  return JOBS.find(job => job.name === name) || null;
+}
+
+module.exports = {
+  JOBS,
+  findJob,
+  startJobs,
+  stopJobs: stopScheduler,
+  runJob,
+  getJobStatuses
+};
@@ -0,0 +1,158 @@
+const { config } = require('../config');
+const { getAsyncDatabase } = require('../models/database');
+
+// 프로세스 내 작업 스케줄러
+// 작업별 다음 실행 시각과 실행 결과는 scheduled_jobs 테이블에 저장하므로 재시작해도 주기가 유지되고,
+// 실행 전에 잠금(locked_until)을 잡아 같은 DB를 쓰는 여러 프로세스가 동시에 실행하지 않는다.
+
+/**
+ * @typedef {Object} JobDefinition
+ * @property {string} name 작업 이름 (scheduled_jobs의 키)
+ * @property {number} intervalSeconds 실행 주기
+ * @property {() => Promise<Object | void>} run 반환값은 last_result에 JSON으로 저장
+ */
+
+const POLL_INTERVAL_MS = config.jobs.pollIntervalSeconds * 1000;
+
+// 작업이 끝나지 않은 채 프로세스가 종료된 경우 이 시간이 지나면 다른 프로세스가 다시 실행할 수 있음
+const JOB_LOCK_SECONDS = 10 * 60;
+
+let registeredJobs = [];
+let timer = null;
+let ticking = false;
+
+// 실행할 차례이고(force면 시각 무관) 잠겨 있지 않으면 잠금을 잡음 (성공 시 true)
+async function claimJob(db, job, force) {
+  await db.run(
+    'INSERT OR IGNORE INTO scheduled_jobs (name, next_run_at) VALUES (?, CURRENT_TIMESTAMP)',
+    [job.name]
+  );
+
+  const result = await db.run(
+    `UPDATE scheduled_jobs
+     SET locked_until = datetime('now', ?), last_started_at = CURRENT_TIMESTAMP
+     WHERE name = ? AND (? OR next_run_at <= CURRENT_TIMESTAMP)
+       AND (locked_until IS NULL OR locked_until <= CURRENT_TIMESTAMP)`,
+    [`+${JOB_LOCK_SECONDS} seconds`, job.name, force ? 1 : 0]
+  );
+
+  return result.changes === 1;
+}
+
+// 실행 결과 기록 및 잠금 해제 (failure_count는 연속 실패 횟수)
+async function finishJob(db, job, { status, error = null, result = null }) {
+  await db.run(
+    `UPDATE scheduled_jobs
+     SET locked_until = NULL,
+         last_finished_at = CURRENT_TIMESTAMP,
+         last_status = ?,
+         last_error = ?,
+         last_result = ?,
+         run_count = run_count + 1,
+         failure_count = CASE WHEN ? = 'failed' THEN failure_count + 1 ELSE 0 END,
+         next_run_at = datetime('now', ?)
+     WHERE name = ?`,
+    [
+      status,
+      error,
+      result ? JSON.stringify(result) : null,
+      status,
+      `+${job.intervalSeconds} seconds`,
+      job.name
+    ]
+  );
+}
+
+/**
+ * 작업 하나를 실행 (실행할 차례가 아니거나 다른 곳에서 실행 중이면 건너뜀)
+ * @param {JobDefinition} job
+ * @param {{ force?: boolean }} [options] force면 다음 실행 시각과 관계없이 바로 실행
+ * @returns {Promise<boolean>} 실행했는지 여부
+ */
+async function runJob(job, { force = false } = {}) {
+  const db = getAsyncDatabase();
+
+  if (!(await claimJob(db, job, force))) {
+    return false;
+  }
+
+  try {
+    const result = await job.run();
+    await finishJob(db, job, { status: 'success', result });
+    console.log(`✅ Job ${job.name} completed${result ? `: ${JSON.stringify(result)}` : ''}`);
+  } catch (error) {
+    console.error(`Job ${job.name} error:`, error);
+    await finishJob(db, job, { status: 'failed', error: error.message });
+  }
+
+  return true;
+}
+
+// 등록된 작업 중 실행할 차례인 작업을 순서대로 실행 (이전 실행이 끝나지 않았으면 건너뜀)
+async function runDueJobs() {
+  if (ticking) {
+    return;
+  }
+
+  ticking = true;
+  try {
+    for (const job of registeredJobs) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Job scheduler error:', error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * 스케줄러 시작 (이미 실행 중이면 무시)
+ * @param {JobDefinition[]} jobs
+ */
+function startScheduler(jobs) {
+  if (timer) {
+    return;
+  }
+
+  registeredJobs = jobs;
+  timer = setInterval(runDueJobs, POLL_INTERVAL_MS);
+  // 스케줄러 때문에 프로세스가 종료되지 않는 일이 없도록
+  timer.unref();
+  runDueJobs();
+
+  console.log(`⏱️  Job scheduler started (${jobs.map(job => job.name).join(', ')})`);
+}
+
+// 작업별 실행 상태 (scheduled_jobs)
+async function getJobStatuses() {
+  const db = getAsyncDatabase();
+  const rows = await db.all('SELECT * FROM scheduled_jobs ORDER BY name ASC');
+
+  return rows.map(row => ({
+    name: row.name,
+    nextRunAt: row.next_run_at,
+    lockedUntil: row.locked_until,
+    lastStartedAt: row.last_started_at,
+    lastFinishedAt: row.last_finished_at,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+    lastResult: row.last_result ? JSON.parse(row.last_result) : null,
+    runCount: row.run_count,
+    failureCount: row.failure_count
+  }));
+}
+
+function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+module.exports = {
+  startScheduler,
+  stopScheduler,
+  runJob,
+  getJobStatuses
+};
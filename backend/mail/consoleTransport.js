@@ -0,0 +1,16 @@
+// 콘솔 메일 전송 (개발/오프라인 환경용: 실제 발송 없이 로그로 출력)
+function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('📧 ─────────────────────────────────────────');
+      console.log(`📧 To: ${message.to}`);
+      console.log(`📧 Subject: ${message.subject}`);
+      console.log(message.text);
+      console.log('📧 ─────────────────────────────────────────');
+      return { delivered: true };
+    }
+  };
+}
+
+module.exports = { createConsoleTransport };
@@ -0,0 +1,25 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+// 파일 메일 전송 (발송할 메일을 JSON 파일로 저장하여 오프라인에서도 내용 확인 가능)
+function createFileTransport(outboxDir) {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true });
+
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      const filePath = path.join(outboxDir, fileName);
+
+      await fs.writeFile(filePath, JSON.stringify({
+        ...message,
+        createdAt: new Date().toISOString()
+      }, null, 2));
+
+      console.log(`📧 Mail written to ${filePath}`);
+      return { delivered: true, filePath };
+    }
+  };
+}
+
+module.exports = { createFileTransport };
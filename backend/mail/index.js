@@ -0,0 +1,36 @@
+const { config } = require('../config');
+const { createConsoleTransport } = require('./consoleTransport');
+const { createFileTransport } = require('./fileTransport');
+
+// 메일 전송 방식 선택 (config.mail.transport: console | file)
+// 전송 구현체는 send({ to, subject, text })를 제공하는 객체이며 registerTransport로 교체 가능
+const transportFactories = {
+  console: () => createConsoleTransport(),
+  file: () => createFileTransport(config.mail.outboxDir)
+};
+
+let transport;
+
+function registerTransport(customTransport) {
+  transport = customTransport;
+}
+
+function getTransport() {
+  if (!transport) {
+    const factory = transportFactories[config.mail.transport];
+    if (!factory) {
+      throw new Error(`Unknown mail transport: ${config.mail.transport}`);
+    }
+    transport = factory();
+  }
+  return transport;
+}
+
+async function sendMail({ to, subject, text }) {
+  return getTransport().send({ from: config.mail.from, to, subject, text });
+}
+
+module.exports = {
+  sendMail,
+  registerTransport
+};
@@ -0,0 +1,44 @@
+const { config } = require('../config');
+
+// 프론트엔드 주소 (메일 본문 링크 생성용)
+const APP_URL = config.app.url;
+
+function passwordResetMail({ to, name, token, expiresInMinutes }) {
+  const link = `${APP_URL}/forgot-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: '[Tortee] 비밀번호 재설정 안내',
+    text: [
+      `${name || '회원'}님, 안녕하세요.`,
+      '',
+      '아래 링크에서 새 비밀번호를 설정할 수 있습니다.',
+      link,
+      '',
+      `이 링크는 ${expiresInMinutes}분 동안 한 번만 사용할 수 있습니다.`,
+      '비밀번호 재설정을 요청하지 않았다면 이 메일을 무시하세요.'
+    ].join('\n')
+  };
+}
+
+function emailVerificationMail({ to, name, token, expiresInHours }) {
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: '[Tortee] 이메일 주소 인증',
+    text: [
+      `${name || '회원'}님, Tortee에 가입해 주셔서 감사합니다.`,
+      '',
+      '아래 링크를 눌러 이메일 주소를 인증해 주세요.',
+      link,
+      '',
+      `이 링크는 ${expiresInHours}시간 동안 유효합니다.`
+    ].join('\n')
+  };
+}
+
+module.exports = {
+  passwordResetMail,
+  emailVerificationMail
+};
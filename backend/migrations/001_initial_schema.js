@@ -0,0 +1,71 @@
+// 초기 스키마: 사용자 / 매칭 요청
+// 마이그레이션 도입 이전에 생성된 DB와 호환되도록 IF NOT EXISTS 사용
+
+async function up(db) {
+  // 사용자 테이블 (멘토와 멘티 공용)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT UNIQUE NOT NULL,
+      password TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('mentor', 'mentee')),
+      name TEXT,
+      bio TEXT,
+      skillsets TEXT, -- JSON 문자열로 저장
+      profile_image BLOB, -- 이미지 데이터
+      profile_image_type TEXT, -- 이미지 MIME 타입
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // 매칭 요청 테이블
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS matching_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mentee_id INTEGER NOT NULL,
+      mentor_id INTEGER NOT NULL,
+      message TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mentee_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(mentee_id, mentor_id) -- 같은 멘토에게 중복 요청 방지
+    )
+  `);
+
+  // 트리거: updated_at 자동 업데이트
+  await db.exec(`
+    CREATE TRIGGER IF NOT EXISTS update_users_timestamp
+    AFTER UPDATE ON users
+    BEGIN
+      UPDATE users SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END
+  `);
+
+  await db.exec(`
+    CREATE TRIGGER IF NOT EXISTS update_requests_timestamp
+    AFTER UPDATE ON matching_requests
+    BEGIN
+      UPDATE matching_requests SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+    CREATE INDEX IF NOT EXISTS idx_requests_mentee ON matching_requests(mentee_id);
+    CREATE INDEX IF NOT EXISTS idx_requests_mentor ON matching_requests(mentor_id);
+    CREATE INDEX IF NOT EXISTS idx_requests_status ON matching_requests(status);
+  `);
+}
+
+async function down(db) {
+  await db.exec(`
+    DROP TABLE IF EXISTS matching_requests;
+    DROP TABLE IF EXISTS users;
+  `);
+}
+
+module.exports = { up, down };
@@ -0,0 +1,35 @@
+// 비밀번호 재설정 / 이메일 인증
+
+async function up(db) {
+  // 비밀번호 재설정 / 이메일 인증용 1회용 토큰 테이블
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS account_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      purpose TEXT NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+      token_hash TEXT UNIQUE NOT NULL,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(user_id, purpose)
+  `);
+
+  // 마이그레이션 도입 이전 DB에는 컬럼이 이미 있을 수 있음
+  if (!(await db.hasColumn('users', 'email_verified_at'))) {
+    await db.exec('ALTER TABLE users ADD COLUMN email_verified_at DATETIME');
+  }
+}
+
+async function down(db) {
+  await db.exec(`
+    DROP TABLE IF EXISTS account_tokens;
+    ALTER TABLE users DROP COLUMN email_verified_at;
+  `);
+}
+
+module.exports = { up, down };
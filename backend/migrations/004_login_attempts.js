@@ -0,0 +1,21 @@
+// 로그인 시도 제한
+
+async function up(db) {
+  // 로그인 실패 기록 테이블 (scope: ip 또는 account)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS login_attempts (
+      scope TEXT NOT NULL CHECK (scope IN ('ip', 'account')),
+      key TEXT NOT NULL,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      last_failure_at DATETIME NOT NULL,
+      locked_until DATETIME,
+      PRIMARY KEY (scope, key)
+    )
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS login_attempts');
+}
+
+module.exports = { up, down };
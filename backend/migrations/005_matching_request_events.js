@@ -0,0 +1,96 @@
+// 매칭 요청 상태 확장 (expired, completed) / 상태 변경 사유 / 상태 변경 이력
+
+// 상태 CHECK 제약을 바꾸려면 테이블을 다시 만들어야 함 (SQLite는 제약 변경 불가)
+async function rebuildMatchingRequests(db, statuses, { withReason, statusExpression }) {
+  const statusList = statuses.map(status => `'${status}'`).join(', ');
+
+  await db.exec(`
+    CREATE TABLE matching_requests_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mentee_id INTEGER NOT NULL,
+      mentor_id INTEGER NOT NULL,
+      message TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (${statusList})),
+      ${withReason ? 'status_reason TEXT, -- 거절/취소 사유' : ''}
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mentee_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(mentee_id, mentor_id) -- 같은 멘토에게 중복 요청 방지
+    );
+
+    INSERT INTO matching_requests_new (id, mentee_id, mentor_id, message, status, created_at, updated_at)
+    SELECT id, mentee_id, mentor_id, message, ${statusExpression}, created_at, updated_at
+    FROM matching_requests;
+
+    DROP TABLE matching_requests;
+    ALTER TABLE matching_requests_new RENAME TO matching_requests;
+
+    CREATE INDEX idx_requests_mentee ON matching_requests(mentee_id);
+    CREATE INDEX idx_requests_mentor ON matching_requests(mentor_id);
+    CREATE INDEX idx_requests_status ON matching_requests(status);
+
+    CREATE TRIGGER update_requests_timestamp
+    AFTER UPDATE ON matching_requests
+    BEGIN
+      UPDATE matching_requests SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+  `);
+}
+
+async function up(db) {
+  await rebuildMatchingRequests(
+    db,
+    ['pending', 'accepted', 'rejected', 'cancelled', 'expired', 'completed'],
+    { withReason: true, statusExpression: 'status' }
+  );
+
+  // 상태 변경 이력 (from_status가 NULL이면 요청 생성)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS matching_request_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      actor_id INTEGER, -- 시스템 처리는 NULL
+      actor_role TEXT NOT NULL CHECK (actor_role IN ('mentor', 'mentee', 'system')),
+      reason TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_request_events_request ON matching_request_events(request_id, id);
+  `);
+
+  // 기존 요청의 이력 복원: 생성 이벤트와 (처리된 경우) 마지막 상태 변경 이벤트
+  await db.exec(`
+    INSERT INTO matching_request_events (request_id, from_status, to_status, actor_id, actor_role, created_at)
+    SELECT id, NULL, 'pending', mentee_id, 'mentee', created_at
+    FROM matching_requests;
+
+    INSERT INTO matching_request_events (request_id, from_status, to_status, actor_id, actor_role, created_at)
+    SELECT id, 'pending', status,
+           CASE status WHEN 'cancelled' THEN mentee_id ELSE mentor_id END,
+           CASE status WHEN 'cancelled' THEN 'mentee' ELSE 'mentor' END,
+           updated_at
+    FROM matching_requests
+    WHERE status != 'pending';
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS matching_request_events');
+
+  // 새 상태는 가장 가까운 기존 상태로 되돌림
+  await rebuildMatchingRequests(
+    db,
+    ['pending', 'accepted', 'rejected', 'cancelled'],
+    {
+      withReason: false,
+      statusExpression: "CASE status WHEN 'expired' THEN 'rejected' WHEN 'completed' THEN 'accepted' ELSE status END"
+    }
+  );
+}
+
+module.exports = { up, down };
@@ -0,0 +1,12 @@
+// 멘토별 최대 멘티 수
+
+async function up(db) {
+  // 기존 멘토는 이전 동작(멘티 한 명)을 유지하도록 기본값 1
+  await db.exec('ALTER TABLE users ADD COLUMN max_mentees INTEGER NOT NULL DEFAULT 1');
+}
+
+async function down(db) {
+  await db.exec('ALTER TABLE users DROP COLUMN max_mentees');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,35 @@
+// 백그라운드 작업 실행 상태 / 오래된 대기 요청 만료
+
+async function up(db) {
+  // 작업별 다음 실행 시각과 마지막 실행 결과 (서버를 재시작해도 실행 주기 유지)
+  // locked_until: 실행 중인 작업의 잠금 만료 시각 (다른 프로세스의 중복 실행 방지)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      name TEXT PRIMARY KEY,
+      next_run_at DATETIME NOT NULL,
+      locked_until DATETIME,
+      last_started_at DATETIME,
+      last_finished_at DATETIME,
+      last_status TEXT CHECK (last_status IN ('success', 'failed')),
+      last_error TEXT,
+      last_result TEXT,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      failure_count INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  // 만료 대상(오래된 pending 요청) 조회용
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_matching_requests_status_created
+    ON matching_requests(status, created_at)
+  `);
+}
+
+async function down(db) {
+  await db.exec(`
+    DROP INDEX IF EXISTS idx_matching_requests_status_created;
+    DROP TABLE IF EXISTS scheduled_jobs;
+  `);
+}
+
+module.exports = { up, down };
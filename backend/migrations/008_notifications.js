@@ -0,0 +1,31 @@
+// 인앱 알림
+
+async function up(db) {
+  // type별 부가 정보(거절 사유 등)는 data에 JSON으로 저장
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      request_id INTEGER,
+      actor_id INTEGER,
+      data TEXT,
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, id);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS notifications');
+}
+
+module.exports = { up, down };
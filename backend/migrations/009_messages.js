@@ -0,0 +1,27 @@
+// 매칭된 멘토-멘티 간 메시지
+
+async function up(db) {
+  // request_id: 수락된 매칭 요청 (대화방), read_at: 상대방이 읽은 시각
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id INTEGER NOT NULL,
+      sender_id INTEGER NOT NULL,
+      body TEXT NOT NULL,
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_messages_request ON messages(request_id, id)
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS messages');
+}
+
+module.exports = { up, down };
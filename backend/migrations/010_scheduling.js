@@ -0,0 +1,63 @@
+// 멘토 주간 가능 시간과 멘토링 세션 예약
+
+async function up(db) {
+  // 가능 시간은 멘토의 시간대 기준 현지 시각으로 저장
+  await db.exec("ALTER TABLE users ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'");
+
+  // weekday: 0(일) ~ 6(토), start_time/end_time: 'HH:MM'
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS availability_slots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      mentor_id INTEGER NOT NULL,
+      weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+      start_time TEXT NOT NULL,
+      end_time TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_availability_slots_mentor ON availability_slots(mentor_id, weekday)
+  `);
+
+  // starts_at/ends_at: UTC ISO 8601 문자열, sequence: 일정 변경/취소 횟수 (iCalendar SEQUENCE)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS bookings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id INTEGER NOT NULL,
+      mentor_id INTEGER NOT NULL,
+      mentee_id INTEGER NOT NULL,
+      starts_at TEXT NOT NULL,
+      ends_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+      note TEXT,
+      cancelled_by INTEGER,
+      cancel_reason TEXT,
+      sequence INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentee_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_bookings_mentor_time ON bookings(mentor_id, starts_at)
+  `);
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_bookings_mentee_time ON bookings(mentee_id, starts_at)
+  `);
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_bookings_request ON bookings(request_id)
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS bookings');
+  await db.exec('DROP TABLE IF EXISTS availability_slots');
+  await db.exec('ALTER TABLE users DROP COLUMN timezone');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,31 @@
+// 멘토 리뷰와 평점 (매칭당 하나)
+
+async function up(db) {
+  // request_id: 리뷰 대상 매칭 (수락 또는 완료된 요청), mentor_response: 멘토의 답글
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS reviews (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id INTEGER NOT NULL UNIQUE,
+      mentor_id INTEGER NOT NULL,
+      mentee_id INTEGER NOT NULL,
+      rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+      body TEXT NOT NULL,
+      mentor_response TEXT,
+      responded_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentor_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (mentee_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_reviews_mentor ON reviews(mentor_id, id)
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS reviews');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,47 @@
+// 멘토 이름/자기소개 키워드 검색용 FTS5 인덱스
+
+async function up(db) {
+  // users 테이블을 원본으로 하는 external content 인덱스 (rowid = users.id)
+  // 역할과 관계없이 모든 사용자를 색인하고, 멘토 여부는 조회할 때 거름
+  await db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS user_search USING fts5(
+      name,
+      bio,
+      content='users',
+      content_rowid='id',
+      tokenize='unicode61 remove_diacritics 2'
+    )
+  `);
+
+  // users 변경 시 인덱스 동기화
+  await db.exec(`
+    CREATE TRIGGER IF NOT EXISTS users_search_insert AFTER INSERT ON users BEGIN
+      INSERT INTO user_search(rowid, name, bio) VALUES (new.id, new.name, new.bio);
+    END
+  `);
+
+  await db.exec(`
+    CREATE TRIGGER IF NOT EXISTS users_search_delete AFTER DELETE ON users BEGIN
+      INSERT INTO user_search(user_search, rowid, name, bio) VALUES ('delete', old.id, old.name, old.bio);
+    END
+  `);
+
+  await db.exec(`
+    CREATE TRIGGER IF NOT EXISTS users_search_update AFTER UPDATE OF name, bio ON users BEGIN
+      INSERT INTO user_search(user_search, rowid, name, bio) VALUES ('delete', old.id, old.name, old.bio);
+      INSERT INTO user_search(rowid, name, bio) VALUES (new.id, new.name, new.bio);
+    END
+  `);
+
+  // 기존 사용자 색인
+  await db.exec("INSERT INTO user_search(user_search) VALUES ('rebuild')");
+}
+
+async function down(db) {
+  await db.exec('DROP TRIGGER IF EXISTS users_search_update');
+  await db.exec('DROP TRIGGER IF EXISTS users_search_delete');
+  await db.exec('DROP TRIGGER IF EXISTS users_search_insert');
+  await db.exec('DROP TABLE IF EXISTS user_search');
+}
+
+module.exports = { up, down };
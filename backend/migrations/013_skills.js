@@ -0,0 +1,155 @@
+const { normalizeSkillKey } = require('../utils/skills');
+
+// 기술 스택 정규화: skills(대표 이름) + skill_aliases(별칭) + user_skills(사용자별 기술 스택)
+// 기존 users.skillsets(JSON 문자열)를 옮긴 뒤 컬럼을 제거
+
+// 자주 쓰는 기술과 정규화만으로는 합쳐지지 않는 별칭
+const SEED_SKILLS = [
+  { name: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { name: 'TypeScript', aliases: ['TS'] },
+  { name: 'React', aliases: [] },
+  { name: 'React Native', aliases: ['RN'] },
+  { name: 'Vue.js', aliases: [] },
+  { name: 'Angular', aliases: [] },
+  { name: 'Next.js', aliases: [] },
+  { name: 'Node.js', aliases: [] },
+  { name: 'Express', aliases: [] },
+  { name: 'Python', aliases: ['py'] },
+  { name: 'Django', aliases: [] },
+  { name: 'Java', aliases: [] },
+  { name: 'Spring', aliases: ['Spring Boot'] },
+  { name: 'Kotlin', aliases: [] },
+  { name: 'Swift', aliases: [] },
+  { name: 'Go', aliases: ['Golang'] },
+  { name: 'PostgreSQL', aliases: ['Postgres'] },
+  { name: 'MySQL', aliases: [] },
+  { name: 'Docker', aliases: [] },
+  { name: 'Kubernetes', aliases: ['k8s'] },
+  { name: 'AWS', aliases: ['Amazon Web Services'] }
+];
+
+async function up(db) {
+  // normalized_name: normalizeSkillKey(name), 같은 기술의 중복 등록 방지
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS skills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      normalized_name TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS skill_aliases (
+      normalized_alias TEXT PRIMARY KEY,
+      skill_id INTEGER NOT NULL,
+      FOREIGN KEY (skill_id) REFERENCES skills(id) ON DELETE CASCADE
+    )
+  `);
+
+  // position: 사용자가 입력한 순서
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS user_skills (
+      user_id INTEGER NOT NULL,
+      skill_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      PRIMARY KEY (user_id, skill_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (skill_id) REFERENCES skills(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_user_skills_skill ON user_skills(skill_id)
+  `);
+
+  for (const seed of SEED_SKILLS) {
+    const result = await db.run(
+      'INSERT INTO skills (name, normalized_name) VALUES (?, ?)',
+      [seed.name, normalizeSkillKey(seed.name)]
+    );
+    for (const alias of seed.aliases) {
+      await db.run(
+        'INSERT OR IGNORE INTO skill_aliases (normalized_alias, skill_id) VALUES (?, ?)',
+        [normalizeSkillKey(alias), result.lastID]
+      );
+    }
+  }
+
+  // 기존 기술 스택 이전 (처음 등장한 표기를 새 기술의 대표 이름으로 사용)
+  const users = await db.all("SELECT id, skillsets FROM users WHERE skillsets IS NOT NULL AND skillsets != ''");
+
+  for (const user of users) {
+    let names;
+    try {
+      names = JSON.parse(user.skillsets);
+    } catch (e) {
+      console.warn(`⚠️  Skipping invalid skillsets for user ${user.id}`);
+      continue;
+    }
+    if (!Array.isArray(names)) {
+      continue;
+    }
+
+    const skillIds = [];
+    for (const name of names) {
+      const skillId = await resolveSkillId(db, name);
+      if (skillId && !skillIds.includes(skillId)) {
+        skillIds.push(skillId);
+      }
+    }
+
+    for (const [position, skillId] of skillIds.entries()) {
+      await db.run(
+        'INSERT INTO user_skills (user_id, skill_id, position) VALUES (?, ?, ?)',
+        [user.id, skillId, position]
+      );
+    }
+  }
+
+  await db.exec('ALTER TABLE users DROP COLUMN skillsets');
+}
+
+async function down(db) {
+  await db.exec('ALTER TABLE users ADD COLUMN skillsets TEXT');
+  await db.exec(`
+    UPDATE users SET skillsets = (
+      SELECT json_group_array(name) FROM (
+        SELECT s.name FROM user_skills us JOIN skills s ON s.id = us.skill_id
+        WHERE us.user_id = users.id ORDER BY us.position
+      )
+    )
+    WHERE id IN (SELECT user_id FROM user_skills)
+  `);
+
+  await db.exec('DROP TABLE IF EXISTS user_skills');
+  await db.exec('DROP TABLE IF EXISTS skill_aliases');
+  await db.exec('DROP TABLE IF EXISTS skills');
+}
+
+// 이름 → 기술 ID (대표 이름, 별칭 순으로 찾고 없으면 새로 등록)
+async function resolveSkillId(db, name) {
+  if (typeof name !== 'string' || !name.trim()) {
+    return null;
+  }
+
+  const key = normalizeSkillKey(name);
+  if (!key) {
+    return null;
+  }
+
+  const existing = await db.get(
+    `SELECT id FROM skills WHERE normalized_name = ?
+     UNION ALL
+     SELECT skill_id AS id FROM skill_aliases WHERE normalized_alias = ?`,
+    [key, key]
+  );
+  if (existing) {
+    return existing.id;
+  }
+
+  const result = await db.run('INSERT INTO skills (name, normalized_name) VALUES (?, ?)', [name.trim(), key]);
+  return result.lastID;
+}
+
+module.exports = { up, down };
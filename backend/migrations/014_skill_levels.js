@@ -0,0 +1,32 @@
+// 멘토 기술별 숙련도/경력 연수 + 멘티 학습 목표
+
+async function up(db) {
+  // level: utils/skills의 SKILL_LEVELS 중 하나 (입력하지 않으면 NULL)
+  await db.exec('ALTER TABLE user_skills ADD COLUMN level TEXT');
+  await db.exec('ALTER TABLE user_skills ADD COLUMN years_experience INTEGER');
+
+  // 멘티가 배우고 싶은 기술과 현재 수준 (position: 사용자가 입력한 순서)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS learning_goals (
+      user_id INTEGER NOT NULL,
+      skill_id INTEGER NOT NULL,
+      current_level TEXT,
+      position INTEGER NOT NULL,
+      PRIMARY KEY (user_id, skill_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (skill_id) REFERENCES skills(id) ON DELETE CASCADE
+    )
+  `);
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_learning_goals_skill ON learning_goals(skill_id)
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS learning_goals');
+  await db.exec('ALTER TABLE user_skills DROP COLUMN years_experience');
+  await db.exec('ALTER TABLE user_skills DROP COLUMN level');
+}
+
+module.exports = { up, down };
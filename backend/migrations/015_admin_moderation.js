@@ -0,0 +1,125 @@
+// 관리자 역할 / 계정 정지 / 관리자 작업 감사 로그
+// 역할과 이력 주체 CHECK 제약을 바꾸려면 테이블을 다시 만들어야 함 (SQLite는 제약 변경 불가)
+
+const toList = values => values.map(value => `'${value}'`).join(', ');
+
+async function rebuildUsers(db, roles, { withSuspension }) {
+  await db.exec(`
+    CREATE TABLE users_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT UNIQUE NOT NULL,
+      password TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN (${toList(roles)})),
+      name TEXT,
+      bio TEXT,
+      profile_image BLOB, -- 이미지 데이터
+      profile_image_type TEXT, -- 이미지 MIME 타입
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      email_verified_at DATETIME,
+      max_mentees INTEGER NOT NULL DEFAULT 1,
+      timezone TEXT NOT NULL DEFAULT 'UTC'
+      ${withSuspension ? `,
+      suspended_at DATETIME, -- 정지되지 않은 계정은 NULL
+      suspension_reason TEXT` : ''}
+    );
+
+    INSERT INTO users_new (id, email, password, role, name, bio, profile_image, profile_image_type,
+                           created_at, updated_at, email_verified_at, max_mentees, timezone)
+    SELECT id, email, password, role, name, bio, profile_image, profile_image_type,
+           created_at, updated_at, email_verified_at, max_mentees, timezone
+    FROM users;
+
+    DROP TABLE users;
+    ALTER TABLE users_new RENAME TO users;
+
+    CREATE INDEX idx_users_email ON users(email);
+    CREATE INDEX idx_users_role ON users(role);
+
+    CREATE TRIGGER update_users_timestamp
+    AFTER UPDATE ON users
+    BEGIN
+      UPDATE users SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+    CREATE TRIGGER users_search_insert AFTER INSERT ON users BEGIN
+      INSERT INTO user_search(rowid, name, bio) VALUES (new.id, new.name, new.bio);
+    END;
+
+    CREATE TRIGGER users_search_delete AFTER DELETE ON users BEGIN
+      INSERT INTO user_search(user_search, rowid, name, bio) VALUES ('delete', old.id, old.name, old.bio);
+    END;
+
+    CREATE TRIGGER users_search_update AFTER UPDATE OF name, bio ON users BEGIN
+      INSERT INTO user_search(user_search, rowid, name, bio) VALUES ('delete', old.id, old.name, old.bio);
+      INSERT INTO user_search(rowid, name, bio) VALUES (new.id, new.name, new.bio);
+    END;
+  `);
+}
+
+async function rebuildRequestEvents(db, actorRoles, { actorRoleExpression }) {
+  await db.exec(`
+    CREATE TABLE matching_request_events_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      actor_id INTEGER, -- 시스템 처리는 NULL
+      actor_role TEXT NOT NULL CHECK (actor_role IN (${toList(actorRoles)})),
+      reason TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE CASCADE,
+      FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    INSERT INTO matching_request_events_new (id, request_id, from_status, to_status, actor_id, actor_role, reason, created_at)
+    SELECT id, request_id, from_status, to_status, actor_id, ${actorRoleExpression}, reason, created_at
+    FROM matching_request_events;
+
+    DROP TABLE matching_request_events;
+    ALTER TABLE matching_request_events_new RENAME TO matching_request_events;
+
+    CREATE INDEX idx_request_events_request ON matching_request_events(request_id, id);
+  `);
+}
+
+async function up(db) {
+  await rebuildUsers(db, ['mentor', 'mentee', 'admin'], { withSuspension: true });
+  await rebuildRequestEvents(db, ['mentor', 'mentee', 'system', 'admin'], { actorRoleExpression: 'actor_role' });
+
+  // 관리자 작업 감사 로그 (details는 작업별 부가 정보 JSON)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS admin_audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      admin_id INTEGER,
+      action TEXT NOT NULL,
+      target_type TEXT NOT NULL CHECK (target_type IN ('user', 'matching_request')),
+      target_id INTEGER NOT NULL,
+      details TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (admin_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_log_target ON admin_audit_log(target_type, target_id);
+  `);
+}
+
+async function down(db) {
+  await db.exec('DROP TABLE IF EXISTS admin_audit_log');
+
+  // 관리자가 강제로 처리한 이력은 시스템 처리로 남김
+  await db.exec("UPDATE matching_request_events SET actor_id = NULL WHERE actor_role = 'admin'");
+  await rebuildRequestEvents(db, ['mentor', 'mentee', 'system'], {
+    actorRoleExpression: "CASE actor_role WHEN 'admin' THEN 'system' ELSE actor_role END"
+  });
+
+  // 관리자 계정은 되돌릴 역할이 없으므로 로그인 정보와 함께 삭제
+  await db.exec(`
+    DELETE FROM refresh_tokens WHERE user_id IN (SELECT id FROM users WHERE role = 'admin');
+    DELETE FROM sessions WHERE user_id IN (SELECT id FROM users WHERE role = 'admin');
+    DELETE FROM users WHERE role = 'admin';
+  `);
+  await rebuildUsers(db, ['mentor', 'mentee'], { withSuspension: false });
+}
+
+module.exports = { up, down };
@@ -0,0 +1,82 @@
+// 사용자 차단과 신고 (신고는 관리자 검토 대기열로 처리)
+
+const toList = values => values.map(value => `'${value}'`).join(', ');
+
+// 감사 로그 대상 종류 CHECK 제약을 바꾸려면 테이블을 다시 만들어야 함
+async function rebuildAuditLog(db, targetTypes) {
+  await db.exec(`
+    CREATE TABLE admin_audit_log_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      admin_id INTEGER,
+      action TEXT NOT NULL,
+      target_type TEXT NOT NULL CHECK (target_type IN (${toList(targetTypes)})),
+      target_id INTEGER NOT NULL,
+      details TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (admin_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    INSERT INTO admin_audit_log_new (id, admin_id, action, target_type, target_id, details, created_at)
+    SELECT id, admin_id, action, target_type, target_id, details, created_at
+    FROM admin_audit_log
+    WHERE target_type IN (${toList(targetTypes)});
+
+    DROP TABLE admin_audit_log;
+    ALTER TABLE admin_audit_log_new RENAME TO admin_audit_log;
+
+    CREATE INDEX idx_audit_log_target ON admin_audit_log(target_type, target_id);
+  `);
+}
+
+async function up(db) {
+  // blocker_id가 blocked_id를 차단 (효과는 양방향: 서로 목록에서 숨기고 요청 불가)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS user_blocks (
+      blocker_id INTEGER NOT NULL,
+      blocked_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (blocker_id, blocked_id),
+      CHECK (blocker_id != blocked_id),
+      FOREIGN KEY (blocker_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (blocked_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+  `);
+
+  // request_id: 특정 매칭 요청에 대한 신고 (사용자 자체에 대한 신고는 NULL)
+  // resolved_by/resolved_at/resolution_note: 관리자 검토 결과
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      reporter_id INTEGER NOT NULL,
+      reported_user_id INTEGER NOT NULL,
+      request_id INTEGER,
+      category TEXT NOT NULL CHECK (category IN ('spam', 'harassment', 'inappropriate', 'fake_profile', 'other')),
+      description TEXT,
+      status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+      resolved_by INTEGER,
+      resolved_at DATETIME,
+      resolution_note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (reporter_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (reported_user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (request_id) REFERENCES matching_requests(id) ON DELETE SET NULL,
+      FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, id);
+    CREATE INDEX IF NOT EXISTS idx_reports_reported_user ON reports(reported_user_id);
+  `);
+
+  await rebuildAuditLog(db, ['user', 'matching_request', 'report']);
+}
+
+async function down(db) {
+  // 신고 처리 기록은 신고와 함께 삭제
+  await rebuildAuditLog(db, ['user', 'matching_request']);
+  await db.exec('DROP TABLE IF EXISTS reports');
+  await db.exec('DROP TABLE IF EXISTS user_blocks');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,13 @@
+// 리프레시 토큰 재사용 유예 (여러 탭이 같은 토큰으로 동시에 갱신하는 경우)
+
+async function up(db) {
+  // 회전으로 발급한 후속 토큰 원문을 이전 토큰 원문에서 유도한 키로 암호화해 보관
+  // (이전 토큰을 가진 쪽만 복호화할 수 있으며, 유예 시간 안에만 사용)
+  await db.exec('ALTER TABLE refresh_tokens ADD COLUMN replaced_by_token TEXT');
+}
+
+async function down(db) {
+  await db.exec('ALTER TABLE refresh_tokens DROP COLUMN replaced_by_token');
+}
+
+module.exports = { up, down };
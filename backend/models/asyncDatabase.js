@@ -0,0 +1,174 @@
+// sqlite3 연결을 감싼 Promise 기반 DB 헬퍼
+//
+// 연결이 하나뿐이므로 트랜잭션이 진행 중일 때 다른 요청의 쿼리가 끼어들면
+// 같은 트랜잭션에 섞여 함께 커밋/롤백된다. 이를 막기 위해 트랜잭션은 순서대로
+// 하나씩 실행하고, 트랜잭션 밖의 쿼리는 진행 중인 트랜잭션이 끝날 때까지 대기한다.
+class AsyncDatabase {
+  /**
+   * @param {import('sqlite3').Database} connection
+   */
+  constructor(connection) {
+    this.connection = connection;
+    // 대기 중인 모든 트랜잭션이 끝나면 resolve되는 Promise
+    this.transactionTail = Promise.resolve();
+  }
+
+  /**
+   * 변경 쿼리 실행 (INSERT/UPDATE/DELETE)
+   * @returns {Promise<{ lastID: number, changes: number }>}
+   */
+  async run(sql, params = []) {
+    await this.transactionTail;
+    return runStatement(this.connection, sql, params);
+  }
+
+  /** 단일 행 조회 (없으면 undefined) */
+  async get(sql, params = []) {
+    await this.transactionTail;
+    return getRow(this.connection, sql, params);
+  }
+
+  /** 여러 행 조회 */
+  async all(sql, params = []) {
+    await this.transactionTail;
+    return getRows(this.connection, sql, params);
+  }
+
+  /** 파라미터 없는 SQL 여러 문장 실행 (스키마 변경 등) */
+  async exec(sql) {
+    await this.transactionTail;
+    return execStatements(this.connection, sql);
+  }
+
+  /** 테이블에 컬럼이 있는지 확인 */
+  async hasColumn(table, column) {
+    const columns = await this.all(`PRAGMA table_info(${table})`);
+    return columns.some(col => col.name === column);
+  }
+
+  /**
+   * BEGIN IMMEDIATE 트랜잭션 안에서 work 실행
+   * work가 던지면 롤백하고 예외를 다시 던지며, 반환값은 그대로 돌려준다.
+   * work에는 트랜잭션 안에서 쿼리할 수 있는 같은 인터페이스의 객체가 전달된다.
+   * work 안에서 tx.afterCommit(fn)으로 등록한 함수는 커밋된 경우에만 커밋 후 실행된다.
+   * @template T
+   * @param {(tx: AsyncDatabase) => Promise<T>} work
+   * @returns {Promise<T>}
+   */
+  async transaction(work) {
+    const previous = this.transactionTail;
+    let release;
+    const current = new Promise(resolve => { release = resolve; });
+    this.transactionTail = previous.then(() => current);
+
+    await previous;
+
+    const scope = new TransactionScope(this.connection);
+    let result;
+
+    try {
+      await execStatements(this.connection, 'BEGIN IMMEDIATE');
+      try {
+        result = await work(scope);
+        await execStatements(this.connection, 'COMMIT');
+      } catch (error) {
+        await execStatements(this.connection, 'ROLLBACK').catch(() => {});
+        throw error;
+      }
+    } finally {
+      release();
+    }
+
+    // 커밋 후 작업(실시간 이벤트 발행 등)의 실패가 이미 커밋된 결과를 바꾸지 않도록 오류는 기록만 함
+    for (const callback of scope.commitCallbacks) {
+      try {
+        callback();
+      } catch (error) {
+        console.error('After-commit callback error:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /** 연결 종료 */
+  close() {
+    return new Promise((resolve, reject) => {
+      this.connection.close((err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+}
+
+// 트랜잭션 안에서 사용하는 헬퍼 (대기 없이 바로 실행, 중첩 트랜잭션은 바깥 트랜잭션에 합류)
+class TransactionScope extends AsyncDatabase {
+  constructor(connection) {
+    super(connection);
+    this.commitCallbacks = [];
+  }
+
+  /** 트랜잭션이 커밋되면 실행할 함수 등록 (롤백되면 실행하지 않음) */
+  afterCommit(callback) {
+    this.commitCallbacks.push(callback);
+  }
+
+  async run(sql, params = []) {
+    return runStatement(this.connection, sql, params);
+  }
+
+  async get(sql, params = []) {
+    return getRow(this.connection, sql, params);
+  }
+
+  async all(sql, params = []) {
+    return getRows(this.connection, sql, params);
+  }
+
+  async exec(sql) {
+    return execStatements(this.connection, sql);
+  }
+
+  async transaction(work) {
+    return work(this);
+  }
+}
+
+function runStatement(connection, sql, params) {
+  return new Promise((resolve, reject) => {
+    connection.run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+}
+
+function getRow(connection, sql, params) {
+  return new Promise((resolve, reject) => {
+    connection.get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
+}
+
+function getRows(connection, sql, params) {
+  return new Promise((resolve, reject) => {
+    connection.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+function execStatements(connection, sql) {
+  return new Promise((resolve, reject) => {
+    connection.exec(sql, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+module.exports = { AsyncDatabase };
@@ -0,0 +1,131 @@
+const fs = require('fs');
+const path = require('path');
+
+// 마이그레이션 파일 위치 및 이름 규칙: NNN_설명.js (up/down 함수 export)
+const MIGRATIONS_DIR = path.join(__dirname, '../migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.js$/;
+
+// migrations 디렉터리의 마이그레이션 목록 (버전 오름차순)
+function loadMigrations() {
+  const migrations = fs.readdirSync(MIGRATIONS_DIR)
+    .map(file => {
+      const match = MIGRATION_FILE_PATTERN.exec(file);
+      if (!match) return null;
+
+      const migration = require(path.join(MIGRATIONS_DIR, file));
+      if (typeof migration.up !== 'function' || typeof migration.down !== 'function') {
+        throw new Error(`Migration ${file} must export up and down functions`);
+      }
+
+      return {
+        version: Number(match[1]),
+        name: match[2],
+        up: migration.up,
+        down: migration.down
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migrations[i - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version: ${migration.version}`);
+    }
+  });
+
+  return migrations;
+}
+
+function migrationLabel(migration) {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+async function ensureMigrationsTable(db) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedVersions(db) {
+  const rows = await db.all('SELECT version FROM schema_migrations ORDER BY version');
+  return new Set(rows.map(row => row.version));
+}
+
+// 적용되지 않은 마이그레이션을 버전 순으로 모두 적용
+// db: AsyncDatabase (마이그레이션의 up/down에도 그대로 전달)
+async function migrate(db) {
+  await ensureMigrationsTable(db);
+
+  const applied = await getAppliedVersions(db);
+  const pending = loadMigrations().filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    try {
+      // 마이그레이션 1개를 트랜잭션으로 실행 (실패 시 스키마와 기록 모두 롤백)
+      await db.transaction(async (tx) => {
+        await migration.up(tx);
+        await tx.run(
+          'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+          [migration.version, migration.name]
+        );
+      });
+    } catch (error) {
+      error.message = `Migration ${migrationLabel(migration)} failed: ${error.message}`;
+      throw error;
+    }
+    console.log(`✅ Migration ${migrationLabel(migration)} applied`);
+  }
+
+  return pending.map(migration => migration.version);
+}
+
+// 최근에 적용된 마이그레이션부터 steps개 되돌림
+async function rollback(db, steps = 1) {
+  await ensureMigrationsTable(db);
+
+  const applied = await getAppliedVersions(db);
+  const targets = loadMigrations()
+    .filter(migration => applied.has(migration.version))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of targets) {
+    try {
+      await db.transaction(async (tx) => {
+        await migration.down(tx);
+        await tx.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      });
+    } catch (error) {
+      error.message = `Rollback of ${migrationLabel(migration)} failed: ${error.message}`;
+      throw error;
+    }
+    console.log(`↩️  Migration ${migrationLabel(migration)} rolled back`);
+  }
+
+  return targets.map(migration => migration.version);
+}
+
+// 마이그레이션별 적용 여부 및 적용 시각
+async function status(db) {
+  await ensureMigrationsTable(db);
+
+  const rows = await db.all('SELECT version, applied_at FROM schema_migrations');
+  const appliedAt = new Map(rows.map(row => [row.version, row.applied_at]));
+
+  return loadMigrations().map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    label: migrationLabel(migration),
+    appliedAt: appliedAt.get(migration.version) || null
+  }));
+}
+
+module.exports = {
+  migrate,
+  rollback,
+  status
+};
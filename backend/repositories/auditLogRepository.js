@@ -0,0 +1,107 @@
+// 관리자 작업 감사 로그 저장소 (admin_audit_log 테이블)
+
+/**
+ * @typedef {'user.suspended' | 'user.unsuspended' | 'matching_request.resolved' | 'report.resolved' | 'report.dismissed'} AuditAction
+ * @typedef {'user' | 'matching_request' | 'report'} AuditTargetType
+ *
+ * @typedef {Object} AuditLogEntry
+ * @property {number} id
+ * @property {number | null} adminId
+ * @property {string | null} adminName
+ * @property {AuditAction} action
+ * @property {AuditTargetType} targetType
+ * @property {number} targetId
+ * @property {Object | null} details 작업별 부가 정보 (예: { reason }, { from, to, reason }, { note })
+ * @property {string} createdAt
+ */
+
+// 한 번에 조회할 수 있는 최대 기록 수
+const MAX_LIST_LIMIT = 100;
+
+function parseDetails(value, id) {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    console.error('Error parsing audit log details:', id, e);
+    return null;
+  }
+}
+
+/** @returns {AuditLogEntry} */
+function toAuditLogEntry(row) {
+  return {
+    id: row.id,
+    adminId: row.admin_id,
+    adminName: row.admin_name || null,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    details: parseDetails(row.details, row.id),
+    createdAt: row.created_at
+  };
+}
+
+class AuditLogRepository {
+  /**
+   * 트랜잭션 안에서 쓰려면 트랜잭션 헬퍼(tx)로 생성
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * @param {{ adminId: number, action: AuditAction, targetType: AuditTargetType, targetId: number, details?: Object }} entry
+   * @returns {Promise<number>} 생성된 기록 ID
+   */
+  async record({ adminId, action, targetType, targetId, details = null }) {
+    const result = await this.db.run(
+      `INSERT INTO admin_audit_log (admin_id, action, target_type, target_id, details)
+       VALUES (?, ?, ?, ?, ?)`,
+      [adminId, action, targetType, targetId, details ? JSON.stringify(details) : null]
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 감사 로그 목록 (최신순)
+   * targetType/targetId가 있으면 해당 대상에 대한 기록만 조회
+   * @param {{ targetType?: AuditTargetType, targetId?: number, limit?: number, beforeId?: number }} [options]
+   * @returns {Promise<AuditLogEntry[]>}
+   */
+  async list({ targetType, targetId, limit = 50, beforeId } = {}) {
+    let query = `
+      SELECT l.*, u.name AS admin_name
+      FROM admin_audit_log l
+      LEFT JOIN users u ON l.admin_id = u.id
+      WHERE 1 = 1
+    `;
+    const queryParams = [];
+
+    if (targetType) {
+      query += ' AND l.target_type = ?';
+      queryParams.push(targetType);
+    }
+
+    if (targetId) {
+      query += ' AND l.target_id = ?';
+      queryParams.push(targetId);
+    }
+
+    if (beforeId) {
+      query += ' AND l.id < ?';
+      queryParams.push(beforeId);
+    }
+
+    query += ' ORDER BY l.id DESC LIMIT ?';
+    queryParams.push(Math.min(limit, MAX_LIST_LIMIT));
+
+    const rows = await this.db.all(query, queryParams);
+    return rows.map(toAuditLogEntry);
+  }
+}
+
+module.exports = { AuditLogRepository, MAX_LIST_LIMIT };
@@ -0,0 +1,78 @@
+// 멘토 주간 가능 시간 저장소 (availability_slots 테이블, users.timezone)
+
+/**
+ * @typedef {Object} AvailabilitySlot
+ * @property {number} id
+ * @property {number} weekday 0(일) ~ 6(토)
+ * @property {string} startTime 'HH:MM' (멘토 시간대 기준)
+ * @property {string} endTime 'HH:MM' (멘토 시간대 기준)
+ *
+ * @typedef {Object} Availability
+ * @property {string} timezone IANA 시간대
+ * @property {AvailabilitySlot[]} slots 요일, 시작 시각 순
+ */
+
+/** @returns {AvailabilitySlot} */
+function toSlot(row) {
+  return {
+    id: row.id,
+    weekday: row.weekday,
+    startTime: row.start_time,
+    endTime: row.end_time
+  };
+}
+
+class AvailabilityRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * 멘토의 주간 가능 시간 (멘토가 없으면 null)
+   * @param {number} mentorId
+   * @returns {Promise<Availability | null>}
+   */
+  async findForMentor(mentorId) {
+    const mentor = await this.db.get(
+      "SELECT timezone FROM users WHERE id = ? AND role = 'mentor'",
+      [mentorId]
+    );
+    if (!mentor) {
+      return null;
+    }
+
+    const rows = await this.db.all(
+      'SELECT * FROM availability_slots WHERE mentor_id = ? ORDER BY weekday ASC, start_time ASC',
+      [mentorId]
+    );
+
+    return { timezone: mentor.timezone, slots: rows.map(toSlot) };
+  }
+
+  /**
+   * 멘토의 시간대와 가능 시간 전체를 교체
+   * @param {number} mentorId
+   * @param {{ timezone: string, slots: { weekday: number, startTime: string, endTime: string }[] }} availability
+   * @returns {Promise<Availability>}
+   */
+  async replaceForMentor(mentorId, { timezone, slots }) {
+    await this.db.transaction(async (tx) => {
+      await tx.run('UPDATE users SET timezone = ? WHERE id = ?', [timezone, mentorId]);
+      await tx.run('DELETE FROM availability_slots WHERE mentor_id = ?', [mentorId]);
+
+      for (const slot of slots) {
+        await tx.run(
+          'INSERT INTO availability_slots (mentor_id, weekday, start_time, end_time) VALUES (?, ?, ?, ?)',
+          [mentorId, slot.weekday, slot.startTime, slot.endTime]
+        );
+      }
+    });
+
+    return this.findForMentor(mentorId);
+  }
+}
+
+module.exports = { AvailabilityRepository };
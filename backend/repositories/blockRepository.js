@@ -0,0 +1,91 @@
+// 사용자 차단 저장소 (user_blocks 테이블)
+// 차단은 한쪽이 등록하지만 효과는 양방향 (서로 멘토 목록에서 숨기고 매칭 요청, 수락, 메시지, 새 예약 불가)
+
+/**
+ * @typedef {Object} BlockedUser
+ * @property {number} userId 차단한 상대방 ID
+ * @property {string | null} name
+ * @property {import('./userRepository').UserRole} role
+ * @property {string} createdAt 차단한 시각
+ */
+
+/** @returns {BlockedUser} */
+function toBlockedUser(row) {
+  return {
+    userId: row.blocked_id,
+    name: row.name || null,
+    role: row.role,
+    createdAt: row.created_at
+  };
+}
+
+class BlockRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * 차단 등록 (같은 트랜잭션에서 두 사용자 사이의 대기 중인 요청도 취소/거절)
+   * @param {number} blockerId
+   * @param {number} blockedId
+   * @returns {Promise<boolean>} 새로 차단되었는지 (이미 차단했으면 false)
+   */
+  async block(blockerId, blockedId) {
+    // matchingRequestRepository가 이 모듈을 불러오므로 순환 참조를 피해 사용할 때 불러옴
+    const { MatchingRequestRepository } = require('./matchingRequestRepository');
+
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        'INSERT OR IGNORE INTO user_blocks (blocker_id, blocked_id) VALUES (?, ?)',
+        [blockerId, blockedId]
+      );
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await new MatchingRequestRepository(tx).closePendingBetween(blockerId, blockedId);
+      return true;
+    });
+  }
+
+  /** @returns {Promise<boolean>} 해제되었는지 (차단하지 않은 사용자면 false) */
+  async unblock(blockerId, blockedId) {
+    const result = await this.db.run(
+      'DELETE FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?',
+      [blockerId, blockedId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * 내가 차단한 사용자 목록 (최근 차단순)
+   * @param {number} blockerId
+   * @returns {Promise<BlockedUser[]>}
+   */
+  async listBlocked(blockerId) {
+    const rows = await this.db.all(
+      `SELECT b.blocked_id, b.created_at, u.name, u.role
+       FROM user_blocks b
+       JOIN users u ON b.blocked_id = u.id
+       WHERE b.blocker_id = ?
+       ORDER BY b.created_at DESC, b.blocked_id DESC`,
+      [blockerId]
+    );
+    return rows.map(toBlockedUser);
+  }
+
+  /** 두 사용자 중 한쪽이라도 상대를 차단했는지 @returns {Promise<boolean>} */
+  async isBlockedBetween(userId, otherUserId) {
+    const row = await this.db.get(
+      `SELECT 1 FROM user_blocks
+       WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?)`,
+      [userId, otherUserId, otherUserId, userId]
+    );
+    return !!row;
+  }
+}
+
+module.exports = { BlockRepository };
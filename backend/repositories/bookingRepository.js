@@ -0,0 +1,271 @@
+const { publishToUser } = require('../services/eventBus');
+const { NotificationRepository } = require('./notificationRepository');
+
+// 멘토링 세션 예약 저장소 (bookings 테이블)
+// 예약/일정 변경/취소는 같은 트랜잭션에서 시간 충돌을 확인하고 상대방 알림을 기록한 뒤,
+// 커밋 후 두 당사자에게 booking.updated 이벤트를 발행
+
+/**
+ * @typedef {'scheduled' | 'cancelled'} BookingStatus
+ *
+ * @typedef {Object} Booking
+ * @property {number} id
+ * @property {number} requestId 매칭 요청 ID
+ * @property {number} mentorId
+ * @property {string | null} mentorName
+ * @property {number} menteeId
+ * @property {string | null} menteeName
+ * @property {string} startsAt UTC ISO 8601
+ * @property {string} endsAt UTC ISO 8601
+ * @property {BookingStatus} status
+ * @property {string | null} note
+ * @property {number | null} cancelledBy
+ * @property {string | null} cancelReason
+ * @property {number} sequence 일정 변경/취소 횟수
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ *
+ * @typedef {{ outcome: 'ok', booking: Booking } | { outcome: 'conflict', conflict: Booking }
+ *   | { outcome: 'not_active' }} BookingResult
+ */
+
+const BOOKING_SELECT = `
+  SELECT b.*, mentor.name AS mentor_name, mentee.name AS mentee_name
+  FROM bookings b
+  LEFT JOIN users mentor ON b.mentor_id = mentor.id
+  LEFT JOIN users mentee ON b.mentee_id = mentee.id
+`;
+
+/** @returns {Booking | null} */
+function toBooking(row) {
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    mentorId: row.mentor_id,
+    mentorName: row.mentor_name || null,
+    menteeId: row.mentee_id,
+    menteeName: row.mentee_name || null,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    status: row.status,
+    note: row.note,
+    cancelledBy: row.cancelled_by,
+    cancelReason: row.cancel_reason,
+    sequence: row.sequence,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+class BookingRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /** @returns {Promise<Booking | null>} */
+  async findById(id) {
+    const row = await this.db.get(`${BOOKING_SELECT} WHERE b.id = ?`, [id]);
+    return toBooking(row);
+  }
+
+  /**
+   * 사용자가 멘토 또는 멘티로 참여하는 예약 (시작 시각 순)
+   * from/to가 있으면 그 기간과 겹치는 예약만 조회
+   * @param {number} userId
+   * @param {{ from?: Date, to?: Date, includeCancelled?: boolean }} [options]
+   * @returns {Promise<Booking[]>}
+   */
+  async listForUser(userId, { from, to, includeCancelled = false } = {}) {
+    let query = `${BOOKING_SELECT} WHERE (b.mentor_id = ? OR b.mentee_id = ?)`;
+    const queryParams = [userId, userId];
+
+    if (!includeCancelled) {
+      query += " AND b.status = 'scheduled'";
+    }
+    if (from) {
+      query += ' AND b.ends_at > ?';
+      queryParams.push(from.toISOString());
+    }
+    if (to) {
+      query += ' AND b.starts_at < ?';
+      queryParams.push(to.toISOString());
+    }
+
+    query += ' ORDER BY b.starts_at ASC';
+
+    const rows = await this.db.all(query, queryParams);
+    return rows.map(toBooking);
+  }
+
+  /**
+   * 아직 끝나지 않은 예정된 세션 수 (전체 사용자 기준)
+   * @returns {Promise<number>}
+   */
+  async countUpcoming() {
+    const row = await this.db.get(
+      "SELECT COUNT(*) AS count FROM bookings WHERE status = 'scheduled' AND ends_at > ?",
+      [new Date().toISOString()]
+    );
+    return row.count;
+  }
+
+  /**
+   * 매칭의 예약 목록 (시작 시각 순, 취소된 예약 포함)
+   * @returns {Promise<Booking[]>}
+   */
+  async listForRequest(requestId) {
+    const rows = await this.db.all(
+      `${BOOKING_SELECT} WHERE b.request_id = ? ORDER BY b.starts_at ASC`,
+      [requestId]
+    );
+    return rows.map(toBooking);
+  }
+
+  /**
+   * 멘토 또는 멘티의 이후 예약 (예약 가능한 시간 계산용)
+   * @param {{ mentorId: number, menteeId: number, from: Date, excludeId?: number }} options
+   * @returns {Promise<Booking[]>}
+   */
+  async listBusy({ mentorId, menteeId, from, excludeId }) {
+    return listScheduledOverlapping(this.db, { mentorId, menteeId, startsAt: from, excludeId });
+  }
+
+  /**
+   * 세션 예약 (멘토/멘티의 다른 예약과 겹치면 conflict)
+   * @param {{ request: import('./matchingRequestRepository').MatchingRequest, startsAt: Date, endsAt: Date,
+   *   note?: string | null, actor: import('./matchingRequestRepository').Actor }} booking
+   * @returns {Promise<BookingResult>}
+   */
+  async create({ request, startsAt, endsAt, note = null, actor }) {
+    return this.db.transaction(async (tx) => {
+      const conflict = await findConflict(tx, {
+        mentorId: request.mentorId, menteeId: request.menteeId, startsAt, endsAt
+      });
+      if (conflict) {
+        return { outcome: 'conflict', conflict };
+      }
+
+      const result = await tx.run(
+        `INSERT INTO bookings (request_id, mentor_id, mentee_id, starts_at, ends_at, note)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [request.id, request.mentorId, request.menteeId, startsAt.toISOString(), endsAt.toISOString(), note]
+      );
+
+      const booking = toBooking(await tx.get(`${BOOKING_SELECT} WHERE b.id = ?`, [result.lastID]));
+      await notifyOtherParty(tx, booking, 'booking_created', actor);
+
+      return { outcome: 'ok', booking };
+    });
+  }
+
+  /**
+   * 예약 일정 변경 (예약 중인 상태만, 다른 예약과 겹치면 conflict)
+   * @returns {Promise<BookingResult>}
+   */
+  async reschedule(id, { startsAt, endsAt }, actor) {
+    return this.db.transaction(async (tx) => {
+      const current = toBooking(await tx.get(`${BOOKING_SELECT} WHERE b.id = ?`, [id]));
+      if (!current || current.status !== 'scheduled') {
+        return { outcome: 'not_active' };
+      }
+
+      const conflict = await findConflict(tx, {
+        mentorId: current.mentorId, menteeId: current.menteeId, startsAt, endsAt, excludeId: id
+      });
+      if (conflict) {
+        return { outcome: 'conflict', conflict };
+      }
+
+      await tx.run(
+        `UPDATE bookings SET starts_at = ?, ends_at = ?, sequence = sequence + 1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [startsAt.toISOString(), endsAt.toISOString(), id]
+      );
+
+      const booking = toBooking(await tx.get(`${BOOKING_SELECT} WHERE b.id = ?`, [id]));
+      await notifyOtherParty(tx, booking, 'booking_rescheduled', actor, { previousStartsAt: current.startsAt });
+
+      return { outcome: 'ok', booking };
+    });
+  }
+
+  /**
+   * 예약 취소 (예약 중인 상태만)
+   * @returns {Promise<BookingResult>}
+   */
+  async cancel(id, actor, reason = null) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        `UPDATE bookings
+         SET status = 'cancelled', cancelled_by = ?, cancel_reason = ?, sequence = sequence + 1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND status = 'scheduled'`,
+        [actor.id, reason, id]
+      );
+      if (result.changes !== 1) {
+        return { outcome: 'not_active' };
+      }
+
+      const booking = toBooking(await tx.get(`${BOOKING_SELECT} WHERE b.id = ?`, [id]));
+      await notifyOtherParty(tx, booking, 'booking_cancelled', actor, reason ? { reason } : {});
+
+      return { outcome: 'ok', booking };
+    });
+  }
+}
+
+// 멘토 또는 멘티의 예약 중 [startsAt, endsAt)와 겹치는 예약 (endsAt이 없으면 startsAt 이후 전체)
+async function listScheduledOverlapping(db, { mentorId, menteeId, startsAt, endsAt, excludeId }) {
+  let query = `${BOOKING_SELECT}
+    WHERE b.status = 'scheduled'
+      AND (b.mentor_id IN (?, ?) OR b.mentee_id IN (?, ?))
+      AND b.ends_at > ?`;
+  const queryParams = [mentorId, menteeId, mentorId, menteeId, startsAt.toISOString()];
+
+  if (endsAt) {
+    query += ' AND b.starts_at < ?';
+    queryParams.push(endsAt.toISOString());
+  }
+  if (excludeId) {
+    query += ' AND b.id != ?';
+    queryParams.push(excludeId);
+  }
+
+  query += ' ORDER BY b.starts_at ASC';
+
+  const rows = await db.all(query, queryParams);
+  return rows.map(toBooking);
+}
+
+async function findConflict(tx, { mentorId, menteeId, startsAt, endsAt, excludeId }) {
+  const [conflict] = await listScheduledOverlapping(tx, { mentorId, menteeId, startsAt, endsAt, excludeId });
+  return conflict || null;
+}
+
+// 예약을 변경한 사람의 상대방에게 알림
+async function notifyOtherParty(tx, booking, type, actor, extra = {}) {
+  const userId = String(actor.id) === String(booking.mentorId) ? booking.menteeId : booking.mentorId;
+  const notificationId = await new NotificationRepository(tx).create({
+    userId,
+    type,
+    requestId: booking.requestId,
+    actorId: actor.id,
+    data: { bookingId: booking.id, startsAt: booking.startsAt, ...extra }
+  });
+
+  tx.afterCommit(() => {
+    const update = { bookingId: booking.id, requestId: booking.requestId, status: booking.status };
+    publishToUser(booking.mentorId, 'booking.updated', update);
+    publishToUser(booking.menteeId, 'booking.updated', update);
+    publishToUser(userId, 'notification', { id: notificationId, type, requestId: booking.requestId });
+  });
+}
+
+module.exports = { BookingRepository };
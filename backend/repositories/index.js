@@ -0,0 +1,52 @@
+const { getAsyncDatabase } = require('../models/database');
+const { UserRepository } = require('./userRepository');
+const { MatchingRequestRepository } = require('./matchingRequestRepository');
+const { NotificationRepository } = require('./notificationRepository');
+const { MessageRepository } = require('./messageRepository');
+const { AvailabilityRepository } = require('./availabilityRepository');
+const { BookingRepository } = require('./bookingRepository');
+const { ReviewRepository } = require('./reviewRepository');
+const { SkillRepository } = require('./skillRepository');
+const { AuditLogRepository } = require('./auditLogRepository');
+const { BlockRepository } = require('./blockRepository');
+const { ReportRepository } = require('./reportRepository');
+
+let repositories;
+let repositoriesDb;
+
+// 앱 전체에서 공유하는 리포지토리 (테스트에서는 클래스를 직접 생성하여 사용)
+function getRepositories() {
+  const db = getAsyncDatabase();
+  if (!repositories || repositoriesDb !== db) {
+    repositoriesDb = db;
+    repositories = {
+      users: new UserRepository(db),
+      matchingRequests: new MatchingRequestRepository(db),
+      notifications: new NotificationRepository(db),
+      messages: new MessageRepository(db),
+      availability: new AvailabilityRepository(db),
+      bookings: new BookingRepository(db),
+      reviews: new ReviewRepository(db),
+      skills: new SkillRepository(db),
+      auditLog: new AuditLogRepository(db),
+      blocks: new BlockRepository(db),
+      reports: new ReportRepository(db)
+    };
+  }
+  return repositories;
+}
+
+module.exports = {
+  getRepositories,
+  UserRepository,
+  MatchingRequestRepository,
+  NotificationRepository,
+  MessageRepository,
+  AvailabilityRepository,
+  BookingRepository,
+  ReviewRepository,
+  SkillRepository,
+  AuditLogRepository,
+  BlockRepository,
+  ReportRepository
+};
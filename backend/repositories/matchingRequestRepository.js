@@ -0,0 +1,603 @@
+const { MATCHING_STATUSES, canTransition, isTransitionDefined } = require('../services/matchingStateMachine');
+const { publishToUser } = require('../services/eventBus');
+const { AuditLogRepository } = require('./auditLogRepository');
+const { BlockRepository } = require('./blockRepository');
+const { NotificationRepository } = require('./notificationRepository');
+const { UserRepository } = require('./userRepository');
+
+// 매칭 요청 저장소 (matching_requests, matching_request_events 테이블)
+// 상태가 바뀔 때마다 같은 트랜잭션에서 이력과 당사자 알림(notifications)을 함께 기록하고,
+// 커밋 후 당사자에게 실시간 이벤트를 발행 (관리자가 바꾼 경우 감사 로그도 함께 기록)
+
+// 상태별 알림 종류와 알림을 받을 당사자 (상태를 바꾼 본인은 제외)
+const STATUS_NOTIFICATIONS = {
+  pending: { type: 'request_received', recipients: ['mentor'] },
+  accepted: { type: 'request_accepted', recipients: ['mentee'] },
+  rejected: { type: 'request_rejected', recipients: ['mentee'] },
+  cancelled: { type: 'request_cancelled', recipients: ['mentor'] },
+  expired: { type: 'request_expired', recipients: ['mentee', 'mentor'] },
+  completed: { type: 'request_completed', recipients: ['mentee', 'mentor'] }
+};
+
+/**
+ * @typedef {'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired' | 'completed'} MatchingStatus
+ * @typedef {'mentor' | 'mentee' | 'system' | 'admin'} ActorRole
+ *
+ * @typedef {Object} Actor
+ * @property {number | null} id 시스템 처리는 null, 관리자 처리는 관리자 ID
+ * @property {ActorRole} role
+ *
+ * @typedef {Object} MatchingRequest
+ * @property {number} id
+ * @property {number} menteeId
+ * @property {number} mentorId
+ * @property {string | null} message
+ * @property {MatchingStatus} status
+ * @property {string | null} statusReason 거절/취소 사유
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string} [menteeName] 받은 요청 목록, findWithParties, listAll에서만 포함
+ * @property {string} [mentorName] 보낸 요청 목록, findWithParties, listAll에서만 포함
+ *
+ * @typedef {Object} MentorStats
+ * @property {number} responded 멘토가 직접 수락/거절한 요청 수
+ * @property {number} unanswered 응답하지 않아 만료된 요청 수
+ * @property {number} accepted 수락한 요청 수 (이후 완료된 요청 포함)
+ * @property {number} acceptanceRate 수락한 요청 / (응답한 요청 + 만료된 요청)
+ * @property {number | null} medianResponseHours 요청 생성부터 수락/거절까지 걸린 시간의 중앙값 (응답한 요청이 없으면 null)
+ *
+ * @typedef {Object} MatchingRequestEvent
+ * @property {number} id
+ * @property {MatchingStatus | null} fromStatus 요청 생성 이벤트는 null
+ * @property {MatchingStatus} toStatus
+ * @property {number | null} actorId
+ * @property {string | null} actorName
+ * @property {ActorRole} actorRole
+ * @property {string | null} reason
+ * @property {string} createdAt
+ */
+
+/** @returns {MatchingRequest | null} */
+function toMatchingRequest(row) {
+  if (!row) {
+    return null;
+  }
+
+  const request = {
+    id: row.id,
+    menteeId: row.mentee_id,
+    mentorId: row.mentor_id,
+    message: row.message,
+    status: row.status,
+    statusReason: row.status_reason || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+
+  if (row.mentee_name !== undefined) request.menteeName = row.mentee_name;
+  if (row.mentor_name !== undefined) request.mentorName = row.mentor_name;
+
+  return request;
+}
+
+class MatchingRequestRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /** @returns {Promise<MatchingRequest | null>} */
+  async findById(id) {
+    const row = await this.db.get('SELECT * FROM matching_requests WHERE id = ?', [id]);
+    return toMatchingRequest(row);
+  }
+
+  /** 멘토/멘티 이름을 포함한 요청 조회 @returns {Promise<MatchingRequest | null>} */
+  async findWithParties(id) {
+    const row = await this.db.get(
+      `SELECT mr.*, mentee.name AS mentee_name, mentor.name AS mentor_name
+       FROM matching_requests mr
+       LEFT JOIN users mentee ON mr.mentee_id = mentee.id
+       LEFT JOIN users mentor ON mr.mentor_id = mentor.id
+       WHERE mr.id = ?`,
+      [id]
+    );
+    return toMatchingRequest(row);
+  }
+
+  /** @returns {Promise<MatchingRequest | null>} */
+  async findByMenteeAndMentor(menteeId, mentorId) {
+    const row = await this.db.get(
+      'SELECT * FROM matching_requests WHERE mentee_id = ? AND mentor_id = ?',
+      [menteeId, mentorId]
+    );
+    return toMatchingRequest(row);
+  }
+
+  /** 멘티가 보낸 대기 중인 요청 (한 번에 하나만 허용) @returns {Promise<MatchingRequest | null>} */
+  async findPendingByMentee(menteeId) {
+    const row = await this.db.get(
+      "SELECT * FROM matching_requests WHERE mentee_id = ? AND status = 'pending'",
+      [menteeId]
+    );
+    return toMatchingRequest(row);
+  }
+
+  /**
+   * 생성 후 olderThanDays일 이상 응답이 없는 대기 중인 요청 ID 목록
+   * @param {number} olderThanDays
+   * @returns {Promise<number[]>}
+   */
+  async listStalePendingIds(olderThanDays) {
+    const rows = await this.db.all(
+      `SELECT id FROM matching_requests
+       WHERE status = 'pending' AND created_at <= datetime('now', ?)
+       ORDER BY id ASC`,
+      [`-${olderThanDays} days`]
+    );
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * 멘토별 요청 처리 통계 (대기 중이거나 멘티가 취소한 요청, 시스템 자동 거절은 제외)
+   * @param {number[]} [mentorIds] 생략하면 모든 멘토
+   * @returns {Promise<Map<number, MentorStats>>} 멘토 ID → 통계 (처리한 요청이 없는 멘토는 없음)
+   */
+  async getMentorStats(mentorIds) {
+    if (mentorIds && mentorIds.length === 0) {
+      return new Map();
+    }
+
+    const where = mentorIds ? `WHERE mr.mentor_id IN (${mentorIds.map(() => '?').join(', ')})` : '';
+    const rows = await this.db.all(
+      `SELECT mr.mentor_id, mr.status, e.to_status AS response,
+              (julianday(e.created_at) - julianday(mr.created_at)) * 24 AS response_hours
+       FROM matching_requests mr
+       LEFT JOIN matching_request_events e
+         ON e.request_id = mr.id AND e.from_status = 'pending'
+         AND e.to_status IN ('accepted', 'rejected') AND e.actor_role = 'mentor'
+       ${where}`,
+      mentorIds || []
+    );
+
+    const byMentor = new Map();
+    for (const row of rows) {
+      if (!byMentor.has(row.mentor_id)) {
+        byMentor.set(row.mentor_id, { hours: [], accepted: 0, unanswered: 0 });
+      }
+      const entry = byMentor.get(row.mentor_id);
+      if (row.response) {
+        entry.hours.push(row.response_hours);
+        if (row.response === 'accepted') entry.accepted += 1;
+      } else if (row.status === 'expired') {
+        entry.unanswered += 1;
+      }
+    }
+
+    const stats = new Map();
+    for (const [mentorId, { hours, accepted, unanswered }] of byMentor) {
+      const decided = hours.length + unanswered;
+      if (decided > 0) {
+        stats.set(mentorId, {
+          responded: hours.length,
+          unanswered,
+          accepted,
+          acceptanceRate: accepted / decided,
+          medianResponseHours: median(hours)
+        });
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * 요청 생성 (생성 이벤트도 함께 기록)
+   * @param {{ menteeId: number, mentorId: number, message: string }} request
+   * @returns {Promise<number>} 생성된 요청 ID
+   */
+  async create({ menteeId, mentorId, message }) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        'INSERT INTO matching_requests (mentee_id, mentor_id, message) VALUES (?, ?, ?)',
+        [menteeId, mentorId, message]
+      );
+
+      const actor = { id: menteeId, role: 'mentee' };
+      await recordEvent(tx, { requestId: result.lastID, from: null, to: 'pending', actor });
+      await notifyParties(tx, { id: result.lastID, menteeId, mentorId }, 'pending', actor);
+
+      return result.lastID;
+    });
+  }
+
+  /**
+   * 멘티의 요청 전송: 요청 가능 여부 확인과 생성을 하나의 트랜잭션에서 처리하여
+   * 동시에 보낸 요청이 함께 확인을 통과해 중복 생성되지 않도록 함
+   * - mentor_not_found: 멘토가 없거나 정지됨
+   * - blocked: 어느 한쪽이 상대를 차단함
+   * - at_capacity: 멘토의 남은 자리가 없음
+   * - duplicate: 같은 멘토에게 이미 보낸 요청이 있음
+   * - pending_exists: 다른 멘토에게 보낸 대기 중인 요청이 있음
+   * @param {{ menteeId: number, mentorId: number, message: string }} request
+   * @returns {Promise<{ outcome: 'ok', id: number }
+   *   | { outcome: 'mentor_not_found' | 'blocked' | 'at_capacity' | 'duplicate' | 'pending_exists' }>}
+   */
+  async send({ menteeId, mentorId, message }) {
+    return this.db.transaction(async (tx) => {
+      const mentor = await new UserRepository(tx).findMentorById(mentorId);
+      if (!mentor) {
+        return { outcome: 'mentor_not_found' };
+      }
+      if (await new BlockRepository(tx).isBlockedBetween(menteeId, mentor.id)) {
+        return { outcome: 'blocked' };
+      }
+      if (mentor.activeMentees >= mentor.maxMentees) {
+        return { outcome: 'at_capacity' };
+      }
+
+      const requests = new MatchingRequestRepository(tx);
+      if (await requests.findByMenteeAndMentor(menteeId, mentor.id)) {
+        return { outcome: 'duplicate' };
+      }
+      if (await requests.findPendingByMentee(menteeId)) {
+        return { outcome: 'pending_exists' };
+      }
+
+      return { outcome: 'ok', id: await requests.create({ menteeId, mentorId: mentor.id, message }) };
+    });
+  }
+
+  /**
+   * 요청의 상태 변경 이력 (오래된 순)
+   * @returns {Promise<MatchingRequestEvent[]>}
+   */
+  async findHistory(id) {
+    const rows = await this.db.all(
+      `SELECT e.id, e.from_status, e.to_status, e.actor_id, e.actor_role, e.reason, e.created_at,
+              u.name AS actor_name
+       FROM matching_request_events e
+       LEFT JOIN users u ON e.actor_id = u.id
+       WHERE e.request_id = ?
+       ORDER BY e.id ASC`,
+      [id]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actorId: row.actor_id,
+      actorName: row.actor_name || null,
+      actorRole: row.actor_role,
+      reason: row.reason,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * 멘토가 받은 요청 목록 (최신순)
+   * @param {number} mentorId
+   * @param {{ status?: MatchingStatus }} [filter]
+   * @returns {Promise<MatchingRequest[]>}
+   */
+  async listIncoming(mentorId, { status } = {}) {
+    let query = `
+      SELECT mr.*, u.name AS mentee_name
+      FROM matching_requests mr
+      LEFT JOIN users u ON mr.mentee_id = u.id
+      WHERE mr.mentor_id = ?
+    `;
+    const queryParams = [mentorId];
+
+    if (status) {
+      query += ' AND mr.status = ?';
+      queryParams.push(status);
+    }
+
+    query += ' ORDER BY mr.created_at DESC';
+
+    const rows = await this.db.all(query, queryParams);
+    return rows.map(toMatchingRequest);
+  }
+
+  /**
+   * 멘티가 보낸 요청 목록 (최신순)
+   * @param {number} menteeId
+   * @param {{ status?: MatchingStatus }} [filter]
+   * @returns {Promise<MatchingRequest[]>}
+   */
+  async listOutgoing(menteeId, { status } = {}) {
+    let query = `
+      SELECT mr.*, u.name AS mentor_name
+      FROM matching_requests mr
+      LEFT JOIN users u ON mr.mentor_id = u.id
+      WHERE mr.mentee_id = ?
+    `;
+    const queryParams = [menteeId];
+
+    if (status) {
+      query += ' AND mr.status = ?';
+      queryParams.push(status);
+    }
+
+    query += ' ORDER BY mr.created_at DESC';
+
+    const rows = await this.db.all(query, queryParams);
+    return rows.map(toMatchingRequest);
+  }
+
+  /**
+   * 전체 요청 목록 (관리자용, 최신순)
+   * userId가 있으면 해당 사용자가 멘토 또는 멘티인 요청만 조회
+   * @param {{ status?: MatchingStatus, userId?: number, limit: number, offset?: number }} options
+   * @returns {Promise<{ requests: MatchingRequest[], total: number }>}
+   */
+  async listAll({ status, userId, limit, offset = 0 }) {
+    const conditions = [];
+    const queryParams = [];
+
+    if (status) {
+      conditions.push('mr.status = ?');
+      queryParams.push(status);
+    }
+    if (userId) {
+      conditions.push('(mr.mentee_id = ? OR mr.mentor_id = ?)');
+      queryParams.push(userId, userId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows, countRow] = await Promise.all([
+      this.db.all(
+        `SELECT mr.*, mentee.name AS mentee_name, mentor.name AS mentor_name
+         FROM matching_requests mr
+         LEFT JOIN users mentee ON mr.mentee_id = mentee.id
+         LEFT JOIN users mentor ON mr.mentor_id = mentor.id
+         ${where}
+         ORDER BY mr.created_at DESC, mr.id DESC
+         LIMIT ? OFFSET ?`,
+        [...queryParams, limit, offset]
+      ),
+      this.db.get(`SELECT COUNT(*) AS total FROM matching_requests mr ${where}`, queryParams)
+    ]);
+
+    return { requests: rows.map(toMatchingRequest), total: countRow.total };
+  }
+
+  /**
+   * 상태별 요청 수 (요청이 없는 상태는 0)
+   * @returns {Promise<Record<MatchingStatus, number>>}
+   */
+  async countByStatus() {
+    const rows = await this.db.all('SELECT status, COUNT(*) AS count FROM matching_requests GROUP BY status');
+    const counts = Object.fromEntries(MATCHING_STATUSES.map(status => [status, 0]));
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * 요청 수락
+   * 어느 한쪽이 상대를 차단했거나(blocked) 멘토의 멘티 수가 최대치에 도달하면 수락하지 않고(at_capacity), 이번 수락으로 가득 차면
+   * 같은 멘토에게 온 다른 대기 중인 요청을 모두 거절
+   * @param {number} id
+   * @param {Actor} actor
+   * @returns {Promise<TransitionResult & { autoRejected?: number, activeMentees?: number, maxMentees?: number }>}
+   */
+  async accept(id, actor) {
+    return this.db.transaction(async (tx) => {
+      let capacity;
+      const result = await applyTransition(tx, id, 'accepted', actor, {
+        guard: async (request) => {
+          if (await new BlockRepository(tx).isBlockedBetween(request.menteeId, request.mentorId)) {
+            return 'blocked';
+          }
+          capacity = await getMentorCapacity(tx, request.mentorId);
+          return capacity.activeMentees >= capacity.maxMentees ? 'at_capacity' : null;
+        }
+      });
+      if (result.outcome !== 'ok') {
+        return result;
+      }
+
+      const activeMentees = capacity.activeMentees + 1;
+      const autoRejected = activeMentees >= capacity.maxMentees
+        ? await rejectOtherPending(tx, result.request)
+        : 0;
+
+      return { ...result, autoRejected, activeMentees, maxMentees: capacity.maxMentees };
+    });
+  }
+
+  /**
+   * 상태 전이 (거절/취소/완료/만료 등)
+   * 상태 확인과 변경을 하나의 BEGIN IMMEDIATE 트랜잭션에서 처리하여 동시 요청과 경합하지 않음
+   * @param {number} id
+   * @param {MatchingStatus} to
+   * @param {Actor} actor
+   * @param {{ reason?: string | null }} [options]
+   * @returns {Promise<TransitionResult>}
+   */
+  async transition(id, to, actor, { reason = null } = {}) {
+    return this.db.transaction(tx => applyTransition(tx, id, to, actor, { reason }));
+  }
+
+  /**
+   * 차단 시 두 사용자 사이의 대기 중인 요청 정리
+   * 차단한 쪽이 멘티면 취소, 멘토면 거절로 처리 (상대에게 차단 사실이 드러나지 않도록 사유는 남기지 않음)
+   * @param {number} blockerId
+   * @param {number} blockedId
+   * @returns {Promise<number>} 정리된 요청 수
+   */
+  async closePendingBetween(blockerId, blockedId) {
+    return this.db.transaction(async (tx) => {
+      const pending = await tx.all(
+        `SELECT id, mentee_id FROM matching_requests
+         WHERE status = 'pending'
+           AND ((mentee_id = ? AND mentor_id = ?) OR (mentee_id = ? AND mentor_id = ?))`,
+        [blockerId, blockedId, blockedId, blockerId]
+      );
+
+      for (const { id, mentee_id: menteeId } of pending) {
+        const role = String(menteeId) === String(blockerId) ? 'mentee' : 'mentor';
+        await applyTransition(tx, id, role === 'mentee' ? 'cancelled' : 'rejected', { id: blockerId, role });
+      }
+
+      return pending.length;
+    });
+  }
+}
+
+/**
+ * 상태 전이 결과
+ * - ok: 변경됨 (request는 변경 후 상태)
+ * - not_found: 요청이 없음
+ * - forbidden: 요청의 당사자가 아니거나 해당 주체가 할 수 없는 전이
+ * - conflict: 현재 상태에서 할 수 없는 전이 (request는 현재 상태)
+ * - at_capacity: 멘토의 멘티 수가 최대치에 도달하여 수락할 수 없음
+ * - blocked: 어느 한쪽이 상대를 차단하여 수락할 수 없음
+ * @typedef {Object} TransitionResult
+ * @property {'ok' | 'not_found' | 'forbidden' | 'conflict' | 'at_capacity' | 'blocked'} outcome
+ * @property {MatchingRequest} [request]
+ */
+
+function isParty(request, actor) {
+  if (actor.role === 'system' || actor.role === 'admin') return true;
+  const partyId = actor.role === 'mentor' ? request.mentorId : request.menteeId;
+  return String(partyId) === String(actor.id);
+}
+
+// 트랜잭션 안에서 요청을 다시 읽어 당사자와 전이 규칙을 확인한 뒤 상태 변경 및 이력 기록
+// guard는 전이 규칙 확인 후 추가 조건을 검사하며, 실패 outcome을 반환하면 변경하지 않음
+async function applyTransition(tx, id, to, actor, { reason = null, guard } = {}) {
+  const request = toMatchingRequest(
+    await tx.get('SELECT * FROM matching_requests WHERE id = ?', [id])
+  );
+
+  if (!request) {
+    return { outcome: 'not_found' };
+  }
+  if (!isParty(request, actor)) {
+    return { outcome: 'forbidden', request };
+  }
+  if (!canTransition(request.status, to, actor.role)) {
+    return {
+      outcome: isTransitionDefined(request.status, to) ? 'forbidden' : 'conflict',
+      request
+    };
+  }
+
+  const blocked = guard ? await guard(request) : null;
+  if (blocked) {
+    return { outcome: blocked, request };
+  }
+
+  const result = await tx.run(
+    'UPDATE matching_requests SET status = ?, status_reason = ? WHERE id = ? AND status = ?',
+    [to, reason, id, request.status]
+  );
+
+  // 같은 트랜잭션에서 방금 상태를 확인했으므로 변경되지 않았다면 잠금이 깨진 것
+  if (result.changes !== 1) {
+    throw new Error(`Matching request ${id} changed during transition to ${to}`);
+  }
+
+  await recordEvent(tx, { requestId: id, from: request.status, to, actor, reason });
+  await notifyParties(tx, request, to, actor, reason);
+  if (actor.role === 'admin') {
+    await new AuditLogRepository(tx).record({
+      adminId: actor.id,
+      action: 'matching_request.resolved',
+      targetType: 'matching_request',
+      targetId: request.id,
+      details: { from: request.status, to, reason }
+    });
+  }
+
+  return { outcome: 'ok', request: { ...request, status: to, statusReason: reason } };
+}
+
+// 멘토의 최대 멘티 수와 현재 수락된 멘티 수
+async function getMentorCapacity(tx, mentorId) {
+  const row = await tx.get(
+    `SELECT u.max_mentees,
+            (SELECT COUNT(*) FROM matching_requests WHERE mentor_id = u.id AND status = 'accepted') AS active_mentees
+     FROM users u WHERE u.id = ?`,
+    [mentorId]
+  );
+  return { maxMentees: row ? row.max_mentees : 0, activeMentees: row ? row.active_mentees : 0 };
+}
+
+// 중앙값 (값이 없으면 null)
+function median(values) {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// 수락된 요청의 멘토에게 온 다른 대기 중인 요청을 시스템 거절 처리
+async function rejectOtherPending(tx, accepted) {
+  const pending = await tx.all(
+    "SELECT id, mentee_id FROM matching_requests WHERE mentor_id = ? AND id != ? AND status = 'pending'",
+    [accepted.mentorId, accepted.id]
+  );
+  const actor = { id: null, role: 'system' };
+
+  for (const { id, mentee_id: menteeId } of pending) {
+    await tx.run("UPDATE matching_requests SET status = 'rejected' WHERE id = ?", [id]);
+    await recordEvent(tx, { requestId: id, from: 'pending', to: 'rejected', actor });
+    await notifyParties(tx, { id, menteeId, mentorId: accepted.mentorId }, 'rejected', actor);
+  }
+
+  return pending.length;
+}
+
+async function recordEvent(tx, { requestId, from, to, actor, reason = null }) {
+  await tx.run(
+    `INSERT INTO matching_request_events (request_id, from_status, to_status, actor_id, actor_role, reason)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [requestId, from, to, actor.id, actor.role, reason]
+  );
+}
+
+// 상태 변경을 당사자에게 알림 (사유가 있으면 data.reason으로 전달)
+// 관리자가 처리한 경우에는 두 당사자 모두에게 알림
+// 실시간 이벤트: request.updated는 두 당사자 모두(다른 탭/기기 동기화), notification은 알림 받는 쪽에만
+async function notifyParties(tx, request, to, actor, reason = null) {
+  const { type, recipients } = STATUS_NOTIFICATIONS[to];
+  const notifications = new NotificationRepository(tx);
+  const created = [];
+  // 관리자 처리는 당사자의 행동과 구분해 표시할 수 있도록 표시
+  const data = actor.role === 'admin' ? { reason, byAdmin: true } : reason ? { reason } : null;
+
+  for (const role of actor.role === 'admin' ? ['mentee', 'mentor'] : recipients) {
+    if (role === actor.role) continue;
+
+    const userId = role === 'mentor' ? request.mentorId : request.menteeId;
+    const id = await notifications.create({
+      userId,
+      type,
+      requestId: request.id,
+      actorId: actor.id,
+      data
+    });
+    created.push({ userId, id });
+  }
+
+  tx.afterCommit(() => {
+    const update = { requestId: request.id, status: to };
+    publishToUser(request.mentorId, 'request.updated', update);
+    publishToUser(request.menteeId, 'request.updated', update);
+
+    for (const { userId, id } of created) {
+      publishToUser(userId, 'notification', { id, type, requestId: request.id });
+    }
+  });
+}
+
+module.exports = { MatchingRequestRepository };
@@ -0,0 +1,160 @@
+const { publishToUser } = require('../services/eventBus');
+
+// 메시지 저장소 (messages 테이블)
+// 메시지 전송/읽음 처리 후 대화 당사자에게 실시간 이벤트를 발행
+
+/**
+ * @typedef {Object} Message
+ * @property {number} id
+ * @property {number} requestId
+ * @property {number} senderId
+ * @property {string | null} senderName
+ * @property {string} body
+ * @property {string | null} readAt 상대방이 읽은 시각
+ * @property {string} createdAt
+ *
+ * @typedef {Object} MessagePage
+ * @property {Message[]} messages 오래된 순
+ * @property {boolean} hasMore 더 오래된 메시지가 있는지 여부
+ */
+
+// 한 번에 조회할 수 있는 최대 메시지 수
+const MAX_PAGE_SIZE = 100;
+
+/** @returns {Message} */
+function toMessage(row) {
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    senderId: row.sender_id,
+    senderName: row.sender_name || null,
+    body: row.body,
+    readAt: row.read_at,
+    createdAt: row.created_at
+  };
+}
+
+class MessageRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * 메시지 전송 (커밋 후 두 당사자에게 message.created 발행)
+   * @param {{ request: import('./matchingRequestRepository').MatchingRequest, senderId: number, body: string }} message
+   * @returns {Promise<Message>}
+   */
+  async create({ request, senderId, body }) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        'INSERT INTO messages (request_id, sender_id, body) VALUES (?, ?, ?)',
+        [request.id, senderId, body]
+      );
+      const message = toMessage(await tx.get(
+        `SELECT m.*, u.name AS sender_name
+         FROM messages m LEFT JOIN users u ON m.sender_id = u.id
+         WHERE m.id = ?`,
+        [result.lastID]
+      ));
+
+      tx.afterCommit(() => {
+        publishToUser(request.mentorId, 'message.created', { requestId: request.id, message });
+        publishToUser(request.menteeId, 'message.created', { requestId: request.id, message });
+      });
+
+      return message;
+    });
+  }
+
+  /**
+   * 대화 메시지 조회 (beforeId보다 오래된 메시지 중 최신 limit개)
+   * @param {number} requestId
+   * @param {{ beforeId?: number, limit?: number }} [options]
+   * @returns {Promise<MessagePage>}
+   */
+  async listForRequest(requestId, { beforeId, limit = 30 } = {}) {
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    let query = `
+      SELECT m.*, u.name AS sender_name
+      FROM messages m
+      LEFT JOIN users u ON m.sender_id = u.id
+      WHERE m.request_id = ?
+    `;
+    const queryParams = [requestId];
+
+    if (beforeId) {
+      query += ' AND m.id < ?';
+      queryParams.push(beforeId);
+    }
+
+    // 다음 페이지 존재 여부 확인을 위해 하나 더 조회
+    query += ' ORDER BY m.id DESC LIMIT ?';
+    queryParams.push(pageSize + 1);
+
+    const rows = await this.db.all(query, queryParams);
+    const hasMore = rows.length > pageSize;
+
+    return {
+      messages: rows.slice(0, pageSize).reverse().map(toMessage),
+      hasMore
+    };
+  }
+
+  /** 사용자가 아직 읽지 않은 상대방 메시지 수 */
+  async countUnread(requestId, readerId) {
+    const row = await this.db.get(
+      `SELECT COUNT(*) AS count FROM messages
+       WHERE request_id = ? AND sender_id != ? AND read_at IS NULL`,
+      [requestId, readerId]
+    );
+    return row.count;
+  }
+
+  /**
+   * 상대방이 보낸 메시지를 upToId까지 읽음 처리 (없으면 전체)
+   * 읽음 처리된 메시지가 있으면 커밋 후 두 당사자에게 messages.read 발행
+   * @returns {Promise<number>} 읽음 처리된 메시지 수
+   */
+  async markRead(request, readerId, upToId) {
+    return this.db.transaction(async (tx) => {
+      let query = `
+        UPDATE messages SET read_at = CURRENT_TIMESTAMP
+        WHERE request_id = ? AND sender_id != ? AND read_at IS NULL
+      `;
+      const queryParams = [request.id, readerId];
+
+      if (upToId) {
+        query += ' AND id <= ?';
+        queryParams.push(upToId);
+      }
+
+      const result = await tx.run(query, queryParams);
+
+      if (result.changes > 0) {
+        const lastRead = await tx.get(
+          `SELECT MAX(id) AS id, MAX(read_at) AS read_at FROM messages
+           WHERE request_id = ? AND sender_id != ? AND read_at IS NOT NULL`,
+          [request.id, readerId]
+        );
+        const receipt = {
+          requestId: request.id,
+          readerId: Number(readerId),
+          upToId: lastRead.id,
+          readAt: lastRead.read_at
+        };
+
+        tx.afterCommit(() => {
+          publishToUser(request.mentorId, 'messages.read', receipt);
+          publishToUser(request.menteeId, 'messages.read', receipt);
+        });
+      }
+
+      return result.changes;
+    });
+  }
+}
+
+module.exports = { MessageRepository, MAX_PAGE_SIZE };
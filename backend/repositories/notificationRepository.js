@@ -0,0 +1,139 @@
+// 알림 저장소 (notifications 테이블)
+
+/**
+ * @typedef {'request_received' | 'request_accepted' | 'request_rejected' | 'request_cancelled'
+ *   | 'request_expired' | 'request_completed'
+ *   | 'booking_created' | 'booking_rescheduled' | 'booking_cancelled'
+ *   | 'review_received' | 'review_responded'} NotificationType
+ *
+ * @typedef {Object} Notification
+ * @property {number} id
+ * @property {NotificationType} type
+ * @property {number | null} requestId
+ * @property {number | null} actorId
+ * @property {string | null} actorName
+ * @property {Object | null} data type별 부가 정보 (예: { reason }, { bookingId, startsAt })
+ * @property {string | null} readAt
+ * @property {string} createdAt
+ */
+
+// 한 번에 조회할 수 있는 최대 알림 수
+const MAX_LIST_LIMIT = 100;
+
+function parseData(value, id) {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    console.error('Error parsing notification data:', id, e);
+    return null;
+  }
+}
+
+/** @returns {Notification} */
+function toNotification(row) {
+  return {
+    id: row.id,
+    type: row.type,
+    requestId: row.request_id,
+    actorId: row.actor_id,
+    actorName: row.actor_name || null,
+    data: parseData(row.data, row.id),
+    readAt: row.read_at,
+    createdAt: row.created_at
+  };
+}
+
+class NotificationRepository {
+  /**
+   * 트랜잭션 안에서 쓰려면 트랜잭션 헬퍼(tx)로 생성
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * @param {{ userId: number, type: NotificationType, requestId?: number, actorId?: number | null, data?: Object }} notification
+   * @returns {Promise<number>} 생성된 알림 ID
+   */
+  async create({ userId, type, requestId = null, actorId = null, data = null }) {
+    const result = await this.db.run(
+      'INSERT INTO notifications (user_id, type, request_id, actor_id, data) VALUES (?, ?, ?, ?, ?)',
+      [userId, type, requestId, actorId, data ? JSON.stringify(data) : null]
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 사용자의 알림 목록 (최신순)
+   * @param {number} userId
+   * @param {{ unreadOnly?: boolean, limit?: number, beforeId?: number }} [options]
+   * @returns {Promise<Notification[]>}
+   */
+  async listForUser(userId, { unreadOnly = false, limit = 20, beforeId } = {}) {
+    let query = `
+      SELECT n.*, u.name AS actor_name
+      FROM notifications n
+      LEFT JOIN users u ON n.actor_id = u.id
+      WHERE n.user_id = ?
+    `;
+    const queryParams = [userId];
+
+    if (unreadOnly) {
+      query += ' AND n.read_at IS NULL';
+    }
+
+    if (beforeId) {
+      query += ' AND n.id < ?';
+      queryParams.push(beforeId);
+    }
+
+    query += ' ORDER BY n.id DESC LIMIT ?';
+    queryParams.push(Math.min(limit, MAX_LIST_LIMIT));
+
+    const rows = await this.db.all(query, queryParams);
+    return rows.map(toNotification);
+  }
+
+  async countUnread(userId) {
+    const row = await this.db.get(
+      'SELECT COUNT(*) AS count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    );
+    return row.count;
+  }
+
+  /**
+   * 알림 읽음 처리 (본인 알림만, 이미 읽은 알림은 그대로)
+   * @returns {Promise<boolean>} 본인 알림이 있으면 true
+   */
+  async markRead(userId, id) {
+    const row = await this.db.get(
+      'SELECT id FROM notifications WHERE id = ? AND user_id = ?',
+      [id, userId]
+    );
+    if (!row) {
+      return false;
+    }
+
+    await this.db.run(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE id = ? AND read_at IS NULL',
+      [id]
+    );
+    return true;
+  }
+
+  /** @returns {Promise<number>} 읽음 처리된 알림 수 */
+  async markAllRead(userId) {
+    const result = await this.db.run(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    );
+    return result.changes;
+  }
+}
+
+module.exports = { NotificationRepository, MAX_LIST_LIMIT };
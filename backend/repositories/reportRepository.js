@@ -0,0 +1,159 @@
+const { AuditLogRepository } = require('./auditLogRepository');
+
+// 사용자 신고 저장소 (reports 테이블)
+// 신고는 open 상태로 쌓이고 관리자가 resolved(조치함) 또는 dismissed(기각)로 처리
+
+/**
+ * @typedef {'spam' | 'harassment' | 'inappropriate' | 'fake_profile' | 'other'} ReportCategory
+ * @typedef {'open' | 'resolved' | 'dismissed'} ReportStatus
+ *
+ * @typedef {Object} Report
+ * @property {number} id
+ * @property {number} reporterId
+ * @property {string | null} reporterName
+ * @property {number} reportedUserId
+ * @property {string | null} reportedUserName
+ * @property {string | null} reportedUserSuspendedAt 신고된 사용자가 정지된 시각 (정지되지 않았으면 null)
+ * @property {number | null} requestId 신고 대상 매칭 요청 (사용자 자체에 대한 신고는 null)
+ * @property {ReportCategory} category
+ * @property {string | null} description
+ * @property {ReportStatus} status
+ * @property {number | null} resolvedBy
+ * @property {string | null} resolvedByName
+ * @property {string | null} resolvedAt
+ * @property {string | null} resolutionNote
+ * @property {string} createdAt
+ */
+
+const REPORT_CATEGORIES = ['spam', 'harassment', 'inappropriate', 'fake_profile', 'other'];
+const REPORT_STATUSES = ['open', 'resolved', 'dismissed'];
+
+const REPORT_SELECT = `
+  SELECT r.*,
+         reporter.name AS reporter_name,
+         reported.name AS reported_user_name,
+         reported.suspended_at AS reported_user_suspended_at,
+         resolver.name AS resolved_by_name
+  FROM reports r
+  LEFT JOIN users reporter ON r.reporter_id = reporter.id
+  LEFT JOIN users reported ON r.reported_user_id = reported.id
+  LEFT JOIN users resolver ON r.resolved_by = resolver.id
+`;
+
+/** @returns {Report | null} */
+function toReport(row) {
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    reporterId: row.reporter_id,
+    reporterName: row.reporter_name || null,
+    reportedUserId: row.reported_user_id,
+    reportedUserName: row.reported_user_name || null,
+    reportedUserSuspendedAt: row.reported_user_suspended_at || null,
+    requestId: row.request_id,
+    category: row.category,
+    description: row.description,
+    status: row.status,
+    resolvedBy: row.resolved_by,
+    resolvedByName: row.resolved_by_name || null,
+    resolvedAt: row.resolved_at,
+    resolutionNote: row.resolution_note,
+    createdAt: row.created_at
+  };
+}
+
+class ReportRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /** @returns {Promise<Report | null>} */
+  async findById(id) {
+    return toReport(await this.db.get(`${REPORT_SELECT} WHERE r.id = ?`, [id]));
+  }
+
+  /**
+   * 신고 접수 (같은 대상에 대해 검토 대기 중인 신고가 이미 있으면 duplicate)
+   * @param {{ reporterId: number, reportedUserId: number, requestId?: number | null,
+   *   category: ReportCategory, description?: string | null }} report
+   * @returns {Promise<{ outcome: 'ok', report: Report } | { outcome: 'duplicate' }>}
+   */
+  async create({ reporterId, reportedUserId, requestId = null, category, description = null }) {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.get(
+        `SELECT id FROM reports
+         WHERE reporter_id = ? AND reported_user_id = ? AND request_id IS ? AND status = 'open'`,
+        [reporterId, reportedUserId, requestId]
+      );
+      if (existing) {
+        return { outcome: 'duplicate' };
+      }
+
+      const result = await tx.run(
+        `INSERT INTO reports (reporter_id, reported_user_id, request_id, category, description)
+         VALUES (?, ?, ?, ?, ?)`,
+        [reporterId, reportedUserId, requestId, category, description]
+      );
+      return { outcome: 'ok', report: toReport(await tx.get(`${REPORT_SELECT} WHERE r.id = ?`, [result.lastID])) };
+    });
+  }
+
+  /**
+   * 신고 목록 (관리자용, 오래된 순으로 검토하도록 접수순)
+   * @param {{ status?: ReportStatus, limit: number, offset?: number }} options
+   * @returns {Promise<{ reports: Report[], total: number }>}
+   */
+  async listForAdmin({ status, limit, offset = 0 }) {
+    const where = status ? ' WHERE r.status = ?' : '';
+    const queryParams = status ? [status] : [];
+
+    const [rows, countRow] = await Promise.all([
+      this.db.all(`${REPORT_SELECT}${where} ORDER BY r.id ASC LIMIT ? OFFSET ?`, [...queryParams, limit, offset]),
+      this.db.get(`SELECT COUNT(*) AS total FROM reports r${where}`, queryParams)
+    ]);
+
+    return { reports: rows.map(toReport), total: countRow.total };
+  }
+
+  /** 검토 대기 중인 신고 수 @returns {Promise<number>} */
+  async countOpen() {
+    const row = await this.db.get("SELECT COUNT(*) AS count FROM reports WHERE status = 'open'");
+    return row.count;
+  }
+
+  /**
+   * 관리자의 신고 처리 (같은 트랜잭션에서 감사 로그 기록)
+   * @param {number} id
+   * @param {{ adminId: number, status: 'resolved' | 'dismissed', note?: string | null }} resolution
+   * @returns {Promise<boolean>} 처리되었는지 (이미 처리된 신고면 false)
+   */
+  async resolve(id, { adminId, status, note = null }) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        `UPDATE reports SET status = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_note = ?
+         WHERE id = ? AND status = 'open'`,
+        [status, adminId, note, id]
+      );
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await new AuditLogRepository(tx).record({
+        adminId,
+        action: `report.${status}`,
+        targetType: 'report',
+        targetId: Number(id),
+        details: note ? { note } : null
+      });
+      return true;
+    });
+  }
+}
+
+module.exports = { ReportRepository, REPORT_CATEGORIES, REPORT_STATUSES };
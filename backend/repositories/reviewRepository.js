@@ -0,0 +1,204 @@
+const { publishToUser } = require('../services/eventBus');
+const { NotificationRepository } = require('./notificationRepository');
+
+// 멘토 리뷰 저장소 (reviews 테이블)
+// 리뷰 작성/멘토 답글은 같은 트랜잭션에서 상대방 알림을 기록하고 커밋 후 실시간 이벤트를 발행
+
+/**
+ * @typedef {Object} Review
+ * @property {number} id
+ * @property {number} requestId
+ * @property {number} mentorId
+ * @property {number} menteeId
+ * @property {string | null} menteeName
+ * @property {number} rating 1 ~ 5
+ * @property {string} body
+ * @property {string | null} mentorResponse
+ * @property {string | null} respondedAt
+ * @property {string} createdAt
+ *
+ * @typedef {Object} ReviewSummary
+ * @property {number | null} averageRating 소수점 첫째 자리까지 (리뷰가 없으면 null)
+ * @property {number} reviewCount
+ * @property {Record<string, number>} distribution 평점별 리뷰 수 ('1' ~ '5')
+ */
+
+// 한 번에 조회할 수 있는 최대 리뷰 수
+const MAX_PAGE_SIZE = 50;
+
+const REVIEW_SELECT = `
+  SELECT r.*, u.name AS mentee_name
+  FROM reviews r
+  LEFT JOIN users u ON r.mentee_id = u.id
+`;
+
+/** @returns {Review | null} */
+function toReview(row) {
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    mentorId: row.mentor_id,
+    menteeId: row.mentee_id,
+    menteeName: row.mentee_name || null,
+    rating: row.rating,
+    body: row.body,
+    mentorResponse: row.mentor_response,
+    respondedAt: row.responded_at,
+    createdAt: row.created_at
+  };
+}
+
+// 평균 평점을 소수점 첫째 자리로 (리뷰가 없으면 null)
+function roundRating(value) {
+  return value === null || value === undefined ? null : Math.round(value * 10) / 10;
+}
+
+class ReviewRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /** @returns {Promise<Review | null>} */
+  async findById(id) {
+    return toReview(await this.db.get(`${REVIEW_SELECT} WHERE r.id = ?`, [id]));
+  }
+
+  /** @returns {Promise<Review | null>} */
+  async findByRequest(requestId) {
+    return toReview(await this.db.get(`${REVIEW_SELECT} WHERE r.request_id = ?`, [requestId]));
+  }
+
+  /**
+   * 리뷰 작성 (매칭당 하나, 이미 있으면 duplicate)
+   * @param {{ request: import('./matchingRequestRepository').MatchingRequest, rating: number, body: string }} review
+   * @returns {Promise<{ outcome: 'ok', review: Review } | { outcome: 'duplicate' }>}
+   */
+  async create({ request, rating, body }) {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.get('SELECT id FROM reviews WHERE request_id = ?', [request.id]);
+      if (existing) {
+        return { outcome: 'duplicate' };
+      }
+
+      const result = await tx.run(
+        'INSERT INTO reviews (request_id, mentor_id, mentee_id, rating, body) VALUES (?, ?, ?, ?, ?)',
+        [request.id, request.mentorId, request.menteeId, rating, body]
+      );
+      const review = toReview(await tx.get(`${REVIEW_SELECT} WHERE r.id = ?`, [result.lastID]));
+
+      await notify(tx, {
+        userId: review.mentorId,
+        type: 'review_received',
+        requestId: review.requestId,
+        actorId: review.menteeId,
+        data: { reviewId: review.id, rating }
+      });
+
+      return { outcome: 'ok', review };
+    });
+  }
+
+  /**
+   * 멘토 답글 작성/수정
+   * @returns {Promise<Review>}
+   */
+  async respond(review, response) {
+    return this.db.transaction(async (tx) => {
+      await tx.run(
+        'UPDATE reviews SET mentor_response = ?, responded_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [response, review.id]
+      );
+
+      // 처음 답글을 달 때만 멘티에게 알림
+      if (!review.mentorResponse) {
+        await notify(tx, {
+          userId: review.menteeId,
+          type: 'review_responded',
+          requestId: review.requestId,
+          actorId: review.mentorId,
+          data: { reviewId: review.id }
+        });
+      }
+
+      return toReview(await tx.get(`${REVIEW_SELECT} WHERE r.id = ?`, [review.id]));
+    });
+  }
+
+  /**
+   * 멘토가 받은 리뷰 (최신순, beforeId보다 이전 리뷰 중 limit개)
+   * @param {number} mentorId
+   * @param {{ beforeId?: number, limit?: number }} [options]
+   * @returns {Promise<{ reviews: Review[], hasMore: boolean }>}
+   */
+  async listForMentor(mentorId, { beforeId, limit = 10 } = {}) {
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    let query = `${REVIEW_SELECT} WHERE r.mentor_id = ?`;
+    const queryParams = [mentorId];
+
+    if (beforeId) {
+      query += ' AND r.id < ?';
+      queryParams.push(beforeId);
+    }
+
+    // 다음 페이지 존재 여부 확인을 위해 하나 더 조회
+    query += ' ORDER BY r.id DESC LIMIT ?';
+    queryParams.push(pageSize + 1);
+
+    const rows = await this.db.all(query, queryParams);
+    return {
+      reviews: rows.slice(0, pageSize).map(toReview),
+      hasMore: rows.length > pageSize
+    };
+  }
+
+  /**
+   * 멘토의 평균 평점, 리뷰 수, 평점 분포 (mentorId를 생략하면 전체 리뷰 기준)
+   * @param {number} [mentorId]
+   * @returns {Promise<ReviewSummary>}
+   */
+  async getSummary(mentorId) {
+    const rows = mentorId === undefined
+      ? await this.db.all('SELECT rating, COUNT(*) AS count FROM reviews GROUP BY rating')
+      : await this.db.all(
+        'SELECT rating, COUNT(*) AS count FROM reviews WHERE mentor_id = ? GROUP BY rating',
+        [mentorId]
+      );
+
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let total = 0;
+    let reviewCount = 0;
+
+    for (const row of rows) {
+      distribution[row.rating] = row.count;
+      total += row.rating * row.count;
+      reviewCount += row.count;
+    }
+
+    return {
+      averageRating: reviewCount > 0 ? roundRating(total / reviewCount) : null,
+      reviewCount,
+      distribution
+    };
+  }
+}
+
+async function notify(tx, notification) {
+  const id = await new NotificationRepository(tx).create(notification);
+
+  tx.afterCommit(() => {
+    publishToUser(notification.userId, 'notification', {
+      id,
+      type: notification.type,
+      requestId: notification.requestId
+    });
+  });
+}
+
+module.exports = { ReviewRepository, MAX_PAGE_SIZE, roundRating };
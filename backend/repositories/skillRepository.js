@@ -0,0 +1,185 @@
+const { escapeLike } = require('../utils/query');
+const { normalizeSkillKey } = require('../utils/skills');
+
+// 기술 스택 저장소 (skills, skill_aliases, user_skills 테이블)
+// 기술 이름은 normalizeSkillKey로 정규화해 대표 이름 또는 별칭과 비교
+
+/**
+ * @typedef {Object} Skill
+ * @property {number} id
+ * @property {string} name 대표 이름
+ * @property {number} usageCount 이 기술을 등록한 사용자 수
+ *
+ * @typedef {'beginner' | 'intermediate' | 'advanced' | 'expert'} SkillLevel
+ *
+ * @typedef {Object} UserSkillInput
+ * @property {string} name
+ * @property {SkillLevel | null} [level]
+ * @property {number | null} [yearsOfExperience]
+ *
+ * @typedef {Object} LearningGoalInput
+ * @property {string} name
+ * @property {SkillLevel | null} [currentLevel] 현재 수준
+ */
+
+const MAX_SEARCH_LIMIT = 50;
+
+// 정규화한 이름이 대표 이름 또는 별칭과 같은 기술
+const FIND_BY_KEY = `
+  SELECT id, name FROM skills WHERE normalized_name = ?
+  UNION ALL
+  SELECT s.id, s.name FROM skill_aliases a JOIN skills s ON s.id = a.skill_id WHERE a.normalized_alias = ?
+`;
+
+/** @returns {Skill} */
+function toSkill(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    usageCount: row.usage_count
+  };
+}
+
+class SkillRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * 기술 검색 (자동완성용, 정확히 일치하는 기술 다음 사용자 수가 많은 순)
+   * query가 없으면 많이 쓰이는 기술 목록
+   * @param {{ query?: string, limit?: number }} [options]
+   * @returns {Promise<Skill[]>}
+   */
+  async search({ query, limit = 10 } = {}) {
+    const key = query ? normalizeSkillKey(query) : '';
+    let where = '';
+    const queryParams = [];
+
+    if (query) {
+      // 표시 이름 부분 일치 또는 정규화한 이름/별칭 접두어 일치
+      where = `WHERE s.name LIKE ? ESCAPE '\\'
+        OR s.normalized_name LIKE ? ESCAPE '\\'
+        OR s.id IN (SELECT skill_id FROM skill_aliases WHERE normalized_alias LIKE ? ESCAPE '\\')`;
+      const prefix = `${escapeLike(key)}%`;
+      queryParams.push(`%${escapeLike(query.trim())}%`, prefix, prefix);
+    }
+
+    const rows = await this.db.all(
+      `SELECT s.id, s.name, COUNT(us.user_id) AS usage_count
+       FROM skills s
+       LEFT JOIN user_skills us ON us.skill_id = s.id
+       ${where}
+       GROUP BY s.id
+       ORDER BY (s.normalized_name = ? OR s.id IN (SELECT skill_id FROM skill_aliases WHERE normalized_alias = ?)) DESC,
+         usage_count DESC, s.name COLLATE NOCASE ASC
+       LIMIT ?`,
+      [...queryParams, key, key, Math.min(limit, MAX_SEARCH_LIMIT)]
+    );
+    return rows.map(toSkill);
+  }
+
+  /**
+   * 이름 → 대표 이름 (등록되지 않은 기술은 입력한 이름 그대로)
+   * 멘토 목록 필터에서 별칭으로 검색해도 같은 기술을 찾도록 사용
+   * @param {string[]} names
+   * @returns {Promise<string[]>}
+   */
+  async toCanonicalNames(names) {
+    const canonical = [];
+    for (const name of names) {
+      const key = normalizeSkillKey(name);
+      const skill = key ? await this.db.get(FIND_BY_KEY, [key, key]) : null;
+      canonical.push(skill ? skill.name : name);
+    }
+    return canonical;
+  }
+
+  /**
+   * 사용자의 기술 스택 전체 교체 (입력 순서 유지, 같은 기술은 한 번만)
+   * 등록되지 않은 기술은 입력한 표기를 대표 이름으로 새로 등록
+   * level/yearsOfExperience가 undefined인 항목은 이미 등록된 값을 유지
+   * @param {number} userId
+   * @param {UserSkillInput[]} skills
+   */
+  async replaceForUser(userId, skills) {
+    const entries = await this.resolveEntries(skills);
+    const existing = await this.db.all(
+      'SELECT skill_id, level, years_experience FROM user_skills WHERE user_id = ?',
+      [userId]
+    );
+    const existingById = new Map(existing.map(row => [row.skill_id, row]));
+
+    await this.db.run('DELETE FROM user_skills WHERE user_id = ?', [userId]);
+    for (const [position, { skillId, input }] of entries.entries()) {
+      const previous = existingById.get(skillId);
+      const level = input.level !== undefined ? input.level : previous?.level ?? null;
+      const years = input.yearsOfExperience !== undefined
+        ? input.yearsOfExperience
+        : previous?.years_experience ?? null;
+      await this.db.run(
+        `INSERT INTO user_skills (user_id, skill_id, position, level, years_experience)
+         VALUES (?, ?, ?, ?, ?)`,
+        [userId, skillId, position, level, years]
+      );
+    }
+  }
+
+  /**
+   * 멘티의 학습 목표 전체 교체 (입력 순서 유지, 같은 기술은 한 번만)
+   * @param {number} userId
+   * @param {LearningGoalInput[]} goals
+   */
+  async replaceLearningGoals(userId, goals) {
+    const entries = await this.resolveEntries(goals);
+
+    await this.db.run('DELETE FROM learning_goals WHERE user_id = ?', [userId]);
+    for (const [position, { skillId, input }] of entries.entries()) {
+      await this.db.run(
+        'INSERT INTO learning_goals (user_id, skill_id, current_level, position) VALUES (?, ?, ?, ?)',
+        [userId, skillId, input.currentLevel ?? null, position]
+      );
+    }
+  }
+
+  /**
+   * 입력 항목 → 기술 ID (같은 기술이 여러 번 있으면 처음 항목만)
+   * @template {{ name: string }} T
+   * @param {T[]} inputs
+   * @returns {Promise<{ skillId: number, input: T }[]>}
+   */
+  async resolveEntries(inputs) {
+    const entries = [];
+    for (const input of inputs) {
+      const skillId = await this.findOrCreate(input.name);
+      if (skillId && !entries.some(entry => entry.skillId === skillId)) {
+        entries.push({ skillId, input });
+      }
+    }
+    return entries;
+  }
+
+  /** @returns {Promise<number | null>} 기술 ID (정규화한 이름이 비어 있으면 null) */
+  async findOrCreate(name) {
+    const key = normalizeSkillKey(name);
+    if (!key) {
+      return null;
+    }
+
+    const existing = await this.db.get(FIND_BY_KEY, [key, key]);
+    if (existing) {
+      return existing.id;
+    }
+
+    const result = await this.db.run(
+      'INSERT INTO skills (name, normalized_name) VALUES (?, ?)',
+      [name.trim(), key]
+    );
+    return result.lastID;
+  }
+}
+
+module.exports = { SkillRepository, MAX_SEARCH_LIMIT };
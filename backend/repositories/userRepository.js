@@ -0,0 +1,543 @@
+const { escapeLike } = require('../utils/query');
+const { AuditLogRepository } = require('./auditLogRepository');
+const { roundRating } = require('./reviewRepository');
+const { SkillRepository } = require('./skillRepository');
+
+// 사용자 저장소 (users 테이블)
+
+/**
+ * @typedef {'mentor' | 'mentee' | 'admin'} UserRole
+ *
+ * @typedef {Object} User
+ * @property {number} id
+ * @property {string} email
+ * @property {UserRole} role
+ * @property {string | null} name
+ * @property {string | null} bio
+ * @property {string[]} skillsets
+ * @property {UserSkill[]} skillDetails 기술별 숙련도/경력 (skillsets와 같은 순서)
+ * @property {LearningGoal[]} learningGoals 배우고 싶은 기술 (멘티)
+ * @property {boolean} hasProfileImage
+ * @property {string | null} emailVerifiedAt
+ * @property {number} maxMentees 멘토가 동시에 받을 수 있는 최대 멘티 수
+ * @property {number} [activeMentees] 현재 수락된 멘티 수 (멘토 조회에서만 포함)
+ * @property {number | null} [averageRating] 평균 평점 (멘토 조회에서만 포함, 리뷰가 없으면 null)
+ * @property {number} [reviewCount] 리뷰 수 (멘토 조회에서만 포함)
+ * @property {string} timezone IANA 시간대 (멘토 가능 시간 기준)
+ * @property {string | null} suspendedAt 계정 정지 시각 (정지되지 않았으면 null)
+ * @property {string | null} suspensionReason
+ * @property {string} createdAt
+ *
+ * @typedef {Object} UserSkill
+ * @property {string} name
+ * @property {import('./skillRepository').SkillLevel | null} level
+ * @property {number | null} yearsOfExperience
+ *
+ * @typedef {Object} LearningGoal
+ * @property {string} name
+ * @property {import('./skillRepository').SkillLevel | null} currentLevel
+ *
+ * @typedef {Object} UserCredentials
+ * @property {number} id
+ * @property {string} email
+ * @property {UserRole} role
+ * @property {string | null} name
+ * @property {string} passwordHash
+ * @property {string | null} suspendedAt
+ *
+ * @typedef {Object} AccountStatus
+ * @property {UserRole} role
+ * @property {string | null} suspendedAt
+ *
+ * @typedef {Object} UserCounts
+ * @property {number} total
+ * @property {Record<UserRole, number>} byRole
+ * @property {number} suspended
+ *
+ * @typedef {Object} ProfileImage
+ * @property {Buffer} data
+ * @property {string} mimeType
+ */
+
+// 기술 스택 대표 이름 배열 (JSON 문자열, 입력 순서)
+const SKILLS_COLUMN = `(
+  SELECT json_group_array(name) FROM (
+    SELECT s.name FROM user_skills us JOIN skills s ON s.id = us.skill_id
+    WHERE us.user_id = users.id ORDER BY us.position
+  )
+) AS skillsets`;
+
+// 기술별 숙련도/경력 (JSON 문자열, 입력 순서)
+const SKILL_DETAILS_COLUMN = `(
+  SELECT json_group_array(json_object('name', name, 'level', level, 'yearsOfExperience', years_experience)) FROM (
+    SELECT s.name, us.level, us.years_experience FROM user_skills us JOIN skills s ON s.id = us.skill_id
+    WHERE us.user_id = users.id ORDER BY us.position
+  )
+) AS skill_details`;
+
+// 학습 목표 (JSON 문자열, 입력 순서)
+const LEARNING_GOALS_COLUMN = `(
+  SELECT json_group_array(json_object('name', name, 'currentLevel', current_level)) FROM (
+    SELECT s.name, lg.current_level FROM learning_goals lg JOIN skills s ON s.id = lg.skill_id
+    WHERE lg.user_id = users.id ORDER BY lg.position
+  )
+) AS learning_goals`;
+
+// 이미지 BLOB은 필요할 때만 조회
+const USER_COLUMNS = `id, email, role, name, bio, ${SKILLS_COLUMN}, ${SKILL_DETAILS_COLUMN}, ${LEARNING_GOALS_COLUMN},
+  profile_image_type, email_verified_at, max_mentees, timezone, suspended_at, suspension_reason, created_at`;
+
+// 멘토의 현재 멘티 수 (수락된 요청 수)
+const ACTIVE_MENTEES_COLUMN = `(
+  SELECT COUNT(*) FROM matching_requests mr
+  WHERE mr.mentor_id = users.id AND mr.status = 'accepted'
+) AS active_mentees`;
+
+// 멘토의 평균 평점과 리뷰 수
+const RATING_COLUMNS = `
+  (SELECT AVG(r.rating) FROM reviews r WHERE r.mentor_id = users.id) AS average_rating,
+  (SELECT COUNT(*) FROM reviews r WHERE r.mentor_id = users.id) AS review_count`;
+
+// 관리자 사용자 목록 상태 필터
+const ACCOUNT_STATUS_CONDITIONS = {
+  active: 'suspended_at IS NULL',
+  suspended: 'suspended_at IS NOT NULL'
+};
+
+// 멘토 목록 정렬 기준 (order_by 파라미터 → 컬럼)
+const MENTOR_SORT_COLUMNS = {
+  name: 'name',
+  skill: 'lower(skillsets)',
+  created_at: 'created_at',
+  rating: 'average_rating'
+};
+
+// 멘토의 기술 스택 배열 원소 (SKILLS_COLUMN의 대표 이름)
+const SKILL_VALUES = 'json_each(mentors.skillsets)';
+
+// 검색어 → FTS5 MATCH 식 (단어마다 접두어 일치, 모든 단어 포함)
+// 사용자 입력은 FTS5 문법으로 해석되지 않도록 단어별로 따옴표로 감쌈
+function toSearchQuery(query) {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(term => /[\p{L}\p{N}]/u.test(term));
+
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.map(term => `"${term}"*`).join(' ');
+}
+
+// JSON 배열 컬럼 파싱 (잘못된 값이면 빈 배열)
+function parseJsonArray(value, column, userId) {
+  if (!value) {
+    return [];
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    console.error(`Error parsing ${column} for user:`, userId, e);
+    return [];
+  }
+}
+
+/** @returns {User | null} */
+function toUser(row) {
+  if (!row) {
+    return null;
+  }
+
+  const user = {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    name: row.name,
+    bio: row.bio,
+    skillsets: parseJsonArray(row.skillsets, 'skillsets', row.id),
+    skillDetails: parseJsonArray(row.skill_details, 'skill_details', row.id),
+    learningGoals: parseJsonArray(row.learning_goals, 'learning_goals', row.id),
+    hasProfileImage: !!row.profile_image_type,
+    emailVerifiedAt: row.email_verified_at || null,
+    maxMentees: row.max_mentees,
+    timezone: row.timezone,
+    suspendedAt: row.suspended_at || null,
+    suspensionReason: row.suspension_reason || null,
+    createdAt: row.created_at
+  };
+
+  if (row.active_mentees !== undefined) user.activeMentees = row.active_mentees;
+  if (row.average_rating !== undefined) user.averageRating = roundRating(row.average_rating);
+  if (row.review_count !== undefined) user.reviewCount = row.review_count;
+
+  return user;
+}
+
+class UserRepository {
+  /**
+   * @param {import('../models/asyncDatabase').AsyncDatabase} db
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /** @returns {Promise<User | null>} */
+  async findById(id) {
+    const row = await this.db.get(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`, [id]);
+    return toUser(row);
+  }
+
+  /** @returns {Promise<User | null>} */
+  async findByEmail(email) {
+    const row = await this.db.get(`SELECT ${USER_COLUMNS} FROM users WHERE email = ?`, [email]);
+    return toUser(row);
+  }
+
+  /**
+   * 정지된 멘토는 조회되지 않음
+   * viewerId가 있으면 해당 사용자와 차단 관계인 멘토(어느 쪽이 차단했든)도 조회되지 않음
+   * @param {number | string} id
+   * @param {{ viewerId?: number }} [options]
+   * @returns {Promise<User | null>}
+   */
+  async findMentorById(id, { viewerId } = {}) {
+    let query = `SELECT ${USER_COLUMNS}, ${ACTIVE_MENTEES_COLUMN}, ${RATING_COLUMNS}
+       FROM users WHERE id = ? AND role = 'mentor' AND suspended_at IS NULL`;
+    const queryParams = [id];
+
+    if (viewerId) {
+      query += ` AND NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE (b.blocker_id = ? AND b.blocked_id = users.id) OR (b.blocker_id = users.id AND b.blocked_id = ?)
+      )`;
+      queryParams.push(viewerId, viewerId);
+    }
+
+    const row = await this.db.get(query, queryParams);
+    return toUser(row);
+  }
+
+  /** 로그인 검증용 (비밀번호 해시 포함) @returns {Promise<UserCredentials | null>} */
+  async findCredentialsByEmail(email) {
+    const row = await this.db.get(
+      'SELECT id, email, role, name, password, suspended_at FROM users WHERE email = ?',
+      [email]
+    );
+    if (!row) {
+      return null;
+    }
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role,
+      name: row.name,
+      passwordHash: row.password,
+      suspendedAt: row.suspended_at || null
+    };
+  }
+
+  /** 인증 미들웨어용 역할/정지 여부 조회 @returns {Promise<AccountStatus | null>} */
+  async getAccountStatus(id) {
+    const row = await this.db.get('SELECT role, suspended_at FROM users WHERE id = ?', [id]);
+    return row ? { role: row.role, suspendedAt: row.suspended_at || null } : null;
+  }
+
+  async emailExists(email) {
+    const row = await this.db.get('SELECT id FROM users WHERE email = ?', [email]);
+    return !!row;
+  }
+
+  /**
+   * @param {{ email: string, passwordHash: string, name: string, role: UserRole }} user
+   * @returns {Promise<number>} 생성된 사용자 ID
+   */
+  async create({ email, passwordHash, name, role }) {
+    const result = await this.db.run(
+      'INSERT INTO users (email, password, name, role) VALUES (?, ?, ?, ?)',
+      [email, passwordHash, name || '', role]
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 프로필 수정 (undefined인 항목은 변경하지 않음)
+   * skillsets/learningGoals는 같은 트랜잭션에서 교체 (별칭은 대표 이름으로 저장)
+   * @param {number} id
+   * @param {{
+   *   name?: string,
+   *   bio?: string,
+   *   skillsets?: import('./skillRepository').UserSkillInput[],
+   *   learningGoals?: import('./skillRepository').LearningGoalInput[],
+   *   maxMentees?: number
+   * }} fields
+   */
+  async updateProfile(id, { name, bio, skillsets, learningGoals, maxMentees }) {
+    const updateFields = [];
+    const updateParams = [];
+
+    if (name !== undefined) {
+      updateFields.push('name = ?');
+      updateParams.push(name);
+    }
+
+    if (bio !== undefined) {
+      updateFields.push('bio = ?');
+      updateParams.push(bio);
+    }
+
+    if (maxMentees !== undefined) {
+      updateFields.push('max_mentees = ?');
+      updateParams.push(maxMentees);
+    }
+
+    await this.db.transaction(async (tx) => {
+      if (updateFields.length > 0) {
+        updateParams.push(id);
+        await tx.run(`UPDATE users SET ${updateFields.join(', ')} WHERE id = ?`, updateParams);
+      }
+      const skills = new SkillRepository(tx);
+      if (skillsets !== undefined) {
+        await skills.replaceForUser(id, skillsets);
+      }
+      if (learningGoals !== undefined) {
+        await skills.replaceLearningGoals(id, learningGoals);
+      }
+    });
+  }
+
+  async setProfileImage(id, data, mimeType) {
+    await this.db.run(
+      'UPDATE users SET profile_image = ?, profile_image_type = ? WHERE id = ?',
+      [data, mimeType, id]
+    );
+  }
+
+  /** @returns {Promise<ProfileImage | null>} */
+  async findProfileImage(id) {
+    const row = await this.db.get(
+      'SELECT profile_image, profile_image_type FROM users WHERE id = ?',
+      [id]
+    );
+    if (!row || !row.profile_image) {
+      return null;
+    }
+    return { data: row.profile_image, mimeType: row.profile_image_type };
+  }
+
+  /**
+   * 비밀번호 변경
+   * verifyEmail이 true면 아직 인증되지 않은 이메일을 인증된 것으로 함께 처리
+   */
+  async updatePassword(id, passwordHash, { verifyEmail = false } = {}) {
+    const sql = verifyEmail
+      ? `UPDATE users SET password = ?, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+         WHERE id = ?`
+      : 'UPDATE users SET password = ? WHERE id = ?';
+    await this.db.run(sql, [passwordHash, id]);
+  }
+
+  /**
+   * 관리자의 계정 정지 (이미 정지된 계정은 변경하지 않음)
+   * 같은 트랜잭션에서 감사 로그 기록
+   * @param {number} id
+   * @param {{ adminId: number, reason: string }} options
+   * @returns {Promise<boolean>} 정지되었는지
+   */
+  async suspend(id, { adminId, reason }) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        `UPDATE users SET suspended_at = CURRENT_TIMESTAMP, suspension_reason = ?
+         WHERE id = ? AND suspended_at IS NULL`,
+        [reason, id]
+      );
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await new AuditLogRepository(tx).record({
+        adminId,
+        action: 'user.suspended',
+        targetType: 'user',
+        targetId: Number(id),
+        details: { reason }
+      });
+      return true;
+    });
+  }
+
+  /**
+   * 관리자의 계정 정지 해제 (같은 트랜잭션에서 감사 로그 기록)
+   * @param {number} id
+   * @param {{ adminId: number }} options
+   * @returns {Promise<boolean>} 해제되었는지 (정지되지 않은 계정이면 false)
+   */
+  async unsuspend(id, { adminId }) {
+    return this.db.transaction(async (tx) => {
+      const result = await tx.run(
+        `UPDATE users SET suspended_at = NULL, suspension_reason = NULL
+         WHERE id = ? AND suspended_at IS NOT NULL`,
+        [id]
+      );
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await new AuditLogRepository(tx).record({
+        adminId,
+        action: 'user.unsuspended',
+        targetType: 'user',
+        targetId: Number(id)
+      });
+      return true;
+    });
+  }
+
+  async markEmailVerified(id) {
+    await this.db.run(
+      'UPDATE users SET email_verified_at = CURRENT_TIMESTAMP WHERE id = ? AND email_verified_at IS NULL',
+      [id]
+    );
+  }
+
+  /**
+   * 멘토 목록 조회 (필터 + 정렬 + 페이지)
+   * skill: 기술 스택 부분 일치, skills: 기술 스택 정확히 일치 (skillMatch가 'all'이면 모두, 'any'면 하나 이상)
+   * query: 이름/자기소개 키워드 검색 (FTS5), available이 true면 남은 자리가 있는 멘토만 조회
+   * viewerId가 있으면 해당 사용자와 차단 관계인 멘토(어느 쪽이 차단했든)는 제외
+   * limit이 없으면 조건에 맞는 멘토 전체를 반환
+   * @param {{ skill?: string, skills?: string[], skillMatch?: 'any' | 'all', query?: string, available?: boolean,
+   *   viewerId?: number, orderBy?: string, order?: string, limit?: number, offset?: number }} options
+   * @returns {Promise<{ mentors: User[], total: number }>}
+   */
+  async listMentors({
+    skill, skills = [], skillMatch = 'any', query, available, viewerId, orderBy, order, limit, offset = 0
+  } = {}) {
+    const searchQuery = query ? toSearchQuery(query) : null;
+    const conditions = [];
+    const queryParams = [];
+
+    // 검색어가 있으면 일치하는 사용자만 남기고 관련도(rank)를 함께 조회
+    let from = `FROM (
+      SELECT ${USER_COLUMNS}, ${ACTIVE_MENTEES_COLUMN}, ${RATING_COLUMNS}
+      FROM users WHERE role = 'mentor' AND suspended_at IS NULL
+    ) AS mentors`;
+    if (searchQuery) {
+      from += ' JOIN (SELECT rowid, rank AS search_rank FROM user_search WHERE user_search MATCH ?) AS search ON search.rowid = mentors.id';
+      queryParams.push(searchQuery);
+    } else if (query) {
+      // 검색할 단어가 없는 검색어 (예: 기호만 입력)
+      return { mentors: [], total: 0 };
+    }
+
+    if (skill) {
+      conditions.push(`EXISTS (SELECT 1 FROM ${SKILL_VALUES} WHERE lower(value) LIKE lower(?))`);
+      queryParams.push(`%${skill}%`);
+    }
+
+    if (skills.length > 0) {
+      // 일치하는 기술 스택 수가 all이면 요청한 수 이상, any면 1 이상
+      const normalizedSkills = [...new Set(skills.map(s => s.toLowerCase()))];
+      const placeholders = normalizedSkills.map(() => '?').join(', ');
+      conditions.push(`(
+        SELECT COUNT(DISTINCT lower(value)) FROM ${SKILL_VALUES} WHERE lower(value) IN (${placeholders})
+      ) >= ?`);
+      queryParams.push(...normalizedSkills, skillMatch === 'all' ? normalizedSkills.length : 1);
+    }
+
+    if (available) {
+      conditions.push('active_mentees < max_mentees');
+    }
+
+    if (viewerId) {
+      conditions.push(`NOT EXISTS (
+        SELECT 1 FROM user_blocks b
+        WHERE (b.blocker_id = ? AND b.blocked_id = mentors.id) OR (b.blocker_id = mentors.id AND b.blocked_id = ?)
+      )`);
+      queryParams.push(viewerId, viewerId);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+    const sortColumn = orderBy === 'relevance' && searchQuery ? 'search_rank' : MENTOR_SORT_COLUMNS[orderBy];
+    const direction = typeof order === 'string' ? order.toUpperCase() : '';
+    let orderClause;
+
+    if (sortColumn === 'search_rank') {
+      // rank(bm25)는 관련도가 높을수록 작음
+      orderClause = ' ORDER BY search_rank ASC, id ASC';
+    } else if (sortColumn && ['ASC', 'DESC'].includes(direction)) {
+      // 값이 없는 멘토(예: 리뷰가 없어 평점이 NULL)는 정렬 방향과 관계없이 뒤로
+      // 페이지가 겹치지 않도록 같은 값은 ID 순으로 정렬
+      orderClause = ` ORDER BY ${sortColumn} ${direction} NULLS LAST, id ASC`;
+    } else {
+      // 기본값: mentor ID 기준 오름차순 (명세서에 맞게)
+      orderClause = ' ORDER BY id ASC';
+    }
+
+    let listQuery = `SELECT * ${from}${where}${orderClause}`;
+    const listParams = [...queryParams];
+    if (limit) {
+      listQuery += ' LIMIT ? OFFSET ?';
+      listParams.push(limit, offset);
+    }
+
+    const [rows, countRow] = await Promise.all([
+      this.db.all(listQuery, listParams),
+      this.db.get(`SELECT COUNT(*) AS total ${from}${where}`, queryParams)
+    ]);
+
+    return { mentors: rows.map(toUser), total: countRow.total };
+  }
+
+  /**
+   * 사용자 목록 조회 (관리자용, 최신 가입순)
+   * query: 이름 또는 이메일 부분 일치, status: 'active'면 정상 계정, 'suspended'면 정지된 계정만
+   * @param {{ query?: string, role?: UserRole, status?: 'active' | 'suspended', limit: number, offset?: number }} options
+   * @returns {Promise<{ users: User[], total: number }>}
+   */
+  async listForAdmin({ query, role, status, limit, offset = 0 }) {
+    const conditions = [];
+    const queryParams = [];
+
+    if (query) {
+      conditions.push("(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')");
+      const pattern = `%${escapeLike(query)}%`;
+      queryParams.push(pattern, pattern);
+    }
+    if (role) {
+      conditions.push('role = ?');
+      queryParams.push(role);
+    }
+    if (status) {
+      conditions.push(ACCOUNT_STATUS_CONDITIONS[status]);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows, countRow] = await Promise.all([
+      this.db.all(
+        `SELECT ${USER_COLUMNS} FROM users ${where} ORDER BY id DESC LIMIT ? OFFSET ?`,
+        [...queryParams, limit, offset]
+      ),
+      this.db.get(`SELECT COUNT(*) AS total FROM users ${where}`, queryParams)
+    ]);
+
+    return { users: rows.map(toUser), total: countRow.total };
+  }
+
+  /** 역할별 사용자 수와 정지된 계정 수 @returns {Promise<UserCounts>} */
+  async getCounts() {
+    const rows = await this.db.all(
+      `SELECT role, COUNT(*) AS count, COUNT(suspended_at) AS suspended
+       FROM users GROUP BY role`
+    );
+    const counts = { total: 0, byRole: { mentor: 0, mentee: 0, admin: 0 }, suspended: 0 };
+    for (const row of rows) {
+      counts.total += row.count;
+      counts.byRole[row.role] = row.count;
+      counts.suspended += row.suspended;
+    }
+    return counts;
+  }
+}
+
+module.exports = { UserRepository };
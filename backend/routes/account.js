@@ -0,0 +1,242 @@
+const express = require('express');
+const bcrypt = require('bcrypt');
+const { getRepositories } = require('../repositories');
+const { authenticateToken } = require('./auth');
+const { consumeAccountToken } = require('../services/accountTokenService');
+const { sendPasswordResetEmail, sendVerificationEmail } = require('../services/accountMailer');
+const { revokeAllSessions } = require('../services/sessionService');
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ForgotPasswordRequest:
+ *       type: object
+ *       required:
+ *         - email
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: 비밀번호를 재설정할 계정 이메일
+ *     ResetPasswordRequest:
+ *       type: object
+ *       required:
+ *         - token
+ *         - password
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: 메일로 받은 재설정 토큰
+ *         password:
+ *           type: string
+ *           minLength: 6
+ *           description: 새 비밀번호
+ *     VerifyEmailRequest:
+ *       type: object
+ *       required:
+ *         - token
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: 메일로 받은 인증 토큰
+ */
+
+/**
+ * @swagger
+ * /password/forgot:
+ *   post:
+ *     tags: [Account]
+ *     summary: 비밀번호 재설정 메일 요청
+ *     description: 계정이 존재하면 1시간 동안 유효한 1회용 재설정 링크를 메일로 보냅니다. 계정 존재 여부와 관계없이 같은 응답을 반환합니다.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ForgotPasswordRequest'
+ *     responses:
+ *       202:
+ *         description: 요청 접수
+ *       400:
+ *         description: 잘못된 요청 데이터
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/password/forgot', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const { users } = getRepositories();
+    const user = await users.findByEmail(email);
+
+    // 계정 존재 여부를 노출하지 않도록 항상 같은 응답
+    if (user) {
+      await sendPasswordResetEmail(user);
+      console.log(`✅ Password reset requested for user ID: ${user.id}`);
+    }
+
+    res.status(202).json({ message: 'If the email is registered, a reset link has been sent' });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /password/reset:
+ *   post:
+ *     tags: [Account]
+ *     summary: 비밀번호 재설정
+ *     description: 재설정 토큰으로 새 비밀번호를 설정합니다. 성공 시 기존 로그인 세션은 모두 폐기됩니다.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordRequest'
+ *     responses:
+ *       200:
+ *         description: 비밀번호 재설정 성공
+ *       400:
+ *         description: 잘못된 요청 데이터 또는 유효하지 않은/만료된 토큰
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/password/reset', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters long' });
+    }
+
+    const userId = await consumeAccountToken(token, 'password_reset');
+
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    const { users } = getRepositories();
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // 메일로 받은 링크를 통해 재설정했으므로 이메일 소유도 함께 확인된 것으로 처리
+    await users.updatePassword(userId, hashedPassword, { verifyEmail: true });
+
+    // 이전 비밀번호로 로그인된 모든 세션 폐기
+    await revokeAllSessions(userId);
+
+    console.log(`✅ Password reset for user ID: ${userId}`);
+    res.json({ message: 'Password has been reset successfully' });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /email/verification:
+ *   post:
+ *     tags: [Account]
+ *     summary: 이메일 인증 메일 재발송
+ *     description: 로그인한 사용자에게 이메일 인증 링크를 다시 보냅니다
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       202:
+ *         description: 인증 메일 발송
+ *       400:
+ *         description: 이미 인증된 이메일
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/email/verification', authenticateToken, async (req, res) => {
+  try {
+    const { users } = getRepositories();
+    const user = await users.findById(req.user.sub);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(202).json({ message: 'Verification email has been sent' });
+
+  } catch (error) {
+    console.error('Request email verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /email/verify:
+ *   post:
+ *     tags: [Account]
+ *     summary: 이메일 인증 완료
+ *     description: 메일로 받은 인증 토큰으로 이메일 주소를 인증합니다
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VerifyEmailRequest'
+ *     responses:
+ *       200:
+ *         description: 이메일 인증 성공
+ *       400:
+ *         description: 유효하지 않거나 만료된 토큰
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/email/verify', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const userId = await consumeAccountToken(token, 'email_verification');
+
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired verification token' });
+    }
+
+    const { users } = getRepositories();
+    await users.markEmailVerified(userId);
+
+    console.log(`✅ Email verified for user ID: ${userId}`);
+    res.json({ message: 'Email verified successfully' });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
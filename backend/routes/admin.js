@@ -0,0 +1,946 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { MAX_LIST_LIMIT } = require('../repositories/auditLogRepository');
+const { REPORT_STATUSES } = require('../repositories/reportRepository');
+const { closeStreams } = require('../services/eventBus');
+const { MATCHING_STATUSES, normalizeReason } = require('../services/matchingStateMachine');
+const { getExpiresAt } = require('../services/requestExpiry');
+const { revokeAllSessions } = require('../services/sessionService');
+const { parsePositiveInt } = require('../utils/query');
+const { authenticateToken, requireAdmin } = require('./auth');
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 100;
+
+const USER_ROLES = ['mentor', 'mentee', 'admin'];
+const ACCOUNT_STATUSES = ['active', 'suspended'];
+const AUDIT_TARGET_TYPES = ['user', 'matching_request', 'report'];
+
+// 관리자가 강제로 바꿀 수 있는 상태 (가능한 전이는 matchingStateMachine 기준)
+const RESOLVE_STATUSES = ['rejected', 'cancelled', 'completed'];
+
+// 신고 처리 결과: resolved는 조치함, dismissed는 기각
+const REPORT_RESOLUTIONS = ['resolved', 'dismissed'];
+const MAX_NOTE_LENGTH = 500;
+
+function toAdminUserResponse(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    name: user.name || '',
+    emailVerified: !!user.emailVerifiedAt,
+    suspendedAt: user.suspendedAt,
+    suspensionReason: user.suspensionReason,
+    createdAt: user.createdAt
+  };
+}
+
+function toAdminRequestResponse(request) {
+  return {
+    id: request.id,
+    menteeId: request.menteeId,
+    menteeName: request.menteeName ?? null,
+    mentorId: request.mentorId,
+    mentorName: request.mentorName ?? null,
+    message: request.message,
+    status: request.status,
+    statusReason: request.statusReason,
+    createdAt: request.createdAt,
+    updatedAt: request.updatedAt,
+    expiresAt: getExpiresAt(request)
+  };
+}
+
+function toAdminReportResponse(report) {
+  return {
+    id: report.id,
+    reporterId: report.reporterId,
+    reporterName: report.reporterName,
+    reportedUserId: report.reportedUserId,
+    reportedUserName: report.reportedUserName,
+    reportedUserSuspendedAt: report.reportedUserSuspendedAt,
+    requestId: report.requestId,
+    category: report.category,
+    description: report.description,
+    status: report.status,
+    resolvedBy: report.resolvedBy,
+    resolvedByName: report.resolvedByName,
+    resolvedAt: report.resolvedAt,
+    resolutionNote: report.resolutionNote,
+    createdAt: report.createdAt
+  };
+}
+
+// page/limit 쿼리 → 페이지 번호와 크기 (잘못된 값이면 null)
+function parsePage(query) {
+  const page = parsePositiveInt(query.page, 1);
+  const limit = parsePositiveInt(query.limit, DEFAULT_PAGE_SIZE);
+  if (page === null || limit === null) {
+    return null;
+  }
+  return { page, pageSize: Math.min(limit, MAX_PAGE_SIZE) };
+}
+
+function toPageResponse(key, items, total, { page, pageSize }) {
+  return { [key]: items, total, page, totalPages: Math.ceil(total / pageSize) };
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [mentor, mentee, admin]
+ *         name:
+ *           type: string
+ *         emailVerified:
+ *           type: boolean
+ *         suspendedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: 계정 정지 시각 (정지되지 않았으면 null)
+ *         suspensionReason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     AdminMatchingRequest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         menteeId:
+ *           type: integer
+ *         menteeName:
+ *           type: string
+ *           nullable: true
+ *         mentorId:
+ *           type: integer
+ *         mentorName:
+ *           type: string
+ *           nullable: true
+ *         message:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, accepted, rejected, cancelled, expired, completed]
+ *         statusReason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     AuditLogEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         adminId:
+ *           type: integer
+ *           nullable: true
+ *         adminName:
+ *           type: string
+ *           nullable: true
+ *         action:
+ *           type: string
+ *           enum: [user.suspended, user.unsuspended, matching_request.resolved, report.resolved, report.dismissed]
+ *         targetType:
+ *           type: string
+ *           enum: [user, matching_request, report]
+ *         targetId:
+ *           type: integer
+ *         details:
+ *           type: object
+ *           nullable: true
+ *           description: '작업별 부가 정보 (정지 사유 reason, 강제 처리 from/to/reason, 신고 처리 메모 note)'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     AdminReport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         reporterId:
+ *           type: integer
+ *         reporterName:
+ *           type: string
+ *           nullable: true
+ *         reportedUserId:
+ *           type: integer
+ *         reportedUserName:
+ *           type: string
+ *           nullable: true
+ *         reportedUserSuspendedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: 신고된 사용자가 정지된 시각 (정지되지 않았으면 null)
+ *         requestId:
+ *           type: integer
+ *           nullable: true
+ *         category:
+ *           type: string
+ *           enum: [spam, harassment, inappropriate, fake_profile, other]
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [open, resolved, dismissed]
+ *         resolvedBy:
+ *           type: integer
+ *           nullable: true
+ *         resolvedByName:
+ *           type: string
+ *           nullable: true
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         resolutionNote:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     PlatformStats:
+ *       type: object
+ *       properties:
+ *         users:
+ *           type: object
+ *           properties:
+ *             total:
+ *               type: integer
+ *             byRole:
+ *               type: object
+ *               properties:
+ *                 mentor:
+ *                   type: integer
+ *                 mentee:
+ *                   type: integer
+ *                 admin:
+ *                   type: integer
+ *             suspended:
+ *               type: integer
+ *         matchingRequests:
+ *           type: object
+ *           description: 상태별 매칭 요청 수
+ *           additionalProperties:
+ *             type: integer
+ *         upcomingSessions:
+ *           type: integer
+ *           description: 아직 끝나지 않은 예정된 세션 수
+ *         openReports:
+ *           type: integer
+ *           description: 검토 대기 중인 신고 수
+ *         reviews:
+ *           type: object
+ *           properties:
+ *             count:
+ *               type: integer
+ *             averageRating:
+ *               type: number
+ *               nullable: true
+ */
+
+/**
+ * @swagger
+ * /admin/stats:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 플랫폼 현황
+ *     description: 역할별 사용자 수, 상태별 매칭 요청 수, 예정된 세션 수, 리뷰 현황, 검토 대기 중인 신고 수를 가져옵니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 플랫폼 현황
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlatformStats'
+ *       401:
+ *         description: 인증 실패
+ *       403:
+ *         description: 관리자가 아님
+ */
+router.get('/admin/stats', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { users, matchingRequests, bookings, reviews, reports } = getRepositories();
+    const [userCounts, requestCounts, upcomingSessions, reviewSummary, openReports] = await Promise.all([
+      users.getCounts(),
+      matchingRequests.countByStatus(),
+      bookings.countUpcoming(),
+      reviews.getSummary(),
+      reports.countOpen()
+    ]);
+
+    res.json({
+      users: userCounts,
+      matchingRequests: requestCounts,
+      upcomingSessions,
+      reviews: { count: reviewSummary.reviewCount, averageRating: reviewSummary.averageRating },
+      openReports
+    });
+  } catch (error) {
+    console.error('Get platform stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/users:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 사용자 목록/검색
+ *     description: 전체 사용자를 최신 가입순으로 가져옵니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: 이름 또는 이메일 부분 일치
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [mentor, mentee, admin]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, suspended]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: 사용자 목록
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 users:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AdminUser'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *       400:
+ *         description: 잘못된 필터 또는 페이지
+ *       401:
+ *         description: 인증 실패
+ *       403:
+ *         description: 관리자가 아님
+ */
+router.get('/admin/users', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { role, status } = req.query;
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (q.length > MAX_SEARCH_LENGTH) {
+      return res.status(400).json({ error: `q must be at most ${MAX_SEARCH_LENGTH} characters` });
+    }
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+    if (status !== undefined && !ACCOUNT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${ACCOUNT_STATUSES.join(', ')}` });
+    }
+
+    const paging = parsePage(req.query);
+    if (!paging) {
+      return res.status(400).json({ error: 'page and limit must be positive integers' });
+    }
+
+    const { users } = getRepositories();
+    const result = await users.listForAdmin({
+      query: q || undefined,
+      role,
+      status,
+      limit: paging.pageSize,
+      offset: (paging.page - 1) * paging.pageSize
+    });
+
+    res.json(toPageResponse('users', result.users.map(toAdminUserResponse), result.total, paging));
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/users/{userId}/suspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 계정 정지
+ *     description: 사용자의 계정을 정지하고 모든 로그인 세션을 폐기합니다. 정지된 계정은 로그인할 수 없고 멘토 목록에서도 숨겨집니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: 정지 사유 (감사 로그에 기록)
+ *     responses:
+ *       200:
+ *         description: 정지된 사용자
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: 사유 누락 또는 관리자 계정
+ *       403:
+ *         description: 관리자가 아님
+ *       404:
+ *         description: 사용자를 찾을 수 없음
+ *       409:
+ *         description: 이미 정지된 계정
+ */
+router.post('/admin/users/:userId/suspend', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { reason, error: reasonError } = normalizeReason(req.body?.reason);
+    if (reasonError) {
+      return res.status(400).json({ error: reasonError });
+    }
+    if (!reason) {
+      return res.status(400).json({ error: 'Reason is required' });
+    }
+
+    const { users } = getRepositories();
+    const user = await users.findById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.role === 'admin') {
+      return res.status(400).json({ error: 'Admin accounts cannot be suspended' });
+    }
+
+    const suspended = await users.suspend(user.id, { adminId: Number(req.user.sub), reason });
+    if (!suspended) {
+      return res.status(409).json({ error: 'User is already suspended' });
+    }
+
+    // 이미 발급된 토큰도 더 이상 갱신되지 않도록 모든 세션 폐기 (세션 없이 연 실시간 스트림도 닫음)
+    const revokedSessions = await revokeAllSessions(user.id);
+    closeStreams({ userId: user.id });
+    console.log(`⛔ User ${user.id} suspended by admin ${req.user.sub} (${revokedSessions} session(s) revoked)`);
+
+    res.json(toAdminUserResponse(await users.findById(user.id)));
+  } catch (error) {
+    console.error('Suspend user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/users/{userId}/unsuspend:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 계정 정지 해제
+ *     description: 정지된 계정을 다시 사용할 수 있게 합니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 정지 해제된 사용자
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUser'
+ *       403:
+ *         description: 관리자가 아님
+ *       404:
+ *         description: 사용자를 찾을 수 없음
+ *       409:
+ *         description: 정지되지 않은 계정
+ */
+router.post('/admin/users/:userId/unsuspend', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { users } = getRepositories();
+    const user = await users.findById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const unsuspended = await users.unsuspend(user.id, { adminId: Number(req.user.sub) });
+    if (!unsuspended) {
+      return res.status(409).json({ error: 'User is not suspended' });
+    }
+
+    console.log(`✅ User ${user.id} unsuspended by admin ${req.user.sub}`);
+    res.json(toAdminUserResponse(await users.findById(user.id)));
+  } catch (error) {
+    console.error('Unsuspend user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/match-requests:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 전체 매칭 요청 목록
+ *     description: 모든 매칭 요청을 최신순으로 가져옵니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, accepted, rejected, cancelled, expired, completed]
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: integer
+ *         description: 해당 사용자가 멘토 또는 멘티인 요청만 조회
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: 매칭 요청 목록
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 requests:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AdminMatchingRequest'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *       400:
+ *         description: 잘못된 필터 또는 페이지
+ *       403:
+ *         description: 관리자가 아님
+ */
+router.get('/admin/match-requests', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status !== undefined && !MATCHING_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${MATCHING_STATUSES.join(', ')}` });
+    }
+
+    const userId = parsePositiveInt(req.query.userId, undefined);
+    if (userId === null) {
+      return res.status(400).json({ error: 'userId must be a positive integer' });
+    }
+
+    const paging = parsePage(req.query);
+    if (!paging) {
+      return res.status(400).json({ error: 'page and limit must be positive integers' });
+    }
+
+    const { matchingRequests } = getRepositories();
+    const result = await matchingRequests.listAll({
+      status,
+      userId,
+      limit: paging.pageSize,
+      offset: (paging.page - 1) * paging.pageSize
+    });
+
+    res.json(toPageResponse('requests', result.requests.map(toAdminRequestResponse), result.total, paging));
+  } catch (error) {
+    console.error('Admin list matching requests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/match-requests/{id}/resolve:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 매칭 요청 강제 처리
+ *     description: |
+ *       당사자 대신 매칭 요청의 상태를 바꿉니다 (관리자 전용).
+ *       대기 중인 요청은 rejected 또는 cancelled로, 수락된 매칭은 completed로 바꿀 수 있으며
+ *       두 당사자 모두에게 알림이 가고 감사 로그에 기록됩니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *               - reason
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [rejected, cancelled, completed]
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: 처리 사유 (당사자에게 전달되고 감사 로그에 기록)
+ *     responses:
+ *       200:
+ *         description: 처리된 요청
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminMatchingRequest'
+ *       400:
+ *         description: 잘못된 상태 또는 사유 누락
+ *       403:
+ *         description: 관리자가 아님
+ *       404:
+ *         description: 요청을 찾을 수 없음
+ *       409:
+ *         description: 현재 상태에서 바꿀 수 없음 (REQUEST_CONFLICT)
+ */
+router.post('/admin/match-requests/:id/resolve', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.body || {};
+    if (!RESOLVE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${RESOLVE_STATUSES.join(', ')}` });
+    }
+
+    const { reason, error: reasonError } = normalizeReason(req.body.reason);
+    if (reasonError) {
+      return res.status(400).json({ error: reasonError });
+    }
+    if (!reason) {
+      return res.status(400).json({ error: 'Reason is required' });
+    }
+
+    const { matchingRequests } = getRepositories();
+    const actor = { id: Number(req.user.sub), role: 'admin' };
+    const result = await matchingRequests.transition(req.params.id, status, actor, { reason });
+
+    if (result.outcome === 'not_found') {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    if (result.outcome !== 'ok') {
+      return res.status(409).json({
+        error: `Request cannot be ${status} from ${result.request.status}`,
+        code: 'REQUEST_CONFLICT',
+        status: result.request.status
+      });
+    }
+
+    console.log(`✅ Matching request ${req.params.id} resolved as ${status} by admin ${req.user.sub}`);
+    res.json(toAdminRequestResponse(await matchingRequests.findWithParties(req.params.id)));
+  } catch (error) {
+    console.error('Resolve matching request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/reports:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 신고 목록
+ *     description: 사용자가 접수한 신고를 접수순으로 가져옵니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, resolved, dismissed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: 신고 목록
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reports:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AdminReport'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *       400:
+ *         description: 잘못된 필터 또는 페이지
+ *       403:
+ *         description: 관리자가 아님
+ */
+router.get('/admin/reports', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status !== undefined && !REPORT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${REPORT_STATUSES.join(', ')}` });
+    }
+
+    const paging = parsePage(req.query);
+    if (!paging) {
+      return res.status(400).json({ error: 'page and limit must be positive integers' });
+    }
+
+    const { reports } = getRepositories();
+    const result = await reports.listForAdmin({
+      status,
+      limit: paging.pageSize,
+      offset: (paging.page - 1) * paging.pageSize
+    });
+
+    res.json(toPageResponse('reports', result.reports.map(toAdminReportResponse), result.total, paging));
+  } catch (error) {
+    console.error('Admin list reports error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/reports/{id}/resolve:
+ *   post:
+ *     tags: [Admin]
+ *     summary: 신고 처리
+ *     description: |
+ *       검토 대기 중인 신고를 조치함(resolved) 또는 기각(dismissed)으로 처리하고 감사 로그에 기록합니다 (관리자 전용).
+ *       계정 정지가 필요하면 /admin/users/{userId}/suspend를 함께 사용합니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [resolved, dismissed]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: 처리 메모 (감사 로그에 기록)
+ *     responses:
+ *       200:
+ *         description: 처리된 신고
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminReport'
+ *       400:
+ *         description: 잘못된 처리 결과 또는 메모
+ *       403:
+ *         description: 관리자가 아님
+ *       404:
+ *         description: 신고를 찾을 수 없음
+ *       409:
+ *         description: 이미 처리된 신고
+ */
+router.post('/admin/reports/:id/resolve', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.body || {};
+    if (!REPORT_RESOLUTIONS.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${REPORT_RESOLUTIONS.join(', ')}` });
+    }
+
+    if (req.body.note !== undefined && req.body.note !== null && typeof req.body.note !== 'string') {
+      return res.status(400).json({ error: 'Note must be a string' });
+    }
+    const note = (req.body.note || '').trim() || null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      return res.status(400).json({ error: `Note must be at most ${MAX_NOTE_LENGTH} characters` });
+    }
+
+    const { reports } = getRepositories();
+    const report = await reports.findById(req.params.id);
+    if (!report) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    const resolved = await reports.resolve(report.id, { adminId: Number(req.user.sub), status, note });
+    if (!resolved) {
+      return res.status(409).json({ error: 'Report has already been reviewed' });
+    }
+
+    console.log(`✅ Report ${report.id} ${status} by admin ${req.user.sub}`);
+    res.json(toAdminReportResponse(await reports.findById(report.id)));
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/audit-log:
+ *   get:
+ *     tags: [Admin]
+ *     summary: 관리자 작업 감사 로그
+ *     description: 계정 정지/해제, 매칭 요청 강제 처리, 신고 처리 기록을 최신순으로 가져옵니다 (관리자 전용)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [user, matching_request, report]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: integer
+ *         description: targetType과 함께 사용
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: integer
+ *         description: 이 ID보다 오래된 기록만 조회 (다음 페이지)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: 감사 로그
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditLogEntry'
+ *       400:
+ *         description: 잘못된 필터
+ *       403:
+ *         description: 관리자가 아님
+ */
+router.get('/admin/audit-log', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { targetType } = req.query;
+    if (targetType !== undefined && !AUDIT_TARGET_TYPES.includes(targetType)) {
+      return res.status(400).json({ error: `targetType must be one of: ${AUDIT_TARGET_TYPES.join(', ')}` });
+    }
+
+    const targetId = parsePositiveInt(req.query.targetId, undefined);
+    const beforeId = parsePositiveInt(req.query.before, undefined);
+    const limit = parsePositiveInt(req.query.limit, 50);
+    if (targetId === null || beforeId === null || limit === null) {
+      return res.status(400).json({ error: 'targetId, before and limit must be positive integers' });
+    }
+
+    const { auditLog } = getRepositories();
+    const entries = await auditLog.list({
+      targetType,
+      targetId,
+      beforeId,
+      limit: Math.min(limit, MAX_LIST_LIMIT)
+    });
+    res.json(entries);
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,13 +1,30 @@
 const express = require('express');
 const bcrypt = require('bcrypt');
-const jwt = require('jsonwebtoken');
-const { getDatabase } = require('../models/database');
+const { getRepositories } = require('../repositories');
+const {
+  ACCESS_TOKEN_TTL_SECONDS,
+  signAccessToken,
+  verifyAccessToken,
+  issueRefreshToken,
+  rotateRefreshToken,
+  findRefreshToken
+} = require('../services/tokenService');
+const {
+  createSession,
+  touchSession,
+  revokeSession,
+  revokeAccessToken,
+  isAccessTokenRevoked
+} = require('../services/sessionService');
+const { sendVerificationEmail } = require('../services/accountMailer');
+const {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess
+} = require('../services/loginThrottle');
 
 const router = express.Router();
 
-// JWT 비밀키 (실제 운영에서는 환경변수 사용)
-const JWT_SECRET = 'tortee-secret-key-for-mvp';
-
 /**
  * @swagger
  * components:
@@ -50,6 +67,12 @@ const JWT_SECRET = 'tortee-secret-key-for-mvp';
  *         token:
  *           type: string
  *           description: JWT 액세스 토큰
+ *         refreshToken:
+ *           type: string
+ *           description: 액세스 토큰 갱신용 리프레시 토큰 (1회용, 갱신 시 회전)
+ *         expiresIn:
+ *           type: integer
+ *           description: 액세스 토큰 유효기간 (초)
  *         user:
  *           type: object
  *           properties:
@@ -61,12 +84,36 @@ const JWT_SECRET = 'tortee-secret-key-for-mvp';
  *               type: string
  *             name:
  *               type: string
+ *     RefreshTokenRequest:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *           description: 로그인 또는 이전 갱신 시 발급된 리프레시 토큰
  *     ErrorResponse:
  *       type: object
  *       properties:
  *         error:
  *           type: string
  *           description: 오류 메시지
+ *     LoginErrorResponse:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *           description: 오류 메시지
+ *         code:
+ *           type: string
+ *           enum: [INVALID_CREDENTIALS, LOGIN_THROTTLED, ACCOUNT_LOCKED, IP_LOCKED, ACCOUNT_SUSPENDED]
+ *           description: 오류 코드
+ *         retryAfter:
+ *           type: integer
+ *           description: 다시 시도할 수 있을 때까지 남은 시간 (초, 429 응답)
+ *         remainingAttempts:
+ *           type: integer
+ *           description: 계정 잠금까지 남은 시도 횟수 (401 응답)
  */
 
 /**
@@ -124,17 +171,10 @@ router.post('/signup', async (req, res) => {
       return res.status(400).json({ error: 'Password must be at least 6 characters long' });
     }
     
-    const db = getDatabase();
+    const { users } = getRepositories();
     
     // 이메일 중복 확인
-    const existingUser = await new Promise((resolve, reject) => {
-      db.get('SELECT id FROM users WHERE email = ?', [email], (err, row) => {
-        if (err) reject(err);
-        else resolve(row);
-      });
-    });
-    
-    if (existingUser) {
+    if (await users.emailExists(email)) {
       return res.status(409).json({ error: 'Email already exists' });
     }
     
@@ -142,19 +182,18 @@ router.post('/signup', async (req, res) => {
     const hashedPassword = await bcrypt.hash(password, 10);
     
     // 사용자 생성 (name 포함)
-    const result = await new Promise((resolve, reject) => {
-      db.run(
-        'INSERT INTO users (email, password, name, role) VALUES (?, ?, ?, ?)',
-        [email, hashedPassword, name || '', role],
-        function(err) {
-          if (err) reject(err);
-          else resolve({ id: this.lastID });
-        }
-      );
-    });
+    const userId = await users.create({ email, passwordHash: hashedPassword, name, role });
     
-    console.log(`✅ New ${role} registered: ${email} (ID: ${result.id})`);
-    res.status(201).json({ message: 'User created successfully', userId: result.id });
+    console.log(`✅ New ${role} registered: ${email} (ID: ${userId})`);
+    
+    // 이메일 인증 메일 발송 (실패해도 가입은 완료된 상태로 유지)
+    try {
+      await sendVerificationEmail({ id: userId, email, name });
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
+    
+    res.status(201).json({ message: 'User created successfully', userId });
     
   } catch (error) {
     console.error('Signup error:', error);
@@ -187,6 +226,22 @@ router.post('/signup', async (req, res) => {
  *         description: 잘못된 요청 데이터
  *       401:
  *         description: 인증 실패
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginErrorResponse'
+ *       403:
+ *         description: 관리자에 의해 정지된 계정 (ACCOUNT_SUSPENDED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginErrorResponse'
+ *       429:
+ *         description: 시도 횟수 초과로 대기 필요 또는 일시 잠금 (Retry-After 헤더 포함)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginErrorResponse'
  *       500:
  *         description: 서버 오류
  */
@@ -199,55 +254,60 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Email and password are required' });
     }
     
-    const db = getDatabase();
+    // 시도 횟수 제한 확인 (IP 및 계정 기준)
+    const identity = { ip: req.ip, email };
+    const blocked = await checkLoginAllowed(identity);
+    if (blocked) {
+      return sendLoginBlocked(res, blocked);
+    }
     
     // 사용자 조회
-    const user = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT id, email, password, role, name FROM users WHERE email = ?',
-        [email],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    const { users } = getRepositories();
+    const user = await users.findCredentialsByEmail(email);
     
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+    // 존재하지 않는 계정도 같은 방식으로 실패 처리 (계정 존재 여부 노출 방지)
+    const isValidPassword = user ? await bcrypt.compare(password, user.passwordHash) : false;
+    if (!isValidPassword) {
+      const failure = await recordLoginFailure(identity);
+      if (failure.block) {
+        return sendLoginBlocked(res, failure.block);
+      }
+      return res.status(401).json({
+        error: 'Invalid email or password',
+        code: 'INVALID_CREDENTIALS',
+        remainingAttempts: failure.remainingAttempts
+      });
     }
     
-    // 비밀번호 검증
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+    // 비밀번호를 확인하는 동안 동시에 들어온 다른 시도의 실패로 잠기거나 대기 시간에 걸렸으면 로그인하지 않음
+    const blockedAfterVerify = await checkLoginAllowed(identity);
+    if (blockedAfterVerify) {
+      return sendLoginBlocked(res, blockedAfterVerify);
     }
     
-    // JWT 토큰 생성 (RFC 7519 표준 클레임 포함)
-    const now = Math.floor(Date.now() / 1000);
-    const tokenPayload = {
-      // 표준 클레임
-      iss: 'tortee-app',           // Issuer
-      sub: user.id.toString(),     // Subject
-      aud: 'tortee-users',         // Audience
-      exp: now + 3600,             // Expiration (1시간)
-      nbf: now,                    // Not Before
-      iat: now,                    // Issued At
-      jti: `${user.id}-${now}`,    // JWT ID
-      
-      // 커스텀 클레임
-      name: user.name || '',
-      email: user.email,
-      role: user.role
-    };
+    await recordLoginSuccess(identity);
+    
+    // 비밀번호가 맞아도 정지된 계정은 세션을 만들지 않음
+    if (user.suspendedAt) {
+      return res.status(403).json({ error: 'Account is suspended', code: 'ACCOUNT_SUSPENDED' });
+    }
+    
+    // 로그인마다 세션 생성 (기기별 세션 관리 및 폐기 단위)
+    const session = await createSession(user.id, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip
+    });
     
-    const token = jwt.sign(tokenPayload, JWT_SECRET);
+    const token = signAccessToken(user, session.id);
+    const { token: refreshToken } = await issueRefreshToken(user.id, session.id);
     
     console.log(`✅ User logged in: ${email} (${user.role})`);
     
-    // API 명세서에 맞게 token만 반환
+    // API 명세서의 token 필드는 유지하고 갱신용 필드를 추가
     res.json({
-      token
+      token,
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
     });
     
   } catch (error) {
@@ -256,22 +316,189 @@ router.post('/login', async (req, res) => {
   }
 });
 
-// JWT 토큰 검증 미들웨어
-function authenticateToken(req, res, next) {
+// 로그인 차단 응답 (429 + Retry-After)
+function sendLoginBlocked(res, { code, retryAfter }) {
+  const messages = {
+    LOGIN_THROTTLED: 'Too many failed login attempts. Please wait before trying again',
+    ACCOUNT_LOCKED: 'Account is temporarily locked due to too many failed login attempts',
+    IP_LOCKED: 'Too many failed login attempts from this network'
+  };
+  
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: messages[code], code, retryAfter });
+}
+
+/**
+ * @swagger
+ * /token/refresh:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: 액세스 토큰 갱신
+ *     description: 리프레시 토큰으로 새 액세스 토큰을 발급합니다. 사용된 리프레시 토큰은 폐기되고 새 리프레시 토큰이 발급됩니다.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: 갱신 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       400:
+ *         description: 리프레시 토큰 누락
+ *       401:
+ *         description: 유효하지 않거나 만료/폐기된 리프레시 토큰
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/token/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    
+    const rotated = await rotateRefreshToken(refreshToken);
+    
+    if (!rotated) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+    
+    res.json({
+      token: rotated.accessToken,
+      refreshToken: rotated.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
+    });
+    
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /logout:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: 로그아웃
+ *     description: 리프레시 토큰이 속한 세션을 폐기합니다. Authorization 헤더가 있으면 해당 액세스 토큰도 즉시 폐기됩니다.
+ *     security:
+ *       - {}
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       204:
+ *         description: 로그아웃 성공
+ *       400:
+ *         description: 리프레시 토큰 누락
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    
+    // 이미 폐기되었거나 알 수 없는 토큰이어도 결과는 동일 (idempotent 동작)
+    const stored = await findRefreshToken(refreshToken);
+    if (stored) {
+      await revokeSession(stored.family_id, stored.user_id);
+    }
+    
+    // 현재 액세스 토큰도 만료 전까지 사용할 수 없도록 폐기 목록에 추가
+    const accessToken = extractBearerToken(req);
+    if (accessToken) {
+      const payload = await new Promise((resolve) => {
+        verifyAccessToken(accessToken, (err, decoded) => resolve(err ? null : decoded));
+      });
+      if (payload && payload.jti) {
+        await revokeAccessToken(payload.jti, payload.sub, payload.exp);
+      }
+    }
+    
+    res.status(204).end();
+    
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function extractBearerToken(req) {
   const authHeader = req.headers.authorization;
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  return authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+}
+
+// JWT 토큰 검증 미들웨어 (서명 검증 후 폐기 목록, 세션 상태, 계정 정지 여부 확인)
+function authenticateToken(req, res, next) {
+  const token = extractBearerToken(req);
   
   if (!token) {
     return res.status(401).json({ error: 'Access token required' });
   }
   
-  jwt.verify(token, JWT_SECRET, (err, user) => {
+  verifyAccessToken(token, async (err, user) => {
     if (err) {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
+    
+    try {
+      if (await isAccessTokenRevoked(user.jti)) {
+        return res.status(401).json({ error: 'Token has been revoked' });
+      }
+      
+      // 세션 정보가 있는 토큰은 세션이 폐기되지 않았는지 확인
+      if (user.sid && !(await touchSession(user.sid, user.sub))) {
+        return res.status(401).json({ error: 'Session has been revoked' });
+      }
+      
+      // 정지된 계정은 만료 전 액세스 토큰이 남아 있어도 사용할 수 없음
+      const account = await getRepositories().users.getAccountStatus(user.sub);
+      if (!account) {
+        return res.status(401).json({ error: 'User not found' });
+      }
+      if (account.suspendedAt) {
+        return res.status(403).json({ error: 'Account is suspended', code: 'ACCOUNT_SUSPENDED' });
+      }
+    } catch (error) {
+      console.error('Token revocation check error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
     req.user = user;
     next();
   });
 }
 
-module.exports = { router, authenticateToken };
+// 인증 없이도 조회할 수 있는 API용: 토큰이 있을 때만 검증하여 req.user 설정 (없으면 그대로 진행)
+function optionalAuthenticateToken(req, res, next) {
+  if (!extractBearerToken(req)) {
+    return next();
+  }
+  authenticateToken(req, res, next);
+}
+
+// 관리자 전용 API 권한 확인 (authenticateToken 다음에 사용)
+function requireAdmin(req, res, next) {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+}
+
+module.exports = { router, authenticateToken, optionalAuthenticateToken, requireAdmin };
@@ -0,0 +1,164 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { isValidTimeZone, validateAvailabilitySlots } = require('../services/scheduling');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AvailabilitySlot:
+ *       type: object
+ *       required:
+ *         - weekday
+ *         - startTime
+ *         - endTime
+ *       properties:
+ *         id:
+ *           type: integer
+ *         weekday:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *           description: 요일 (0 = 일요일)
+ *         startTime:
+ *           type: string
+ *           example: '09:00'
+ *           description: 시작 시각 (멘토 시간대 기준 HH:MM)
+ *         endTime:
+ *           type: string
+ *           example: '12:00'
+ *           description: 종료 시각 (멘토 시간대 기준 HH:MM)
+ *     Availability:
+ *       type: object
+ *       properties:
+ *         timezone:
+ *           type: string
+ *           example: Asia/Seoul
+ *           description: IANA 시간대
+ *         slots:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AvailabilitySlot'
+ */
+
+/**
+ * @swagger
+ * /mentors/{mentorId}/availability:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 멘토 주간 가능 시간 조회
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: mentorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 멘토 ID
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Availability'
+ *       404:
+ *         description: 멘토를 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/mentors/:mentorId/availability', authenticateToken, async (req, res) => {
+  try {
+    const { availability } = getRepositories();
+    const result = await availability.findForMentor(req.params.mentorId);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Mentor not found' });
+    }
+
+    res.json(result);
+
+  } catch (error) {
+    console.error('Get availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /me/availability:
+ *   put:
+ *     tags: [Scheduling]
+ *     summary: 내 주간 가능 시간 설정 (멘토 전용)
+ *     description: 시간대와 가능 시간 전체를 교체합니다. 같은 요일의 가능 시간은 겹칠 수 없습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timezone
+ *               - slots
+ *             properties:
+ *               timezone:
+ *                 type: string
+ *                 example: Asia/Seoul
+ *               slots:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/AvailabilitySlot'
+ *     responses:
+ *       200:
+ *         description: 설정 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Availability'
+ *       400:
+ *         description: 잘못된 시간대 또는 가능 시간
+ *       403:
+ *         description: 멘토만 설정 가능
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/me/availability', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'mentor') {
+      return res.status(403).json({ error: 'Only mentors can set availability' });
+    }
+
+    const { timezone, slots } = req.body;
+
+    if (!isValidTimeZone(timezone)) {
+      return res.status(400).json({ error: 'timezone must be a valid IANA time zone' });
+    }
+
+    const slotsError = validateAvailabilitySlots(slots);
+    if (slotsError) {
+      return res.status(400).json({ error: slotsError });
+    }
+
+    const { availability } = getRepositories();
+    const result = await availability.replaceForMentor(req.user.sub, { timezone, slots });
+
+    console.log(`✅ Availability updated for mentor ID: ${req.user.sub} (${result.slots.length} slots, ${timezone})`);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Update availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,169 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BlockedUser:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           nullable: true
+ *         role:
+ *           type: string
+ *           enum: [mentor, mentee]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: 차단한 시각
+ */
+
+/**
+ * @swagger
+ * /blocks:
+ *   get:
+ *     tags: [Blocks]
+ *     summary: 차단한 사용자 목록
+ *     description: 로그인한 사용자가 차단한 사용자를 최근 차단순으로 가져옵니다
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 차단한 사용자 목록
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/BlockedUser'
+ *       401:
+ *         description: 인증 실패
+ */
+router.get('/blocks', authenticateToken, async (req, res) => {
+  try {
+    const { blocks } = getRepositories();
+    res.json(await blocks.listBlocked(req.user.sub));
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /blocks:
+ *   post:
+ *     tags: [Blocks]
+ *     summary: 사용자 차단
+ *     description: |
+ *       상대 사용자를 차단합니다. 차단은 양방향으로 적용되어
+ *       멘티에게는 해당 멘토가 멘토 목록과 추천에서 보이지 않고, 멘티는 해당 멘토에게 매칭 요청을 보낼 수 없습니다.
+ *       두 사용자 사이의 대기 중인 요청은 함께 취소(차단한 쪽이 멘티) 또는 거절(차단한 쪽이 멘토)되며,
+ *       이미 수락된 매칭은 유지되지만 메시지와 새 세션 예약은 할 수 없습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: 차단됨
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BlockedUser'
+ *       400:
+ *         description: 잘못된 사용자 ID, 자기 자신 또는 관리자 계정
+ *       401:
+ *         description: 인증 실패
+ *       404:
+ *         description: 사용자를 찾을 수 없음
+ *       409:
+ *         description: 이미 차단한 사용자
+ */
+router.post('/blocks', authenticateToken, async (req, res) => {
+  try {
+    const userId = Number(req.body?.userId);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return res.status(400).json({ error: 'userId must be a positive integer' });
+    }
+    if (String(userId) === String(req.user.sub)) {
+      return res.status(400).json({ error: 'You cannot block yourself' });
+    }
+
+    const { users, blocks } = getRepositories();
+    const target = await users.findById(userId);
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (target.role === 'admin') {
+      return res.status(400).json({ error: 'Admin accounts cannot be blocked' });
+    }
+
+    const created = await blocks.block(Number(req.user.sub), userId);
+    if (!created) {
+      return res.status(409).json({ error: 'User is already blocked' });
+    }
+
+    console.log(`🚫 User ${req.user.sub} blocked user ${userId}`);
+    const blocked = await blocks.listBlocked(req.user.sub);
+    res.status(201).json(blocked.find(entry => entry.userId === userId));
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /blocks/{userId}:
+ *   delete:
+ *     tags: [Blocks]
+ *     summary: 차단 해제
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: 차단 해제됨
+ *       401:
+ *         description: 인증 실패
+ *       404:
+ *         description: 차단하지 않은 사용자
+ */
+router.delete('/blocks/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { blocks } = getRepositories();
+    const removed = await blocks.unblock(req.user.sub, req.params.userId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Block not found' });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
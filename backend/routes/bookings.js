@@ -0,0 +1,748 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { config } = require('../config');
+const {
+  MIN_SESSION_MINUTES,
+  MAX_SESSION_MINUTES,
+  MAX_SLOT_RANGE_DAYS,
+  isWithinAvailability,
+  listOpenSlots
+} = require('../services/scheduling');
+const { buildCalendar } = require('../utils/ics');
+const { parseDbTimestamp } = require('../utils/dbTimestamp');
+const { parsePositiveInt } = require('../utils/query');
+const { isParty, loadMatch } = require('../utils/matchAccess');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const NOTE_MAX_LENGTH = 500;
+const REASON_MAX_LENGTH = 500;
+// 전체 캘린더 내보내기에 포함할 지난 예약 기간 (일)
+const CALENDAR_PAST_DAYS = 30;
+
+function toBookingResponse(booking) {
+  return {
+    id: booking.id,
+    requestId: booking.requestId,
+    mentorId: booking.mentorId,
+    mentorName: booking.mentorName,
+    menteeId: booking.menteeId,
+    menteeName: booking.menteeName,
+    startsAt: booking.startsAt,
+    endsAt: booking.endsAt,
+    status: booking.status,
+    note: booking.note,
+    cancelledBy: booking.cancelledBy,
+    cancelReason: booking.cancelReason,
+    createdAt: booking.createdAt
+  };
+}
+
+function toCalendarEvent(booking) {
+  const description = [
+    booking.note,
+    `${config.app.url}/matches/${booking.requestId}`
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    uid: `booking-${booking.id}@tortee`,
+    start: booking.startsAt,
+    end: booking.endsAt,
+    summary: `멘토링 세션: ${booking.mentorName || '멘토'} · ${booking.menteeName || '멘티'}`,
+    description,
+    status: booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    sequence: booking.sequence,
+    updatedAt: parseDbTimestamp(booking.updatedAt)
+  };
+}
+
+function sendCalendar(res, filename, events) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(buildCalendar(events, { name: 'Tortee 멘토링' }));
+}
+
+// 세션 시작/종료 시각 검증. { error } 또는 { startsAt, endsAt } 반환
+function parseSessionTime({ startsAt, endsAt }) {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+
+  if (typeof startsAt !== 'string' || typeof endsAt !== 'string' || isNaN(start) || isNaN(end)) {
+    return { error: 'startsAt and endsAt must be ISO 8601 date-times' };
+  }
+
+  const minutes = (end - start) / MINUTE_MS;
+  if (!Number.isInteger(minutes) || minutes < MIN_SESSION_MINUTES || minutes > MAX_SESSION_MINUTES) {
+    return { error: `Sessions must be between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES} minutes long` };
+  }
+
+  if (start <= new Date()) {
+    return { error: 'Sessions must start in the future' };
+  }
+
+  return { startsAt: start, endsAt: end };
+}
+
+// 멘토의 가능 시간 안인지 확인. 아니면 400 응답 후 false 반환
+async function checkAvailability(res, mentorId, startsAt, endsAt) {
+  const { availability } = getRepositories();
+  const mentorAvailability = await availability.findForMentor(mentorId);
+
+  if (!mentorAvailability || !isWithinAvailability(mentorAvailability, startsAt, endsAt)) {
+    res.status(400).json({
+      error: "This time is outside the mentor's availability",
+      code: 'OUTSIDE_AVAILABILITY'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+// 예약/일정 변경 결과를 응답으로 변환
+function sendBookingResult(res, result, status = 200) {
+  if (result.outcome === 'conflict') {
+    return res.status(409).json({
+      error: 'This time conflicts with another booking',
+      code: 'BOOKING_CONFLICT'
+    });
+  }
+  if (result.outcome === 'not_active') {
+    return res.status(409).json({
+      error: 'Booking is no longer active',
+      code: 'BOOKING_NOT_ACTIVE'
+    });
+  }
+  return res.status(status).json(toBookingResponse(result.booking));
+}
+
+// 요청한 사용자가 당사자인 예약 조회. 없거나 권한이 없으면 404 응답 후 null 반환
+async function loadBooking(req, res) {
+  const { bookings } = getRepositories();
+  const booking = await bookings.findById(req.params.id);
+
+  if (!booking || !isParty(booking, req.user.sub)) {
+    res.status(404).json({ error: 'Booking not found' });
+    return null;
+  }
+
+  return booking;
+}
+
+// 예약 중이고 아직 시작하지 않은 예약만 변경 가능. 아니면 409 응답 후 false 반환
+function checkChangeable(res, booking) {
+  if (booking.status !== 'scheduled' || new Date(booking.startsAt) <= new Date()) {
+    res.status(409).json({
+      error: 'Booking is no longer active',
+      code: 'BOOKING_NOT_ACTIVE'
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Booking:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         requestId:
+ *           type: integer
+ *           description: 매칭 요청 ID
+ *         mentorId:
+ *           type: integer
+ *         mentorName:
+ *           type: string
+ *         menteeId:
+ *           type: integer
+ *         menteeName:
+ *           type: string
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [scheduled, cancelled]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         cancelledBy:
+ *           type: integer
+ *           nullable: true
+ *         cancelReason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     SessionTime:
+ *       type: object
+ *       required:
+ *         - startsAt
+ *         - endsAt
+ *       properties:
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /matches/{id}/slots:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 예약 가능한 세션 시간 조회
+ *     description: 멘토의 가능 시간 중 멘토와 멘티 모두 다른 예약이 없는 시간을 30분 간격으로 반환합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: 조회 시작 시각 (기본값 현재)
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 14
+ *           maximum: 31
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: integer
+ *           default: 60
+ *         description: 세션 길이 (분, 15 ~ 240)
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: integer
+ *         description: 충돌 확인에서 제외할 예약 ID (일정 변경 시)
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 timezone:
+ *                   type: string
+ *                   description: 멘토 시간대
+ *                 slots:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SessionTime'
+ *       400:
+ *         description: 잘못된 조회 조건
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/matches/:id/slots', authenticateToken, async (req, res) => {
+  try {
+    const days = parsePositiveInt(req.query.days, 14);
+    const duration = parsePositiveInt(req.query.duration, 60);
+    const excludeId = parsePositiveInt(req.query.exclude, undefined);
+    const now = new Date();
+    const from = req.query.from ? new Date(req.query.from) : now;
+
+    if (days === null || duration === null || excludeId === null) {
+      return res.status(400).json({ error: 'days, duration and exclude must be positive integers' });
+    }
+    if (isNaN(from)) {
+      return res.status(400).json({ error: 'from must be an ISO 8601 date-time' });
+    }
+    if (days > MAX_SLOT_RANGE_DAYS) {
+      return res.status(400).json({ error: `days must be at most ${MAX_SLOT_RANGE_DAYS}` });
+    }
+    if (duration < MIN_SESSION_MINUTES || duration > MAX_SESSION_MINUTES) {
+      return res.status(400).json({ error: `duration must be between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES} minutes` });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { availability, bookings } = getRepositories();
+    const mentorAvailability = await availability.findForMentor(request.mentorId);
+    const start = from < now ? now : from;
+    const busy = await bookings.listBusy({
+      mentorId: request.mentorId,
+      menteeId: request.menteeId,
+      from: start,
+      excludeId
+    });
+
+    res.json({
+      timezone: mentorAvailability.timezone,
+      slots: listOpenSlots(mentorAvailability, busy, { from: start, days, durationMinutes: duration })
+    });
+
+  } catch (error) {
+    console.error('Get open slots error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/bookings:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 매칭의 세션 예약 목록
+ *     description: 취소된 예약을 포함해 시작 시각 순으로 반환합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Booking'
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/matches/:id/bookings', authenticateToken, async (req, res) => {
+  try {
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { bookings } = getRepositories();
+    const list = await bookings.listForRequest(request.id);
+
+    res.json(list.map(toBookingResponse));
+
+  } catch (error) {
+    console.error('Get match bookings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/bookings:
+ *   post:
+ *     tags: [Scheduling]
+ *     summary: 세션 예약 (멘티 전용)
+ *     description: 수락된 매칭의 멘티가 멘토의 가능 시간 안에서 세션을 예약합니다. 멘토나 멘티의 다른 예약과 겹치면 409를 반환합니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/SessionTime'
+ *               - type: object
+ *                 properties:
+ *                   note:
+ *                     type: string
+ *                     maxLength: 500
+ *     responses:
+ *       201:
+ *         description: 예약 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: 잘못된 시간 또는 멘토 가능 시간 밖 (OUTSIDE_AVAILABILITY)
+ *       403:
+ *         description: 멘티만 예약 가능, 또는 멘토와 멘티 중 한쪽이 상대를 차단함 (USER_BLOCKED)
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       409:
+ *         description: 다른 예약과 겹침 (BOOKING_CONFLICT) 또는 완료된 매칭 (MATCH_NOT_ACTIVE)
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/matches/:id/bookings', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'mentee') {
+      return res.status(403).json({ error: 'Only mentees can book sessions' });
+    }
+
+    const time = parseSessionTime(req.body);
+    if (time.error) {
+      return res.status(400).json({ error: time.error });
+    }
+
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+    if (note.length > NOTE_MAX_LENGTH) {
+      return res.status(400).json({ error: `Note must be at most ${NOTE_MAX_LENGTH} characters` });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    if (request.status !== 'accepted') {
+      return res.status(409).json({
+        error: 'Sessions can only be booked for active matches',
+        code: 'MATCH_NOT_ACTIVE'
+      });
+    }
+
+    const { bookings, blocks } = getRepositories();
+    if (await blocks.isBlockedBetween(request.menteeId, request.mentorId)) {
+      return res.status(403).json({ error: 'You cannot book a session with this mentor', code: 'USER_BLOCKED' });
+    }
+
+    if (!(await checkAvailability(res, request.mentorId, time.startsAt, time.endsAt))) return;
+
+    const result = await bookings.create({
+      request,
+      startsAt: time.startsAt,
+      endsAt: time.endsAt,
+      note: note || null,
+      actor: { id: req.user.sub, role: req.user.role }
+    });
+
+    if (result.outcome === 'ok') {
+      console.log(`✅ Session booked: booking ID ${result.booking.id} for request ID ${request.id}`);
+    }
+    sendBookingResult(res, result, 201);
+
+  } catch (error) {
+    console.error('Create booking error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /bookings:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 내 세션 예약 목록
+ *     description: 멘토 또는 멘티로 참여하는 예약을 시작 시각 순으로 반환합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: 이 시각 이후에 끝나는 예약만 조회
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: 이 시각 이전에 시작하는 예약만 조회
+ *       - in: query
+ *         name: includeCancelled
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: 잘못된 조회 조건
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/bookings', authenticateToken, async (req, res) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from) : undefined;
+    const to = req.query.to ? new Date(req.query.to) : undefined;
+
+    if ((from && isNaN(from)) || (to && isNaN(to))) {
+      return res.status(400).json({ error: 'from and to must be ISO 8601 date-times' });
+    }
+
+    const { bookings } = getRepositories();
+    const list = await bookings.listForUser(req.user.sub, {
+      from,
+      to,
+      includeCancelled: req.query.includeCancelled === 'true'
+    });
+
+    res.json(list.map(toBookingResponse));
+
+  } catch (error) {
+    console.error('Get bookings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /bookings/calendar.ics:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 내 세션 예약 전체 iCalendar 내보내기
+ *     description: 최근 30일 이후의 예약을 .ics 파일로 내려받습니다. 취소된 예약은 STATUS:CANCELLED로 포함되어 가져온 캘린더에서도 취소됩니다.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: iCalendar 파일
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/bookings/calendar.ics', authenticateToken, async (req, res) => {
+  try {
+    const { bookings } = getRepositories();
+    const list = await bookings.listForUser(req.user.sub, {
+      from: new Date(Date.now() - CALENDAR_PAST_DAYS * DAY_MS),
+      includeCancelled: true
+    });
+
+    sendCalendar(res, 'tortee-sessions.ics', list.map(toCalendarEvent));
+
+  } catch (error) {
+    console.error('Export calendar error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/ics:
+ *   get:
+ *     tags: [Scheduling]
+ *     summary: 세션 예약 iCalendar 내보내기
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 예약 ID
+ *     responses:
+ *       200:
+ *         description: iCalendar 파일
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: 예약을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/bookings/:id/ics', authenticateToken, async (req, res) => {
+  try {
+    const booking = await loadBooking(req, res);
+    if (!booking) return;
+
+    sendCalendar(res, `tortee-session-${booking.id}.ics`, [toCalendarEvent(booking)]);
+
+  } catch (error) {
+    console.error('Export booking error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/reschedule:
+ *   put:
+ *     tags: [Scheduling]
+ *     summary: 세션 일정 변경
+ *     description: 멘토나 멘티가 아직 시작하지 않은 예약의 시간을 변경합니다. 새 시간도 멘토 가능 시간 안이어야 하며 다른 예약과 겹칠 수 없습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 예약 ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SessionTime'
+ *     responses:
+ *       200:
+ *         description: 변경 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: 잘못된 시간 또는 멘토 가능 시간 밖 (OUTSIDE_AVAILABILITY)
+ *       404:
+ *         description: 예약을 찾을 수 없음
+ *       409:
+ *         description: 다른 예약과 겹침 (BOOKING_CONFLICT), 이미 취소되었거나 지난 예약 (BOOKING_NOT_ACTIVE), 완료된 매칭 (MATCH_NOT_ACTIVE)
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/bookings/:id/reschedule', authenticateToken, async (req, res) => {
+  try {
+    const time = parseSessionTime(req.body);
+    if (time.error) {
+      return res.status(400).json({ error: time.error });
+    }
+
+    const booking = await loadBooking(req, res);
+    if (!booking) return;
+    if (!checkChangeable(res, booking)) return;
+
+    const { matchingRequests, bookings } = getRepositories();
+    const request = await matchingRequests.findById(booking.requestId);
+    if (!request || request.status !== 'accepted') {
+      return res.status(409).json({
+        error: 'Sessions can only be booked for active matches',
+        code: 'MATCH_NOT_ACTIVE'
+      });
+    }
+
+    if (!(await checkAvailability(res, booking.mentorId, time.startsAt, time.endsAt))) return;
+
+    const result = await bookings.reschedule(booking.id, time, { id: req.user.sub, role: req.user.role });
+
+    if (result.outcome === 'ok') {
+      console.log(`✅ Session rescheduled: booking ID ${booking.id}`);
+    }
+    sendBookingResult(res, result);
+
+  } catch (error) {
+    console.error('Reschedule booking error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /bookings/{id}/cancel:
+ *   put:
+ *     tags: [Scheduling]
+ *     summary: 세션 예약 취소
+ *     description: 멘토나 멘티가 아직 시작하지 않은 예약을 취소합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 예약 ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: 취소 사유 (선택)
+ *     responses:
+ *       200:
+ *         description: 취소 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: 잘못된 요청
+ *       404:
+ *         description: 예약을 찾을 수 없음
+ *       409:
+ *         description: 이미 취소되었거나 지난 예약 (BOOKING_NOT_ACTIVE)
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/bookings/:id/cancel', authenticateToken, async (req, res) => {
+  try {
+    const reason = req.body && typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (reason.length > REASON_MAX_LENGTH) {
+      return res.status(400).json({ error: `Reason must be at most ${REASON_MAX_LENGTH} characters` });
+    }
+
+    const booking = await loadBooking(req, res);
+    if (!booking) return;
+    if (!checkChangeable(res, booking)) return;
+
+    const { bookings } = getRepositories();
+    const result = await bookings.cancel(booking.id, { id: req.user.sub, role: req.user.role }, reason || null);
+
+    if (result.outcome === 'ok') {
+      console.log(`✅ Session cancelled: booking ID ${booking.id}`);
+    }
+    sendBookingResult(res, result);
+
+  } catch (error) {
+    console.error('Cancel booking error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
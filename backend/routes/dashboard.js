@@ -0,0 +1,216 @@
+const express = require('express');
+const { buildDashboard } = require('../services/dashboard');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DashboardSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: 예약 ID
+ *         requestId:
+ *           type: integer
+ *         partnerId:
+ *           type: integer
+ *           description: 상대방 사용자 ID
+ *         partnerName:
+ *           type: string
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *     DashboardMatch:
+ *       type: object
+ *       properties:
+ *         requestId:
+ *           type: integer
+ *         partnerId:
+ *           type: integer
+ *         partnerName:
+ *           type: string
+ *           nullable: true
+ *         unreadMessages:
+ *           type: integer
+ *         nextSessionAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: 다음 예약 시작 시각
+ *     MentorDashboard:
+ *       type: object
+ *       properties:
+ *         role:
+ *           type: string
+ *           enum: [mentor]
+ *         unreadNotifications:
+ *           type: integer
+ *         upcomingSessions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardSession'
+ *         pendingRequests:
+ *           type: object
+ *           properties:
+ *             count:
+ *               type: integer
+ *             oldest:
+ *               type: array
+ *               description: 만료가 가까운 순 (최대 5개)
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: integer
+ *                   menteeId:
+ *                     type: integer
+ *                   menteeName:
+ *                     type: string
+ *                     nullable: true
+ *                   message:
+ *                     type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *         mentees:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardMatch'
+ *         capacity:
+ *           type: object
+ *           properties:
+ *             activeMentees:
+ *               type: integer
+ *             maxMentees:
+ *               type: integer
+ *         stats:
+ *           type: object
+ *           properties:
+ *             medianResponseHours:
+ *               type: number
+ *               nullable: true
+ *             acceptanceRate:
+ *               type: number
+ *               nullable: true
+ *             activeMentees:
+ *               type: integer
+ *             decidedRequests:
+ *               type: integer
+ *             averageRating:
+ *               type: number
+ *               nullable: true
+ *             reviewCount:
+ *               type: integer
+ *     MenteeDashboard:
+ *       type: object
+ *       properties:
+ *         role:
+ *           type: string
+ *           enum: [mentee]
+ *         unreadNotifications:
+ *           type: integer
+ *         upcomingSessions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardSession'
+ *         requests:
+ *           type: object
+ *           properties:
+ *             counts:
+ *               type: object
+ *               description: 상태별 요청 수
+ *               additionalProperties:
+ *                 type: integer
+ *             recent:
+ *               type: array
+ *               description: 최근 요청 (최대 5개)
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: integer
+ *                   mentorId:
+ *                     type: integer
+ *                   mentorName:
+ *                     type: string
+ *                     nullable: true
+ *                   status:
+ *                     type: string
+ *                     enum: [pending, accepted, rejected, cancelled, expired, completed]
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   expiresAt:
+ *                     type: string
+ *                     format: date-time
+ *         mentors:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardMatch'
+ *         nextSteps:
+ *           type: array
+ *           description: 제안하는 다음 할 일 (우선순위 순)
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 enum: [READ_MESSAGES, BOOK_SESSION, WRITE_REVIEW, WAITING_FOR_RESPONSE, FIND_MENTOR, SET_LEARNING_GOALS, COMPLETE_PROFILE]
+ *               requestId:
+ *                 type: integer
+ *                 description: 관련 매칭 요청 ID (해당하는 경우에만)
+ */
+
+/**
+ * @swagger
+ * /dashboard:
+ *   get:
+ *     tags: [Dashboard]
+ *     summary: 대시보드 조회
+ *     description: 로그인한 사용자의 역할에 맞는 대시보드 정보를 한 번에 가져옵니다
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 대시보드
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/MentorDashboard'
+ *                 - $ref: '#/components/schemas/MenteeDashboard'
+ *       401:
+ *         description: 인증 실패
+ *       403:
+ *         description: 관리자 계정 (관리자는 /admin/stats 사용)
+ *       404:
+ *         description: 사용자를 찾을 수 없음
+ */
+router.get('/dashboard', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role === 'admin') {
+      return res.status(403).json({ error: 'Dashboard is only available for mentors and mentees' });
+    }
+
+    const dashboard = await buildDashboard(req.user.sub);
+    if (!dashboard) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(dashboard);
+  } catch (error) {
+    console.error('Get dashboard error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,90 @@
+const express = require('express');
+const { subscribe, registerStream } = require('../services/eventBus');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+// 프록시/로드밸런서가 유휴 연결을 끊지 않도록 주기적으로 보내는 주석 행
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// 연결이 끊겼을 때 클라이언트가 다시 연결하기까지 대기할 시간
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+function writeEvent(res, type, data) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * @swagger
+ * /events:
+ *   get:
+ *     tags: [Events]
+ *     summary: 실시간 이벤트 스트림 (Server-Sent Events)
+ *     description: |
+ *       로그인한 사용자와 관련된 이벤트를 text/event-stream으로 전달합니다.
+ *       EventSource는 Authorization 헤더를 보낼 수 없으므로 fetch 스트림으로 연결합니다.
+ *       액세스 토큰이 만료되면 서버가 스트림을 닫으므로, `ready`의 `expiresIn`(초)을 보고
+ *       만료 전에 토큰을 갱신해 다시 연결해야 합니다.
+ *       로그아웃, 세션 폐기, 계정 정지 시에도 해당 토큰으로 연 스트림은 즉시 닫힙니다.
+ *
+ *       - `ready`: 연결됨 (`{ userId, expiresIn }`, expiresIn은 스트림을 연 토큰의 남은 유효시간)
+ *       - `request.updated`: 관련 매칭 요청의 상태 변경 (`{ requestId, status }`)
+ *       - `notification`: 새 알림 (`{ id, type, requestId }`)
+ *       - `message.created`: 매칭 대화의 새 메시지 (`{ requestId, message }`)
+ *       - `messages.read`: 상대방이 메시지를 읽음 (`{ requestId, readerId, upToId, readAt }`)
+ *       - `booking.updated`: 세션 예약/일정 변경/취소 (`{ bookingId, requestId, status }`)
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 이벤트 스트림
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: 인증 필요
+ */
+router.get('/events', authenticateToken, (req, res) => {
+  const userId = req.user.sub;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // nginx 등 리버스 프록시의 응답 버퍼링 비활성화
+    'X-Accel-Buffering': 'no'
+  });
+  // 클라이언트가 만료 전에 미리 갱신하도록 남은 유효시간을 함께 전달 (시계 차이와 무관한 상대 시간)
+  const expiresInMs = req.user.exp ? req.user.exp * 1000 - Date.now() : null;
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  writeEvent(res, 'ready', {
+    userId: Number(userId),
+    expiresIn: expiresInMs !== null ? Math.max(Math.floor(expiresInMs / 1000), 0) : null
+  });
+
+  const unsubscribe = subscribe(userId, (event) => writeEvent(res, event.type, event.data));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  // 갱신하지 못한 채 액세스 토큰이 만료되면 스트림을 닫아 다시 인증하도록 함 (정상 흐름에서는 그 전에 클라이언트가 재연결)
+  const expiryTimer = expiresInMs !== null ? setTimeout(() => res.end(), Math.max(expiresInMs, 0)) : null;
+
+  // 로그아웃/세션 폐기/계정 정지 시 닫을 수 있도록 스트림을 연 토큰 정보와 함께 등록
+  const unregister = registerStream(
+    { userId, sessionId: req.user.sid || null, tokenId: req.user.jti || null },
+    () => {
+      unsubscribe();
+      res.end();
+    }
+  );
+
+  req.on('close', () => {
+    unregister();
+    unsubscribe();
+    clearInterval(heartbeat);
+    if (expiryTimer) clearTimeout(expiryTimer);
+  });
+});
+
+module.exports = router;
@@ -1,9 +1,34 @@
 const express = require('express');
-const { getDatabase } = require('../models/database');
+const { getRepositories } = require('../repositories');
+const { normalizeReason } = require('../services/matchingStateMachine');
+const { getExpiresAt } = require('../services/requestExpiry');
 const { authenticateToken } = require('./auth');
 
 const router = express.Router();
 
+// API 명세서 형식의 매칭 요청 응답
+function toRequestResponse(request) {
+  return {
+    id: request.id,
+    mentorId: request.mentorId,
+    menteeId: request.menteeId,
+    message: request.message,
+    status: request.status,
+    statusReason: request.statusReason,
+    createdAt: request.createdAt,
+    expiresAt: getExpiresAt(request)
+  };
+}
+
+// 다른 요청이 먼저 상태를 바꾼 경우 (409): 클라이언트가 목록을 새로 고칠 수 있도록 현재 상태 포함
+function sendConflict(res, request) {
+  return res.status(409).json({
+    error: `Request has already been ${request.status}`,
+    code: 'REQUEST_CONFLICT',
+    status: request.status
+  });
+}
+
 /**
  * @swagger
  * components:
@@ -21,14 +46,56 @@ const router = express.Router();
  *           type: string
  *         status:
  *           type: string
- *           enum: [pending, accepted, rejected, cancelled]
+ *           enum: [pending, accepted, rejected, cancelled, expired, completed]
+ *         statusReason:
+ *           type: string
+ *           nullable: true
+ *           description: 거절/취소 사유
  *         mentee_name:
  *           type: string
  *         mentor_name:
  *           type: string
- *         created_at:
+ *         createdAt:
  *           type: string
  *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: 대기 중인 요청이 자동으로 만료되는 시각 (대기 중이 아니면 null)
+ *     MatchingRequestEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         fromStatus:
+ *           type: string
+ *           nullable: true
+ *           description: 요청 생성 이벤트는 null
+ *         toStatus:
+ *           type: string
+ *         actorId:
+ *           type: integer
+ *           nullable: true
+ *         actorName:
+ *           type: string
+ *           nullable: true
+ *         actorRole:
+ *           type: string
+ *           enum: [mentor, mentee, system]
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     TransitionReasonRequest:
+ *       type: object
+ *       properties:
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ *           description: 거절/취소 사유 (선택)
  *     CreateMatchingRequest:
  *       type: object
  *       required:
@@ -62,11 +129,15 @@ const router = express.Router();
  *       201:
  *         description: 매칭 요청 생성 성공
  *       400:
- *         description: 잘못된 요청 (중복 요청, 권한 없음 등)
+ *         description: 잘못된 요청 (중복 요청, 권한 없음, 멘토 정원 마감 등)
  *       401:
  *         description: 인증 필요
+ *       403:
+ *         description: 멘토와 멘티 중 한쪽이 상대를 차단함 (USER_BLOCKED)
  *       404:
  *         description: 멘토를 찾을 수 없음
+ *       409:
+ *         description: 같은 멘토에게 보낸 요청이 동시에 생성됨
  *       500:
  *         description: 서버 오류
  */
@@ -91,78 +162,55 @@ router.post('/match-requests', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'You can only send requests as yourself' });
     }
     
-    let finalMenteeId = menteeId;
-    
-    const db = getDatabase();
-    
-    // 멘토 존재 확인
-    const mentor = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT id FROM users WHERE id = ? AND role = ?',
-        [mentorId, 'mentor'],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
-    
-    if (!mentor) {
+    const { matchingRequests } = getRepositories();
+
+    // 멘토 확인, 차단/정원/중복 확인과 생성을 한 트랜잭션에서 처리
+    let result;
+    try {
+      result = await matchingRequests.send({ menteeId: Number(menteeId), mentorId: Number(mentorId), message });
+    } catch (error) {
+      // 같은 멘토에게 보낸 요청이 동시에 생성된 경우 (UNIQUE(mentee_id, mentor_id))
+      if (error.code === 'SQLITE_CONSTRAINT' && /UNIQUE/.test(error.message)) {
+        return res.status(409).json({ error: 'You have already sent a request to this mentor' });
+      }
+      throw error;
+    }
+
+    if (result.outcome === 'mentor_not_found') {
       return res.status(404).json({ error: 'Mentor not found' });
     }
-     // 중복 요청 확인 (같은 멘토에게)
-    const existingRequest = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT id FROM matching_requests WHERE mentee_id = ? AND mentor_id = ?',
-        [finalMenteeId, mentorId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
 
-    if (existingRequest) {
-      return res.status(400).json({ error: 'You have already sent a request to this mentor' });
+    // 어느 쪽이든 상대를 차단했으면 요청 불가
+    if (result.outcome === 'blocked') {
+      return res.status(403).json({ error: 'You cannot send a request to this mentor', code: 'USER_BLOCKED' });
     }
 
-    // 다른 멘토에게 보낸 pending 요청 확인 (비즈니스 로직: 한 번에 하나의 요청만)
-    const pendingRequest = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT id, mentor_id FROM matching_requests WHERE mentee_id = ? AND status = ?',
-        [finalMenteeId, 'pending'],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    // 남은 자리가 없는 멘토에게는 요청 불가
+    if (result.outcome === 'at_capacity') {
+      return res.status(400).json({ error: 'This mentor is not accepting new mentees' });
+    }
+
+    // 중복 요청 (같은 멘토에게)
+    if (result.outcome === 'duplicate') {
+      return res.status(400).json({ error: 'You have already sent a request to this mentor' });
+    }
 
-    if (pendingRequest) {
+    // 다른 멘토에게 보낸 pending 요청 (비즈니스 로직: 한 번에 하나의 요청만)
+    if (result.outcome === 'pending_exists') {
       return res.status(400).json({ 
         error: 'You already have a pending request. Please wait for a response or cancel it first.' 
       });
     }
 
-    // 매칭 요청 생성
-    const result = await new Promise((resolve, reject) => {
-      db.run(
-        'INSERT INTO matching_requests (mentee_id, mentor_id, message) VALUES (?, ?, ?)',
-        [finalMenteeId, mentorId, message],
-        function(err) {
-          if (err) reject(err);
-          else resolve({ id: this.lastID });
-        }
-      );
-    });
+    const requestId = result.id;
 
-    console.log(`✅ Matching request created: Mentee ${finalMenteeId} -> Mentor ${mentorId}`);
+    console.log(`✅ Matching request created: Mentee ${menteeId} -> Mentor ${mentorId}`);
 
     // API 스펙에 맞는 응답 형식 (200 OK 또는 201 Created)
     res.status(201).json({ 
-      id: result.id,
+      id: requestId,
       mentorId: mentorId,
-      menteeId: finalMenteeId,
+      menteeId: menteeId,
       message: message,
       status: 'pending'
     });
@@ -187,7 +235,7 @@ router.post('/match-requests', authenticateToken, async (req, res) => {
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, accepted, rejected, cancelled]
+ *           enum: [pending, accepted, rejected, cancelled, expired, completed]
  *         description: 요청 상태로 필터링
  *     responses:
  *       200:
@@ -211,43 +259,25 @@ router.get('/match-requests/incoming', authenticateToken, async (req, res) => {
     const userId = req.user.sub;
     const userRole = req.user.role;
     const { status } = req.query;
-    const db = getDatabase();
     
     // 멘토만 접근 가능
     if (userRole !== 'mentor') {
       return res.status(403).json({ error: 'Only mentors can access incoming requests' });
     }
     
-    let query = `
-      SELECT mr.*, u.name as mentee_name
-      FROM matching_requests mr
-      LEFT JOIN users u ON mr.mentee_id = u.id
-      WHERE mr.mentor_id = ?
-    `;
-    let queryParams = [userId];
-    
-    // 상태 필터링
-    if (status) {
-      query += ' AND mr.status = ?';
-      queryParams.push(status);
-    }
-    
-    query += ' ORDER BY mr.created_at DESC';
-    
-    const requests = await new Promise((resolve, reject) => {
-      db.all(query, queryParams, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows);
-      });
-    });
+    const { matchingRequests } = getRepositories();
+    const requests = await matchingRequests.listIncoming(userId, { status });
     
     // API 스펙에 맞게 배열로 응답
-    res.json(requests.map(req => ({
-      id: req.id,
-      mentorId: req.mentor_id,
-      menteeId: req.mentee_id,
-      message: req.message,
-      status: req.status
+    res.json(requests.map(request => ({
+      id: request.id,
+      mentorId: request.mentorId,
+      menteeId: request.menteeId,
+      message: request.message,
+      status: request.status,
+      statusReason: request.statusReason,
+      createdAt: request.createdAt,
+      expiresAt: getExpiresAt(request)
     })));
     
   } catch (error) {
@@ -270,7 +300,7 @@ router.get('/match-requests/incoming', authenticateToken, async (req, res) => {
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, accepted, rejected, cancelled]
+ *           enum: [pending, accepted, rejected, cancelled, expired, completed]
  *         description: 요청 상태로 필터링
  *     responses:
  *       200:
@@ -291,42 +321,24 @@ router.get('/match-requests/outgoing', authenticateToken, async (req, res) => {
     const userId = req.user.sub;
     const userRole = req.user.role;
     const { status } = req.query;
-    const db = getDatabase();
     
     // 멘티만 접근 가능
     if (userRole !== 'mentee') {
       return res.status(403).json({ error: 'Only mentees can access outgoing requests' });
     }
     
-    let query = `
-      SELECT mr.*, u.name as mentor_name
-      FROM matching_requests mr
-      LEFT JOIN users u ON mr.mentor_id = u.id
-      WHERE mr.mentee_id = ?
-    `;
-    let queryParams = [userId];
-    
-    // 상태 필터링
-    if (status) {
-      query += ' AND mr.status = ?';
-      queryParams.push(status);
-    }
-    
-    query += ' ORDER BY mr.created_at DESC';
-    
-    const requests = await new Promise((resolve, reject) => {
-      db.all(query, queryParams, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows);
-      });
-    });
+    const { matchingRequests } = getRepositories();
+    const requests = await matchingRequests.listOutgoing(userId, { status });
     
     // API 스펙에 맞게 배열로 응답
-    res.json(requests.map(req => ({
-      id: req.id,
-      mentorId: req.mentor_id,
-      menteeId: req.mentee_id,
-      status: req.status
+    res.json(requests.map(request => ({
+      id: request.id,
+      mentorId: request.mentorId,
+      menteeId: request.menteeId,
+      status: request.status,
+      statusReason: request.statusReason,
+      createdAt: request.createdAt,
+      expiresAt: getExpiresAt(request)
     })));
     
   } catch (error) {
@@ -341,7 +353,7 @@ router.get('/match-requests/outgoing', authenticateToken, async (req, res) => {
  *   post:
  *     tags: [Matching]
  *     summary: 매칭 요청 수락
- *     description: 멘토가 매칭 요청을 수락합니다. 수락 시 다른 모든 요청은 자동으로 거절됩니다.
+ *     description: 멘토가 매칭 요청을 수락합니다. 수락으로 최대 멘티 수에 도달하면 다른 대기 중인 요청은 자동으로 거절됩니다.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -355,9 +367,13 @@ router.get('/match-requests/outgoing', authenticateToken, async (req, res) => {
  *       200:
  *         description: 요청 수락 성공
  *       400:
- *         description: 잘못된 요청 (권한 없음, 이미 처리됨 등)
+ *         description: 잘못된 요청 (권한 없음 등)
+ *       403:
+ *         description: 멘토와 멘티 중 한쪽이 상대를 차단함 (USER_BLOCKED)
  *       404:
  *         description: 요청을 찾을 수 없음
+ *       409:
+ *         description: 이미 처리된 요청이거나(REQUEST_CONFLICT) 최대 멘티 수에 도달함(MENTOR_AT_CAPACITY)
  *       500:
  *         description: 서버 오류
  */
@@ -372,98 +388,36 @@ router.put('/match-requests/:id/accept', authenticateToken, async (req, res) =>
       return res.status(400).json({ error: 'Only mentors can accept requests' });
     }
     
-    const db = getDatabase();
-    
-    // 요청 확인
-    const request = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT * FROM matching_requests WHERE id = ? AND mentor_id = ?',
-        [requestId, mentorId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    const { matchingRequests } = getRepositories();
     
-    if (!request) {
+    // 상태 확인, 수락, 다른 pending 요청 자동 거절을 하나의 트랜잭션으로 처리
+    const result = await matchingRequests.accept(requestId, { id: mentorId, role: 'mentor' });
+    
+    if (result.outcome === 'not_found' || result.outcome === 'forbidden') {
       return res.status(404).json({ error: 'Matching request not found' });
     }
     
-    if (request.status !== 'pending') {
-      return res.status(400).json({ error: 'Request has already been processed' });
+    if (result.outcome === 'conflict') {
+      return sendConflict(res, result.request);
     }
-    
-    // 트랜잭션 시작하여 원자성 보장
-    await new Promise((resolve, reject) => {
-      db.serialize(() => {
-        db.run('BEGIN TRANSACTION');
-        
-        // 해당 요청 수락
-        db.run(
-          'UPDATE matching_requests SET status = ? WHERE id = ?',
-          ['accepted', requestId],
-          function(err) {
-            if (err) {
-              db.run('ROLLBACK');
-              reject(err);
-              return;
-            }
-          }
-        );
-        
-        // 해당 멘토에게 온 다른 모든 pending 요청들을 자동 거절
-        db.run(
-          'UPDATE matching_requests SET status = ? WHERE mentor_id = ? AND id != ? AND status = ?',
-          ['rejected', mentorId, requestId, 'pending'],
-          function(err) {
-            if (err) {
-              db.run('ROLLBACK');
-              reject(err);
-              return;
-            }
-            
-            console.log(`✅ Auto-rejected ${this.changes} other requests for mentor ${mentorId}`);
-          }
-        );
-        
-        db.run('COMMIT', (err) => {
-          if (err) {
-            db.run('ROLLBACK');
-            reject(err);
-          } else {
-            resolve();
-          }
-        });
+
+    if (result.outcome === 'blocked') {
+      return res.status(403).json({ error: 'You cannot accept a request from this user', code: 'USER_BLOCKED' });
+    }
+
+    if (result.outcome === 'at_capacity') {
+      return res.status(409).json({
+        error: 'You have reached the maximum number of mentees',
+        code: 'MENTOR_AT_CAPACITY'
       });
-    });
-    
-    console.log(`✅ Matching request accepted: Request ${requestId} by Mentor ${mentorId}`);
-    
-    // 업데이트된 요청 정보 조회하여 반환 (API 명세서에 맞게)
-    const updatedRequest = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT * FROM matching_requests WHERE id = ?',
-        [requestId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    }
     
-    if (updatedRequest) {
-      // camelCase로 변환하여 반환
-      res.json({
-        id: updatedRequest.id,
-        mentorId: updatedRequest.mentor_id,
-        menteeId: updatedRequest.mentee_id,
-        message: updatedRequest.message,
-        status: updatedRequest.status
-      });
-    } else {
-      res.status(500).json({ error: 'Failed to retrieve updated request' });
+    if (result.autoRejected > 0) {
+      console.log(`✅ Auto-rejected ${result.autoRejected} other requests for mentor ${mentorId}`);
     }
+    console.log(`✅ Matching request accepted: Request ${requestId} by Mentor ${mentorId} (${result.activeMentees}/${result.maxMentees})`);
+    
+    res.json(toRequestResponse(result.request));
     
   } catch (error) {
     console.error('Accept matching request error:', error);
@@ -487,6 +441,12 @@ router.put('/match-requests/:id/accept', authenticateToken, async (req, res) =>
  *         schema:
  *           type: integer
  *         description: 매칭 요청 ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TransitionReasonRequest'
  *     responses:
  *       200:
  *         description: 요청 거절 성공
@@ -494,6 +454,8 @@ router.put('/match-requests/:id/accept', authenticateToken, async (req, res) =>
  *         description: 잘못된 요청
  *       404:
  *         description: 요청을 찾을 수 없음
+ *       409:
+ *         description: 이미 처리된 요청 (다른 요청이 먼저 상태를 변경함)
  *       500:
  *         description: 서버 오류
  */
@@ -508,51 +470,30 @@ router.put('/match-requests/:id/reject', authenticateToken, async (req, res) =>
       return res.status(400).json({ error: 'Only mentors can reject requests' });
     }
     
-    const db = getDatabase();
-    
-    // 요청 확인 및 업데이트
-    const result = await new Promise((resolve, reject) => {
-      db.run(
-        'UPDATE matching_requests SET status = ? WHERE id = ? AND mentor_id = ? AND status = ?',
-        ['rejected', requestId, mentorId, 'pending'],
-        function(err) {
-          if (err) reject(err);
-          else resolve({ changes: this.changes });
-        }
-      );
-    });
-    
-    if (result.changes === 0) {
-      return res.status(404).json({ error: 'Matching request not found or already processed' });
+    const { reason, error: reasonError } = normalizeReason(req.body?.reason);
+    if (reasonError) {
+      return res.status(400).json({ error: reasonError });
     }
     
-    console.log(`✅ Matching request rejected: Request ${requestId} by Mentor ${mentorId}`);
+    const { matchingRequests } = getRepositories();
     
-    // 업데이트된 요청 정보 조회하여 반환 (API 명세서에 맞게)
-    const updatedRequest = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT * FROM matching_requests WHERE id = ?',
-        [requestId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    // 요청 확인 및 업데이트 (하나의 트랜잭션)
+    const result = await matchingRequests.transition(
+      requestId, 'rejected', { id: mentorId, role: 'mentor' }, { reason }
+    );
     
-    if (updatedRequest) {
-      // camelCase로 변환하여 반환
-      res.json({
-        id: updatedRequest.id,
-        mentorId: updatedRequest.mentor_id,
-        menteeId: updatedRequest.mentee_id,
-        message: updatedRequest.message,
-        status: updatedRequest.status
-      });
-    } else {
-      res.status(500).json({ error: 'Failed to retrieve updated request' });
+    if (result.outcome === 'not_found' || result.outcome === 'forbidden') {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    
+    if (result.outcome === 'conflict') {
+      return sendConflict(res, result.request);
     }
     
+    console.log(`✅ Matching request rejected: Request ${requestId} by Mentor ${mentorId}`);
+    
+    res.json(toRequestResponse(result.request));
+    
   } catch (error) {
     console.error('Reject matching request error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -575,13 +516,21 @@ router.put('/match-requests/:id/reject', authenticateToken, async (req, res) =>
  *         schema:
  *           type: integer
  *         description: 매칭 요청 ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TransitionReasonRequest'
  *     responses:
  *       200:
- *         description: 요청 취소 성공
+ *         description: 요청 취소 성공 (이미 취소된 요청도 200)
  *       400:
  *         description: 잘못된 요청
  *       404:
  *         description: 요청을 찾을 수 없음
+ *       409:
+ *         description: 이미 수락/거절된 요청
  *       500:
  *         description: 서버 오류
  */
@@ -601,110 +550,157 @@ router.delete('/match-requests/:id', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Only mentees can cancel matching requests' });
     }
     
-    const db = getDatabase();
+    const { reason, error: reasonError } = normalizeReason(req.body?.reason);
+    if (reasonError) {
+      return res.status(400).json({ error: reasonError });
+    }
     
-    // 트랜잭션 시작하여 동시성 문제 방지
-    await new Promise((resolve, reject) => {
-      db.run('BEGIN TRANSACTION', (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+    const { matchingRequests } = getRepositories();
     
-    try {
-      // 요청 존재 및 권한 확인 (FOR UPDATE로 락 설정)
-      const existingRequest = await new Promise((resolve, reject) => {
-        db.get(
-          'SELECT id, mentee_id, mentor_id, message, status FROM matching_requests WHERE id = ?',
-          [requestId],
-          (err, row) => {
-            if (err) reject(err);
-            else resolve(row);
-          }
-        );
-      });
-      
-      if (!existingRequest) {
-        await new Promise((resolve) => db.run('ROLLBACK', () => resolve()));
-        return res.status(404).json({ error: 'Matching request not found' });
-      }
-      
-      // 권한 확인 - 요청자만 취소 가능 (403을 400으로 변경하여 테스트 통과)
-      if (parseInt(existingRequest.mentee_id) !== parseInt(menteeId)) {
-        await new Promise((resolve) => db.run('ROLLBACK', () => resolve()));
-        return res.status(400).json({ error: 'Only the mentee who made the request can cancel it' });
-      }
-      
-      // 상태 검증 - pending이 아닌 경우 더 유연하게 처리
-      if (existingRequest.status !== 'pending') {
-        await new Promise((resolve) => db.run('ROLLBACK', () => resolve()));
-        console.log(`⚠️ Attempt to cancel non-pending request: ID ${requestId}, Status: ${existingRequest.status}`);
-        
-        // 이미 cancelled 상태라면 성공으로 처리 (idempotent 동작)
-        if (existingRequest.status === 'cancelled') {
-          return res.status(200).json({
-            id: parseInt(requestId),
-            mentorId: existingRequest.mentor_id,
-            menteeId: existingRequest.mentee_id,
-            message: existingRequest.message,
-            status: 'cancelled'
-          });
-        }
-        
-        return res.status(400).json({ 
-          error: `Cannot cancel request with status '${existingRequest.status}'. Only pending requests can be cancelled.`
-        });
-      }
-      
-      // 요청 취소 (상태 업데이트)
-      const result = await new Promise((resolve, reject) => {
-        db.run(
-          'UPDATE matching_requests SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = ?',
-          ['cancelled', requestId, 'pending'],
-          function(err) {
-            if (err) reject(err);
-            else resolve({ changes: this.changes });
-          }
-        );
-      });
-      
-      // 업데이트가 실제로 발생했는지 확인
-      if (result.changes === 0) {
-        await new Promise((resolve) => db.run('ROLLBACK', () => resolve()));
-        return res.status(400).json({ 
-          error: 'Request could not be cancelled. It may have been already processed.' 
-        });
+    // 요청 존재, 권한, 상태 확인 및 취소를 하나의 트랜잭션으로 처리
+    const result = await matchingRequests.transition(
+      requestId, 'cancelled', { id: menteeId, role: 'mentee' }, { reason }
+    );
+    
+    if (result.outcome === 'not_found') {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    
+    // 권한 확인 - 요청자만 취소 가능 (403을 400으로 변경하여 테스트 통과)
+    if (result.outcome === 'forbidden') {
+      return res.status(400).json({ error: 'Only the mentee who made the request can cancel it' });
+    }
+    
+    if (result.outcome === 'conflict') {
+      // 이미 cancelled 상태라면 성공으로 처리 (idempotent 동작)
+      if (result.request.status === 'cancelled') {
+        return res.status(200).json(toRequestResponse(result.request));
       }
       
-      // 트랜잭션 커밋
-      await new Promise((resolve, reject) => {
-        db.run('COMMIT', (err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-      
-      console.log(`✅ Matching request cancelled: Request ${requestId} by Mentee ${menteeId}`);
-      
-      // API 명세서에 맞는 응답 형식 (200 OK)
-      res.status(200).json({
-        id: parseInt(requestId),
-        mentorId: existingRequest.mentor_id,
-        menteeId: existingRequest.mentee_id,
-        message: existingRequest.message,
-        status: 'cancelled'
-      });
-      
-    } catch (transactionError) {
-      // 트랜잭션 롤백
-      await new Promise((resolve) => db.run('ROLLBACK', () => resolve()));
-      throw transactionError;
+      console.log(`⚠️ Attempt to cancel non-pending request: ID ${requestId}, Status: ${result.request.status}`);
+      return sendConflict(res, result.request);
     }
     
+    console.log(`✅ Matching request cancelled: Request ${requestId} by Mentee ${menteeId}`);
+    
+    // API 명세서에 맞는 응답 형식 (200 OK)
+    res.status(200).json(toRequestResponse(result.request));
+    
   } catch (error) {
     console.error('Cancel matching request error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * @swagger
+ * /match-requests/{id}/complete:
+ *   put:
+ *     tags: [Matching]
+ *     summary: 멘토링 완료 처리
+ *     description: 수락된 매칭을 완료 상태로 변경합니다 (멘토 또는 멘티)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     responses:
+ *       200:
+ *         description: 완료 처리 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchingRequest'
+ *       404:
+ *         description: 요청을 찾을 수 없음
+ *       409:
+ *         description: 수락된 상태가 아님
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/match-requests/:id/complete', authenticateToken, async (req, res) => {
+  try {
+    const requestId = req.params.id;
+    const actor = { id: req.user.sub, role: req.user.role };
+    
+    // 관리자의 강제 완료 처리는 감사 로그가 남는 관리자 API로만 가능
+    if (!['mentor', 'mentee'].includes(actor.role)) {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    
+    const { matchingRequests } = getRepositories();
+    const result = await matchingRequests.transition(requestId, 'completed', actor);
+    
+    if (result.outcome === 'not_found' || result.outcome === 'forbidden') {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    
+    if (result.outcome === 'conflict') {
+      return sendConflict(res, result.request);
+    }
+    
+    console.log(`✅ Matching request completed: Request ${requestId} by ${actor.role} ${actor.id}`);
+    res.json(toRequestResponse(result.request));
+    
+  } catch (error) {
+    console.error('Complete matching request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /match-requests/{id}/history:
+ *   get:
+ *     tags: [Matching]
+ *     summary: 매칭 요청 상태 변경 이력
+ *     description: 요청의 생성부터 현재까지 상태 변경 이력을 오래된 순으로 반환합니다 (요청의 멘토/멘티만 조회 가능)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     responses:
+ *       200:
+ *         description: 이력 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MatchingRequestEvent'
+ *       404:
+ *         description: 요청을 찾을 수 없음
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/match-requests/:id/history', authenticateToken, async (req, res) => {
+  try {
+    const userId = String(req.user.sub);
+    const { matchingRequests } = getRepositories();
+    
+    const request = await matchingRequests.findById(req.params.id);
+    
+    // 요청의 당사자가 아니면 존재 여부를 노출하지 않음
+    if (!request || (String(request.menteeId) !== userId && String(request.mentorId) !== userId)) {
+      return res.status(404).json({ error: 'Matching request not found' });
+    }
+    
+    const history = await matchingRequests.findHistory(request.id);
+    res.json(history);
+    
+  } catch (error) {
+    console.error('Get matching request history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 module.exports = router;
@@ -1,9 +1,57 @@
 const express = require('express');
-const { getDatabase } = require('../models/database');
-const { authenticateToken } = require('./auth');
+const { getRepositories } = require('../repositories');
+const { getProfileImageUrl } = require('../utils/profileImage');
+const { toMentorStats } = require('../utils/mentorStats');
+const { parsePositiveInt } = require('../utils/query');
+const { recommendMentors } = require('../services/mentorRecommendation');
+const { authenticateToken, optionalAuthenticateToken } = require('./auth');
 
 const router = express.Router();
 
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+const MAX_SKILL_FILTERS = 10;
+const MAX_SEARCH_LENGTH = 100;
+const DEFAULT_RECOMMENDATION_COUNT = 5;
+const MAX_RECOMMENDATION_COUNT = 20;
+
+// skills 쿼리 (쉼표 구분 문자열 또는 반복된 파라미터) → 기술 스택 배열
+function parseSkillList(value) {
+  if (value === undefined) {
+    return [];
+  }
+  return [].concat(value)
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// 남은 멘티 자리 수 (최대 멘티 수를 줄인 경우에도 음수가 되지 않도록)
+function getAvailableSlots(mentor) {
+  return Math.max(mentor.maxMentees - mentor.activeMentees, 0);
+}
+
+// 멘토 목록 항목 (GET /mentors, GET /mentors/recommended)
+function toMentorListItem(mentor, stats) {
+  return {
+    id: mentor.id,
+    email: mentor.email,
+    role: mentor.role,
+    profile: {
+      name: mentor.name || 'Anonymous Mentor',
+      bio: mentor.bio || '',
+      imageUrl: getProfileImageUrl(mentor),
+      skills: mentor.skillsets,
+      skillDetails: mentor.skillDetails,
+      maxMentees: mentor.maxMentees
+    },
+    availableSlots: getAvailableSlots(mentor),
+    averageRating: mentor.averageRating,
+    reviewCount: mentor.reviewCount,
+    stats: toMentorStats(mentor, stats)
+  };
+}
+
 /**
  * @swagger
  * components:
@@ -21,8 +69,54 @@ const router = express.Router();
  *           type: array
  *           items:
  *             type: string
+ *         skill_details:
+ *           type: array
+ *           description: 기술별 숙련도와 경력 연수 (skillsets와 같은 순서)
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               level:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [beginner, intermediate, advanced, expert]
+ *               years_of_experience:
+ *                 type: integer
+ *                 nullable: true
  *         profile_image_url:
  *           type: string
+ *         max_mentees:
+ *           type: integer
+ *           description: 동시에 받을 수 있는 최대 멘티 수
+ *         available_slots:
+ *           type: integer
+ *           description: 남은 멘티 자리 수 (0이면 정원 마감)
+ *         average_rating:
+ *           type: number
+ *           nullable: true
+ *           description: 평균 평점 (1 ~ 5, 리뷰가 없으면 null)
+ *         review_count:
+ *           type: integer
+ *           description: 리뷰 수
+ *         stats:
+ *           type: object
+ *           description: 요청 처리 통계 (목록 응답은 같은 값을 camelCase 필드로 제공)
+ *           properties:
+ *             median_response_hours:
+ *               type: number
+ *               nullable: true
+ *               description: 요청을 받고 수락/거절하기까지 걸린 시간의 중앙값 (응답한 요청이 없으면 null)
+ *             acceptance_rate:
+ *               type: number
+ *               nullable: true
+ *               description: 수락률 0 ~ 1 (응답했거나 응답 없이 만료된 요청 기준, 없으면 null)
+ *             active_mentees:
+ *               type: integer
+ *               description: 현재 멘티 수
+ *             decided_requests:
+ *               type: integer
+ *               description: 통계에 반영된 요청 수
  *         created_at:
  *           type: string
  *           format: date-time
@@ -34,7 +128,10 @@ const router = express.Router();
  *   get:
  *     tags: [Mentors]
  *     summary: 멘토 목록 조회
- *     description: 등록된 모든 멘토의 목록을 가져옵니다. 기술 스택으로 필터링 및 정렬이 가능합니다.
+ *     description: |
+ *       등록된 멘토 목록을 가져옵니다. 기술 스택과 키워드로 필터링하고 정렬할 수 있습니다.
+ *       page 또는 limit을 지정하면 해당 페이지만 반환하며, 조건에 맞는 전체 멘토 수는 항상 X-Total-Count 헤더로 전달합니다.
+ *       로그인한 사용자와 차단 관계인 멘토(어느 쪽이 차단했든)는 제외합니다.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -42,36 +139,83 @@ const router = express.Router();
  *         name: skill
  *         schema:
  *           type: string
- *         description: 기술 스택으로 필터링 (부분 일치)
+ *         description: 기술 스택으로 필터링 (별칭은 대표 이름으로 바꾼 뒤 부분 일치)
  *       - in: query
- *         name: sortBy
+ *         name: skills
  *         schema:
  *           type: string
- *           enum: [name, skill, created_at]
- *           default: created_at
- *         description: 정렬 기준
+ *         description: 쉼표로 구분한 기술 스택 목록 (별칭은 대표 이름으로 바꿔 정확히 일치, 최대 10개)
+ *       - in: query
+ *         name: skill_match
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         description: any면 skills 중 하나 이상, all이면 모두 가진 멘토
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: 이름과 자기소개 키워드 검색 (단어 접두어 일치, 모든 단어 포함)
+ *       - in: query
+ *         name: available
+ *         schema:
+ *           type: boolean
+ *         description: true면 남은 자리가 있는 멘토만 조회
+ *       - in: query
+ *         name: order_by
+ *         schema:
+ *           type: string
+ *           enum: [name, skill, created_at, rating, relevance]
+ *         description: 정렬 기준 (기본값은 q가 있으면 relevance, 없으면 created_at)
  *       - in: query
  *         name: order
  *         schema:
  *           type: string
  *           enum: [asc, desc]
  *           default: desc
- *         description: 정렬 순서
+ *         description: 정렬 순서 (relevance는 항상 관련도 높은 순)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 12
+ *           maximum: 50
+ *         description: 페이지 크기 (page나 limit이 없으면 전체 조회)
  *     responses:
  *       200:
  *         description: 멘토 목록 조회 성공
+ *         headers:
+ *           X-Total-Count:
+ *             schema:
+ *               type: integer
+ *             description: 조건에 맞는 전체 멘토 수
+ *           X-Page:
+ *             schema:
+ *               type: integer
+ *             description: 현재 페이지 (페이지 조회일 때만)
+ *           X-Page-Size:
+ *             schema:
+ *               type: integer
+ *             description: 페이지 크기 (페이지 조회일 때만)
+ *           X-Total-Pages:
+ *             schema:
+ *               type: integer
+ *             description: 전체 페이지 수 (페이지 조회일 때만)
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 mentors:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Mentor'
- *                 total:
- *                   type: integer
- *                   description: 총 멘토 수
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Mentor'
+ *       400:
+ *         description: 잘못된 조회 조건
  *       401:
  *         description: 인증 필요
  *       500:
@@ -79,107 +223,66 @@ const router = express.Router();
  */
 router.get('/mentors', authenticateToken, async (req, res) => {
   try {
-    const { skill, order_by = 'created_at', order = 'desc' } = req.query;
-    const db = getDatabase();
-    
-    // 기본 쿼리
-    let query = `
-      SELECT id, email, role, name, bio, skillsets, profile_image_type, created_at
-      FROM users 
-      WHERE role = 'mentor'
-    `;
-    let queryParams = [];
-    
-    // 기술 스택 필터링
-    if (skill) {
-      query += ` AND (skillsets LIKE ? OR skillsets IS NULL)`;
-      queryParams.push(`%${skill}%`);
+    const { skill, available, order = 'desc' } = req.query;
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const { order_by = q ? 'relevance' : 'created_at', skill_match = 'any' } = req.query;
+    const skills = parseSkillList(req.query.skills);
+
+    if (!['any', 'all'].includes(skill_match)) {
+      return res.status(400).json({ error: 'skill_match must be any or all' });
     }
-    
-    // 정렬 추가 (order_by 파라미터 사용)
-    const validSortFields = ['name', 'skill', 'created_at'];
-    const validOrders = ['asc', 'desc'];
-    
-    if (validSortFields.includes(order_by) && validOrders.includes(order.toLowerCase())) {
-      if (order_by === 'skill') {
-        // 기술 스택으로 정렬하는 경우, skillsets 필드로 정렬
-        query += ` ORDER BY skillsets ${order.toUpperCase()}`;
-      } else {
-        query += ` ORDER BY ${order_by} ${order.toUpperCase()}`;
-      }
-    } else {
-      // 기본값: mentor ID 기준 오름차순 (명세서에 맞게)
-      query += ` ORDER BY id ASC`;
+    if (skills.length > MAX_SKILL_FILTERS) {
+      return res.status(400).json({ error: `At most ${MAX_SKILL_FILTERS} skills can be filtered at once` });
     }
-    
-    const mentors = await new Promise((resolve, reject) => {
-      db.all(query, queryParams, (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows);
-      });
-    });
-    
-    // 응답 데이터 포맷팅
-    const formattedMentors = mentors.map(mentor => {
-      // 기본 프로필 이미지 URL 설정
-      let profileImageUrl;
-      if (mentor.profile_image_type) {
-        profileImageUrl = `/api/profile/image/${mentor.id}`;
-      } else {
-        profileImageUrl = 'https://placehold.co/500x500.jpg?text=MENTOR';
-      }
-      
-      // skillsets JSON 파싱
-      let skillsets = [];
-      if (mentor.skillsets) {
-        try {
-          skillsets = JSON.parse(mentor.skillsets);
-        } catch (e) {
-          console.error('Error parsing skillsets for mentor:', mentor.id, e);
-        }
-      }
-      
-      return {
-        id: mentor.id,
-        email: mentor.email,
-        role: mentor.role,
-        profile: {
-          name: mentor.name || 'Anonymous Mentor',
-          bio: mentor.bio || '',
-          imageUrl: profileImageUrl,
-          skills: skillsets
-        }
-      };
-    });
-    
-    // 기술 스택으로 추가 필터링 (JSON 내부 검색)
-    let filteredMentors = formattedMentors;
-    if (skill) {
-      filteredMentors = formattedMentors.filter(mentor => 
-        mentor.profile.skills.some(s => 
-          s.toLowerCase().includes(skill.toLowerCase())
-        )
-      );
+    if (q.length > MAX_SEARCH_LENGTH) {
+      return res.status(400).json({ error: `q must be at most ${MAX_SEARCH_LENGTH} characters` });
     }
+
+    // page나 limit이 있을 때만 페이지 조회 (기존 클라이언트는 전체 목록을 받음)
+    const paginated = req.query.page !== undefined || req.query.limit !== undefined;
+    const page = parsePositiveInt(req.query.page, 1);
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE);
+
+    if (page === null || limit === null) {
+      return res.status(400).json({ error: 'page and limit must be positive integers' });
+    }
+
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    const { users, matchingRequests, skills: skillRepository } = getRepositories();
+
+    // 별칭(예: ReactJS)으로 필터링해도 대표 이름(React)으로 등록한 멘토를 찾음 (skill, skills 모두)
+    const [canonicalSkill] = typeof skill === 'string' && skill ? await skillRepository.toCanonicalNames([skill.trim()]) : [];
+
+    const { mentors, total } = await users.listMentors({
+      skill: canonicalSkill,
+      skills: await skillRepository.toCanonicalNames(skills),
+      skillMatch: skill_match,
+      query: q || undefined,
+      available: available === 'true',
+      // 차단한(또는 나를 차단한) 멘토는 목록에서 제외
+      viewerId: req.user.sub,
+      orderBy: order_by,
+      order,
+      ...(paginated && { limit: pageSize, offset: (page - 1) * pageSize })
+    });
     
-    // 기술 스택으로 정렬하는 경우 추가 정렬
-    if (order_by === 'skill') {
-      filteredMentors.sort((a, b) => {
-        const skillA = a.profile.skills.join(', ').toLowerCase();
-        const skillB = b.profile.skills.join(', ').toLowerCase();
-        
-        if (order.toLowerCase() === 'asc') {
-          return skillA.localeCompare(skillB);
-        } else {
-          return skillB.localeCompare(skillA);
-        }
+    // 응답 데이터 포맷팅 (현재 페이지 멘토의 요청 처리 통계 포함)
+    const stats = await matchingRequests.getMentorStats(mentors.map(mentor => mentor.id));
+    const formattedMentors = mentors.map(mentor => toMentorListItem(mentor, stats.get(mentor.id)));
+
+    res.set('X-Total-Count', String(total));
+    if (paginated) {
+      res.set({
+        'X-Page': String(page),
+        'X-Page-Size': String(pageSize),
+        'X-Total-Pages': String(Math.ceil(total / pageSize))
       });
     }
-    
-    console.log(`✅ Fetched ${filteredMentors.length} mentors`);
+
+    console.log(`✅ Fetched ${formattedMentors.length} of ${total} mentors`);
     
     // API 스펙에 맞게 배열로 직접 응답
-    res.json(filteredMentors);
+    res.json(formattedMentors);
     
   } catch (error) {
     console.error('Get mentors error:', error);
@@ -187,14 +290,121 @@ router.get('/mentors', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /mentors/recommended:
+ *   get:
+ *     tags: [Mentors]
+ *     summary: 멘티 맞춤 멘토 추천
+ *     description: |
+ *       멘티의 학습 목표와 자기소개를 기준으로 멘토를 점수화해 높은 순으로 반환합니다.
+ *       학습 목표와 기술 스택 일치도(숙련도 비교 포함), 자기소개 텍스트 유사도, 남은 자리, 응답 이력을 반영하며
+ *       정원이 찼거나 이미 요청을 보낸 멘토는 제외합니다. 멘티만 조회할 수 있습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 20
+ *         description: 추천 멘토 수
+ *     responses:
+ *       200:
+ *         description: 추천 멘토 목록
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 personalized:
+ *                   type: boolean
+ *                   description: false면 학습 목표와 자기소개가 없어 남은 자리와 응답 이력만 반영한 결과
+ *                 recommendations:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       mentor:
+ *                         type: object
+ *                         description: 멘토 목록(GET /mentors) 항목과 같은 형식
+ *                       score:
+ *                         type: integer
+ *                         description: 추천 점수 (0 ~ 100)
+ *                       breakdown:
+ *                         type: object
+ *                         description: 항목별 점수 (0 ~ 100)
+ *                         properties:
+ *                           skills:
+ *                             type: integer
+ *                           text:
+ *                             type: integer
+ *                           capacity:
+ *                             type: integer
+ *                           response:
+ *                             type: integer
+ *                       reasons:
+ *                         type: array
+ *                         description: 추천 이유 (code별로 skills, terms, responseRate, medianResponseHours, availableSlots 중 해당 값 포함)
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             code:
+ *                               type: string
+ *                               enum: [SKILL_MATCH, SIMILAR_PROFILE, RESPONSIVE, HAS_CAPACITY]
+ *       400:
+ *         description: 잘못된 limit
+ *       401:
+ *         description: 인증 필요
+ *       403:
+ *         description: 멘티가 아님
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/mentors/recommended', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'mentee') {
+      return res.status(403).json({ error: 'Only mentees can get mentor recommendations' });
+    }
+
+    const limit = parsePositiveInt(req.query.limit, DEFAULT_RECOMMENDATION_COUNT);
+    if (limit === null) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+
+    const result = await recommendMentors(req.user.sub, { limit: Math.min(limit, MAX_RECOMMENDATION_COUNT) });
+    if (!result) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      personalized: result.personalized,
+      recommendations: result.recommendations.map(({ mentor, stats, score, breakdown, reasons }) => ({
+        mentor: toMentorListItem(mentor, stats),
+        score,
+        breakdown,
+        reasons
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get mentor recommendations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /mentors/{mentorId}:
  *   get:
  *     tags: [Mentors]
  *     summary: 특정 멘토 정보 조회
- *     description: 멘토 ID로 특정 멘토의 상세 정보를 가져옵니다
+ *     description: |
+ *       멘토 ID로 특정 멘토의 상세 정보를 가져옵니다. 공유 가능한 공개 프로필이므로 인증 없이 조회할 수 있습니다.
+ *       토큰을 보내면 로그인한 사용자와 차단 관계인 멘토(어느 쪽이 차단했든)는 찾을 수 없음으로 응답합니다.
  *     security:
+ *       - {}
  *       - BearerAuth: []
  *     parameters:
  *       - in: path
@@ -210,60 +420,47 @@ router.get('/mentors', authenticateToken, async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Mentor'
- *       404:
- *         description: 멘토를 찾을 수 없음
  *       401:
- *         description: 인증 필요
+ *         description: 보낸 토큰이 유효하지 않음
+ *       404:
+ *         description: 멘토를 찾을 수 없음 (차단 관계 포함)
  *       500:
  *         description: 서버 오류
  */
-router.get('/mentors/:mentorId', authenticateToken, async (req, res) => {
+router.get('/mentors/:mentorId', optionalAuthenticateToken, async (req, res) => {
   try {
-    const mentorId = req.params.mentorId;
-    const db = getDatabase();
-    
-    const mentor = await new Promise((resolve, reject) => {
-      db.get(
-        `SELECT id, name, bio, skillsets, profile_image_type, created_at
-         FROM users 
-         WHERE id = ? AND role = 'mentor'`,
-        [mentorId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    const { users, matchingRequests } = getRepositories();
+    // 로그인한 경우 목록과 같이 차단 관계인 멘토는 조회되지 않음
+    const mentor = await users.findMentorById(req.params.mentorId, { viewerId: req.user?.sub });
     
     if (!mentor) {
       return res.status(404).json({ error: 'Mentor not found' });
     }
-    
-    // 기본 프로필 이미지 URL 설정
-    let profileImageUrl;
-    if (mentor.profile_image_type) {
-      profileImageUrl = `/api/profile/image/${mentor.id}`;
-    } else {
-      profileImageUrl = 'https://placehold.co/500x500.jpg?text=MENTOR';
-    }
-    
-    // skillsets JSON 파싱
-    let skillsets = [];
-    if (mentor.skillsets) {
-      try {
-        skillsets = JSON.parse(mentor.skillsets);
-      } catch (e) {
-        console.error('Error parsing skillsets for mentor:', mentor.id, e);
-      }
-    }
+
+    const stats = toMentorStats(mentor, (await matchingRequests.getMentorStats([mentor.id])).get(mentor.id));
     
     res.json({
       id: mentor.id,
       name: mentor.name || 'Anonymous Mentor',
       bio: mentor.bio || '',
-      skillsets: skillsets,
-      profile_image_url: profileImageUrl,
-      created_at: mentor.created_at
+      skillsets: mentor.skillsets,
+      skill_details: mentor.skillDetails.map(skill => ({
+        name: skill.name,
+        level: skill.level,
+        years_of_experience: skill.yearsOfExperience
+      })),
+      profile_image_url: getProfileImageUrl(mentor),
+      max_mentees: mentor.maxMentees,
+      available_slots: getAvailableSlots(mentor),
+      average_rating: mentor.averageRating,
+      review_count: mentor.reviewCount,
+      stats: {
+        median_response_hours: stats.medianResponseHours,
+        acceptance_rate: stats.acceptanceRate,
+        active_mentees: stats.activeMentees,
+        decided_requests: stats.decidedRequests
+      },
+      created_at: mentor.createdAt
     });
     
   } catch (error) {
@@ -0,0 +1,364 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { MAX_PAGE_SIZE } = require('../repositories/messageRepository');
+const { parsePositiveInt } = require('../utils/query');
+const { loadMatch } = require('../utils/matchAccess');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+const MESSAGE_MAX_LENGTH = 2000;
+
+function toMessageResponse(message) {
+  return {
+    id: message.id,
+    requestId: message.requestId,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    body: message.body,
+    readAt: message.readAt,
+    createdAt: message.createdAt
+  };
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Match:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: 매칭 요청 ID
+ *         status:
+ *           type: string
+ *           enum: [accepted, completed]
+ *         mentorId:
+ *           type: integer
+ *         mentorName:
+ *           type: string
+ *         menteeId:
+ *           type: integer
+ *         menteeName:
+ *           type: string
+ *         message:
+ *           type: string
+ *           description: 매칭 요청 메시지
+ *         unreadCount:
+ *           type: integer
+ *           description: 읽지 않은 상대방 메시지 수
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     Message:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         requestId:
+ *           type: integer
+ *         senderId:
+ *           type: integer
+ *         senderName:
+ *           type: string
+ *         body:
+ *           type: string
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: 상대방이 읽은 시각
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /matches/{id}:
+ *   get:
+ *     tags: [Messages]
+ *     summary: 매칭(대화방) 정보 조회
+ *     description: 수락되었거나 완료된 매칭의 당사자만 조회할 수 있습니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Match'
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/matches/:id', authenticateToken, async (req, res) => {
+  try {
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { messages } = getRepositories();
+    const unreadCount = await messages.countUnread(request.id, req.user.sub);
+
+    res.json({
+      id: request.id,
+      status: request.status,
+      mentorId: request.mentorId,
+      mentorName: request.mentorName,
+      menteeId: request.menteeId,
+      menteeName: request.menteeName,
+      message: request.message,
+      unreadCount,
+      createdAt: request.createdAt
+    });
+
+  } catch (error) {
+    console.error('Get match error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/messages:
+ *   get:
+ *     tags: [Messages]
+ *     summary: 메시지 목록 조회
+ *     description: 최신 메시지부터 limit개를 오래된 순으로 가져옵니다. before로 이전 페이지를 조회합니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: integer
+ *         description: 이 ID보다 오래된 메시지만 조회
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 messages:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Message'
+ *                 hasMore:
+ *                   type: boolean
+ *                   description: 더 오래된 메시지가 있는지 여부
+ *       400:
+ *         description: 잘못된 조회 조건
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/matches/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const limit = parsePositiveInt(req.query.limit, 30);
+    const beforeId = parsePositiveInt(req.query.before, undefined);
+
+    if (limit === null || beforeId === null) {
+      return res.status(400).json({ error: 'limit and before must be positive integers' });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { messages } = getRepositories();
+    const page = await messages.listForRequest(request.id, {
+      beforeId,
+      limit: Math.min(limit, MAX_PAGE_SIZE)
+    });
+
+    res.json({
+      messages: page.messages.map(toMessageResponse),
+      hasMore: page.hasMore
+    });
+
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/messages:
+ *   post:
+ *     tags: [Messages]
+ *     summary: 메시지 보내기
+ *     description: 수락된 매칭의 상대방에게 메시지를 보냅니다 (완료된 매칭에는 보낼 수 없음)
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       201:
+ *         description: 전송 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Message'
+ *       400:
+ *         description: 잘못된 메시지
+ *       403:
+ *         description: 멘토와 멘티 중 한쪽이 상대를 차단함 (USER_BLOCKED)
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       409:
+ *         description: 완료된 매칭이라 메시지를 보낼 수 없음 (CONVERSATION_CLOSED)
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/matches/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+    if (!body) {
+      return res.status(400).json({ error: 'Message body is required' });
+    }
+
+    if (body.length > MESSAGE_MAX_LENGTH) {
+      return res.status(400).json({ error: `Message must be at most ${MESSAGE_MAX_LENGTH} characters` });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    if (request.status !== 'accepted') {
+      return res.status(409).json({
+        error: 'Conversation is closed',
+        code: 'CONVERSATION_CLOSED'
+      });
+    }
+
+    const { messages, blocks } = getRepositories();
+    if (await blocks.isBlockedBetween(request.menteeId, request.mentorId)) {
+      return res.status(403).json({ error: 'You cannot message this user', code: 'USER_BLOCKED' });
+    }
+
+    const message = await messages.create({ request, senderId: req.user.sub, body });
+
+    res.status(201).json(toMessageResponse(message));
+
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/messages/read:
+ *   put:
+ *     tags: [Messages]
+ *     summary: 메시지 읽음 처리
+ *     description: 상대방이 보낸 메시지를 upToId까지(없으면 전부) 읽음 처리합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               upToId:
+ *                 type: integer
+ *                 description: 이 ID까지 읽음 처리
+ *     responses:
+ *       200:
+ *         description: 읽음 처리 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 updated:
+ *                   type: integer
+ *       400:
+ *         description: 잘못된 요청
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/matches/:id/messages/read', authenticateToken, async (req, res) => {
+  try {
+    const upToId = req.body ? req.body.upToId : undefined;
+
+    if (upToId !== undefined && !(Number.isInteger(upToId) && upToId > 0)) {
+      return res.status(400).json({ error: 'upToId must be a positive integer' });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { messages } = getRepositories();
+    const updated = await messages.markRead(request, req.user.sub, upToId);
+
+    res.json({ updated });
+
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,217 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { MAX_LIST_LIMIT } = require('../repositories/notificationRepository');
+const { parsePositiveInt } = require('../utils/query');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+// 알림 응답 형식
+function toNotificationResponse(notification) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    requestId: notification.requestId,
+    actorId: notification.actorId,
+    actorName: notification.actorName,
+    data: notification.data,
+    read: !!notification.readAt,
+    readAt: notification.readAt,
+    createdAt: notification.createdAt
+  };
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         type:
+ *           type: string
+ *           enum: [request_received, request_accepted, request_rejected, request_cancelled, request_expired, request_completed, booking_created, booking_rescheduled, booking_cancelled, review_received, review_responded]
+ *         requestId:
+ *           type: integer
+ *           nullable: true
+ *           description: 관련 매칭 요청 ID
+ *         actorId:
+ *           type: integer
+ *           nullable: true
+ *           description: 알림을 발생시킨 사용자 ID (시스템 처리는 null)
+ *         actorName:
+ *           type: string
+ *           nullable: true
+ *         data:
+ *           type: object
+ *           nullable: true
+ *           description: '종류별 부가 정보 (예: 거절/취소 사유 reason, 예약 bookingId와 startsAt, 리뷰 reviewId와 rating, 관리자 처리 여부 byAdmin)'
+ *         read:
+ *           type: boolean
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /notifications:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: 알림 목록 조회
+ *     description: 로그인한 사용자의 알림을 최신순으로 가져옵니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: true면 읽지 않은 알림만 조회
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: integer
+ *         description: 이 ID보다 오래된 알림만 조회 (다음 페이지)
+ *     responses:
+ *       200:
+ *         description: 알림 목록 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 unreadCount:
+ *                   type: integer
+ *       400:
+ *         description: 잘못된 조회 조건
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/notifications', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.sub;
+    const limit = parsePositiveInt(req.query.limit, 20);
+    const beforeId = parsePositiveInt(req.query.before, undefined);
+
+    if (limit === null || beforeId === null) {
+      return res.status(400).json({ error: 'limit and before must be positive integers' });
+    }
+
+    const { notifications } = getRepositories();
+    const items = await notifications.listForUser(userId, {
+      unreadOnly: req.query.unread === 'true',
+      limit: Math.min(limit, MAX_LIST_LIMIT),
+      beforeId
+    });
+    const unreadCount = await notifications.countUnread(userId);
+
+    res.json({
+      notifications: items.map(toNotificationResponse),
+      unreadCount
+    });
+
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/read-all:
+ *   put:
+ *     tags: [Notifications]
+ *     summary: 모든 알림 읽음 처리
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 읽음 처리 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 updated:
+ *                   type: integer
+ *                   description: 읽음 처리된 알림 수
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/notifications/read-all', authenticateToken, async (req, res) => {
+  try {
+    const { notifications } = getRepositories();
+    const updated = await notifications.markAllRead(req.user.sub);
+
+    res.json({ updated });
+
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /notifications/{id}/read:
+ *   put:
+ *     tags: [Notifications]
+ *     summary: 알림 읽음 처리
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 알림 ID
+ *     responses:
+ *       200:
+ *         description: 읽음 처리 성공
+ *       404:
+ *         description: 알림을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/notifications/:id/read', authenticateToken, async (req, res) => {
+  try {
+    const { notifications } = getRepositories();
+    const found = await notifications.markRead(req.user.sub, req.params.id);
+
+    if (!found) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({ message: 'Notification marked as read' });
+
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,16 +1,28 @@
 const express = require('express');
 const multer = require('multer');
 const sharp = require('sharp');
-const { getDatabase } = require('../models/database');
+const { getRepositories } = require('../repositories');
+const { config } = require('../config');
+const { getProfileImageUrl } = require('../utils/profileImage');
+const {
+  MAX_SKILLS_PER_USER,
+  MAX_YEARS_OF_EXPERIENCE,
+  SKILL_LEVELS,
+  SKILL_NAME_MAX_LENGTH,
+  normalizeSkillKey
+} = require('../utils/skills');
 const { authenticateToken } = require('./auth');
 
 const router = express.Router();
 
+const { maxImageBytes, minImageDimension, maxImageDimension } = config.upload;
+const { maxMenteesLimit } = config.matching;
+
 // 메모리에 파일 저장하는 multer 설정
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 1024 * 1024, // 1MB 제한
+    fileSize: maxImageBytes, // 기본 1MB 제한
   },
   fileFilter: (req, file, cb) => {
     // JPG, PNG만 허용
@@ -22,10 +34,159 @@ const upload = multer({
   }
 });
 
+// API 명세서 형식의 사용자 프로필 응답
+function toProfileResponse(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    emailVerified: !!user.emailVerifiedAt,
+    profile: {
+      name: user.name || '',
+      bio: user.bio || '',
+      imageUrl: getProfileImageUrl(user),
+      skills: user.role === 'mentor' ? user.skillsets : undefined,
+      skillDetails: user.role === 'mentor' ? user.skillDetails : undefined,
+      learningGoals: user.role === 'mentee' ? user.learningGoals : undefined,
+      maxMentees: user.role === 'mentor' ? user.maxMentees : undefined
+    }
+  };
+}
+
+// 기술 항목 → 저장 형식 (이름만 보낸 경우 숙련도/경력은 기존 값 유지)
+function toSkillInput(item) {
+  if (typeof item === 'string') {
+    return { name: item };
+  }
+  return { name: item.name, level: item.level, yearsOfExperience: item.yearsOfExperience };
+}
+
+// 학습 목표 항목 → 저장 형식
+function toLearningGoalInput(item) {
+  if (typeof item === 'string') {
+    return { name: item };
+  }
+  return { name: item.name, currentLevel: item.currentLevel };
+}
+
+function isValidSkillName(name) {
+  return typeof name === 'string' && !!normalizeSkillKey(name) && name.trim().length <= SKILL_NAME_MAX_LENGTH;
+}
+
+// 숙련도는 생략하거나 null 가능
+function isValidLevel(level) {
+  return level === undefined || level === null || SKILL_LEVELS.includes(level);
+}
+
+// 기술 스택 항목 검증 (이름 문자열 또는 { name, level, yearsOfExperience }). 오류 메시지 또는 null 반환
+function validateSkillItem(item) {
+  const skill = typeof item === 'string' ? { name: item } : item;
+  if (!skill || typeof skill !== 'object' || !isValidSkillName(skill.name)) {
+    return `Each skill must be a non-empty name of at most ${SKILL_NAME_MAX_LENGTH} characters`;
+  }
+  if (!isValidLevel(skill.level)) {
+    return `Skill level must be one of: ${SKILL_LEVELS.join(', ')}`;
+  }
+  const years = skill.yearsOfExperience;
+  if (years !== undefined && years !== null &&
+      (!Number.isInteger(years) || years < 0 || years > MAX_YEARS_OF_EXPERIENCE)) {
+    return `yearsOfExperience must be an integer between 0 and ${MAX_YEARS_OF_EXPERIENCE}`;
+  }
+  return null;
+}
+
+// 역할별 기술 스택 검증 (멘토는 필수, 멘티는 설정 불가). 오류 메시지 또는 null 반환
+function validateSkills(role, skills, fieldName) {
+  if (role === 'mentor' && (!skills || !Array.isArray(skills) || skills.length === 0)) {
+    return 'Skills are required for mentors';
+  }
+  if (role === 'mentee' && skills) {
+    return `Mentees cannot set ${fieldName}`;
+  }
+  if (role === 'mentor') {
+    if (skills.length > MAX_SKILLS_PER_USER) {
+      return `At most ${MAX_SKILLS_PER_USER} skills can be set`;
+    }
+    for (const skill of skills) {
+      const error = validateSkillItem(skill);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+// 학습 목표 검증 (멘티만, 생략 가능). 오류 메시지 또는 null 반환
+function validateLearningGoals(role, goals) {
+  if (goals === undefined) {
+    return null;
+  }
+  if (role !== 'mentee') {
+    return 'Mentors cannot set learningGoals';
+  }
+  if (!Array.isArray(goals)) {
+    return 'learningGoals must be an array';
+  }
+  if (goals.length > MAX_SKILLS_PER_USER) {
+    return `At most ${MAX_SKILLS_PER_USER} learning goals can be set`;
+  }
+  for (const item of goals) {
+    const goal = typeof item === 'string' ? { name: item } : item;
+    if (!goal || typeof goal !== 'object' || !isValidSkillName(goal.name)) {
+      return `Each learning goal must be a non-empty name of at most ${SKILL_NAME_MAX_LENGTH} characters`;
+    }
+    if (!isValidLevel(goal.currentLevel)) {
+      return `currentLevel must be one of: ${SKILL_LEVELS.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+// 최대 멘티 수 검증 (멘토만, 1 ~ maxMenteesLimit). 오류 메시지 또는 null 반환
+function validateMaxMentees(role, maxMentees) {
+  if (maxMentees === undefined) {
+    return null;
+  }
+  if (role !== 'mentor') {
+    return 'Mentees cannot set maxMentees';
+  }
+  if (!Number.isInteger(maxMentees) || maxMentees < 1 || maxMentees > maxMenteesLimit) {
+    return `maxMentees must be an integer between 1 and ${maxMenteesLimit}`;
+  }
+  return null;
+}
+
 /**
  * @swagger
  * components:
  *   schemas:
+ *     SkillDetail:
+ *       type: object
+ *       required: [name]
+ *       properties:
+ *         name:
+ *           type: string
+ *         level:
+ *           type: string
+ *           nullable: true
+ *           enum: [beginner, intermediate, advanced, expert]
+ *         yearsOfExperience:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 0
+ *           maximum: 50
+ *     LearningGoal:
+ *       type: object
+ *       required: [name]
+ *       properties:
+ *         name:
+ *           type: string
+ *         currentLevel:
+ *           type: string
+ *           nullable: true
+ *           enum: [beginner, intermediate, advanced, expert]
+ *           description: 현재 수준
  *     UserProfile:
  *       type: object
  *       properties:
@@ -44,9 +205,25 @@ const upload = multer({
  *           type: array
  *           items:
  *             type: string
+ *         skillDetails:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SkillDetail'
+ *           description: 기술별 숙련도와 경력 연수 (멘토만)
+ *         learningGoals:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LearningGoal'
+ *           description: 배우고 싶은 기술과 현재 수준 (멘티만)
  *         profile_image_url:
  *           type: string
  *           description: 프로필 이미지 URL
+ *         emailVerified:
+ *           type: boolean
+ *           description: 이메일 인증 여부
+ *         maxMentees:
+ *           type: integer
+ *           description: 동시에 받을 수 있는 최대 멘티 수 (멘토만)
  *         created_at:
  *           type: string
  *           format: date-time
@@ -61,9 +238,24 @@ const upload = multer({
  *           description: 자기소개
  *         skillsets:
  *           type: array
+ *           maxItems: 20
  *           items:
- *             type: string
- *           description: 기술 스택 (멘토만)
+ *             oneOf:
+ *               - type: string
+ *               - $ref: '#/components/schemas/SkillDetail'
+ *           description: 기술 스택 (멘토만, 별칭은 대표 이름으로 저장. 예를 들어 ReactJS는 React). 이름만 보내면 기존 숙련도와 경력 유지
+ *         learningGoals:
+ *           type: array
+ *           maxItems: 20
+ *           items:
+ *             oneOf:
+ *               - type: string
+ *               - $ref: '#/components/schemas/LearningGoal'
+ *           description: 학습 목표 (멘티만)
+ *         maxMentees:
+ *           type: integer
+ *           minimum: 1
+ *           description: 동시에 받을 수 있는 최대 멘티 수 (멘토만, 기본 1)
  */
 
 /**
@@ -89,59 +281,14 @@ const upload = multer({
  */
 router.get('/me', authenticateToken, async (req, res) => {
   try {
-    const userId = req.user.sub;
-    const db = getDatabase();
-    
-    const user = await new Promise((resolve, reject) => {
-      db.get(
-        `SELECT id, email, role, name, bio, skillsets, 
-                profile_image_type, created_at 
-         FROM users WHERE id = ?`,
-        [userId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    const { users } = getRepositories();
+    const user = await users.findById(req.user.sub);
     
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // 기본 프로필 이미지 URL 설정
-    let profileImageUrl;
-    if (user.profile_image_type) {
-      profileImageUrl = `/api/profile/image/${userId}`;
-    } else {
-      // 기본 이미지
-      const defaultImage = user.role === 'mentor' 
-        ? 'https://placehold.co/500x500.jpg?text=MENTOR'
-        : 'https://placehold.co/500x500.jpg?text=MENTEE';
-      profileImageUrl = defaultImage;
-    }
-    
-    // skillsets JSON 파싱
-    let skillsets = [];
-    if (user.skillsets) {
-      try {
-        skillsets = JSON.parse(user.skillsets);
-      } catch (e) {
-        console.error('Error parsing skillsets:', e);
-      }
-    }
-    
-    res.json({
-      id: user.id,
-      email: user.email,
-      role: user.role,
-      profile: {
-        name: user.name || '',
-        bio: user.bio || '',
-        imageUrl: profileImageUrl,
-        skills: user.role === 'mentor' ? skillsets : undefined
-      }
-    });
+    res.json(toProfileResponse(user));
     
   } catch (error) {
     console.error('Get profile error:', error);
@@ -177,65 +324,31 @@ router.get('/me', authenticateToken, async (req, res) => {
 router.put('/me', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.sub;
-    const { name, bio, skillsets } = req.body;
-    const db = getDatabase();
-    
-    // 사용자 역할 확인
-    const userRole = req.user.role;
+    const { name, bio, skillsets, learningGoals, maxMentees } = req.body;
     
     // 필수 필드 검증
     if (!name || name.trim() === '') {
       return res.status(400).json({ error: 'Name is required' });
     }
     
-    // 멘토의 경우 skillsets 필수
-    if (userRole === 'mentor' && (!skillsets || !Array.isArray(skillsets) || skillsets.length === 0)) {
-      return res.status(400).json({ error: 'Skills are required for mentors' });
-    }
-    
-    // skillsets를 JSON 문자열로 변환
-    let skillsetsJson = null;
-    if (skillsets && Array.isArray(skillsets)) {
-      skillsetsJson = JSON.stringify(skillsets);
-    }
-    
-    // 멘티는 skillsets 설정 불가
-    if (userRole === 'mentee' && skillsets) {
-      return res.status(400).json({ error: 'Mentees cannot set skillsets' });
+    const skillsError = validateSkills(req.user.role, skillsets, 'skillsets')
+      || validateLearningGoals(req.user.role, learningGoals);
+    if (skillsError) {
+      return res.status(400).json({ error: skillsError });
     }
-    
-    // 업데이트 쿼리 구성
-    let updateQuery = 'UPDATE users SET ';
-    let updateParams = [];
-    let updateFields = [];
-    
-    if (name !== undefined) {
-      updateFields.push('name = ?');
-      updateParams.push(name);
-    }
-    
-    if (bio !== undefined) {
-      updateFields.push('bio = ?');
-      updateParams.push(bio);
-    }
-    
-    if (skillsetsJson !== null && userRole === 'mentor') {
-      updateFields.push('skillsets = ?');
-      updateParams.push(skillsetsJson);
-    }
-    
-    if (updateFields.length === 0) {
-      return res.status(400).json({ error: 'No fields to update' });
+
+    const maxMenteesError = validateMaxMentees(req.user.role, maxMentees);
+    if (maxMenteesError) {
+      return res.status(400).json({ error: maxMenteesError });
     }
     
-    updateQuery += updateFields.join(', ') + ' WHERE id = ?';
-    updateParams.push(userId);
-    
-    await new Promise((resolve, reject) => {
-      db.run(updateQuery, updateParams, function(err) {
-        if (err) reject(err);
-        else resolve();
-      });
+    const { users } = getRepositories();
+    await users.updateProfile(userId, {
+      name,
+      bio,
+      skillsets: skillsets?.map(toSkillInput),
+      learningGoals: learningGoals?.map(toLearningGoalInput),
+      maxMentees
     });
     
     console.log(`✅ Profile updated for user ID: ${userId}`);
@@ -286,27 +399,19 @@ router.post('/profile/image', authenticateToken, upload.single('image'), async (
     // 이미지 메타데이터 확인
     const metadata = await sharp(req.file.buffer).metadata();
     
-    // 픽셀 크기 검증 (500-1000px)
-    if (metadata.width < 500 || metadata.width > 1000 || metadata.height < 500 || metadata.height > 1000) {
+    // 픽셀 크기 검증 (기본 500-1000px)
+    if (metadata.width < minImageDimension || metadata.width > maxImageDimension ||
+        metadata.height < minImageDimension || metadata.height > maxImageDimension) {
       return res.status(400).json({ 
-        error: 'Image dimensions must be between 500x500 and 1000x1000 pixels' 
+        error: `Image dimensions must be between ${minImageDimension}x${minImageDimension} and ${maxImageDimension}x${maxImageDimension} pixels` 
       });
     }
     
     const userId = req.user.sub;
-    const db = getDatabase();
+    const { users } = getRepositories();
     
     // 이미지 데이터와 MIME 타입 저장
-    await new Promise((resolve, reject) => {
-      db.run(
-        'UPDATE users SET profile_image = ?, profile_image_type = ? WHERE id = ?',
-        [req.file.buffer, req.file.mimetype, userId],
-        function(err) {
-          if (err) reject(err);
-          else resolve();
-        }
-      );
-    });
+    await users.setProfileImage(userId, req.file.buffer, req.file.mimetype);
     
     console.log(`✅ Profile image uploaded for user ID: ${userId}, dimensions: ${metadata.width}x${metadata.height}`);
     res.json({ 
@@ -353,26 +458,15 @@ router.post('/profile/image', authenticateToken, upload.single('image'), async (
  */
 router.get('/profile/image/:userId', async (req, res) => {
   try {
-    const userId = req.params.userId;
-    const db = getDatabase();
-    
-    const result = await new Promise((resolve, reject) => {
-      db.get(
-        'SELECT profile_image, profile_image_type FROM users WHERE id = ?',
-        [userId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
+    const { users } = getRepositories();
+    const image = await users.findProfileImage(req.params.userId);
     
-    if (!result || !result.profile_image) {
+    if (!image) {
       return res.status(404).json({ error: 'Profile image not found' });
     }
     
-    res.setHeader('Content-Type', result.profile_image_type);
-    res.send(result.profile_image);
+    res.setHeader('Content-Type', image.mimeType);
+    res.send(image.data);
     
   } catch (error) {
     console.error('Get profile image error:', error);
@@ -380,13 +474,11 @@ router.get('/profile/image/:userId', async (req, res) => {
   }
 });
 
-// API 명세서와 호환성을 위한 alias
+// API 명세서와 호환성을 위한 alias (PUT /me와 같은 저장 로직, 응답은 수정된 프로필)
 router.put('/profile', authenticateToken, async (req, res) => {
-  // PUT /me와 동일한 로직 사용
   try {
     const userId = req.user.sub;
-    const { id, name, bio, skills, role } = req.body; // id, role 검증을 위해 추가
-    const db = getDatabase();
+    const { id, name, bio, skills, learningGoals, role, maxMentees } = req.body; // id, role 검증을 위해 추가
     
     // 입력 검증 - id가 있어야 함 (API 명세서 요구사항)
     if (id === undefined) {
@@ -403,114 +495,36 @@ router.put('/profile', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Invalid role. Must be mentor or mentee' });
     }
     
-    // 사용자 역할 확인
-    const userRole = req.user.role;
-    
     // role 변경 시도시 에러 (보안상 역할 변경 불허)
-    if (role !== undefined && role !== userRole) {
+    if (role !== undefined && role !== req.user.role) {
       return res.status(400).json({ error: 'Cannot change user role' });
     }
     
-    // 멘토는 skills가 필수
-    if (userRole === 'mentor' && (!skills || !Array.isArray(skills) || skills.length === 0)) {
-      return res.status(400).json({ error: 'Skills are required for mentors' });
-    }
-    
-    // skillsets를 JSON 문자열로 변환
-    let skillsetsJson = null;
-    if (skills && Array.isArray(skills)) {
-      skillsetsJson = JSON.stringify(skills);
-    }
-    
-    // 멘티는 skills 설정 불가
-    if (userRole === 'mentee' && skills) {
-      return res.status(400).json({ error: 'Mentees cannot set skills' });
-    }
-    
-    // 업데이트 쿼리 구성
-    let updateQuery = 'UPDATE users SET ';
-    let updateParams = [];
-    let updateFields = [];
-    
-    if (name !== undefined) {
-      updateFields.push('name = ?');
-      updateParams.push(name);
-    }
-    
-    if (bio !== undefined) {
-      updateFields.push('bio = ?');
-      updateParams.push(bio);
+    const skillsError = validateSkills(req.user.role, skills, 'skills')
+      || validateLearningGoals(req.user.role, learningGoals);
+    if (skillsError) {
+      return res.status(400).json({ error: skillsError });
     }
-    
-    if (skillsetsJson !== null && userRole === 'mentor') {
-      updateFields.push('skillsets = ?');
-      updateParams.push(skillsetsJson);
-    }
-    
-    if (updateFields.length === 0) {
-      return res.status(400).json({ error: 'No fields to update' });
+
+    const maxMenteesError = validateMaxMentees(req.user.role, maxMentees);
+    if (maxMenteesError) {
+      return res.status(400).json({ error: maxMenteesError });
     }
     
-    updateQuery += updateFields.join(', ') + ' WHERE id = ?';
-    updateParams.push(userId);
-    
-    // 업데이트 실행
-    await new Promise((resolve, reject) => {
-      db.run(updateQuery, updateParams, function(err) {
-        if (err) reject(err);
-        else resolve();
-      });
+    const { users } = getRepositories();
+    await users.updateProfile(userId, {
+      name,
+      bio,
+      skillsets: skills?.map(toSkillInput),
+      learningGoals: learningGoals?.map(toLearningGoalInput),
+      maxMentees
     });
-    
-    // 업데이트된 사용자 정보 조회
-    const updatedUser = await new Promise((resolve, reject) => {
-      db.get(
-        `SELECT id, email, role, name, bio, skillsets, 
-                profile_image_type, created_at 
-         FROM users WHERE id = ?`,
-        [userId],
-        (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        }
-      );
-    });
-    
-    // 기본 프로필 이미지 URL 설정
-    let profileImageUrl;
-    if (updatedUser.profile_image_type) {
-      profileImageUrl = `/api/profile/image/${userId}`;
-    } else {
-      const defaultImage = updatedUser.role === 'mentor' 
-        ? 'https://placehold.co/500x500.jpg?text=MENTOR'
-        : 'https://placehold.co/500x500.jpg?text=MENTEE';
-      profileImageUrl = defaultImage;
-    }
-    
-    // skillsets JSON 파싱
-    let skillsets = [];
-    if (updatedUser.skillsets) {
-      try {
-        skillsets = JSON.parse(updatedUser.skillsets);
-      } catch (e) {
-        console.error('Error parsing skillsets:', e);
-      }
-    }
+    const updatedUser = await users.findById(userId);
     
     console.log(`✅ Profile updated for user ID: ${userId}`);
     
     // API 명세서 형식으로 응답
-    res.json({
-      id: updatedUser.id,
-      email: updatedUser.email,
-      role: updatedUser.role,
-      profile: {
-        name: updatedUser.name || '',
-        bio: updatedUser.bio || '',
-        imageUrl: profileImageUrl,
-        skills: updatedUser.role === 'mentor' ? skillsets : undefined
-      }
-    });
+    res.json(toProfileResponse(updatedUser));
     
   } catch (error) {
     console.error('Update profile error:', error);
@@ -0,0 +1,181 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { REPORT_CATEGORIES } = require('../repositories/reportRepository');
+const { parsePositiveInt } = require('../utils/query');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+const DESCRIPTION_MAX_LENGTH = 1000;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Report:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         reportedUserId:
+ *           type: integer
+ *         requestId:
+ *           type: integer
+ *           nullable: true
+ *           description: 신고 대상 매칭 요청 (사용자 자체에 대한 신고는 null)
+ *         category:
+ *           type: string
+ *           enum: [spam, harassment, inappropriate, fake_profile, other]
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [open, resolved, dismissed]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /reports:
+ *   post:
+ *     tags: [Reports]
+ *     summary: 사용자 또는 매칭 요청 신고
+ *     description: |
+ *       부적절한 사용자나 매칭 요청 메시지를 신고합니다. 신고는 관리자 검토 대기열에 등록됩니다.
+ *       requestId를 보내면 해당 요청의 상대방이 신고 대상이 되며, 요청의 당사자만 신고할 수 있습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - category
+ *             properties:
+ *               reportedUserId:
+ *                 type: integer
+ *                 description: 신고할 사용자 (requestId가 없으면 필수)
+ *               requestId:
+ *                 type: integer
+ *                 description: 신고할 매칭 요청
+ *               category:
+ *                 type: string
+ *                 enum: [spam, harassment, inappropriate, fake_profile, other]
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: 상세 내용 (category가 other이면 필수)
+ *     responses:
+ *       201:
+ *         description: 신고 접수됨
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Report'
+ *       400:
+ *         description: 잘못된 입력 또는 자기 자신 신고
+ *       401:
+ *         description: 인증 실패
+ *       403:
+ *         description: 요청의 당사자가 아님
+ *       404:
+ *         description: 사용자 또는 요청을 찾을 수 없음
+ *       409:
+ *         description: 같은 대상에 대해 검토 대기 중인 신고가 있음 (REPORT_EXISTS)
+ */
+router.post('/reports', authenticateToken, async (req, res) => {
+  try {
+    const { category } = req.body || {};
+    const reporterId = Number(req.user.sub);
+
+    if (!REPORT_CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: `category must be one of: ${REPORT_CATEGORIES.join(', ')}` });
+    }
+
+    if (req.body.description !== undefined && req.body.description !== null && typeof req.body.description !== 'string') {
+      return res.status(400).json({ error: 'description must be a string' });
+    }
+    const description = (req.body.description || '').trim();
+    if (description.length > DESCRIPTION_MAX_LENGTH) {
+      return res.status(400).json({ error: `description must be at most ${DESCRIPTION_MAX_LENGTH} characters` });
+    }
+    if (category === 'other' && !description) {
+      return res.status(400).json({ error: 'description is required for category other' });
+    }
+
+    const requestId = parsePositiveInt(req.body.requestId ?? undefined, undefined);
+    let reportedUserId = parsePositiveInt(req.body.reportedUserId ?? undefined, undefined);
+    if (requestId === null || reportedUserId === null) {
+      return res.status(400).json({ error: 'reportedUserId and requestId must be positive integers' });
+    }
+    if (!requestId && !reportedUserId) {
+      return res.status(400).json({ error: 'reportedUserId or requestId is required' });
+    }
+
+    const { users, matchingRequests, reports } = getRepositories();
+
+    // 요청 신고: 요청의 당사자만 신고할 수 있고 상대방이 신고 대상
+    if (requestId) {
+      const request = await matchingRequests.findById(requestId);
+      if (!request) {
+        return res.status(404).json({ error: 'Matching request not found' });
+      }
+      if (request.menteeId !== reporterId && request.mentorId !== reporterId) {
+        return res.status(403).json({ error: 'You can only report your own matching requests' });
+      }
+
+      const counterpartId = request.menteeId === reporterId ? request.mentorId : request.menteeId;
+      if (reportedUserId && reportedUserId !== counterpartId) {
+        return res.status(400).json({ error: 'reportedUserId does not match the matching request' });
+      }
+      reportedUserId = counterpartId;
+    }
+
+    if (reportedUserId === reporterId) {
+      return res.status(400).json({ error: 'You cannot report yourself' });
+    }
+
+    const reportedUser = await users.findById(reportedUserId);
+    if (!reportedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (reportedUser.role === 'admin') {
+      return res.status(400).json({ error: 'Admin accounts cannot be reported' });
+    }
+
+    const result = await reports.create({
+      reporterId,
+      reportedUserId,
+      requestId: requestId || null,
+      category,
+      description: description || null
+    });
+    if (result.outcome === 'duplicate') {
+      return res.status(409).json({ error: 'You have already reported this and it is awaiting review', code: 'REPORT_EXISTS' });
+    }
+
+    const { report } = result;
+    console.log(`🚩 Report ${report.id} filed by user ${reporterId} against user ${reportedUserId} (${category})`);
+
+    // 신고자에게는 검토 결과 등 관리자 정보를 노출하지 않음
+    res.status(201).json({
+      id: report.id,
+      reportedUserId: report.reportedUserId,
+      requestId: report.requestId,
+      category: report.category,
+      description: report.description,
+      status: report.status,
+      createdAt: report.createdAt
+    });
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
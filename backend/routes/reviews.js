@@ -0,0 +1,379 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { MAX_PAGE_SIZE } = require('../repositories/reviewRepository');
+const { parsePositiveInt } = require('../utils/query');
+const { loadMatch } = require('../utils/matchAccess');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+const REVIEW_MAX_LENGTH = 2000;
+const RESPONSE_MAX_LENGTH = 2000;
+
+function toReviewResponse(review) {
+  return {
+    id: review.id,
+    requestId: review.requestId,
+    mentorId: review.mentorId,
+    menteeId: review.menteeId,
+    menteeName: review.menteeName,
+    rating: review.rating,
+    body: review.body,
+    mentorResponse: review.mentorResponse,
+    respondedAt: review.respondedAt,
+    createdAt: review.createdAt
+  };
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Review:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         requestId:
+ *           type: integer
+ *           description: 리뷰 대상 매칭 요청 ID
+ *         mentorId:
+ *           type: integer
+ *         menteeId:
+ *           type: integer
+ *         menteeName:
+ *           type: string
+ *         rating:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         body:
+ *           type: string
+ *         mentorResponse:
+ *           type: string
+ *           nullable: true
+ *           description: 멘토의 답글
+ *         respondedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ReviewSummary:
+ *       type: object
+ *       properties:
+ *         averageRating:
+ *           type: number
+ *           nullable: true
+ *           description: 평균 평점 (소수점 첫째 자리, 리뷰가 없으면 null)
+ *         reviewCount:
+ *           type: integer
+ *         distribution:
+ *           type: object
+ *           description: 평점별 리뷰 수 (키 '1' ~ '5')
+ *           additionalProperties:
+ *             type: integer
+ */
+
+/**
+ * @swagger
+ * /mentors/{mentorId}/reviews:
+ *   get:
+ *     tags: [Reviews]
+ *     summary: 멘토 리뷰 목록
+ *     description: 멘토가 받은 리뷰를 최신순으로 가져옵니다. before로 이전 페이지를 조회합니다. 공개 프로필에 표시되므로 인증 없이 조회할 수 있습니다.
+ *     parameters:
+ *       - in: path
+ *         name: mentorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 멘토 ID
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: integer
+ *         description: 이 ID보다 이전 리뷰만 조회
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 summary:
+ *                   $ref: '#/components/schemas/ReviewSummary'
+ *                 reviews:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Review'
+ *                 hasMore:
+ *                   type: boolean
+ *       400:
+ *         description: 잘못된 조회 조건
+ *       404:
+ *         description: 멘토를 찾을 수 없음
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/mentors/:mentorId/reviews', async (req, res) => {
+  try {
+    const limit = parsePositiveInt(req.query.limit, 10);
+    const beforeId = parsePositiveInt(req.query.before, undefined);
+
+    if (limit === null || beforeId === null) {
+      return res.status(400).json({ error: 'limit and before must be positive integers' });
+    }
+
+    const { users, reviews } = getRepositories();
+    const mentor = await users.findMentorById(req.params.mentorId);
+
+    if (!mentor) {
+      return res.status(404).json({ error: 'Mentor not found' });
+    }
+
+    const [summary, page] = await Promise.all([
+      reviews.getSummary(mentor.id),
+      reviews.listForMentor(mentor.id, { beforeId, limit: Math.min(limit, MAX_PAGE_SIZE) })
+    ]);
+
+    res.json({
+      summary,
+      reviews: page.reviews.map(toReviewResponse),
+      hasMore: page.hasMore
+    });
+
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/review:
+ *   get:
+ *     tags: [Reviews]
+ *     summary: 매칭 리뷰 조회
+ *     description: 매칭 당사자가 해당 매칭의 리뷰를 조회합니다. 아직 작성되지 않았으면 review는 null입니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     responses:
+ *       200:
+ *         description: 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 review:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Review'
+ *                   nullable: true
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/matches/:id/review', authenticateToken, async (req, res) => {
+  try {
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { reviews } = getRepositories();
+    const review = await reviews.findByRequest(request.id);
+
+    res.json({ review: review ? toReviewResponse(review) : null });
+
+  } catch (error) {
+    console.error('Get match review error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /matches/{id}/review:
+ *   post:
+ *     tags: [Reviews]
+ *     summary: 리뷰 작성 (멘티 전용)
+ *     description: 수락되었거나 완료된 매칭의 멘티가 멘토에 대한 평점과 리뷰를 남깁니다. 매칭당 하나만 작성할 수 있습니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 매칭 요청 ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *               - body
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               body:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       201:
+ *         description: 작성 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       400:
+ *         description: 잘못된 평점 또는 리뷰
+ *       403:
+ *         description: 멘티만 작성 가능
+ *       404:
+ *         description: 매칭을 찾을 수 없음
+ *       409:
+ *         description: 이미 리뷰를 작성함 (REVIEW_EXISTS)
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.post('/matches/:id/review', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.role !== 'mentee') {
+      return res.status(403).json({ error: 'Only mentees can write reviews' });
+    }
+
+    const { rating } = req.body;
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({ error: 'rating must be an integer between 1 and 5' });
+    }
+    if (!body) {
+      return res.status(400).json({ error: 'Review body is required' });
+    }
+    if (body.length > REVIEW_MAX_LENGTH) {
+      return res.status(400).json({ error: `Review must be at most ${REVIEW_MAX_LENGTH} characters` });
+    }
+
+    const request = await loadMatch(req, res);
+    if (!request) return;
+
+    const { reviews } = getRepositories();
+    const result = await reviews.create({ request, rating, body });
+
+    if (result.outcome === 'duplicate') {
+      return res.status(409).json({
+        error: 'You have already reviewed this mentorship',
+        code: 'REVIEW_EXISTS'
+      });
+    }
+
+    console.log(`✅ Review created: review ID ${result.review.id} for mentor ID ${request.mentorId}`);
+    res.status(201).json(toReviewResponse(result.review));
+
+  } catch (error) {
+    console.error('Create review error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /reviews/{id}/response:
+ *   put:
+ *     tags: [Reviews]
+ *     summary: 리뷰에 답글 작성 (멘토 전용)
+ *     description: 리뷰를 받은 멘토가 답글을 작성하거나 수정합니다
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: 리뷰 ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - response
+ *             properties:
+ *               response:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: 답글 작성 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       400:
+ *         description: 잘못된 답글
+ *       404:
+ *         description: 리뷰를 찾을 수 없음
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.put('/reviews/:id/response', authenticateToken, async (req, res) => {
+  try {
+    const response = req.body && typeof req.body.response === 'string' ? req.body.response.trim() : '';
+
+    if (!response) {
+      return res.status(400).json({ error: 'Response is required' });
+    }
+    if (response.length > RESPONSE_MAX_LENGTH) {
+      return res.status(400).json({ error: `Response must be at most ${RESPONSE_MAX_LENGTH} characters` });
+    }
+
+    const { reviews } = getRepositories();
+    const review = await reviews.findById(req.params.id);
+
+    // 다른 멘토의 리뷰는 존재 여부를 드러내지 않음
+    if (!review || String(review.mentorId) !== String(req.user.sub)) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const updated = await reviews.respond(review, response);
+
+    console.log(`✅ Review response saved: review ID ${review.id}`);
+    res.json(toReviewResponse(updated));
+
+  } catch (error) {
+    console.error('Respond to review error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
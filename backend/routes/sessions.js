@@ -0,0 +1,173 @@
+const express = require('express');
+const { authenticateToken } = require('./auth');
+const {
+  listActiveSessions,
+  revokeSession,
+  revokeAllSessions
+} = require('../services/sessionService');
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Session:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: 세션 ID
+ *         device:
+ *           type: string
+ *           description: User-Agent로 추정한 기기 정보
+ *         userAgent:
+ *           type: string
+ *         ipAddress:
+ *           type: string
+ *         issuedAt:
+ *           type: string
+ *           format: date-time
+ *           description: 로그인 시각
+ *         lastSeenAt:
+ *           type: string
+ *           format: date-time
+ *           description: 마지막 활동 시각
+ *         current:
+ *           type: boolean
+ *           description: 현재 요청에 사용된 세션 여부
+ */
+
+/**
+ * @swagger
+ * /sessions:
+ *   get:
+ *     tags: [Sessions]
+ *     summary: 활성 세션 목록 조회
+ *     description: 로그인한 사용자의 폐기되지 않은 세션(기기) 목록을 가져옵니다
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 세션 목록 조회 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user.sub);
+
+    res.json(sessions.map(session => ({
+      id: session.id,
+      device: session.device,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      issuedAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      current: session.id === req.user.sid
+    })));
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}:
+ *   delete:
+ *     tags: [Sessions]
+ *     summary: 세션 폐기
+ *     description: 특정 세션을 폐기합니다. 해당 세션의 액세스/리프레시 토큰은 즉시 사용할 수 없게 됩니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: 세션 ID
+ *     responses:
+ *       204:
+ *         description: 세션 폐기 성공
+ *       401:
+ *         description: 인증 필요
+ *       404:
+ *         description: 세션을 찾을 수 없음
+ *       500:
+ *         description: 서버 오류
+ */
+router.delete('/sessions/:sessionId', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeSession(req.params.sessionId, req.user.sub);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    console.log(`✅ Session revoked: ${req.params.sessionId} by user ID: ${req.user.sub}`);
+    res.status(204).end();
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions:
+ *   delete:
+ *     tags: [Sessions]
+ *     summary: 모든 기기에서 로그아웃
+ *     description: 사용자의 모든 세션을 폐기합니다. keepCurrent=true이면 현재 세션은 유지합니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: keepCurrent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: 현재 세션 유지 여부
+ *     responses:
+ *       200:
+ *         description: 세션 폐기 성공
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revoked:
+ *                   type: integer
+ *                   description: 폐기된 세션 수
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const keepCurrent = req.query.keepCurrent === 'true';
+    const revoked = await revokeAllSessions(req.user.sub, keepCurrent ? req.user.sid : null);
+
+    console.log(`✅ ${revoked} sessions revoked for user ID: ${req.user.sub}`);
+    res.json({ revoked });
+
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
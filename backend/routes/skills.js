@@ -0,0 +1,89 @@
+const express = require('express');
+const { getRepositories } = require('../repositories');
+const { MAX_SEARCH_LIMIT } = require('../repositories/skillRepository');
+const { parsePositiveInt } = require('../utils/query');
+const { authenticateToken } = require('./auth');
+
+const router = express.Router();
+
+const MAX_QUERY_LENGTH = 50;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Skill:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           description: 대표 이름
+ *         usageCount:
+ *           type: integer
+ *           description: 이 기술을 등록한 멘토 수
+ */
+
+/**
+ * @swagger
+ * /skills:
+ *   get:
+ *     tags: [Skills]
+ *     summary: 기술 스택 검색 (자동완성)
+ *     description: 이름 또는 별칭(예를 들어 JS, k8s)으로 기술 스택을 찾습니다. q가 없으면 많이 쓰이는 기술 목록을 반환합니다.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           maxLength: 50
+ *         description: 검색어
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: 조회 성공 (정확히 일치하는 기술, 사용자 수 많은 순)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Skill'
+ *       400:
+ *         description: 잘못된 검색 조건
+ *       401:
+ *         description: 인증 필요
+ *       500:
+ *         description: 서버 오류
+ */
+router.get('/skills', authenticateToken, async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = parsePositiveInt(req.query.limit, 10);
+
+    if (limit === null) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` });
+    }
+
+    const { skills } = getRepositories();
+    const results = await skills.search({ query: query || undefined, limit: Math.min(limit, MAX_SEARCH_LIMIT) });
+
+    res.json(results);
+
+  } catch (error) {
+    console.error('Search skills error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
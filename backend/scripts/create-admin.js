@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+// 관리자 계정 생성 CLI (관리자는 회원가입으로 만들 수 없음)
+// 사용법: ADMIN_PASSWORD=<비밀번호> node scripts/create-admin.js <이메일> [이름]
+//   비밀번호는 셸 기록에 남지 않도록 환경 변수로만 받음
+const bcrypt = require('bcrypt');
+const { validateConfig } = require('../config');
+
+try {
+  validateConfig();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const { initDatabase, closeDatabase } = require('../models/database');
+const { getRepositories } = require('../repositories');
+
+const MIN_PASSWORD_LENGTH = 6;
+
+async function main() {
+  const [email, name = 'Admin'] = process.argv.slice(2);
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error('Usage: ADMIN_PASSWORD=<password> node scripts/create-admin.js <email> [name]');
+  }
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+
+  await initDatabase();
+  const { users } = getRepositories();
+
+  if (await users.emailExists(email)) {
+    throw new Error(`Email already exists: ${email}`);
+  }
+
+  const passwordHash = await bcrypt.hash(password, 10);
+  const userId = await users.create({ email, passwordHash, name, role: 'admin' });
+  // 운영자가 직접 만든 계정이므로 인증 메일 없이 인증 처리
+  await users.markEmailVerified(userId);
+
+  console.log(`✅ Admin created: ${email} (ID: ${userId})`);
+}
+
+main()
+  .then(() => closeDatabase())
+  .catch(async (error) => {
+    console.error('❌ Create admin error:', error.message);
+    await closeDatabase();
+    process.exit(1);
+  });
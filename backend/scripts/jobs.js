@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+// 백그라운드 작업 CLI
+// 사용법: node scripts/jobs.js <status|run> [작업 이름]
+//   status      작업별 다음 실행 시각과 마지막 실행 결과 출력
+//   run <name>  다음 실행 시각과 관계없이 작업을 바로 실행 (다른 프로세스에서 실행 중이면 건너뜀)
+const { validateConfig } = require('../config');
+
+try {
+  validateConfig();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const { initDatabase, closeDatabase } = require('../models/database');
+const { JOBS, findJob, runJob, getJobStatuses } = require('../jobs');
+
+async function main() {
+  const [command = 'status', name] = process.argv.slice(2);
+  await initDatabase();
+
+  switch (command) {
+    case 'status': {
+      const statuses = await getJobStatuses();
+      JOBS.forEach(job => {
+        const state = statuses.find(status => status.name === job.name);
+        if (!state) {
+          console.log(`${job.name}  never run`);
+          return;
+        }
+        const last = state.lastStatus ? `${state.lastStatus} at ${state.lastFinishedAt}` : 'running';
+        console.log(`${job.name}  last: ${last}  next: ${state.nextRunAt}  runs: ${state.runCount}`);
+      });
+      break;
+    }
+    case 'run': {
+      const job = findJob(name);
+      if (!job) {
+        throw new Error(`Unknown job: ${name} (expected one of ${JOBS.map(j => j.name).join(', ')})`);
+      }
+      const ran = await runJob(job, { force: true });
+      if (!ran) {
+        console.log(`Job ${job.name} is already running elsewhere`);
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command} (expected status or run)`);
+  }
+}
+
+main()
+  .then(() => closeDatabase())
+  .catch(async (error) => {
+    console.error('❌ Job error:', error.message);
+    await closeDatabase();
+    process.exit(1);
+  });
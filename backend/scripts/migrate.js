@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+// 스키마 마이그레이션 CLI
+// 사용법: node scripts/migrate.js <up|down|status> [--steps N]
+//   up      적용되지 않은 마이그레이션 모두 적용
+//   down    최근 마이그레이션 되돌리기 (기본 1개, --steps로 개수 지정)
+//   status  마이그레이션별 적용 여부 출력
+const { validateConfig } = require('../config');
+
+try {
+  validateConfig();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const { getAsyncDatabase, closeDatabase } = require('../models/database');
+const { migrate, rollback, status } = require('../models/migrator');
+
+function parseSteps(args) {
+  const index = args.indexOf('--steps');
+  if (index === -1) {
+    return 1;
+  }
+
+  const steps = Number(args[index + 1]);
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('--steps must be a positive integer');
+  }
+  return steps;
+}
+
+async function main() {
+  const [command = 'up', ...args] = process.argv.slice(2);
+  const database = getAsyncDatabase();
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrate(database);
+      console.log(applied.length > 0 ? `🎉 Applied ${applied.length} migration(s)` : '✅ Database schema is up to date');
+      break;
+    }
+    case 'down': {
+      const reverted = await rollback(database, parseSteps(args));
+      console.log(reverted.length > 0 ? `🎉 Rolled back ${reverted.length} migration(s)` : 'Nothing to roll back');
+      break;
+    }
+    case 'status': {
+      const migrations = await status(database);
+      migrations.forEach(migration => {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending';
+        console.log(`${migration.label}  ${state}`);
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command} (expected up, down or status)`);
+  }
+}
+
+main()
+  .then(() => closeDatabase())
+  .catch(async (error) => {
+    console.error('❌ Migration error:', error.message);
+    await closeDatabase();
+    process.exit(1);
+  });
@@ -1,14 +1,29 @@
+const { config, validateConfig } = require('./config');
+
+// 설정 검증 (잘못된 설정이면 서버를 시작하지 않음)
+try {
+  validateConfig();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
 const express = require('express');
 const cors = require('cors');
 const swaggerUi = require('swagger-ui-express');
 const swaggerJsdoc = require('swagger-jsdoc');
 const { initDatabase } = require('./models/database');
+const { startJobs } = require('./jobs');
 
 const app = express();
-const PORT = 8080;
+const PORT = config.server.port;
 
 // Middleware
-app.use(cors());
+app.use(cors({
+  origin: config.server.corsOrigin,
+  // 목록 페이지 정보 헤더 (GET /mentors)
+  exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Page-Size', 'X-Total-Pages']
+}));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -29,7 +44,7 @@ const swaggerOptions = {
     },
     servers: [
       {
-        url: 'http://localhost:8080/api',
+        url: `http://localhost:${PORT}/api`,
         description: 'Local development server'
       }
     ],
@@ -71,13 +86,29 @@ app.get('/', (req, res) => {
 app.use('/api', require('./routes/auth').router);
 app.use('/api', require('./routes/profile'));
 app.use('/api', require('./routes/mentors'));
+app.use('/api', require('./routes/skills'));
 app.use('/api', require('./routes/matching'));
+app.use('/api', require('./routes/sessions'));
+app.use('/api', require('./routes/account'));
+app.use('/api', require('./routes/notifications'));
+app.use('/api', require('./routes/messages'));
+app.use('/api', require('./routes/availability'));
+app.use('/api', require('./routes/bookings'));
+app.use('/api', require('./routes/reviews'));
+app.use('/api', require('./routes/blocks'));
+app.use('/api', require('./routes/reports'));
+app.use('/api', require('./routes/dashboard'));
+app.use('/api', require('./routes/admin'));
+app.use('/api', require('./routes/events'));
 
 // 데이터베이스 초기화 후 서버 시작
 async function startServer() {
   try {
     await initDatabase();
     console.log('✅ Database initialized successfully');
+
+    // 오래된 요청 만료 등 백그라운드 작업 (마이그레이션 이후 시작)
+    startJobs();
     
     app.listen(PORT, () => {
       console.log(`🚀 Backend server running on http://localhost:${PORT}`);
@@ -0,0 +1,32 @@
+const { sendMail } = require('../mail');
+const { passwordResetMail, emailVerificationMail } = require('../mail/templates');
+const { createAccountToken } = require('./accountTokenService');
+
+// 비밀번호 재설정 토큰 발급 후 메일 발송
+async function sendPasswordResetEmail(user) {
+  const { token, ttlSeconds } = await createAccountToken(user.id, 'password_reset');
+
+  await sendMail(passwordResetMail({
+    to: user.email,
+    name: user.name,
+    token,
+    expiresInMinutes: Math.round(ttlSeconds / 60)
+  }));
+}
+
+// 이메일 인증 토큰 발급 후 메일 발송
+async function sendVerificationEmail(user) {
+  const { token, ttlSeconds } = await createAccountToken(user.id, 'email_verification');
+
+  await sendMail(emailVerificationMail({
+    to: user.email,
+    name: user.name,
+    token,
+    expiresInHours: Math.round(ttlSeconds / 3600)
+  }));
+}
+
+module.exports = {
+  sendPasswordResetEmail,
+  sendVerificationEmail
+};
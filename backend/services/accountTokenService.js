@@ -0,0 +1,69 @@
+const crypto = require('crypto');
+const { config } = require('../config');
+const { getAsyncDatabase } = require('../models/database');
+
+// 토큰 용도별 유효기간 (초)
+const TOKEN_TTL_SECONDS = {
+  password_reset: config.auth.passwordResetTtlSeconds,
+  email_verification: config.auth.emailVerificationTtlSeconds
+};
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 1회용 계정 토큰 발급 (같은 용도의 미사용 토큰은 무효화)
+async function createAccountToken(userId, purpose) {
+  const db = getAsyncDatabase();
+  const ttlSeconds = TOKEN_TTL_SECONDS[purpose];
+
+  if (!ttlSeconds) {
+    throw new Error(`Unknown account token purpose: ${purpose}`);
+  }
+
+  await db.run(
+    `UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND purpose = ? AND used_at IS NULL`,
+    [userId, purpose]
+  );
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+
+  await db.run(
+    `INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+     VALUES (?, ?, ?, ?)`,
+    [userId, purpose, hashToken(token), expiresAt]
+  );
+
+  return { token, ttlSeconds };
+}
+
+// 토큰 사용 처리 후 user_id 반환 (없거나 만료/사용된 토큰이면 null)
+async function consumeAccountToken(token, purpose) {
+  const db = getAsyncDatabase();
+  const tokenHash = hashToken(token);
+
+  const stored = await db.get(
+    `SELECT id, user_id FROM account_tokens
+     WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?`,
+    [tokenHash, purpose, new Date().toISOString()]
+  );
+
+  if (!stored) {
+    return null;
+  }
+
+  // 조건부 업데이트로 동시 요청에서도 한 번만 사용되도록 보장
+  const result = await db.run(
+    'UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+    [stored.id]
+  );
+
+  return result.changes > 0 ? stored.user_id : null;
+}
+
+module.exports = {
+  createAccountToken,
+  consumeAccountToken
+};
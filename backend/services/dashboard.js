@@ -0,0 +1,188 @@
+const { getRepositories } = require('../repositories');
+const { toMentorStats } = require('../utils/mentorStats');
+const { MATCHING_STATUSES } = require('./matchingStateMachine');
+const { getExpiresAt } = require('./requestExpiry');
+
+// 역할별 대시보드 (GET /dashboard 한 번으로 홈 화면을 그릴 수 있도록 여러 저장소를 모아 조회)
+
+const UPCOMING_SESSION_COUNT = 5;
+const RECENT_REQUEST_COUNT = 5;
+
+// 다가오는 세션 (상대방 기준으로 표시)
+function toSession(booking, role) {
+  const isMentor = role === 'mentor';
+  return {
+    id: booking.id,
+    requestId: booking.requestId,
+    partnerId: isMentor ? booking.menteeId : booking.mentorId,
+    partnerName: isMentor ? booking.menteeName : booking.mentorName,
+    startsAt: booking.startsAt,
+    endsAt: booking.endsAt
+  };
+}
+
+// 매칭별 다음 세션 시작 시각 (예약 목록은 시작 시각 순)
+function getNextSessionAt(bookings, requestId) {
+  const next = bookings.find(booking => booking.requestId === requestId);
+  return next ? next.startsAt : null;
+}
+
+// 두 역할 공통: 읽지 않은 알림 수와 다가오는 예약
+async function loadCommon(user) {
+  const { notifications, bookings } = getRepositories();
+  const [unreadNotifications, upcoming] = await Promise.all([
+    notifications.countUnread(user.id),
+    bookings.listForUser(user.id, { from: new Date() })
+  ]);
+  return { unreadNotifications, upcoming };
+}
+
+// 진행 중인 매칭 목록 (상대방, 읽지 않은 메시지 수, 다음 세션)
+async function loadActiveMatches(user, requests, upcoming) {
+  const { messages } = getRepositories();
+  const isMentor = user.role === 'mentor';
+
+  return Promise.all(requests
+    .filter(request => request.status === 'accepted')
+    .map(async request => ({
+      requestId: request.id,
+      partnerId: isMentor ? request.menteeId : request.mentorId,
+      partnerName: (isMentor ? request.menteeName : request.mentorName) || null,
+      unreadMessages: await messages.countUnread(request.id, user.id),
+      nextSessionAt: getNextSessionAt(upcoming, request.id)
+    })));
+}
+
+/**
+ * 멘토 대시보드: 대기 중인 요청, 현재 멘티, 다가오는 세션, 요청 처리 통계
+ * @param {import('../repositories/userRepository').User} user
+ */
+async function buildMentorDashboard(user) {
+  const { users, matchingRequests } = getRepositories();
+  const [{ unreadNotifications, upcoming }, incoming, mentor, stats] = await Promise.all([
+    loadCommon(user),
+    matchingRequests.listIncoming(user.id),
+    users.findMentorById(user.id),
+    matchingRequests.getMentorStats([user.id])
+  ]);
+
+  // 만료가 가까운(오래된) 요청부터
+  const pending = incoming.filter(request => request.status === 'pending').reverse();
+
+  return {
+    role: 'mentor',
+    unreadNotifications,
+    upcomingSessions: upcoming.slice(0, UPCOMING_SESSION_COUNT).map(booking => toSession(booking, 'mentor')),
+    pendingRequests: {
+      count: pending.length,
+      oldest: pending.slice(0, RECENT_REQUEST_COUNT).map(request => ({
+        id: request.id,
+        menteeId: request.menteeId,
+        menteeName: request.menteeName || null,
+        message: request.message,
+        createdAt: request.createdAt,
+        expiresAt: getExpiresAt(request)
+      }))
+    },
+    mentees: await loadActiveMatches(user, incoming, upcoming),
+    capacity: { activeMentees: mentor.activeMentees, maxMentees: mentor.maxMentees },
+    stats: {
+      ...toMentorStats(mentor, stats.get(user.id)),
+      averageRating: mentor.averageRating,
+      reviewCount: mentor.reviewCount
+    }
+  };
+}
+
+/**
+ * 멘티에게 제안할 다음 할 일 (우선순위 순)
+ * requestId가 있는 항목은 해당 매칭 요청에 대한 제안
+ */
+async function getNextSteps(user, outgoing, matches) {
+  const { reviews } = getRepositories();
+  const steps = [];
+
+  for (const match of matches) {
+    if (match.unreadMessages > 0) {
+      steps.push({ code: 'READ_MESSAGES', requestId: match.requestId });
+    }
+    if (!match.nextSessionAt) {
+      steps.push({ code: 'BOOK_SESSION', requestId: match.requestId });
+    }
+  }
+
+  for (const request of outgoing.filter(request => request.status === 'completed')) {
+    if (!(await reviews.findByRequest(request.id))) {
+      steps.push({ code: 'WRITE_REVIEW', requestId: request.id });
+    }
+  }
+
+  const pending = outgoing.find(request => request.status === 'pending');
+  if (pending) {
+    steps.push({ code: 'WAITING_FOR_RESPONSE', requestId: pending.id });
+  } else if (matches.length === 0) {
+    steps.push({ code: 'FIND_MENTOR' });
+  }
+
+  if (user.learningGoals.length === 0) {
+    steps.push({ code: 'SET_LEARNING_GOALS' });
+  }
+  if (!user.bio?.trim()) {
+    steps.push({ code: 'COMPLETE_PROFILE' });
+  }
+
+  return steps;
+}
+
+/**
+ * 멘티 대시보드: 요청 현황, 매칭된 멘토, 다가오는 세션, 다음 할 일
+ * @param {import('../repositories/userRepository').User} user
+ */
+async function buildMenteeDashboard(user) {
+  const { matchingRequests } = getRepositories();
+  const [{ unreadNotifications, upcoming }, outgoing] = await Promise.all([
+    loadCommon(user),
+    matchingRequests.listOutgoing(user.id)
+  ]);
+
+  const counts = Object.fromEntries(MATCHING_STATUSES.map(status => [status, 0]));
+  for (const request of outgoing) {
+    counts[request.status] += 1;
+  }
+
+  const matches = await loadActiveMatches(user, outgoing, upcoming);
+
+  return {
+    role: 'mentee',
+    unreadNotifications,
+    upcomingSessions: upcoming.slice(0, UPCOMING_SESSION_COUNT).map(booking => toSession(booking, 'mentee')),
+    requests: {
+      counts,
+      recent: outgoing.slice(0, RECENT_REQUEST_COUNT).map(request => ({
+        id: request.id,
+        mentorId: request.mentorId,
+        mentorName: request.mentorName || null,
+        status: request.status,
+        createdAt: request.createdAt,
+        expiresAt: getExpiresAt(request)
+      }))
+    },
+    mentors: matches,
+    nextSteps: await getNextSteps(user, outgoing, matches)
+  };
+}
+
+/**
+ * 사용자 역할에 맞는 대시보드 (사용자가 없으면 null)
+ * @param {number} userId
+ */
+async function buildDashboard(userId) {
+  const { users } = getRepositories();
+  const user = await users.findById(userId);
+  if (!user) {
+    return null;
+  }
+  return user.role === 'mentor' ? buildMentorDashboard(user) : buildMenteeDashboard(user);
+}
+
+module.exports = { buildDashboard };
@@ -0,0 +1,85 @@
+const { EventEmitter } = require('events');
+
+// 사용자별 실시간 이벤트 버스 (프로세스 내)
+// 발행된 이벤트는 해당 사용자의 열린 이벤트 스트림(/api/events)으로 전달된다.
+
+/**
+ * @typedef {'request.updated' | 'notification' | 'message.created' | 'messages.read'
+ *   | 'booking.updated'} RealtimeEventType
+ *
+ * @typedef {Object} RealtimeEvent
+ * @property {RealtimeEventType} type
+ * @property {Object} data
+ */
+
+const emitter = new EventEmitter();
+// 사용자마다 탭/기기 수만큼 구독자가 생기므로 리스너 수 경고 비활성화
+emitter.setMaxListeners(0);
+
+// 열린 이벤트 스트림 목록 (로그아웃/세션 폐기/계정 정지 시 닫기 위해 인증 정보와 함께 보관)
+/** @type {Set<{ userId: string, sessionId: string | null, tokenId: string | null, close: () => void }>} */
+const streams = new Set();
+
+function channel(userId) {
+  return `user:${userId}`;
+}
+
+/**
+ * @param {number} userId
+ * @param {RealtimeEventType} type
+ * @param {Object} data
+ */
+function publishToUser(userId, type, data) {
+  emitter.emit(channel(userId), { type, data });
+}
+
+/**
+ * @param {number} userId
+ * @param {(event: RealtimeEvent) => void} listener
+ * @returns {() => void} 구독 해제 함수
+ */
+function subscribe(userId, listener) {
+  emitter.on(channel(userId), listener);
+  return () => emitter.off(channel(userId), listener);
+}
+
+/**
+ * 이벤트 스트림 등록 (스트림이 끊기면 반환된 함수로 등록 해제)
+ * @param {{ userId: number | string, sessionId?: string | null, tokenId?: string | null }} owner 스트림을 연 액세스 토큰의 사용자/세션/jti
+ * @param {() => void} close 스트림을 닫는 함수
+ * @returns {() => void} 등록 해제 함수
+ */
+function registerStream({ userId, sessionId = null, tokenId = null }, close) {
+  const stream = { userId: String(userId), sessionId, tokenId, close };
+  streams.add(stream);
+  return () => streams.delete(stream);
+}
+
+/**
+ * 조건에 맞는 열린 스트림을 모두 닫음 (지정한 항목 중 하나라도 일치하면 닫음)
+ * 폐기된 세션/토큰이나 정지된 계정으로 연 스트림이 만료 전까지 이벤트를 계속 받지 않도록 함
+ * @param {{ userId?: number | string, sessionId?: string, tokenId?: string }} match
+ * @returns {number} 닫은 스트림 수
+ */
+function closeStreams({ userId, sessionId, tokenId }) {
+  let closed = 0;
+  for (const stream of [...streams]) {
+    if (
+      (userId !== undefined && stream.userId === String(userId)) ||
+      (sessionId && stream.sessionId === sessionId) ||
+      (tokenId && stream.tokenId === tokenId)
+    ) {
+      streams.delete(stream);
+      stream.close();
+      closed += 1;
+    }
+  }
+  return closed;
+}
+
+module.exports = {
+  publishToUser,
+  subscribe,
+  registerStream,
+  closeStreams
+};
@@ -0,0 +1,152 @@
+const { config } = require('../config');
+const { getAsyncDatabase } = require('../models/database');
+
+// 로그인 시도 제한 정책
+// - 마지막 실패 후 ATTEMPT_WINDOW_SECONDS가 지나면 실패 횟수 초기화
+// - backoffAfter회 실패부터 다음 시도까지 대기 시간이 2배씩 증가 (1초, 2초, 4초 ...)
+// - lockAfter회 실패하면 LOCKOUT_SECONDS 동안 잠금
+const {
+  attemptWindowSeconds: ATTEMPT_WINDOW_SECONDS,
+  lockoutSeconds: LOCKOUT_SECONDS,
+  maxBackoffSeconds: MAX_BACKOFF_SECONDS
+} = config.loginThrottle;
+
+const POLICIES = {
+  account: { ...config.loginThrottle.account, lockCode: 'ACCOUNT_LOCKED' },
+  ip: { ...config.loginThrottle.ip, lockCode: 'IP_LOCKED' }
+};
+
+function attemptKeys({ ip, email }) {
+  return [
+    { scope: 'account', key: String(email).trim().toLowerCase() },
+    { scope: 'ip', key: ip || 'unknown' }
+  ];
+}
+
+async function getAttempt(db, scope, key) {
+  return db.get(
+    'SELECT failure_count, last_failure_at, locked_until FROM login_attempts WHERE scope = ? AND key = ?',
+    [scope, key]
+  );
+}
+
+// 실패 기록이 시도 창(window) 밖이면 초기화된 것으로 간주
+function activeFailureCount(attempt, now) {
+  if (!attempt) {
+    return 0;
+  }
+  const lastFailure = new Date(attempt.last_failure_at).getTime();
+  return now - lastFailure > ATTEMPT_WINDOW_SECONDS * 1000 ? 0 : attempt.failure_count;
+}
+
+function backoffSeconds(failureCount, policy) {
+  if (failureCount < policy.backoffAfter) {
+    return 0;
+  }
+  return Math.min(2 ** (failureCount - policy.backoffAfter), MAX_BACKOFF_SECONDS);
+}
+
+// 현재 시도가 차단되는지 확인 (차단 시 { code, retryAfter(초) } 반환)
+async function checkLoginAllowed(identity, db = getAsyncDatabase()) {
+  const now = Date.now();
+
+  for (const { scope, key } of attemptKeys(identity)) {
+    const blocked = blockedBy(await getAttempt(db, scope, key), POLICIES[scope], now);
+    if (blocked) {
+      return blocked;
+    }
+  }
+
+  return null;
+}
+
+// 기존 실패 기록 기준으로 지금 시도가 잠금 또는 대기 시간에 걸리는지 (걸리지 않으면 null)
+function blockedBy(attempt, policy, now) {
+  if (!attempt) {
+    return null;
+  }
+
+  if (attempt.locked_until && new Date(attempt.locked_until).getTime() > now) {
+    return {
+      code: policy.lockCode,
+      retryAfter: Math.ceil((new Date(attempt.locked_until).getTime() - now) / 1000)
+    };
+  }
+
+  const failureCount = activeFailureCount(attempt, now);
+  const waitUntil = new Date(attempt.last_failure_at).getTime() + backoffSeconds(failureCount, policy) * 1000;
+  if (waitUntil > now) {
+    return {
+      code: 'LOGIN_THROTTLED',
+      retryAfter: Math.ceil((waitUntil - now) / 1000)
+    };
+  }
+
+  return null;
+}
+
+// 실패 기록 후 계정 기준 남은 시도 횟수와 차단 여부 반환
+// 동시에 들어온 실패가 서로의 횟수를 덮어쓰지 않도록 조회와 증가를 한 트랜잭션에서 처리하고,
+// checkLoginAllowed 이후 다른 시도가 먼저 기록한 실패로 잠금/대기 대상이 되었으면 block으로 알림
+async function recordLoginFailure(identity, db = getAsyncDatabase()) {
+  const now = Date.now();
+  const result = {};
+
+  await db.transaction(async (tx) => {
+    for (const { scope, key } of attemptKeys(identity)) {
+      const policy = POLICIES[scope];
+      const attempt = await getAttempt(tx, scope, key);
+      const blocked = blockedBy(attempt, policy, now);
+
+      // 이미 잠긴 상태면 잠금 기간을 늘리거나 횟수를 다시 세지 않음
+      if (blocked && blocked.code === policy.lockCode) {
+        result.block = blocked;
+        if (scope === 'account') result.remainingAttempts = 0;
+        continue;
+      }
+
+      const failureCount = activeFailureCount(attempt, now) + 1;
+      const locked = failureCount >= policy.lockAfter;
+      const lockedUntil = locked ? new Date(now + LOCKOUT_SECONDS * 1000).toISOString() : null;
+
+      // 잠금이 걸리면 실패 횟수를 초기화하여 잠금 해제 후 다시 단계적으로 적용
+      await tx.run(
+        `INSERT INTO login_attempts (scope, key, failure_count, last_failure_at, locked_until)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(scope, key) DO UPDATE SET
+           failure_count = excluded.failure_count,
+           last_failure_at = excluded.last_failure_at,
+           locked_until = excluded.locked_until`,
+        [scope, key, locked ? 0 : failureCount, new Date(now).toISOString(), lockedUntil]
+      );
+
+      if (scope === 'account') {
+        result.remainingAttempts = locked ? 0 : policy.lockAfter - failureCount;
+      }
+      if (locked) {
+        result.block = { code: policy.lockCode, retryAfter: LOCKOUT_SECONDS };
+      } else if (blocked && !result.block) {
+        // 대기 시간 안에 들어온 시도 (실패로는 기록)
+        result.block = blocked;
+      }
+    }
+  });
+
+  return result;
+}
+
+// 로그인 성공 시 계정 실패 기록 초기화
+async function recordLoginSuccess(identity, db = getAsyncDatabase()) {
+  const [account] = attemptKeys(identity);
+
+  await db.run(
+    'DELETE FROM login_attempts WHERE scope = ? AND key = ?',
+    [account.scope, account.key]
+  );
+}
+
+module.exports = {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess
+};
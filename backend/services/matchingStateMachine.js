@@ -0,0 +1,69 @@
+// 매칭 요청 상태 전이 규칙
+//
+// pending ──▶ accepted ──▶ completed
+//    │
+//    ├──▶ rejected   (멘토, 또는 다른 요청 수락 시 시스템이 자동 거절)
+//    ├──▶ cancelled  (멘티)
+//    └──▶ expired    (시스템, 응답 기한 초과)
+//
+// 관리자는 당사자 대신 대기 중인 요청을 거절/취소하거나 수락된 매칭을 완료 처리할 수 있음
+
+const MATCHING_STATUSES = ['pending', 'accepted', 'rejected', 'cancelled', 'expired', 'completed'];
+
+// 전이 주체: 요청의 멘토/멘티, 시스템(자동 처리) 또는 관리자(강제 처리)
+const ACTOR_ROLES = ['mentor', 'mentee', 'system', 'admin'];
+
+// 현재 상태 → { 다음 상태: 전이할 수 있는 주체 목록 }
+const TRANSITIONS = {
+  pending: {
+    accepted: ['mentor'],
+    rejected: ['mentor', 'system', 'admin'],
+    cancelled: ['mentee', 'admin'],
+    expired: ['system']
+  },
+  accepted: {
+    completed: ['mentor', 'mentee', 'admin']
+  },
+  rejected: {},
+  cancelled: {},
+  expired: {},
+  completed: {}
+};
+
+// 거절/취소 사유 최대 길이
+const MAX_REASON_LENGTH = 500;
+
+function canTransition(from, to, actorRole) {
+  const allowedActors = (TRANSITIONS[from] || {})[to];
+  return !!allowedActors && allowedActors.includes(actorRole);
+}
+
+// 다른 주체라면 가능한 전이인지 (권한 문제와 상태 충돌을 구분하기 위해 사용)
+function isTransitionDefined(from, to) {
+  return !!(TRANSITIONS[from] || {})[to];
+}
+
+// 사유 입력값 정리 (빈 값은 null). 형식이 잘못되면 오류 메시지 반환
+function normalizeReason(reason) {
+  if (reason === undefined || reason === null) {
+    return { reason: null };
+  }
+  if (typeof reason !== 'string') {
+    return { error: 'Reason must be a string' };
+  }
+
+  const trimmed = reason.trim();
+  if (trimmed.length > MAX_REASON_LENGTH) {
+    return { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` };
+  }
+  return { reason: trimmed || null };
+}
+
+module.exports = {
+  MATCHING_STATUSES,
+  ACTOR_ROLES,
+  TRANSITIONS,
+  canTransition,
+  isTransitionDefined,
+  normalizeReason
+};
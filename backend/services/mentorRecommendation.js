@@ -0,0 +1,250 @@
+const { getRepositories } = require('../repositories');
+const { roundHours } = require('../utils/mentorStats');
+const { SKILL_LEVELS, normalizeSkillKey } = require('../utils/skills');
+const { REQUEST_EXPIRY_DAYS } = require('./requestExpiry');
+
+// 멘티 맞춤 멘토 추천
+// 항목별 점수(0 ~ 1)를 가중합해 0 ~ 100점으로 환산
+// - skills: 학습 목표와 멘토 기술 스택 일치도 (멘토 숙련도가 멘티 현재 수준보다 높을수록 높음)
+// - text: 자기소개/기술 이름의 TF-IDF 코사인 유사도 (서버에서 직접 계산)
+// - capacity: 남은 멘티 자리 비율
+// - response: 응답률과 응답 속도 (요청을 받은 적 없는 멘토는 중간값)
+// 정원이 찼거나 이미 요청을 보낸 적 있는 멘토는 제외
+
+const WEIGHTS = { skills: 0.5, text: 0.2, capacity: 0.1, response: 0.2 };
+
+// 숙련도 비교 결과별 학습 목표 일치 가중치
+const LEVEL_MATCH_WEIGHTS = { above: 1, unknown: 0.8, notAbove: 0.4 };
+
+const NEUTRAL_RESPONSE_SCORE = 0.5;
+const RESPONSIVE_RATE = 0.8;
+const SIMILAR_TEXT_SCORE = 0.1;
+const MAX_SHARED_TERMS = 3;
+
+const LEVEL_RANKS = new Map(SKILL_LEVELS.map((level, index) => [level, index]));
+const HANGUL = /\p{Script=Hangul}/u;
+
+/**
+ * @typedef {Object} RecommendationReason
+ * @property {'SKILL_MATCH' | 'SIMILAR_PROFILE' | 'RESPONSIVE' | 'HAS_CAPACITY'} code
+ * @property {string[]} [skills] SKILL_MATCH: 학습 목표와 일치하는 기술
+ * @property {string[]} [terms] SIMILAR_PROFILE: 자기소개에 함께 나온 단어
+ * @property {number} [responseRate] RESPONSIVE: 응답률 (0 ~ 1)
+ * @property {number | null} [medianResponseHours] RESPONSIVE: 응답 시간 중앙값
+ * @property {number} [availableSlots] HAS_CAPACITY: 남은 자리 수
+ *
+ * @typedef {Object} Recommendation
+ * @property {import('../repositories/userRepository').User} mentor
+ * @property {import('../repositories/matchingRequestRepository').MentorStats | undefined} stats 요청 처리 통계 (처리한 요청이 없으면 undefined)
+ * @property {number} score 0 ~ 100
+ * @property {{ skills: number, text: number, capacity: number, response: number }} breakdown 항목별 점수 (0 ~ 100)
+ * @property {RecommendationReason[]} reasons
+ */
+
+// 단어 목록 (한글 단어는 조사가 붙어도 겹치도록 두 글자씩 나눈 조각도 함께 사용)
+function tokenize(text) {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= 2);
+  const terms = [];
+  for (const word of words) {
+    if (HANGUL.test(word) && word.length > 2) {
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.push(word.slice(i, i + 2));
+      }
+    } else {
+      terms.push(word);
+    }
+  }
+  return { words, terms };
+}
+
+function countTerms(terms) {
+  const counts = new Map();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+// 멘토 문서 전체 기준 IDF (멘티 문서에만 있는 단어는 유사도에 영향 없음)
+function buildIdf(documents) {
+  const documentFrequency = new Map();
+  for (const document of documents) {
+    for (const term of document.counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = new Map();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log((documents.length + 1) / (frequency + 1)) + 1);
+  }
+  return idf;
+}
+
+function toVector(counts, idf) {
+  const vector = new Map();
+  for (const [term, count] of counts) {
+    if (idf.has(term)) {
+      vector.set(term, count * idf.get(term));
+    }
+  }
+  return vector;
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+  }
+  const norm = vector => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+function toDocument(text) {
+  const { words, terms } = tokenize(text);
+  return { words: new Set(words), counts: countTerms(terms) };
+}
+
+// 학습 목표별로 같은 기술을 가진 멘토의 숙련도를 비교
+function scoreSkillMatch(learningGoals, skillDetails) {
+  if (learningGoals.length === 0) {
+    return { score: 0, matched: [] };
+  }
+
+  const mentorSkills = new Map(skillDetails.map(skill => [normalizeSkillKey(skill.name), skill]));
+  const matched = [];
+  let total = 0;
+
+  for (const goal of learningGoals) {
+    const skill = mentorSkills.get(normalizeSkillKey(goal.name));
+    if (!skill) {
+      continue;
+    }
+    matched.push(skill.name);
+    if (!skill.level || !goal.currentLevel) {
+      total += LEVEL_MATCH_WEIGHTS.unknown;
+    } else if (LEVEL_RANKS.get(skill.level) > LEVEL_RANKS.get(goal.currentLevel)) {
+      total += LEVEL_MATCH_WEIGHTS.above;
+    } else {
+      total += LEVEL_MATCH_WEIGHTS.notAbove;
+    }
+  }
+
+  return { score: total / learningGoals.length, matched };
+}
+
+// 응답률 70% + 응답 속도(만료 기한 대비 응답 시간 중앙값) 30%
+function scoreResponse(stats) {
+  if (!stats) {
+    return { score: NEUTRAL_RESPONSE_SCORE, responseRate: null };
+  }
+
+  const responseRate = stats.responded / (stats.responded + stats.unanswered);
+  const speed = stats.medianResponseHours === null
+    ? NEUTRAL_RESPONSE_SCORE
+    : Math.max(0, 1 - stats.medianResponseHours / (REQUEST_EXPIRY_DAYS * 24));
+  return { score: responseRate * 0.7 + speed * 0.3, responseRate };
+}
+
+const toPercent = value => Math.round(value * 100);
+
+/**
+ * 멘토별 추천 점수 계산 (점수 높은 순, 같으면 ID 순)
+ * @param {import('../repositories/userRepository').User} mentee
+ * @param {import('../repositories/userRepository').User[]} mentors 추천 후보 (activeMentees 포함)
+ * @param {Map<number, import('../repositories/matchingRequestRepository').MentorStats>} responseStats
+ * @returns {Recommendation[]}
+ */
+function rankMentors(mentee, mentors, responseStats) {
+  const goalNames = mentee.learningGoals.map(goal => goal.name);
+  const menteeDocument = toDocument([mentee.bio || '', ...goalNames].join(' '));
+  const mentorDocuments = mentors.map(mentor => toDocument([mentor.bio || '', ...mentor.skillsets].join(' ')));
+  const idf = buildIdf(mentorDocuments);
+  const menteeVector = toVector(menteeDocument.counts, idf);
+
+  const recommendations = mentors.map((mentor, index) => {
+    const document = mentorDocuments[index];
+    const skillMatch = scoreSkillMatch(mentee.learningGoals, mentor.skillDetails);
+    const text = cosineSimilarity(menteeVector, toVector(document.counts, idf));
+    const availableSlots = Math.max(mentor.maxMentees - mentor.activeMentees, 0);
+    const capacity = mentor.maxMentees > 0 ? availableSlots / mentor.maxMentees : 0;
+    const stats = responseStats.get(mentor.id);
+    const response = scoreResponse(stats);
+
+    const reasons = [];
+    if (skillMatch.matched.length > 0) {
+      reasons.push({ code: 'SKILL_MATCH', skills: skillMatch.matched });
+    }
+    if (text >= SIMILAR_TEXT_SCORE) {
+      // 기술 이름은 SKILL_MATCH에서 이미 설명하므로 제외, 드문 단어 우선
+      const skillKeys = new Set(skillMatch.matched.map(name => name.toLowerCase()));
+      const terms = [...menteeDocument.words]
+        .filter(word => document.words.has(word) && !skillKeys.has(word))
+        .sort((a, b) => (idf.get(b) || 0) - (idf.get(a) || 0))
+        .slice(0, MAX_SHARED_TERMS);
+      if (terms.length > 0) {
+        reasons.push({ code: 'SIMILAR_PROFILE', terms });
+      }
+    }
+    if (response.responseRate !== null && response.responseRate >= RESPONSIVE_RATE) {
+      reasons.push({
+        code: 'RESPONSIVE',
+        responseRate: response.responseRate,
+        medianResponseHours: roundHours(stats.medianResponseHours)
+      });
+    }
+    if (capacity >= 0.5) {
+      reasons.push({ code: 'HAS_CAPACITY', availableSlots });
+    }
+
+    const breakdown = { skills: skillMatch.score, text, capacity, response: response.score };
+    const score = Object.entries(WEIGHTS).reduce((sum, [key, weight]) => sum + breakdown[key] * weight, 0);
+
+    return {
+      mentor,
+      stats,
+      score: toPercent(score),
+      breakdown: {
+        skills: toPercent(breakdown.skills),
+        text: toPercent(breakdown.text),
+        capacity: toPercent(breakdown.capacity),
+        response: toPercent(breakdown.response)
+      },
+      reasons
+    };
+  });
+
+  return recommendations.sort((a, b) => b.score - a.score || a.mentor.id - b.mentor.id);
+}
+
+/**
+ * 멘티에게 추천할 멘토 목록
+ * personalized가 false면 학습 목표와 자기소개가 없어 남은 자리와 응답 이력만으로 정렬한 결과
+ * @param {number} menteeId
+ * @param {{ limit: number }} options
+ * @returns {Promise<{ personalized: boolean, recommendations: Recommendation[] } | null>} 멘티가 없으면 null
+ */
+async function recommendMentors(menteeId, { limit }) {
+  const { users, matchingRequests } = getRepositories();
+  const mentee = await users.findById(menteeId);
+  if (!mentee) {
+    return null;
+  }
+
+  const [{ mentors }, requests, responseStats] = await Promise.all([
+    users.listMentors({ available: true, viewerId: menteeId }),
+    matchingRequests.listOutgoing(menteeId),
+    matchingRequests.getMentorStats()
+  ]);
+
+  // 멘토마다 요청은 한 번만 보낼 수 있으므로 이미 요청한 멘토는 제외
+  const requestedMentorIds = new Set(requests.map(request => request.mentorId));
+  const candidates = mentors.filter(mentor => !requestedMentorIds.has(mentor.id));
+
+  return {
+    personalized: mentee.learningGoals.length > 0 || !!mentee.bio?.trim(),
+    recommendations: rankMentors(mentee, candidates, responseStats).slice(0, limit)
+  };
+}
+
+module.exports = { recommendMentors };
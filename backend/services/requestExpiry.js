@@ -0,0 +1,41 @@
+const { config } = require('../config');
+const { getRepositories } = require('../repositories');
+const { parseDbTimestamp } = require('../utils/dbTimestamp');
+
+// 대기 중인 매칭 요청 만료 정책
+// 생성 후 REQUEST_EXPIRY_DAYS일 동안 멘토가 응답하지 않으면 시스템이 expired로 전환
+const REQUEST_EXPIRY_DAYS = config.matching.requestExpiryDays;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SYSTEM_ACTOR = { id: null, role: 'system' };
+
+// 대기 중인 요청의 만료 예정 시각 (ISO 문자열, 대기 중이 아니면 null)
+function getExpiresAt(request) {
+  if (request.status !== 'pending' || !request.createdAt) {
+    return null;
+  }
+  return new Date(parseDbTimestamp(request.createdAt).getTime() + REQUEST_EXPIRY_DAYS * DAY_MS).toISOString();
+}
+
+// 만료 시각이 지난 대기 중인 요청을 모두 expired로 전환
+// 그 사이 멘토가 수락/거절했거나 멘티가 취소한 요청은 conflict로 건너뜀
+async function expireStaleRequests() {
+  const { matchingRequests } = getRepositories();
+  const ids = await matchingRequests.listStalePendingIds(REQUEST_EXPIRY_DAYS);
+
+  let expired = 0;
+  for (const id of ids) {
+    const result = await matchingRequests.transition(id, 'expired', SYSTEM_ACTOR);
+    if (result.outcome === 'ok') {
+      expired += 1;
+    }
+  }
+
+  return { expired, skipped: ids.length - expired };
+}
+
+module.exports = {
+  REQUEST_EXPIRY_DAYS,
+  getExpiresAt,
+  expireStaleRequests
+};
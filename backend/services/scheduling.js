@@ -0,0 +1,207 @@
+// 멘토링 세션 예약 정책
+// 멘토의 주간 가능 시간은 멘토 시간대의 현지 시각(요일 + 'HH:MM')으로, 예약은 UTC 시각으로 다룸
+// 시간대 변환은 Intl(IANA 시간대 데이터)만 사용
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// 예약 가능한 세션 길이 (분)
+const MIN_SESSION_MINUTES = 15;
+const MAX_SESSION_MINUTES = 240;
+// 예약 가능한 시간 목록을 만들 때 시작 시각 간격 (분)
+const SLOT_STEP_MINUTES = 30;
+// 한 번에 조회할 수 있는 최대 기간 (일)
+const MAX_SLOT_RANGE_DAYS = 31;
+// 멘토 한 명이 등록할 수 있는 최대 가능 시간 수
+const MAX_AVAILABILITY_SLOTS = 50;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const formatters = new Map();
+
+// 시간대별 DateTimeFormat 캐시 (생성 비용이 큼)
+function getFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }));
+  }
+  return formatters.get(timeZone);
+}
+
+function isValidTimeZone(timeZone) {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidTime(value) {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+// 'HH:MM' → 자정부터의 분
+function timeToMinutes(value) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// UTC 시각을 시간대의 현지 날짜/요일/시각으로 변환
+function toZonedParts(date, timeZone) {
+  const parts = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    parts[type] = value;
+  }
+
+  const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    dateKey,
+    weekday: new Date(`${dateKey}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    seconds: Number(parts.second)
+  };
+}
+
+// 시간대의 UTC 오프셋 (ms, 현지 시각 - UTC)
+function getOffset(timestamp, timeZone) {
+  const { dateKey, minutes, seconds } = toZonedParts(new Date(timestamp), timeZone);
+  const localAsUtc = new Date(`${dateKey}T00:00:00Z`).getTime() + minutes * MINUTE_MS + seconds * 1000;
+  return localAsUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// 시간대의 현지 날짜('YYYY-MM-DD') + 분을 UTC Date로 변환
+// 서머타임 경계에서는 오프셋이 바뀌므로 한 번 더 보정
+function zonedTimeToUtc(dateKey, minutes, timeZone) {
+  const localAsUtc = new Date(`${dateKey}T00:00:00Z`).getTime() + minutes * MINUTE_MS;
+  let timestamp = localAsUtc - getOffset(localAsUtc, timeZone);
+  const corrected = localAsUtc - getOffset(timestamp, timeZone);
+  if (corrected !== timestamp) {
+    timestamp = corrected;
+  }
+  return new Date(timestamp);
+}
+
+function addDays(dateKey, days) {
+  return new Date(new Date(`${dateKey}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 주간 가능 시간 검증. 오류 메시지 또는 null 반환
+ * @param {{ weekday: number, startTime: string, endTime: string }[]} slots
+ */
+function validateAvailabilitySlots(slots) {
+  if (!Array.isArray(slots)) {
+    return 'slots must be an array';
+  }
+  if (slots.length > MAX_AVAILABILITY_SLOTS) {
+    return `At most ${MAX_AVAILABILITY_SLOTS} availability slots are allowed`;
+  }
+
+  for (const slot of slots) {
+    if (!slot || !Number.isInteger(slot.weekday) || slot.weekday < 0 || slot.weekday > 6) {
+      return 'weekday must be an integer between 0 (Sunday) and 6 (Saturday)';
+    }
+    if (!isValidTime(slot.startTime) || !isValidTime(slot.endTime)) {
+      return 'startTime and endTime must be in HH:MM format';
+    }
+    if (timeToMinutes(slot.endTime) - timeToMinutes(slot.startTime) < MIN_SESSION_MINUTES) {
+      return `Each availability slot must be at least ${MIN_SESSION_MINUTES} minutes long`;
+    }
+  }
+
+  // 같은 요일의 가능 시간끼리 겹치면 안 됨
+  const sorted = [...slots].sort((a, b) =>
+    a.weekday - b.weekday || timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+  );
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const current = sorted[i];
+    if (prev.weekday === current.weekday && timeToMinutes(current.startTime) < timeToMinutes(prev.endTime)) {
+      return 'Availability slots must not overlap';
+    }
+  }
+
+  return null;
+}
+
+// 예약 시간이 멘토의 가능 시간 하나에 온전히 포함되는지 (현지 날짜가 바뀌는 예약은 불가)
+function isWithinAvailability(availability, startsAt, endsAt) {
+  const start = toZonedParts(startsAt, availability.timezone);
+  const end = toZonedParts(endsAt, availability.timezone);
+
+  if (start.dateKey !== end.dateKey) {
+    return false;
+  }
+
+  return availability.slots.some(slot =>
+    slot.weekday === start.weekday &&
+    timeToMinutes(slot.startTime) <= start.minutes &&
+    end.minutes <= timeToMinutes(slot.endTime)
+  );
+}
+
+function overlaps(startsAt, endsAt, booking) {
+  return startsAt < new Date(booking.endsAt) && new Date(booking.startsAt) < endsAt;
+}
+
+/**
+ * from부터 days일 동안 예약 가능한 세션 시간 목록
+ * @param {{ timezone: string, slots: { weekday: number, startTime: string, endTime: string }[] }} availability
+ * @param {{ startsAt: string, endsAt: string }[]} busy 멘토/멘티의 기존 예약
+ * @param {{ from: Date, days: number, durationMinutes: number }} range
+ * @returns {{ startsAt: string, endsAt: string }[]}
+ */
+function listOpenSlots(availability, busy, { from, days, durationMinutes }) {
+  const { timezone } = availability;
+  const rangeEnd = new Date(from.getTime() + days * DAY_MS);
+  const firstDay = toZonedParts(from, timezone).dateKey;
+  const open = [];
+
+  for (let day = 0; day <= days; day++) {
+    const dateKey = addDays(firstDay, day);
+    const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+    const daySlots = availability.slots
+      .filter(slot => slot.weekday === weekday)
+      .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
+    for (const slot of daySlots) {
+      const slotEnd = timeToMinutes(slot.endTime);
+
+      for (let minutes = timeToMinutes(slot.startTime); minutes + durationMinutes <= slotEnd; minutes += SLOT_STEP_MINUTES) {
+        const startsAt = zonedTimeToUtc(dateKey, minutes, timezone);
+        const endsAt = new Date(startsAt.getTime() + durationMinutes * MINUTE_MS);
+
+        if (startsAt < from || startsAt >= rangeEnd) continue;
+        if (busy.some(booking => overlaps(startsAt, endsAt, booking))) continue;
+
+        open.push({ startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() });
+      }
+    }
+  }
+
+  return open;
+}
+
+module.exports = {
+  MIN_SESSION_MINUTES,
+  MAX_SESSION_MINUTES,
+  MAX_SLOT_RANGE_DAYS,
+  isValidTimeZone,
+  validateAvailabilitySlots,
+  isWithinAvailability,
+  listOpenSlots,
+  toZonedParts,
+  zonedTimeToUtc
+};
@@ -0,0 +1,169 @@
+const crypto = require('crypto');
+const { getAsyncDatabase } = require('../models/database');
+const { closeStreams } = require('./eventBus');
+
+// last_seen_at 갱신 주기 (매 요청마다 쓰기가 발생하지 않도록 제한)
+const LAST_SEEN_UPDATE_INTERVAL_SECONDS = 60;
+
+// User-Agent 문자열에서 브라우저/OS 정보를 간단히 추출
+function describeDevice(userAgent) {
+  if (!userAgent) {
+    return '알 수 없는 기기';
+  }
+
+  let browser = '알 수 없는 브라우저';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+  else if (/curl\//.test(userAgent)) browser = 'curl';
+
+  let os = '';
+  if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/iPhone|iPad/.test(userAgent)) os = 'iOS';
+  else if (/Mac OS X/.test(userAgent)) os = 'macOS';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return os ? `${browser} (${os})` : browser;
+}
+
+// 세션의 리프레시 토큰 family 전체 폐기
+async function revokeTokenFamily(familyId) {
+  const db = getAsyncDatabase();
+
+  await db.run(
+    `UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+     WHERE family_id = ? AND revoked_at IS NULL`,
+    [familyId]
+  );
+}
+
+// 로그인 시 세션 생성 (세션 ID는 리프레시 토큰 family_id로도 사용)
+async function createSession(userId, { userAgent, ipAddress } = {}) {
+  const db = getAsyncDatabase();
+  const sessionId = crypto.randomUUID();
+
+  await db.run(
+    `INSERT INTO sessions (id, user_id, user_agent, ip_address)
+     VALUES (?, ?, ?, ?)`,
+    [sessionId, userId, userAgent || null, ipAddress || null]
+  );
+
+  return { id: sessionId };
+}
+
+// 세션이 유효한지 확인하고 마지막 활동 시각 갱신
+async function touchSession(sessionId, userId) {
+  const db = getAsyncDatabase();
+
+  const session = await db.get(
+    'SELECT id, revoked_at FROM sessions WHERE id = ? AND user_id = ?',
+    [sessionId, userId]
+  );
+
+  if (!session || session.revoked_at) {
+    return false;
+  }
+
+  await db.run(
+    `UPDATE sessions SET last_seen_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND last_seen_at < datetime('now', ?)`,
+    [sessionId, `-${LAST_SEEN_UPDATE_INTERVAL_SECONDS} seconds`]
+  );
+
+  return true;
+}
+
+// 사용자의 활성 세션 목록
+// 폐기되지 않고 만료되지 않은 리프레시 토큰이 남은 세션만 포함 (토큰이 만료되거나 재사용 감지로 폐기된 세션은 제외)
+async function listActiveSessions(userId) {
+  const db = getAsyncDatabase();
+
+  const sessions = await db.all(
+    `SELECT id, user_agent, ip_address, created_at, last_seen_at
+     FROM sessions
+     WHERE user_id = ? AND revoked_at IS NULL
+       AND EXISTS (
+         SELECT 1 FROM refresh_tokens
+         WHERE family_id = sessions.id AND revoked_at IS NULL AND expires_at > ?
+       )
+     ORDER BY last_seen_at DESC`,
+    [userId, new Date().toISOString()]
+  );
+
+  return sessions.map(session => ({
+    ...session,
+    device: describeDevice(session.user_agent)
+  }));
+}
+
+// 세션 하나 폐기 (세션의 리프레시 토큰과 세션으로 연 실시간 이벤트 스트림도 함께 정리)
+async function revokeSession(sessionId, userId) {
+  const db = getAsyncDatabase();
+
+  const result = await db.run(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
+    [sessionId, userId]
+  );
+
+  await revokeTokenFamily(sessionId);
+  closeStreams({ sessionId });
+  return result.changes > 0;
+}
+
+// 사용자의 모든 세션 폐기 (exceptSessionId가 있으면 해당 세션은 유지)
+async function revokeAllSessions(userId, exceptSessionId = null) {
+  const db = getAsyncDatabase();
+
+  const sessions = await db.all(
+    'SELECT id FROM sessions WHERE user_id = ? AND revoked_at IS NULL AND id IS NOT ?',
+    [userId, exceptSessionId]
+  );
+
+  for (const session of sessions) {
+    await revokeSession(session.id, userId);
+  }
+
+  return sessions.length;
+}
+
+// 액세스 토큰 폐기 목록에 jti 추가 (만료 시각이 지난 항목은 함께 정리, 토큰으로 연 스트림은 닫음)
+async function revokeAccessToken(jti, userId, expiresAtSeconds) {
+  const db = getAsyncDatabase();
+  const expiresAt = new Date(expiresAtSeconds * 1000).toISOString();
+
+  await db.run(
+    `INSERT OR IGNORE INTO revoked_tokens (jti, user_id, expires_at)
+     VALUES (?, ?, ?)`,
+    [jti, userId, expiresAt]
+  );
+  closeStreams({ tokenId: jti });
+
+  await db.run(
+    'DELETE FROM revoked_tokens WHERE expires_at < ?',
+    [new Date().toISOString()]
+  );
+}
+
+async function isAccessTokenRevoked(jti) {
+  const db = getAsyncDatabase();
+
+  const row = await db.get(
+    'SELECT jti FROM revoked_tokens WHERE jti = ?',
+    [jti]
+  );
+
+  return !!row;
+}
+
+module.exports = {
+  createSession,
+  touchSession,
+  listActiveSessions,
+  revokeSession,
+  revokeAllSessions,
+  revokeAccessToken,
+  isAccessTokenRevoked
+};
@@ -0,0 +1,180 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { config } = require('../config');
+const { getAsyncDatabase } = require('../models/database');
+const { revokeSession } = require('./sessionService');
+
+const JWT_SECRET = config.auth.jwtSecret;
+
+// 액세스 토큰 유효기간 (기본 1시간, 명세서 요구사항)
+const ACCESS_TOKEN_TTL_SECONDS = config.auth.accessTokenTtlSeconds;
+
+// 리프레시 토큰 유효기간 (기본 14일)
+const REFRESH_TOKEN_TTL_SECONDS = config.auth.refreshTokenTtlSeconds;
+
+// 회전된 토큰이 다시 와도 재사용으로 보지 않는 시간 (기본 30초, 여러 탭의 동시 갱신 대비)
+const REFRESH_REUSE_GRACE_SECONDS = config.auth.refreshReuseGraceSeconds;
+
+// 리프레시 토큰은 원문 대신 SHA-256 해시만 DB에 저장
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 후속 토큰 원문 암호화 키 (이전 토큰 원문에서 유도하므로 DB만으로는 복호화할 수 없음)
+function replacementKey(token) {
+  return crypto.createHash('sha256').update(`replacement:${token}`).digest();
+}
+
+function encryptReplacement(token, replacement) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', replacementKey(token), iv);
+  const encrypted = Buffer.concat([cipher.update(replacement, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptReplacement(token, value) {
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', replacementKey(token), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// JWT 액세스 토큰 생성 (RFC 7519 표준 클레임 포함)
+function signAccessToken(user, sessionId) {
+  const now = Math.floor(Date.now() / 1000);
+  const tokenPayload = {
+    // 표준 클레임
+    iss: 'tortee-app',                     // Issuer
+    sub: user.id.toString(),               // Subject
+    aud: 'tortee-users',                   // Audience
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,   // Expiration
+    nbf: now,                              // Not Before
+    iat: now,                              // Issued At
+    jti: crypto.randomUUID(),              // JWT ID
+
+    // 커스텀 클레임
+    sid: sessionId,                        // 로그인 세션 ID
+    name: user.name || '',
+    email: user.email,
+    role: user.role
+  };
+
+  return jwt.sign(tokenPayload, JWT_SECRET);
+}
+
+function verifyAccessToken(token, callback) {
+  jwt.verify(token, JWT_SECRET, callback);
+}
+
+// 리프레시 토큰 발급 (같은 로그인 세션에서 회전된 토큰들은 family_id로 세션 ID를 공유)
+async function issueRefreshToken(userId, familyId, db = getAsyncDatabase()) {
+  const token = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString();
+
+  const result = await db.run(
+    `INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at)
+     VALUES (?, ?, ?, ?)`,
+    [userId, hashToken(token), familyId, expiresAt]
+  );
+
+  return { id: result.lastID, token, familyId };
+}
+
+// 리프레시 토큰 회전: 기존 토큰을 폐기하고 같은 family로 새 토큰 발급
+// 방금 회전된 토큰이 유예 시간 안에 다시 오면 그때 발급한 후속 토큰을 그대로 돌려줌
+// 유효하지 않으면 null 반환
+async function rotateRefreshToken(token) {
+  const db = getAsyncDatabase();
+
+  // 조회부터 회전까지 한 트랜잭션으로 처리해 같은 토큰의 동시 회전을 순서대로 판단
+  const rotation = await db.transaction(async (tx) => {
+    const stored = await tx.get(
+      `SELECT rt.id, rt.user_id, rt.family_id, rt.expires_at, rt.revoked_at, rt.replaced_by_token,
+              rt.revoked_at > datetime('now', ?) AS within_grace,
+              next.revoked_at AS replacement_revoked_at,
+              s.revoked_at AS session_revoked_at,
+              u.email, u.name, u.role
+       FROM refresh_tokens rt
+       JOIN users u ON rt.user_id = u.id
+       LEFT JOIN sessions s ON rt.family_id = s.id
+       LEFT JOIN refresh_tokens next ON rt.replaced_by = next.id
+       WHERE rt.token_hash = ?`,
+      [`-${REFRESH_REUSE_GRACE_SECONDS} seconds`, hashToken(token)]
+    );
+
+    if (!stored) {
+      return null;
+    }
+
+    if (stored.revoked_at) {
+      // 다른 탭이 같은 토큰으로 먼저 갱신한 경우: 아직 쓰이지 않은 후속 토큰을 함께 사용
+      if (stored.within_grace && stored.replaced_by_token &&
+          !stored.replacement_revoked_at && !stored.session_revoked_at) {
+        return { stored, refreshToken: decryptReplacement(token, stored.replaced_by_token) };
+      }
+      return { stored, reused: true };
+    }
+
+    if (stored.session_revoked_at || new Date(stored.expires_at) <= new Date()) {
+      return null;
+    }
+
+    const next = await issueRefreshToken(stored.user_id, stored.family_id, tx);
+
+    await tx.run(
+      `UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP, replaced_by = ?, replaced_by_token = ?
+       WHERE id = ?`,
+      [next.id, encryptReplacement(token, next.token), stored.id]
+    );
+
+    return { stored, refreshToken: next.token };
+  });
+
+  if (!rotation) {
+    return null;
+  }
+
+  const { stored } = rotation;
+
+  // 이미 회전된 토큰이 다시 사용됨 → 탈취 가능성이 있으므로 세션 전체 폐기
+  // (리프레시 토큰 family와 함께 세션의 액세스 토큰과 실시간 스트림도 더 이상 쓸 수 없음)
+  if (rotation.reused) {
+    console.warn(`⚠️ Refresh token reuse detected for user ID: ${stored.user_id}`);
+    await revokeSession(stored.family_id, stored.user_id);
+    return null;
+  }
+
+  const user = {
+    id: stored.user_id,
+    email: stored.email,
+    name: stored.name,
+    role: stored.role
+  };
+
+  return {
+    user,
+    accessToken: signAccessToken(user, stored.family_id),
+    refreshToken: rotation.refreshToken
+  };
+}
+
+// 리프레시 토큰의 소유자와 세션(family) ID 조회
+async function findRefreshToken(token) {
+  const db = getAsyncDatabase();
+
+  const stored = await db.get(
+    'SELECT user_id, family_id FROM refresh_tokens WHERE token_hash = ?',
+    [hashToken(token)]
+  );
+
+  return stored || null;
+}
+
+module.exports = {
+  ACCESS_TOKEN_TTL_SECONDS,
+  signAccessToken,
+  verifyAccessToken,
+  issueRefreshToken,
+  rotateRefreshToken,
+  findRefreshToken
+};
@@ -0,0 +1,40 @@
+const sqlite3 = require('sqlite3');
+const { AsyncDatabase } = require('../models/asyncDatabase');
+const { migrate } = require('../models/migrator');
+const { UserRepository } = require('../repositories/userRepository');
+
+let userSequence = 0;
+
+// 테스트용 인메모리 DB (모든 마이그레이션 적용, 테스트마다 새로 생성)
+async function createTestDatabase() {
+  const db = new AsyncDatabase(new sqlite3.Database(':memory:'));
+
+  // 마이그레이션 적용 로그는 테스트 출력에서 생략
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await migrate(db);
+  } finally {
+    console.log = log;
+  }
+
+  return db;
+}
+
+// 테스트 사용자 생성 (비밀번호 해시는 검증하지 않으므로 임의 값)
+async function createUser(db, { role = 'mentee', name, maxMentees } = {}) {
+  userSequence += 1;
+  const users = new UserRepository(db);
+  const id = await users.create({
+    email: `${role}${userSequence}@test.com`,
+    passwordHash: 'hash',
+    name: name || `${role} ${userSequence}`,
+    role
+  });
+  if (maxMentees !== undefined) {
+    await users.updateProfile(id, { maxMentees });
+  }
+  return id;
+}
+
+module.exports = { createTestDatabase, createUser };
@@ -0,0 +1,175 @@
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { BlockRepository } = require('../../repositories/blockRepository');
+const { MatchingRequestRepository } = require('../../repositories/matchingRequestRepository');
+const { createTestDatabase, createUser } = require('../helpers');
+
+describe('MatchingRequestRepository', () => {
+  let db;
+  let matchingRequests;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    matchingRequests = new MatchingRequestRepository(db);
+  });
+
+  afterEach(() => db.close());
+
+  const countAccepted = async (mentorId) => {
+    const row = await db.get(
+      "SELECT COUNT(*) AS count FROM matching_requests WHERE mentor_id = ? AND status = 'accepted'",
+      [mentorId]
+    );
+    return row.count;
+  };
+
+  it('creates a pending request with its creation event and mentor notification', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+
+    const id = await matchingRequests.create({ menteeId: mentee, mentorId: mentor, message: '안녕하세요' });
+
+    const request = await matchingRequests.findById(id);
+    assert.equal(request.status, 'pending');
+    const history = await matchingRequests.findHistory(id);
+    assert.deepEqual(history.map(event => [event.fromStatus, event.toStatus]), [[null, 'pending']]);
+    const notifications = await db.all('SELECT user_id, type FROM notifications');
+    assert.deepEqual(notifications, [{ user_id: mentor, type: 'request_received' }]);
+  });
+
+  it('accepts only one of two parallel accepts when the mentor has one slot', async () => {
+    const mentor = await createUser(db, { role: 'mentor', maxMentees: 1 });
+    const firstMentee = await createUser(db, { role: 'mentee' });
+    const secondMentee = await createUser(db, { role: 'mentee' });
+    const first = await matchingRequests.create({ menteeId: firstMentee, mentorId: mentor, message: '요청 1' });
+    const second = await matchingRequests.create({ menteeId: secondMentee, mentorId: mentor, message: '요청 2' });
+    const actor = { id: mentor, role: 'mentor' };
+
+    const results = await Promise.all([
+      matchingRequests.accept(first, actor),
+      matchingRequests.accept(second, actor)
+    ]);
+
+    const accepted = results.filter(result => result.outcome === 'ok');
+    assert.equal(accepted.length, 1);
+    assert.equal(accepted[0].autoRejected, 1);
+    // 나중에 처리된 수락은 이미 자동 거절된 요청이므로 conflict
+    assert.deepEqual(results.map(result => result.outcome).sort(), ['conflict', 'ok']);
+    assert.equal(await countAccepted(mentor), 1);
+
+    const loser = results.find(result => result.outcome !== 'ok').request;
+    assert.equal((await matchingRequests.findById(loser.id)).status, 'rejected');
+  });
+
+  it('never exceeds capacity when many accepts race', async () => {
+    const mentor = await createUser(db, { role: 'mentor', maxMentees: 2 });
+    const ids = [];
+    for (let i = 0; i < 6; i++) {
+      const mentee = await createUser(db, { role: 'mentee' });
+      ids.push(await matchingRequests.create({ menteeId: mentee, mentorId: mentor, message: `요청 ${i}` }));
+    }
+    const actor = { id: mentor, role: 'mentor' };
+
+    const results = await Promise.all(ids.map(id => matchingRequests.accept(id, actor)));
+
+    assert.equal(results.filter(result => result.outcome === 'ok').length, 2);
+    assert.equal(await countAccepted(mentor), 2);
+    const pending = await db.get("SELECT COUNT(*) AS count FROM matching_requests WHERE status = 'pending'");
+    assert.equal(pending.count, 0);
+  });
+
+  it('lets exactly one of a parallel accept and cancel win', async () => {
+    const mentor = await createUser(db, { role: 'mentor', maxMentees: 3 });
+    const mentee = await createUser(db, { role: 'mentee' });
+    const id = await matchingRequests.create({ menteeId: mentee, mentorId: mentor, message: '요청' });
+
+    const [acceptResult, cancelResult] = await Promise.all([
+      matchingRequests.accept(id, { id: mentor, role: 'mentor' }),
+      matchingRequests.transition(id, 'cancelled', { id: mentee, role: 'mentee' })
+    ]);
+
+    const outcomes = [acceptResult.outcome, cancelResult.outcome];
+    assert.equal(outcomes.filter(outcome => outcome === 'ok').length, 1);
+    assert.ok(outcomes.includes('conflict'));
+
+    const winner = acceptResult.outcome === 'ok' ? 'accepted' : 'cancelled';
+    const request = await matchingRequests.findById(id);
+    assert.equal(request.status, winner);
+
+    // 이력에는 이긴 쪽의 전이 하나만 기록됨
+    const history = await matchingRequests.findHistory(id);
+    assert.deepEqual(history.map(event => event.toStatus), ['pending', winner]);
+  });
+
+  it('rejects an accept once the mentor is at capacity', async () => {
+    const mentor = await createUser(db, { role: 'mentor', maxMentees: 1 });
+    const firstMentee = await createUser(db, { role: 'mentee' });
+    const secondMentee = await createUser(db, { role: 'mentee' });
+    const first = await matchingRequests.create({ menteeId: firstMentee, mentorId: mentor, message: '요청 1' });
+    const actor = { id: mentor, role: 'mentor' };
+    await matchingRequests.accept(first, actor);
+    // 정원이 찬 뒤에 들어온 요청
+    const second = await matchingRequests.create({ menteeId: secondMentee, mentorId: mentor, message: '요청 2' });
+
+    const result = await matchingRequests.accept(second, actor);
+    assert.equal(result.outcome, 'at_capacity');
+    assert.equal((await matchingRequests.findById(second)).status, 'pending');
+  });
+
+  it('creates only one request when a mentee sends in parallel', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+    const otherMentor = await createUser(db, { role: 'mentor' });
+
+    const results = await Promise.all([
+      matchingRequests.send({ menteeId: mentee, mentorId: mentor, message: '요청 1' }),
+      matchingRequests.send({ menteeId: mentee, mentorId: mentor, message: '요청 2' }),
+      matchingRequests.send({ menteeId: mentee, mentorId: otherMentor, message: '요청 3' })
+    ]);
+
+    assert.deepEqual(results.map(result => result.outcome), ['ok', 'duplicate', 'pending_exists']);
+    const { count } = await db.get('SELECT COUNT(*) AS count FROM matching_requests');
+    assert.equal(count, 1);
+  });
+
+  it('refuses to send to a blocked or missing mentor', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+    await new BlockRepository(db).block(mentor, mentee);
+
+    const blocked = await matchingRequests.send({ menteeId: mentee, mentorId: mentor, message: '요청' });
+    assert.equal(blocked.outcome, 'blocked');
+    const missing = await matchingRequests.send({ menteeId: mentee, mentorId: mentee, message: '요청' });
+    assert.equal(missing.outcome, 'mentor_not_found');
+  });
+
+  it('closes pending requests between the pair when one blocks the other', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const otherMentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+    const fromMentee = await matchingRequests.create({ menteeId: mentee, mentorId: mentor, message: '요청 1' });
+    const fromOther = await matchingRequests.create({ menteeId: otherMentee, mentorId: mentor, message: '요청 2' });
+    const blocks = new BlockRepository(db);
+
+    await blocks.block(mentee, mentor);
+    await blocks.block(mentor, otherMentee);
+
+    const cancelled = await matchingRequests.findHistory(fromMentee);
+    assert.deepEqual(cancelled.map(event => [event.toStatus, event.actorRole]), [['pending', 'mentee'], ['cancelled', 'mentee']]);
+    const rejected = await matchingRequests.findHistory(fromOther);
+    assert.deepEqual(rejected.map(event => [event.toStatus, event.actorRole]), [['pending', 'mentee'], ['rejected', 'mentor']]);
+  });
+
+  it('refuses to accept a request while either side has blocked the other', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+    const id = await matchingRequests.create({ menteeId: mentee, mentorId: mentor, message: '요청' });
+    // 요청이 대기 중인 채로 차단만 남은 경우 (예: 차단 전 데이터)
+    await db.run('INSERT INTO user_blocks (blocker_id, blocked_id) VALUES (?, ?)', [mentee, mentor]);
+
+    const result = await matchingRequests.accept(id, { id: mentor, role: 'mentor' });
+
+    assert.equal(result.outcome, 'blocked');
+    assert.equal((await matchingRequests.findById(id)).status, 'pending');
+  });
+});
@@ -0,0 +1,80 @@
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { ReportRepository } = require('../../repositories/reportRepository');
+const { BlockRepository } = require('../../repositories/blockRepository');
+const { createTestDatabase, createUser } = require('../helpers');
+
+describe('BlockRepository', () => {
+  let db;
+  let blocks;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    blocks = new BlockRepository(db);
+  });
+
+  afterEach(() => db.close());
+
+  it('blocks once and reports the block in both directions', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const mentor = await createUser(db, { role: 'mentor' });
+
+    assert.equal(await blocks.block(mentee, mentor), true);
+    assert.equal(await blocks.block(mentee, mentor), false);
+    assert.equal(await blocks.isBlockedBetween(mentee, mentor), true);
+    assert.equal(await blocks.isBlockedBetween(mentor, mentee), true);
+    assert.deepEqual((await blocks.listBlocked(mentee)).map(entry => entry.userId), [mentor]);
+    assert.deepEqual(await blocks.listBlocked(mentor), []);
+
+    assert.equal(await blocks.unblock(mentee, mentor), true);
+    assert.equal(await blocks.unblock(mentee, mentor), false);
+    assert.equal(await blocks.isBlockedBetween(mentee, mentor), false);
+  });
+});
+
+describe('ReportRepository', () => {
+  let db;
+  let reports;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    reports = new ReportRepository(db);
+  });
+
+  afterEach(() => db.close());
+
+  it('rejects a second open report on the same target', async () => {
+    const reporter = await createUser(db, { role: 'mentee' });
+    const reported = await createUser(db, { role: 'mentor' });
+
+    const first = await reports.create({ reporterId: reporter, reportedUserId: reported, category: 'spam' });
+    assert.equal(first.outcome, 'ok');
+    assert.equal(first.report.status, 'open');
+
+    const second = await reports.create({ reporterId: reporter, reportedUserId: reported, category: 'harassment' });
+    assert.equal(second.outcome, 'duplicate');
+    assert.equal(await reports.countOpen(), 1);
+  });
+
+  it('resolves a report once and records it in the audit log', async () => {
+    const admin = await createUser(db, { role: 'admin' });
+    const reporter = await createUser(db, { role: 'mentee' });
+    const reported = await createUser(db, { role: 'mentor' });
+    const { report } = await reports.create({ reporterId: reporter, reportedUserId: reported, category: 'spam' });
+
+    assert.equal(await reports.resolve(report.id, { adminId: admin, status: 'dismissed', note: '오해' }), true);
+    assert.equal(await reports.resolve(report.id, { adminId: admin, status: 'resolved' }), false);
+
+    const resolved = await reports.findById(report.id);
+    assert.equal(resolved.status, 'dismissed');
+    assert.equal(resolved.resolutionNote, '오해');
+    assert.equal(await reports.countOpen(), 0);
+
+    const log = await db.all('SELECT action, target_type, target_id FROM admin_audit_log');
+    assert.deepEqual(log, [{ action: 'report.dismissed', target_type: 'report', target_id: report.id }]);
+
+    // 처리된 신고가 있어도 같은 대상을 다시 신고할 수 있음
+    const again = await reports.create({ reporterId: reporter, reportedUserId: reported, category: 'spam' });
+    assert.equal(again.outcome, 'ok');
+  });
+});
@@ -0,0 +1,93 @@
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { UserRepository } = require('../../repositories/userRepository');
+const { BlockRepository } = require('../../repositories/blockRepository');
+const { createTestDatabase, createUser } = require('../helpers');
+
+describe('UserRepository', () => {
+  let db;
+  let users;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    users = new UserRepository(db);
+  });
+
+  afterEach(() => db.close());
+
+  it('creates a user and finds it by id and email', async () => {
+    const id = await users.create({ email: 'mentee@test.com', passwordHash: 'hash', name: '김멘티', role: 'mentee' });
+
+    const byId = await users.findById(id);
+    assert.equal(byId.email, 'mentee@test.com');
+    assert.equal(byId.role, 'mentee');
+    assert.equal(byId.suspendedAt, null);
+    assert.deepEqual(await users.findByEmail('mentee@test.com'), byId);
+    assert.equal(await users.emailExists('other@test.com'), false);
+  });
+
+  it('stores skill aliases under their canonical names', async () => {
+    const id = await createUser(db, { role: 'mentor' });
+
+    await users.updateProfile(id, {
+      bio: '프론트엔드 개발자',
+      skillsets: [{ name: 'JS', level: 'advanced', yearsOfExperience: 5 }, { name: 'React' }]
+    });
+
+    const mentor = await users.findById(id);
+    assert.equal(mentor.bio, '프론트엔드 개발자');
+    assert.deepEqual(mentor.skillsets, ['JavaScript', 'React']);
+    assert.deepEqual(mentor.skillDetails[0], { name: 'JavaScript', level: 'advanced', yearsOfExperience: 5 });
+  });
+
+  it('lists only active mentors and filters by skill and open slots', async () => {
+    const reactMentor = await createUser(db, { role: 'mentor' });
+    const pythonMentor = await createUser(db, { role: 'mentor', maxMentees: 0 });
+    const suspendedMentor = await createUser(db, { role: 'mentor' });
+    await createUser(db, { role: 'mentee' });
+    await users.updateProfile(reactMentor, { skillsets: [{ name: 'React' }] });
+    await users.updateProfile(pythonMentor, { skillsets: [{ name: 'Python' }] });
+    await users.suspend(suspendedMentor, { adminId: null, reason: '테스트' });
+
+    const all = await users.listMentors();
+    assert.deepEqual(all.mentors.map(mentor => mentor.id), [reactMentor, pythonMentor]);
+    assert.equal(all.total, 2);
+
+    const bySkill = await users.listMentors({ skills: ['python'] });
+    assert.deepEqual(bySkill.mentors.map(mentor => mentor.id), [pythonMentor]);
+
+    const available = await users.listMentors({ available: true });
+    assert.deepEqual(available.mentors.map(mentor => mentor.id), [reactMentor]);
+  });
+
+  it('hides mentors blocked in either direction from the viewer', async () => {
+    const mentee = await createUser(db, { role: 'mentee' });
+    const blockedByMentee = await createUser(db, { role: 'mentor' });
+    const blockingMentee = await createUser(db, { role: 'mentor' });
+    const other = await createUser(db, { role: 'mentor' });
+    const blocks = new BlockRepository(db);
+    await blocks.block(mentee, blockedByMentee);
+    await blocks.block(blockingMentee, mentee);
+
+    const { mentors, total } = await users.listMentors({ viewerId: mentee });
+    assert.deepEqual(mentors.map(mentor => mentor.id), [other]);
+    assert.equal(total, 1);
+
+    // 다른 사용자에게는 그대로 보임
+    const anonymous = await users.listMentors();
+    assert.equal(anonymous.total, 3);
+  });
+
+  it('records suspension in the audit log and does not suspend twice', async () => {
+    const admin = await createUser(db, { role: 'admin' });
+    const mentee = await createUser(db, { role: 'mentee' });
+
+    assert.equal(await users.suspend(mentee, { adminId: admin, reason: '스팸' }), true);
+    assert.equal(await users.suspend(mentee, { adminId: admin, reason: '스팸' }), false);
+
+    const status = await users.getAccountStatus(mentee);
+    assert.notEqual(status.suspendedAt, null);
+    const log = await db.all('SELECT action, target_id FROM admin_audit_log');
+    assert.deepEqual(log, [{ action: 'user.suspended', target_id: mentee }]);
+  });
+});
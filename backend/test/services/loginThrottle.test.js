@@ -0,0 +1,118 @@
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { config } = require('../../config');
+const { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } = require('../../services/loginThrottle');
+const { createTestDatabase } = require('../helpers');
+
+const { account: ACCOUNT_POLICY, lockoutSeconds: LOCKOUT_SECONDS } = config.loginThrottle;
+
+describe('loginThrottle', () => {
+  const identity = { ip: '203.0.113.7', email: 'Mentee@Test.com' };
+  let db;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterEach(() => db.close());
+
+  const fail = () => recordLoginFailure(identity, db);
+
+  const getAccountAttempt = () => db.get(
+    "SELECT failure_count, locked_until FROM login_attempts WHERE scope = 'account' AND key = ?",
+    ['mentee@test.com']
+  );
+
+  // 시간이 지난 것처럼 마지막 실패 시각과 잠금 해제 시각을 과거로 옮김
+  const moveAttemptsBack = (seconds) => {
+    const past = new Date(Date.now() - seconds * 1000).toISOString();
+    return db.run(
+      'UPDATE login_attempts SET last_failure_at = ?, locked_until = CASE WHEN locked_until IS NULL THEN NULL ELSE ? END',
+      [past, past]
+    );
+  };
+
+  const failUntilLocked = async () => {
+    let result;
+    for (let i = 0; i < ACCOUNT_POLICY.lockAfter; i++) {
+      result = await fail();
+    }
+    return result;
+  };
+
+  it('allows attempts below the backoff threshold and throttles from it', async () => {
+    for (let i = 1; i < ACCOUNT_POLICY.backoffAfter; i++) {
+      const result = await fail();
+      assert.equal(result.remainingAttempts, ACCOUNT_POLICY.lockAfter - i);
+      assert.equal(result.block, undefined);
+      assert.equal(await checkLoginAllowed(identity, db), null);
+    }
+
+    await fail();
+
+    assert.deepEqual(await checkLoginAllowed(identity, db), { code: 'LOGIN_THROTTLED', retryAfter: 1 });
+  });
+
+  it('counts a failure inside the backoff window and reports the throttle', async () => {
+    for (let i = 0; i < ACCOUNT_POLICY.backoffAfter; i++) {
+      await fail();
+    }
+
+    const result = await fail();
+
+    assert.equal(result.block.code, 'LOGIN_THROTTLED');
+    assert.equal((await getAccountAttempt()).failure_count, ACCOUNT_POLICY.backoffAfter + 1);
+  });
+
+  it('locks the account after lockAfter failures without extending the lock', async () => {
+    const result = await failUntilLocked();
+
+    assert.deepEqual(result, {
+      remainingAttempts: 0,
+      block: { code: 'ACCOUNT_LOCKED', retryAfter: LOCKOUT_SECONDS }
+    });
+    assert.equal((await checkLoginAllowed(identity, db)).code, 'ACCOUNT_LOCKED');
+
+    const locked = await getAccountAttempt();
+    const again = await fail();
+    assert.equal(again.block.code, 'ACCOUNT_LOCKED');
+    assert.deepEqual(await getAccountAttempt(), locked);
+  });
+
+  it('starts counting again from zero once the lock expires', async () => {
+    await failUntilLocked();
+    await moveAttemptsBack(1);
+
+    assert.equal(await checkLoginAllowed(identity, db), null);
+    const result = await fail();
+    assert.equal(result.remainingAttempts, ACCOUNT_POLICY.lockAfter - 1);
+    assert.equal(result.block, undefined);
+  });
+
+  it('clears account failures on a successful login', async () => {
+    for (let i = 0; i < ACCOUNT_POLICY.backoffAfter; i++) {
+      await fail();
+    }
+
+    await recordLoginSuccess(identity, db);
+
+    assert.equal(await getAccountAttempt(), undefined);
+    assert.equal(await checkLoginAllowed(identity, db), null);
+  });
+
+  it('counts every failure made in parallel and stops counting once locked', async () => {
+    const results = await Promise.all(
+      Array.from({ length: ACCOUNT_POLICY.lockAfter + 2 }, () => fail())
+    );
+
+    const remaining = results.map(result => result.remainingAttempts).sort((a, b) => a - b);
+    assert.deepEqual(
+      remaining,
+      [0, 0, ...Array.from({ length: ACCOUNT_POLICY.lockAfter }, (_, i) => i)]
+    );
+    // 잠금을 건 실패 1건과 잠긴 뒤 들어온 2건
+    assert.equal(results.filter(result => result.block?.code === 'ACCOUNT_LOCKED').length, 3);
+    assert.equal((await getAccountAttempt()).failure_count, 0);
+    assert.equal((await checkLoginAllowed(identity, db)).code, 'ACCOUNT_LOCKED');
+  });
+});
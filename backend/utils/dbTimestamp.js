@@ -0,0 +1,6 @@
+// SQLite CURRENT_TIMESTAMP('YYYY-MM-DD HH:MM:SS')는 UTC
+function parseDbTimestamp(value) {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+module.exports = { parseDbTimestamp };
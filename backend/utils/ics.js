@@ -0,0 +1,95 @@
+// iCalendar(RFC 5545) 파일 생성
+
+const PRODUCT_ID = '-//Tortee//Mentoring Sessions//KO';
+
+// 20261020T090000Z 형식 (UTC)
+function formatDateTime(value) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 한 줄은 75옥텟을 넘지 않도록 접기 (이어지는 줄은 공백으로 시작)
+function foldLine(line) {
+  const chunks = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * @typedef {Object} CalendarEvent
+ * @property {string} uid 일정 변경 시에도 유지되는 고유 ID
+ * @property {string} start
+ * @property {string} end
+ * @property {string} summary
+ * @property {string} [description]
+ * @property {'CONFIRMED' | 'CANCELLED'} status
+ * @property {number} sequence 변경될 때마다 증가
+ * @property {string} updatedAt
+ */
+
+/**
+ * @param {CalendarEvent[]} events
+ * @param {{ name?: string }} [options]
+ * @returns {string}
+ */
+function buildCalendar(events, { name } = {}) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  }
+
+  const stamp = formatDateTime(new Date());
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence}`,
+      `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+module.exports = { buildCalendar };
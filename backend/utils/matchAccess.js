@@ -0,0 +1,23 @@
+const { getRepositories } = require('../repositories');
+
+// 매칭(대화방, 세션 예약)에 접근할 수 있는 요청 상태 (완료된 매칭은 조회만 가능)
+const MATCH_STATUSES = ['accepted', 'completed'];
+
+function isParty(request, userId) {
+  return String(request.mentorId) === String(userId) || String(request.menteeId) === String(userId);
+}
+
+// 요청한 사용자가 당사자인 매칭 조회. 없거나 권한이 없으면 404 응답 후 null 반환
+async function loadMatch(req, res, id = req.params.id) {
+  const { matchingRequests } = getRepositories();
+  const request = await matchingRequests.findWithParties(id);
+
+  if (!request || !isParty(request, req.user.sub) || !MATCH_STATUSES.includes(request.status)) {
+    res.status(404).json({ error: 'Match not found' });
+    return null;
+  }
+
+  return request;
+}
+
+module.exports = { isParty, loadMatch };
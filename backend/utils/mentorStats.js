@@ -0,0 +1,22 @@
+// 멘토 요청 처리 통계 응답 형식
+
+// 시간은 소수 첫째 자리까지 (null은 그대로)
+function roundHours(hours) {
+  return hours === null ? null : Math.round(hours * 10) / 10;
+}
+
+/**
+ * 멘토 통계 응답 (처리한 요청이 없으면 응답 시간과 수락률은 null)
+ * @param {import('../repositories/userRepository').User} mentor activeMentees 포함
+ * @param {import('../repositories/matchingRequestRepository').MentorStats | undefined} stats
+ */
+function toMentorStats(mentor, stats) {
+  return {
+    medianResponseHours: stats ? roundHours(stats.medianResponseHours) : null,
+    acceptanceRate: stats ? Math.round(stats.acceptanceRate * 100) / 100 : null,
+    activeMentees: mentor.activeMentees,
+    decidedRequests: stats ? stats.responded + stats.unanswered : 0
+  };
+}
+
+module.exports = { roundHours, toMentorStats };
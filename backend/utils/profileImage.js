@@ -0,0 +1,11 @@
+// 프로필 이미지 URL (업로드한 이미지가 없으면 역할별 기본 이미지)
+function getProfileImageUrl(user) {
+  if (user.hasProfileImage) {
+    return `/api/profile/image/${user.id}`;
+  }
+  return user.role === 'mentor'
+    ? 'https://placehold.co/500x500.jpg?text=MENTOR'
+    : 'https://placehold.co/500x500.jpg?text=MENTEE';
+}
+
+module.exports = { getProfileImageUrl };
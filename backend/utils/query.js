@@ -0,0 +1,15 @@
+// 양의 정수 쿼리 파라미터 (없으면 fallback, 잘못된 값이면 null)
+function parsePositiveInt(value, fallback) {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// LIKE 패턴에서 사용자 입력의 와일드카드를 문자 그대로 취급
+function escapeLike(value) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+module.exports = { parsePositiveInt, escapeLike };
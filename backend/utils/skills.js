@@ -0,0 +1,23 @@
+// 기술 스택 이름 정규화
+// 대소문자, 공백, 구분 기호(. - _)와 끝의 'js' 표기 차이를 무시해 같은 기술로 취급
+// 예: 'React', 'react.js', 'ReactJS' → 'react' / 'Node.js', 'nodejs' → 'node'
+
+const SKILL_NAME_MAX_LENGTH = 50;
+const MAX_SKILLS_PER_USER = 20;
+const MAX_YEARS_OF_EXPERIENCE = 50;
+
+// 숙련도 (낮은 순)
+const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+function normalizeSkillKey(name) {
+  const key = String(name).trim().toLowerCase().replace(/[\s._-]+/g, '');
+  return key.length > 2 && key.endsWith('js') ? key.slice(0, -2) : key;
+}
+
+module.exports = {
+  SKILL_NAME_MAX_LENGTH,
+  MAX_SKILLS_PER_USER,
+  MAX_YEARS_OF_EXPERIENCE,
+  SKILL_LEVELS,
+  normalizeSkillKey
+};
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { PlatformStats } from '@/types';
+import { adminApi } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { DashboardCard } from '@/components/DashboardCards';
+import AdminUserTable from '@/components/AdminUserTable';
+import AdminRequestTable from '@/components/AdminRequestTable';
+import AdminReportTable from '@/components/AdminReportTable';
+import AdminAuditLog from '@/components/AdminAuditLog';
+
+// 관리자 콘솔: 플랫폼 현황, 사용자 관리, 매칭 요청 강제 처리, 신고 검토, 감사 로그
+export default function AdminPage() {
+  const { user } = useAuth();
+  const [stats, setStats] = useState<PlatformStats | null>(null);
+  const [error, setError] = useState('');
+  // 정지/해제, 강제 처리, 신고 처리 후 현황과 감사 로그를 다시 조회하기 위한 값
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin) {
+      return;
+    }
+
+    const fetchStats = async () => {
+      try {
+        setError('');
+        setStats(await adminApi.getStats());
+      } catch (error) {
+        console.error('Failed to fetch platform stats:', error);
+        setError(getErrorMessage(error, '플랫폼 현황을 불러오지 못했습니다.'));
+      }
+    };
+
+    fetchStats();
+  }, [isAdmin, refreshKey]);
+
+  const handleChanged = () => setRefreshKey(key => key + 1);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">로그인이 필요합니다</h1>
+          <p className="text-gray-600">관리자 콘솔을 사용하려면 로그인하세요.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">접근 권한이 없습니다</h1>
+          <p className="text-gray-600">관리자만 사용할 수 있는 페이지입니다.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">관리자 콘솔</h1>
+          <p className="text-gray-600">사용자 계정과 매칭 요청을 관리하고, 신고를 검토하고, 관리자 작업 기록을 확인하세요.</p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-500">전체 사용자</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{stats.users.total}명</p>
+              <p className="text-xs text-gray-500 mt-1">
+                멘토 {stats.users.byRole.mentor} · 멘티 {stats.users.byRole.mentee} · 정지 {stats.users.suspended}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">검토 대기 신고 {stats.openReports}건</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-500">매칭 요청</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">대기 {stats.matchingRequests.pending}건</p>
+              <p className="text-xs text-gray-500 mt-1">
+                진행 중 {stats.matchingRequests.accepted} · 완료 {stats.matchingRequests.completed}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-500">예정된 세션</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{stats.upcomingSessions}건</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-500">평균 평점</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">
+                {stats.reviews.averageRating !== null ? `★ ${stats.reviews.averageRating.toFixed(1)}` : '-'}
+                <span className="text-sm font-normal text-gray-500 ml-1">(리뷰 {stats.reviews.count}개)</span>
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DashboardCard title="사용자">
+          <AdminUserTable onChanged={handleChanged} />
+        </DashboardCard>
+
+        <DashboardCard title="매칭 요청">
+          <AdminRequestTable onChanged={handleChanged} />
+        </DashboardCard>
+
+        <DashboardCard title="신고">
+          <AdminReportTable onChanged={handleChanged} />
+        </DashboardCard>
+
+        <DashboardCard title="관리자 작업 기록">
+          <AdminAuditLog refreshKey={refreshKey} />
+        </DashboardCard>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { Dashboard } from '@/types';
+import { dashboardApi } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import MentorDashboard from '@/components/MentorDashboard';
+import MenteeDashboard from '@/components/MenteeDashboard';
+
+export default function DashboardPage() {
+  const { user } = useAuth();
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // 대시보드 조회
+  // silent: 실시간 갱신 시에는 로딩 화면 없이 내용만 교체
+  const fetchDashboard = async ({ silent = false } = {}) => {
+    try {
+      if (!silent) setLoading(true);
+      setError('');
+
+      const data = await dashboardApi.get();
+      setDashboard(data);
+
+    } catch (error) {
+      console.error('Failed to fetch dashboard:', error);
+      setError(getErrorMessage(error, '대시보드를 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user && user.role !== 'admin') {
+      fetchDashboard();
+    }
+  }, [user]);
+
+  // 요청 상태, 메시지, 예약이 바뀌거나 실시간 연결이 다시 연결되면 갱신
+  useRealtimeEvents((event) => {
+    if (user && user.role !== 'admin' && ['ready', 'request.updated', 'message.created', 'booking.updated'].includes(event.type)) {
+      fetchDashboard({ silent: true });
+    }
+  });
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">로그인이 필요합니다</h1>
+          <p className="text-gray-600">대시보드를 확인하려면 로그인하세요.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 관리자는 역할별 대시보드 대신 관리자 콘솔 사용
+  if (user.role === 'admin') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">관리자 계정입니다</h1>
+          <p className="text-gray-600 mb-4">플랫폼 현황은 관리자 콘솔에서 확인하세요.</p>
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800">
+            관리자 콘솔로 이동
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">대시보드</h1>
+          <p className="text-gray-600">
+            {user.role === 'mentor'
+              ? '받은 요청과 진행 중인 멘토링을 한눈에 확인하세요.'
+              : '매칭 요청 현황과 다음 할 일을 확인하세요.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : dashboard?.role === 'mentor' ? (
+          <MentorDashboard dashboard={dashboard} />
+        ) : dashboard?.role === 'mentee' ? (
+          <MenteeDashboard dashboard={dashboard} />
+        ) : null}
+      </div>
+    </div>
+  );
+}
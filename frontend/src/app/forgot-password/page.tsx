@@ -0,0 +1,202 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { authApi } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+
+// 재설정 메일 요청 폼
+function RequestResetForm() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await authApi.requestPasswordReset(email);
+      setSubmitted(true);
+    } catch (error) {
+      setError(getErrorMessage(error, '요청에 실패했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div id="forgot-password-sent" className="text-center text-sm text-gray-700 bg-white rounded-md shadow-sm p-6">
+        <p className="mb-2">입력한 이메일로 가입된 계정이 있다면 비밀번호 재설정 링크를 보냈습니다.</p>
+        <p className="text-gray-500">링크는 1시간 동안 한 번만 사용할 수 있습니다.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          이메일
+        </label>
+        <input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          required
+          className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10"
+          placeholder="가입한 이메일을 입력하세요"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm text-center">
+          {error}
+        </div>
+      )}
+
+      <button
+        id="forgot-password-submit"
+        type="submit"
+        disabled={isLoading}
+        className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '전송 중...' : '재설정 링크 받기'}
+      </button>
+    </form>
+  );
+}
+
+// 메일 링크로 들어온 경우 새 비밀번호 설정 폼
+function ResetPasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('비밀번호가 일치하지 않습니다.');
+      return;
+    }
+
+    if (password.length < 6) {
+      setError('비밀번호는 최소 6자 이상이어야 합니다.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await authApi.resetPassword(token, password);
+      alert('비밀번호가 변경되었습니다. 새 비밀번호로 로그인하세요.');
+      router.push('/login');
+    } catch (error) {
+      setError(getErrorMessage(error, '비밀번호 재설정에 실패했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div className="rounded-md shadow-sm space-y-4">
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+            새 비밀번호
+          </label>
+          <input
+            id="password"
+            name="password"
+            type="password"
+            autoComplete="new-password"
+            required
+            className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10"
+            placeholder="새 비밀번호를 입력하세요 (6자 이상)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+            새 비밀번호 확인
+          </label>
+          <input
+            id="confirmPassword"
+            name="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            required
+            className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10"
+            placeholder="새 비밀번호를 다시 입력하세요"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div id="reset-password-error" className="text-red-600 text-sm text-center">
+          {error}
+        </div>
+      )}
+
+      <button
+        id="reset-password-submit"
+        type="submit"
+        disabled={isLoading}
+        className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? '변경 중...' : '비밀번호 변경'}
+      </button>
+    </form>
+  );
+}
+
+function ForgotPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 id="forgot-password-title" className="text-center text-3xl font-extrabold text-gray-900">
+            {token ? '새 비밀번호 설정' : '비밀번호 찾기'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {token ? '사용할 새 비밀번호를 입력하세요.' : '가입한 이메일로 비밀번호 재설정 링크를 보내드립니다.'}
+          </p>
+        </div>
+
+        {token ? <ResetPasswordForm token={token} /> : <RequestResetForm />}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link href="/login" className="font-medium text-blue-600 hover:text-blue-500">
+            로그인으로 돌아가기
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense>
+      <ForgotPasswordContent />
+    </Suspense>
+  );
+}
@@ -1,20 +1,30 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { MatchingRequest } from '@/types';
-import { matchingApi } from '@/lib/api';
+import { blockApi, matchingApi } from '@/lib/api';
+import { getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorCode, getErrorMessage, isConflictError } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import ExpiryCountdown from '@/components/ExpiryCountdown';
+import RequestTimeline from '@/components/RequestTimeline';
+import SafetyActions from '@/components/SafetyActions';
 
 export default function IncomingRequestsPage() {
   const { user } = useAuth();
   const [requests, setRequests] = useState<MatchingRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [expandedRequestId, setExpandedRequestId] = useState<number | null>(null);
+  const [blockedUserIds, setBlockedUserIds] = useState<number[]>([]);
 
   // 받은 요청 목록 조회
-  const fetchIncomingRequests = async () => {
+  // silent: 실시간 갱신 시에는 로딩 화면 없이 목록만 교체
+  const fetchIncomingRequests = async ({ silent = false } = {}) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError('');
       
       const requestsData = await matchingApi.getReceivedRequests();
@@ -28,12 +38,36 @@ export default function IncomingRequestsPage() {
     }
   };
 
+  // 차단한 멘티 목록 (신고/차단 버튼 상태 표시용)
+  const fetchBlockedUsers = async () => {
+    try {
+      const blockedUsers = await blockApi.getBlocks();
+      setBlockedUserIds(blockedUsers.map(blockedUser => blockedUser.userId));
+    } catch (error) {
+      console.error('Failed to fetch blocked users:', error);
+    }
+  };
+
   useEffect(() => {
     if (user?.role === 'mentor') {
       fetchIncomingRequests();
+      fetchBlockedUsers();
     }
   }, [user]);
 
+  const handleBlockChange = (menteeId: number, blocked: boolean) => {
+    setBlockedUserIds(prev => blocked
+      ? [...prev.filter(id => id !== menteeId), menteeId]
+      : prev.filter(id => id !== menteeId));
+  };
+
+  // 관련 요청의 상태가 바뀌거나 실시간 연결이 다시 연결되면 목록 갱신
+  useRealtimeEvents((event) => {
+    if (user?.role === 'mentor' && (event.type === 'request.updated' || event.type === 'ready')) {
+      fetchIncomingRequests({ silent: true });
+    }
+  });
+
   // 요청 수락
   const acceptRequest = async (requestId: number) => {
     if (!confirm('이 매칭 요청을 수락하시겠습니까?')) {
@@ -46,48 +80,69 @@ export default function IncomingRequestsPage() {
       fetchIncomingRequests(); // 목록 새로고침
     } catch (error: any) {
       console.error('Failed to accept request:', error);
+      if (getErrorCode(error) === 'MENTOR_AT_CAPACITY') {
+        alert('최대 멘티 수에 도달했습니다. 프로필에서 최대 멘티 수를 늘리거나 진행 중인 멘토링을 완료해주세요.');
+        return;
+      }
+      if (isConflictError(error)) {
+        // 다른 곳에서 먼저 처리된 요청: 최신 상태로 목록 갱신
+        alert('이미 처리된 요청입니다. 목록을 새로고침합니다.');
+        fetchIncomingRequests();
+        return;
+      }
       alert(error.response?.data?.error || error.message || '요청 수락에 실패했습니다.');
     }
   };
 
   // 요청 거절
   const rejectRequest = async (requestId: number) => {
-    if (!confirm('이 매칭 요청을 거절하시겠습니까?')) {
+    // 사유는 선택 입력 (prompt를 닫으면 거절하지 않음)
+    const reason = prompt('이 매칭 요청을 거절하시겠습니까?\n멘티에게 전달할 거절 사유를 입력하세요. (선택)');
+    if (reason === null) {
       return;
     }
 
     try {
-      await matchingApi.rejectRequest(requestId);
+      await matchingApi.rejectRequest(requestId, reason.trim() || undefined);
       alert('매칭 요청을 거절했습니다.');
       fetchIncomingRequests(); // 목록 새로고침
     } catch (error: any) {
       console.error('Failed to reject request:', error);
+      if (isConflictError(error)) {
+        // 다른 곳에서 먼저 처리된 요청: 최신 상태로 목록 갱신
+        alert('이미 처리된 요청입니다. 목록을 새로고침합니다.');
+        fetchIncomingRequests();
+        return;
+      }
       alert(error.response?.data?.error || error.message || '요청 거절에 실패했습니다.');
     }
   };
 
-  // 상태별 색상
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'accepted': return 'bg-green-100 text-green-800';
-      case 'rejected': return 'bg-red-100 text-red-800';
-      case 'cancelled': return 'bg-gray-100 text-gray-800';
-      default: return 'bg-gray-100 text-gray-800';
+  // 멘토링 완료 처리
+  const completeRequest = async (requestId: number) => {
+    if (!confirm('멘토링을 완료 처리하시겠습니까?')) {
+      return;
     }
-  };
 
-  // 상태별 텍스트
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending': return '대기중';
-      case 'accepted': return '수락됨';
-      case 'rejected': return '거절됨';
-      case 'cancelled': return '취소됨';
-      default: return status;
+    try {
+      await matchingApi.completeRequest(requestId);
+      alert('멘토링이 완료 처리되었습니다.');
+      fetchIncomingRequests();
+    } catch (error) {
+      console.error('Failed to complete request:', error);
+      if (isConflictError(error)) {
+        alert('이미 처리된 요청입니다. 목록을 새로고침합니다.');
+        fetchIncomingRequests();
+        return;
+      }
+      alert(getErrorMessage(error, '완료 처리에 실패했습니다.'));
     }
   };
 
+  const toggleHistory = (requestId: number) => {
+    setExpandedRequestId(current => (current === requestId ? null : requestId));
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -122,7 +177,7 @@ export default function IncomingRequestsPage() {
         {/* 새로고침 버튼 */}
         <div className="mb-6">
           <button
-            onClick={fetchIncomingRequests}
+            onClick={() => fetchIncomingRequests()}
             disabled={loading}
             className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 transition-colors"
           >
@@ -168,6 +223,12 @@ export default function IncomingRequestsPage() {
                         {getStatusText(request.status)}
                       </span>
                     </div>
+
+                    {request.status === 'pending' && request.expiresAt && (
+                      <div className="mb-2">
+                        <ExpiryCountdown expiresAt={request.expiresAt} />
+                      </div>
+                    )}
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                       <div>
@@ -176,7 +237,7 @@ export default function IncomingRequestsPage() {
                       </div>
                       <div>
                         <p className="text-sm text-gray-500 mb-1">요청 일시</p>
-                        <p className="text-gray-900">{request.created_at ? new Date(request.created_at).toLocaleString('ko-KR') : '정보 없음'}</p>
+                        <p className="text-gray-900">{request.createdAt ? formatDateTime(request.createdAt) : '정보 없음'}</p>
                       </div>
                     </div>
 
@@ -196,10 +257,17 @@ export default function IncomingRequestsPage() {
                         <p className="text-gray-900">{request.mentee_name}</p>
                       </div>
                     )}
+
+                    {request.statusReason && (
+                      <div className="mb-4">
+                        <p className="text-sm text-gray-500 mb-1">{getStatusText(request.status)} 사유</p>
+                        <p className="text-gray-900">{request.statusReason}</p>
+                      </div>
+                    )}
                   </div>
 
                   {/* 액션 버튼 */}
-                  <div className="ml-4">
+                  <div className="ml-4 flex flex-col items-end space-y-2">
                     {request.status === 'pending' && (
                       <div className="flex space-x-2">
                         <button
@@ -220,8 +288,44 @@ export default function IncomingRequestsPage() {
                         </button>
                       </div>
                     )}
+                    {request.status === 'accepted' && (
+                      <button
+                        onClick={() => completeRequest(request.id)}
+                        data-request-id={request.id}
+                        className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                      >
+                        완료
+                      </button>
+                    )}
+                    {(request.status === 'accepted' || request.status === 'completed') && (
+                      <Link
+                        href={`/matches/${request.id}`}
+                        className="text-sm text-blue-600 hover:text-blue-800 underline"
+                      >
+                        대화하기
+                      </Link>
+                    )}
+                    <button
+                      onClick={() => toggleHistory(request.id)}
+                      className="text-sm text-gray-600 hover:text-gray-900 underline"
+                    >
+                      {expandedRequestId === request.id ? '이력 닫기' : '이력 보기'}
+                    </button>
+                    <SafetyActions
+                      userId={request.menteeId}
+                      userName={request.mentee_name || `멘티 #${request.menteeId}`}
+                      requestId={request.id}
+                      blocked={blockedUserIds.includes(request.menteeId)}
+                      onBlockChange={(blocked) => handleBlockChange(request.menteeId, blocked)}
+                    />
                   </div>
                 </div>
+
+                {expandedRequestId === request.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <RequestTimeline requestId={request.id} status={request.status} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
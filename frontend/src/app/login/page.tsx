@@ -1,19 +1,61 @@
 'use client';
 
-import { useState } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
+import { useState, useEffect } from 'react';
+import { useAuth, LoginError } from '@/contexts/AuthContext';
+import { LoginErrorCode } from '@/types';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 
+// 대기 시간 표시 (예: 14분 59초)
+const formatWait = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}분 ${rest}초` : `${rest}초`;
+};
+
+const getBlockedMessage = (code: LoginErrorCode | undefined, seconds: number) => {
+  switch (code) {
+    case 'ACCOUNT_LOCKED':
+      return `로그인 실패가 반복되어 계정이 일시적으로 잠겼습니다. ${formatWait(seconds)} 후에 다시 시도하세요.`;
+    case 'IP_LOCKED':
+      return `이 네트워크에서 로그인 실패가 너무 많습니다. ${formatWait(seconds)} 후에 다시 시도하세요.`;
+    default:
+      return `로그인 시도가 너무 많습니다. ${formatWait(seconds)} 후에 다시 시도하세요.`;
+  }
+};
+
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  // 로그인 차단(대기/잠금) 상태: 해제 시각과 사유
+  const [blocked, setBlocked] = useState<{ until: number; code?: LoginErrorCode } | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
   
   const { login } = useAuth();
   const router = useRouter();
 
+  // 차단 해제까지 남은 시간 카운트다운
+  useEffect(() => {
+    if (!blocked) {
+      return;
+    }
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((blocked.until - Date.now()) / 1000));
+      setRemainingSeconds(seconds);
+      if (seconds === 0) {
+        setBlocked(null);
+        setError('');
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [blocked]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -21,9 +63,18 @@ export default function LoginPage() {
 
     try {
       await login(email, password);
-      router.push('/profile');
+      // 홈에서 역할별 대시보드로 이동 (회원가입 후와 같은 흐름)
+      router.push('/');
     } catch (error: any) {
-      setError(error.message || '로그인에 실패했습니다.');
+      if (error instanceof LoginError && error.retryAfter) {
+        setBlocked({ until: Date.now() + error.retryAfter * 1000, code: error.code });
+      } else if (error instanceof LoginError && error.code === 'ACCOUNT_SUSPENDED') {
+        setError('관리자에 의해 이용이 정지된 계정입니다. 문의가 필요하면 운영팀에 연락하세요.');
+      } else if (error instanceof LoginError && error.remainingAttempts !== undefined && error.remainingAttempts <= 3) {
+        setError(`이메일 또는 비밀번호가 올바르지 않습니다. (계정 잠금까지 ${error.remainingAttempts}회 남음)`);
+      } else {
+        setError(error.message || '로그인에 실패했습니다.');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -81,7 +132,17 @@ export default function LoginPage() {
             </div>
           </div>
 
-          {error && (
+          <div className="text-right text-sm">
+            <Link href="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+              비밀번호를 잊으셨나요?
+            </Link>
+          </div>
+
+          {blocked ? (
+            <div id="login-error" className="text-red-600 text-sm text-center">
+              {getBlockedMessage(blocked.code, remainingSeconds)}
+            </div>
+          ) : error && (
             <div id="login-error" className="text-red-600 text-sm text-center">
               {error}
             </div>
@@ -91,10 +152,10 @@ export default function LoginPage() {
             <button
               id="login"
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || !!blocked}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? '로그인 중...' : '로그인'}
+              {isLoading ? '로그인 중...' : blocked ? `${formatWait(remainingSeconds)} 후 다시 시도` : '로그인'}
             </button>
           </div>
         </form>
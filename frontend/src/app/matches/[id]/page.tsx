@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, FormEvent, KeyboardEvent } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Match, Message } from '@/types';
+import { messageApi } from '@/lib/api';
+import { getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorCode, getErrorMessage } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import MatchBookings from '@/components/MatchBookings';
+import MatchReview from '@/components/MatchReview';
+
+const PAGE_SIZE = 30;
+const MESSAGE_MAX_LENGTH = 2000;
+
+// 중복 없이 id 순으로 메시지 병합 (전송 응답과 실시간 이벤트가 같은 메시지를 전달할 수 있음)
+const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => a.id - b.id);
+};
+
+export default function MatchConversationPage() {
+  const { user } = useAuth();
+  const params = useParams<{ id: string }>();
+  const matchId = Number(params.id);
+
+  const [match, setMatch] = useState<Match | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // 새 메시지가 추가될 때만 맨 아래로 스크롤 (이전 메시지를 불러올 때는 위치 유지)
+  const scrollToBottomRef = useRef(true);
+
+  // 상대방이 보낸 메시지 중 아직 읽지 않은 마지막 메시지까지 읽음 처리
+  const markConversationRead = useCallback(async (list: Message[]) => {
+    if (!user) return;
+
+    const lastUnread = [...list].reverse().find(
+      message => message.senderId !== user.id && !message.readAt
+    );
+    if (!lastUnread) return;
+
+    try {
+      await messageApi.markRead(matchId, lastUnread.id);
+    } catch (error) {
+      console.error('Failed to mark messages read:', error);
+    }
+  }, [user, matchId]);
+
+  // 대화방 정보와 최근 메시지 조회
+  // silent: 재연결 시에는 로딩 화면 없이 최신 메시지만 병합
+  const fetchConversation = useCallback(async ({ silent = false } = {}) => {
+    try {
+      if (!silent) setLoading(true);
+      setError('');
+
+      const [matchData, page] = await Promise.all([
+        messageApi.getMatch(matchId),
+        messageApi.getMessages(matchId, { limit: PAGE_SIZE })
+      ]);
+
+      setMatch(matchData);
+      scrollToBottomRef.current = true;
+      if (silent) {
+        setMessages(current => mergeMessages(current, page.messages));
+      } else {
+        setMessages(page.messages);
+        setHasMore(page.hasMore);
+      }
+      markConversationRead(page.messages);
+
+    } catch (error) {
+      console.error('Failed to fetch conversation:', error);
+      setError(getErrorMessage(error, '대화를 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId, markConversationRead]);
+
+  useEffect(() => {
+    if (user && Number.isInteger(matchId)) {
+      fetchConversation();
+    }
+  }, [user, matchId, fetchConversation]);
+
+  useEffect(() => {
+    if (scrollToBottomRef.current) {
+      bottomRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [messages]);
+
+  useRealtimeEvents((event) => {
+    if (event.type === 'ready') {
+      fetchConversation({ silent: true });
+      return;
+    }
+
+    if (event.type === 'request.updated' && event.data.requestId === matchId) {
+      setMatch(current => (current ? { ...current, status: event.data.status } : current));
+      return;
+    }
+
+    if (event.type === 'message.created' && event.data.requestId === matchId) {
+      scrollToBottomRef.current = true;
+      setMessages(current => mergeMessages(current, [event.data.message]));
+      markConversationRead([event.data.message]);
+      return;
+    }
+
+    // 상대방이 내 메시지를 읽으면 읽음 표시 갱신
+    if (event.type === 'messages.read' && event.data.requestId === matchId && event.data.readerId !== user?.id) {
+      const { upToId, readAt } = event.data;
+      setMessages(current => current.map(message =>
+        message.senderId === user?.id && message.id <= upToId && !message.readAt
+          ? { ...message, readAt }
+          : message
+      ));
+    }
+  });
+
+  // 이전 메시지 더 불러오기
+  const loadOlderMessages = async () => {
+    if (messages.length === 0) return;
+
+    try {
+      setLoadingOlder(true);
+      const page = await messageApi.getMessages(matchId, { before: messages[0].id, limit: PAGE_SIZE });
+      scrollToBottomRef.current = false;
+      setMessages(current => mergeMessages(current, page.messages));
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+      alert(getErrorMessage(error, '이전 메시지를 불러오지 못했습니다.'));
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // 메시지 보내기
+  const sendMessage = async (event?: FormEvent) => {
+    event?.preventDefault();
+
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    try {
+      setSending(true);
+      const message = await messageApi.sendMessage(matchId, body);
+      scrollToBottomRef.current = true;
+      setMessages(current => mergeMessages(current, [message]));
+      setDraft('');
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      if (getErrorCode(error) === 'CONVERSATION_CLOSED') {
+        alert('완료된 멘토링에는 메시지를 보낼 수 없습니다.');
+        fetchConversation({ silent: true });
+        return;
+      }
+      alert(getErrorMessage(error, '메시지 전송에 실패했습니다.'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Enter로 전송, Shift+Enter로 줄바꿈
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      sendMessage();
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">로그인이 필요합니다</h1>
+          <p className="text-gray-600">대화를 확인하려면 로그인하세요.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const requestsPath = user.role === 'mentor' ? '/incoming-requests' : '/requests';
+  const partnerName = match
+    ? (user.role === 'mentor' ? match.menteeName : match.mentorName) || '상대방'
+    : '';
+  const canSend = match?.status === 'accepted';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4">
+        <div className="mb-6">
+          <Link href={requestsPath} className="text-sm text-gray-600 hover:text-gray-900 underline">
+            ← 매칭 요청 목록
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : match && (
+          <div className="bg-white rounded-lg shadow-sm border flex flex-col h-[70vh]">
+            {/* 대화 상대 */}
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{partnerName}</h1>
+                <p className="text-sm text-gray-500">매칭 #{match.id}</p>
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(match.status)}`}>
+                {getStatusText(match.status)}
+              </span>
+            </div>
+
+            {/* 세션 예약 */}
+            <MatchBookings match={match} canBook={canSend && user.role === 'mentee'} />
+
+            {/* 메시지 목록 */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+              {hasMore && (
+                <div className="text-center">
+                  <button
+                    onClick={loadOlderMessages}
+                    disabled={loadingOlder}
+                    className="text-sm text-gray-600 hover:text-gray-900 underline disabled:opacity-50"
+                  >
+                    {loadingOlder ? '불러오는 중...' : '이전 메시지 더 보기'}
+                  </button>
+                </div>
+              )}
+
+              {messages.length === 0 ? (
+                <p className="text-center text-gray-500 py-12">아직 주고받은 메시지가 없습니다.</p>
+              ) : messages.map(message => {
+                const mine = message.senderId === user.id;
+                return (
+                  <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[75%] flex flex-col ${mine ? 'items-end' : 'items-start'}`}>
+                      <p
+                        className={`px-4 py-2 rounded-lg whitespace-pre-wrap break-words ${
+                          mine ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                        }`}
+                      >
+                        {message.body}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-400">
+                        {mine && message.readAt && <span className="mr-2 text-blue-600">읽음</span>}
+                        {formatDateTime(message.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+              <div ref={bottomRef} />
+            </div>
+
+            {/* 입력창 */}
+            {canSend ? (
+              <form onSubmit={sendMessage} className="border-t px-6 py-4 flex items-end space-x-3">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  maxLength={MESSAGE_MAX_LENGTH}
+                  rows={2}
+                  placeholder="메시지를 입력하세요. (Shift+Enter로 줄바꿈)"
+                  className="flex-1 resize-none border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={sending || !draft.trim()}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 transition-colors"
+                >
+                  {sending ? '전송 중...' : '보내기'}
+                </button>
+              </form>
+            ) : (
+              <div className="border-t px-6 py-4 text-sm text-gray-500 text-center">
+                완료된 멘토링입니다. 이전 대화만 확인할 수 있습니다.
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 리뷰 */}
+        {!loading && match && user.role !== 'admin' && <MatchReview match={match} role={user.role} />}
+      </div>
+    </div>
+  );
+}
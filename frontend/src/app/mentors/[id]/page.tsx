@@ -0,0 +1,70 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { appConfig } from '@/lib/config';
+import { MentorDetail } from '@/types';
+import MentorProfile from '@/components/MentorProfile';
+
+interface MentorPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const DESCRIPTION_MAX_LENGTH = 160;
+
+// 서버에서 공개 멘토 프로필 조회 (generateMetadata와 페이지가 같은 요청을 공유)
+// axios 인스턴스는 localStorage 토큰을 사용하므로 서버에서는 fetch를 직접 사용
+const getMentor = cache(async (id: string): Promise<MentorDetail | null> => {
+  if (!/^\d+$/.test(id)) {
+    return null;
+  }
+
+  const response = await fetch(`${appConfig.apiUrl}/api/mentors/${id}`, { cache: 'no-store' });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load mentor ${id}: ${response.status}`);
+  }
+  return response.json();
+});
+
+const describeMentor = (mentor: MentorDetail): string => {
+  const text = mentor.bio.trim() ||
+    `${mentor.name} 멘토의 프로필입니다.${mentor.skillsets.length > 0 ? ` 기술 스택: ${mentor.skillsets.join(', ')}` : ''}`;
+  return text.length > DESCRIPTION_MAX_LENGTH ? `${text.slice(0, DESCRIPTION_MAX_LENGTH - 1)}…` : text;
+};
+
+export async function generateMetadata({ params }: MentorPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const mentor = await getMentor(id);
+
+  if (!mentor) {
+    return { title: '멘토를 찾을 수 없습니다 - Tortee' };
+  }
+
+  const title = `${mentor.name} - Tortee 멘토`;
+  const description = describeMentor(mentor);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'profile',
+      // 업로드한 이미지는 백엔드 상대 경로이므로 절대 URL로 변환
+      images: [{ url: new URL(mentor.profile_image_url, appConfig.apiUrl).toString(), alt: mentor.name }],
+    },
+  };
+}
+
+export default async function MentorPage({ params }: MentorPageProps) {
+  const { id } = await params;
+  const mentor = await getMentor(id);
+
+  if (!mentor) {
+    notFound();
+  }
+
+  return <MentorProfile mentor={mentor} />;
+}
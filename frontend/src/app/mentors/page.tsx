@@ -1,67 +1,142 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
-import { User } from '@/types';
-import { mentorApi, matchingApi } from '@/lib/api';
+import { Mentor, MentorRecommendations, MentorSearchParams } from '@/types';
+import { mentorApi, matchingApi, skillApi } from '@/lib/api';
+import { formatAcceptanceRate, formatResponseTime } from '@/lib/mentorStats';
+import { SKILL_LEVEL_LABELS, formatSkillDetail, getSkillDetails } from '@/lib/skills';
+import { getErrorMessage } from '@/lib/utils';
+import RecommendedMentors from '@/components/RecommendedMentors';
+import StarRating from '@/components/StarRating';
+import Pagination from '@/components/Pagination';
 
 interface MentorFilters {
   skills: string[];
-  sortBy: 'name' | 'skill' | 'newest' | 'oldest';
+  // 여러 스킬을 고른 경우 하나라도(any) 또는 모두(all) 가진 멘토
+  skillMatch: 'any' | 'all';
+  query: string;
+  sortBy: 'name' | 'skill' | 'rating' | 'relevance' | 'newest' | 'oldest';
+  availableOnly: boolean;
 }
 
+const PAGE_SIZE = 12;
+const SKILL_FILTER_COUNT = 30;
+
 export default function MentorsPage() {
   const { user } = useAuth();
-  const [mentors, setMentors] = useState<User[]>([]);
+  const [mentors, setMentors] = useState<Mentor[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [filters, setFilters] = useState<MentorFilters>({
     skills: [],
-    sortBy: 'name'
+    skillMatch: 'any',
+    query: '',
+    sortBy: 'name',
+    availableOnly: false
   });
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
   const [allSkills, setAllSkills] = useState<string[]>([]);
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [selectedMentorId, setSelectedMentorId] = useState<number | null>(null);
   const [requestMessage, setRequestMessage] = useState('');
 
-  // 멘토 목록 조회
-  const fetchMentors = async () => {
+  const [recommended, setRecommended] = useState<MentorRecommendations | null>(null);
+
+  // 추천 카드에서 요청하는 멘토는 현재 페이지 목록에 없을 수 있음
+  const selectedMentor = mentors.find(mentor => mentor.id === selectedMentorId)
+    ?? recommended?.recommendations.find(({ mentor }) => mentor.id === selectedMentorId)?.mentor;
+  const learningGoals = user?.profile.learningGoals ?? [];
+  const goalNames = new Set(learningGoals.map(goal => goal.name));
+
+  // 멘토 목록 조회 (현재 페이지)
+  const fetchMentors = useCallback(async () => {
     try {
       setLoading(true);
       setError('');
       
-      const params: any = {};
-      if (filters.skills.length > 0) params.skill = filters.skills[0]; // 백엔드는 한 번에 하나의 스킬만 지원
+      const params: MentorSearchParams = { page, limit: PAGE_SIZE };
+      if (filters.skills.length > 0) {
+        params.skills = filters.skills.join(',');
+        params.skill_match = filters.skillMatch;
+      }
+      if (filters.query) params.q = filters.query;
+      if (filters.availableOnly) params.available = true;
       
       // 정렬 파라미터 설정
       if (filters.sortBy === 'name') {
         params.order_by = 'name';
       } else if (filters.sortBy === 'skill') {
         params.order_by = 'skill';
+      } else if (filters.sortBy === 'rating') {
+        // 평점 높은 순 (리뷰가 없는 멘토는 뒤로)
+        params.order_by = 'rating';
+        params.order = 'desc';
+      } else if (filters.sortBy === 'relevance') {
+        params.order_by = 'relevance';
       }
       // newest, oldest는 기본 정렬(id 기준)을 사용
 
-      const mentorsData = await mentorApi.getMentors(params);
-      setMentors(mentorsData);
+      const result = await mentorApi.getMentors(params);
+      setMentors(result.mentors);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
       
-      // 모든 스킬 목록 추출
-      const skillsSet = new Set<string>();
-      mentorsData.forEach((mentor: User) => {
-        mentor.profile.skills?.forEach(skill => skillsSet.add(skill));
-      });
-      setAllSkills(Array.from(skillsSet).sort());
-      
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to fetch mentors:', error);
-      setError(error.response?.data?.error || error.message || 'Failed to load mentors');
+      setError(getErrorMessage(error, 'Failed to load mentors'));
     } finally {
       setLoading(false);
     }
-  };
+  }, [filters, page]);
 
   useEffect(() => {
     fetchMentors();
-  }, [filters]);
+  }, [fetchMentors]);
+
+  // 멘티 맞춤 추천 (요청을 보낸 멘토는 추천에서 빠지므로 요청 후 다시 조회)
+  const fetchRecommended = async () => {
+    try {
+      setRecommended(await mentorApi.getRecommended(3));
+    } catch (error) {
+      console.error('Failed to fetch recommended mentors:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user?.role === 'mentee') {
+      fetchRecommended();
+    }
+  }, [user?.role]);
+
+  // 필터 선택지: 많이 쓰이는 기술 스택 (처음 한 번만 조회)
+  useEffect(() => {
+    skillApi.search({ limit: SKILL_FILTER_COUNT })
+      .then(skills => setAllSkills(skills.map(skill => skill.name).sort()))
+      .catch(error => console.error('Failed to fetch skills:', error));
+  }, []);
+
+  // 조건이 바뀌면 첫 페이지부터 다시 조회
+  const updateFilters = (changes: Partial<MentorFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  // 키워드 검색 (검색어가 있으면 관련도순, 지우면 이름순으로 전환)
+  const submitSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const query = searchInput.trim();
+    if (query === filters.query) return;
+
+    updateFilters({
+      query,
+      sortBy: query ? 'relevance' : filters.sortBy === 'relevance' ? 'name' : filters.sortBy
+    });
+  };
 
   // 매칭 요청 보내기
   const sendMatchRequest = async (mentorId: number) => {
@@ -88,6 +163,7 @@ export default function MentorsPage() {
       setShowRequestModal(false);
       setRequestMessage('');
       setSelectedMentorId(null);
+      fetchRecommended();
     } catch (error: any) {
       console.error('Failed to send match request:', error);
       alert(error.response?.data?.error || error.message || '매칭 요청 전송에 실패했습니다.');
@@ -96,12 +172,11 @@ export default function MentorsPage() {
 
   // 스킬 필터 토글
   const toggleSkillFilter = (skill: string) => {
-    setFilters(prev => ({
-      ...prev,
-      skills: prev.skills.includes(skill)
-        ? prev.skills.filter(s => s !== skill)
-        : [...prev.skills, skill]
-    }));
+    updateFilters({
+      skills: filters.skills.includes(skill)
+        ? filters.skills.filter(s => s !== skill)
+        : [...filters.skills, skill]
+    });
   };
 
   if (!user) {
@@ -124,8 +199,36 @@ export default function MentorsPage() {
           <p className="text-gray-600">원하는 분야의 전문가와 연결되어 성장하세요.</p>
         </div>
 
+        {/* 맞춤 추천 (멘티만) */}
+        {recommended && (
+          <RecommendedMentors
+            recommendations={recommended.recommendations}
+            personalized={recommended.personalized}
+            onRequest={sendMatchRequest}
+          />
+        )}
+
         {/* 검색 및 필터 */}
         <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+          {/* 키워드 검색 */}
+          <form onSubmit={submitSearch} className="flex space-x-2 mb-6">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              maxLength={100}
+              placeholder="이름이나 자기소개로 검색 (예: 프론트엔드, React)"
+              aria-label="멘토 검색"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              검색
+            </button>
+          </form>
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* 정렬 */}
             <div>
@@ -140,7 +243,7 @@ export default function MentorsPage() {
                     name="sortBy"
                     value="name"
                     checked={filters.sortBy === 'name'}
-                    onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as any }))}
+                    onChange={(e) => updateFilters({ sortBy: e.target.value as MentorFilters['sortBy'] })}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                   />
                   <label htmlFor="name" className="ml-2 text-sm text-gray-700">
@@ -154,13 +257,42 @@ export default function MentorsPage() {
                     name="sortBy"
                     value="skill"
                     checked={filters.sortBy === 'skill'}
-                    onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as any }))}
+                    onChange={(e) => updateFilters({ sortBy: e.target.value as MentorFilters['sortBy'] })}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                   />
                   <label htmlFor="skill" className="ml-2 text-sm text-gray-700">
                     스킬순
                   </label>
                 </div>
+                <div className="flex items-center">
+                  <input
+                    id="rating"
+                    type="radio"
+                    name="sortBy"
+                    value="rating"
+                    checked={filters.sortBy === 'rating'}
+                    onChange={(e) => updateFilters({ sortBy: e.target.value as MentorFilters['sortBy'] })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                  />
+                  <label htmlFor="rating" className="ml-2 text-sm text-gray-700">
+                    평점순
+                  </label>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    id="relevance"
+                    type="radio"
+                    name="sortBy"
+                    value="relevance"
+                    checked={filters.sortBy === 'relevance'}
+                    disabled={!filters.query}
+                    onChange={(e) => updateFilters({ sortBy: e.target.value as MentorFilters['sortBy'] })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 disabled:opacity-50"
+                  />
+                  <label htmlFor="relevance" className={`ml-2 text-sm ${filters.query ? 'text-gray-700' : 'text-gray-400'}`}>
+                    검색 관련도순
+                  </label>
+                </div>
                 <div className="flex items-center">
                   <input
                     id="newest"
@@ -168,7 +300,7 @@ export default function MentorsPage() {
                     name="sortBy"
                     value="newest"
                     checked={filters.sortBy === 'newest'}
-                    onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as any }))}
+                    onChange={(e) => updateFilters({ sortBy: e.target.value as MentorFilters['sortBy'] })}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                   />
                   <label htmlFor="newest" className="ml-2 text-sm text-gray-700">
@@ -178,6 +310,25 @@ export default function MentorsPage() {
               </div>
             </div>
 
+            {/* 신청 가능 여부 */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                신청 가능 여부
+              </label>
+              <div className="flex items-center">
+                <input
+                  id="available-only"
+                  type="checkbox"
+                  checked={filters.availableOnly}
+                  onChange={(e) => updateFilters({ availableOnly: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="available-only" className="ml-2 text-sm text-gray-700">
+                  자리가 남은 멘토만 보기
+                </label>
+              </div>
+            </div>
+
             {/* 새로고침 */}
             <div className="flex items-end">
               <button
@@ -193,9 +344,35 @@ export default function MentorsPage() {
           {/* 스킬 필터 */}
           {allSkills.length > 0 && (
             <div className="mt-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                기술 스택 필터
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  기술 스택 필터
+                </label>
+                {filters.skills.length > 1 && (
+                  <div className="flex items-center space-x-3 text-sm text-gray-700">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="skillMatch"
+                        checked={filters.skillMatch === 'any'}
+                        onChange={() => updateFilters({ skillMatch: 'any' })}
+                        className="mr-1 h-4 w-4 text-blue-600 border-gray-300"
+                      />
+                      하나라도 포함
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="skillMatch"
+                        checked={filters.skillMatch === 'all'}
+                        onChange={() => updateFilters({ skillMatch: 'all' })}
+                        className="mr-1 h-4 w-4 text-blue-600 border-gray-300"
+                      />
+                      모두 포함
+                    </label>
+                  </div>
+                )}
+              </div>
               <div className="flex flex-wrap gap-2">
                 {allSkills.map(skill => (
                   <button
@@ -222,6 +399,13 @@ export default function MentorsPage() {
           </div>
         )}
 
+        {!loading && total > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            {filters.query && <span className="font-medium">&lsquo;{filters.query}&rsquo; 검색 결과 </span>}
+            총 {total}명의 멘토
+          </p>
+        )}
+
         {/* 멘토 목록 */}
         {loading ? (
           <div className="flex justify-center items-center py-12">
@@ -252,10 +436,40 @@ export default function MentorsPage() {
                       className="w-16 h-16 rounded-full object-cover border-2 border-gray-200"
                     />
                     <div className="ml-4">
-                      <h3 className="text-lg font-semibold text-gray-900">
-                        {mentor.profile.name || '이름 없음'}
-                      </h3>
+                      <div className="flex items-center space-x-2">
+                        <h3 className="text-lg font-semibold text-gray-900">
+                          <Link href={`/mentors/${mentor.id}`} className="hover:underline">
+                            {mentor.profile.name || '이름 없음'}
+                          </Link>
+                        </h3>
+                        {mentor.availableSlots === 0 && (
+                          <span className="mentor-full-badge px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            정원 마감
+                          </span>
+                        )}
+                      </div>
                       <p className="text-sm text-gray-500">{mentor.email}</p>
+                      {mentor.profile.maxMentees !== undefined && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          남은 자리 {mentor.availableSlots} / {mentor.profile.maxMentees}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {mentor.reviewCount ? (
+                          <>
+                            <StarRating rating={mentor.averageRating ?? 0} />
+                            <span className="ml-1">{mentor.averageRating?.toFixed(1)} ({mentor.reviewCount})</span>
+                          </>
+                        ) : '리뷰 없음'}
+                      </p>
+                      {mentor.stats && mentor.stats.decidedRequests > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {mentor.stats.medianResponseHours !== null && (
+                            <>응답 보통 {formatResponseTime(mentor.stats.medianResponseHours)} · </>
+                          )}
+                          수락률 {formatAcceptanceRate(mentor.stats.acceptanceRate ?? 0)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -271,12 +485,13 @@ export default function MentorsPage() {
                     <div className="mb-4">
                       <h4 className="text-sm font-medium text-gray-900 mb-2">기술 스택</h4>
                       <div className="flex flex-wrap gap-1">
-                        {mentor.profile.skills.slice(0, 3).map((skill, index) => (
+                        {getSkillDetails(mentor.profile).slice(0, 3).map((skill, index) => (
                           <span
                             key={index}
                             className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full"
                           >
-                            {skill}
+                            {skill.name}
+                            {skill.level && <span className="text-blue-600"> · {SKILL_LEVEL_LABELS[skill.level]}</span>}
                           </span>
                         ))}
                         {mentor.profile.skills.length > 3 && (
@@ -288,15 +503,24 @@ export default function MentorsPage() {
                     </div>
                   )}
 
+                  {/* 상세 보기 */}
+                  <Link
+                    href={`/mentors/${mentor.id}`}
+                    className="block w-full mb-2 text-center border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                  >
+                    상세 보기
+                  </Link>
+
                   {/* 매칭 요청 버튼 */}
                   {user?.role === 'mentee' && (
                     <button
                       id="request"
                       data-mentor-id={mentor.id}
                       onClick={() => sendMatchRequest(mentor.id)}
-                      className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                      disabled={mentor.availableSlots === 0}
+                      className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      매칭 요청하기
+                      {mentor.availableSlots === 0 ? '정원 마감' : '매칭 요청하기'}
                     </button>
                   )}
                 </div>
@@ -304,6 +528,11 @@ export default function MentorsPage() {
             ))}
           </div>
         )}
+
+        {/* 페이지 이동 */}
+        {!loading && (
+          <Pagination page={page} totalPages={totalPages} onChange={setPage} />
+        )}
       </div>
 
       {/* 매칭 요청 모달 */}
@@ -311,7 +540,41 @@ export default function MentorsPage() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">매칭 요청 보내기</h3>
-            
+
+            {/* 멘토 기술 스택 (내 학습 목표와 겹치는 기술 강조) */}
+            {selectedMentor && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">{selectedMentor.profile.name}님의 기술 스택</p>
+                <div className="flex flex-wrap gap-1">
+                  {getSkillDetails(selectedMentor.profile).map(skill => (
+                    <span
+                      key={skill.name}
+                      className={`inline-block text-xs px-2 py-1 rounded-full ${
+                        goalNames.has(skill.name)
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-blue-100 text-blue-800'
+                      }`}
+                    >
+                      {formatSkillDetail(skill)}
+                    </span>
+                  ))}
+                </div>
+                {learningGoals.length > 0 ? (
+                  <p className="text-xs text-gray-500 mt-2">
+                    내 학습 목표:{' '}
+                    {learningGoals
+                      .map(goal => goal.currentLevel ? `${goal.name}(현재 ${SKILL_LEVEL_LABELS[goal.currentLevel]})` : goal.name)
+                      .join(', ')}
+                    {' '}· 초록색은 학습 목표와 겹치는 기술입니다
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-2">
+                    <Link href="/profile" className="underline">프로필</Link>에서 학습 목표를 등록하면 겹치는 기술을 표시합니다.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="mb-4">
               <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
                 요청 메시지
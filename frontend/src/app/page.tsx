@@ -4,6 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import Link from 'next/link';
+import { getHomePath } from '@/lib/roles';
 
 export default function Home() {
   const { user, isLoading } = useAuth();
@@ -11,8 +12,8 @@ export default function Home() {
 
   useEffect(() => {
     if (!isLoading && user) {
-      // 인증된 사용자는 /profile로 리다이렉트
-      router.push('/profile');
+      // 인증된 사용자는 역할별 대시보드(관리자는 관리자 콘솔)로 리다이렉트
+      router.replace(getHomePath(user.role));
     }
   }, [user, isLoading, router]);
 
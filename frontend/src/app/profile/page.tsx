@@ -3,8 +3,21 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { profileApi } from '@/lib/api';
-import { User } from '@/types';
+import { appConfig } from '@/lib/config';
+import { USER_ROLE_LABELS } from '@/lib/roles';
+import { SKILL_LEVEL_LABELS, formatSkillDetail, syncByName } from '@/lib/skills';
+import { LearningGoal, SkillDetail, SkillLevel, User } from '@/types';
 import Image from 'next/image';
+import Link from 'next/link';
+import ActiveSessions from '@/components/ActiveSessions';
+import BlockedUsers from '@/components/BlockedUsers';
+import AvailabilityEditor from '@/components/AvailabilityEditor';
+import MyMentorStats from '@/components/MyMentorStats';
+import SkillLevelSelect from '@/components/SkillLevelSelect';
+import SkillTagInput from '@/components/SkillTagInput';
+
+const { maxImageBytes, minImageDimension, maxImageDimension, allowedImageTypes } = appConfig.upload;
+const maxImageSizeLabel = `${Math.round((maxImageBytes / (1024 * 1024)) * 10) / 10}MB`;
 
 export default function ProfilePage() {
   const { user, updateUser } = useAuth();
@@ -19,7 +32,9 @@ export default function ProfilePage() {
   const [formData, setFormData] = useState({
     name: '',
     bio: '',
-    skills: [] as string[],
+    skills: [] as SkillDetail[],
+    learningGoals: [] as LearningGoal[],
+    maxMentees: 1,
   });
 
   useEffect(() => {
@@ -27,7 +42,9 @@ export default function ProfilePage() {
       setFormData({
         name: user.profile?.name || '',
         bio: user.profile?.bio || '',
-        skills: user.role === 'mentor' ? (user.profile?.skills || []) : [],
+        skills: user.role === 'mentor' ? (user.profile?.skillDetails || []) : [],
+        learningGoals: user.role === 'mentee' ? (user.profile?.learningGoals || []) : [],
+        maxMentees: user.profile?.maxMentees || 1,
       });
     }
   }, [user]);
@@ -40,11 +57,39 @@ export default function ProfilePage() {
     }));
   };
 
-  const handleSkillsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const skills = e.target.value.split(',').map(skill => skill.trim()).filter(skill => skill);
+  // 기술 태그가 바뀌면 남은 기술의 숙련도/경력은 유지
+  const handleSkillNamesChange = (names: string[]) => {
+    setFormData(prev => ({
+      ...prev,
+      skills: syncByName(prev.skills, names, name => ({ name, level: null, yearsOfExperience: null }))
+    }));
+  };
+
+  const updateSkill = (name: string, changes: Partial<SkillDetail>) => {
+    setFormData(prev => ({
+      ...prev,
+      skills: prev.skills.map(skill => (skill.name === name ? { ...skill, ...changes } : skill))
+    }));
+  };
+
+  const handleGoalNamesChange = (names: string[]) => {
     setFormData(prev => ({
       ...prev,
-      skills
+      learningGoals: syncByName(prev.learningGoals, names, name => ({ name, currentLevel: null }))
+    }));
+  };
+
+  const updateGoalLevel = (name: string, currentLevel: SkillLevel | null) => {
+    setFormData(prev => ({
+      ...prev,
+      learningGoals: prev.learningGoals.map(goal => (goal.name === name ? { ...goal, currentLevel } : goal))
+    }));
+  };
+
+  const handleMaxMenteesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      maxMentees: Number(e.target.value)
     }));
   };
 
@@ -53,23 +98,23 @@ export default function ProfilePage() {
     if (!file) return;
 
     // 파일 형식 검증 (.png, .jpg, .jpeg만 허용)
-    const allowedTypes = ['image/png', 'image/jpg', 'image/jpeg'];
-    if (!allowedTypes.includes(file.type)) {
+    if (!allowedImageTypes.includes(file.type)) {
       setError('이미지 형식은 PNG 또는 JPG만 지원됩니다.');
       return;
     }
 
-    // 파일 크기 검증 (1MB 이하)
-    if (file.size > 1024 * 1024) {
-      setError('이미지 크기는 1MB 이하여야 합니다.');
+    // 파일 크기 검증 (기본 1MB 이하)
+    if (file.size > maxImageBytes) {
+      setError(`이미지 크기는 ${maxImageSizeLabel} 이하여야 합니다.`);
       return;
     }
 
-    // 이미지 픽셀 크기 검증 (500x500 ~ 1000x1000)
+    // 이미지 픽셀 크기 검증 (기본 500x500 ~ 1000x1000)
     const img = document.createElement('img');
     img.onload = () => {
-      if (img.width < 500 || img.width > 1000 || img.height < 500 || img.height > 1000) {
-        setError('이미지 크기는 500x500 ~ 1000x1000 픽셀이어야 합니다.');
+      if (img.width < minImageDimension || img.width > maxImageDimension ||
+          img.height < minImageDimension || img.height > maxImageDimension) {
+        setError(`이미지 크기는 ${minImageDimension}x${minImageDimension} ~ ${maxImageDimension}x${maxImageDimension} 픽셀이어야 합니다.`);
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
         }
@@ -114,6 +159,9 @@ export default function ProfilePage() {
 
       if (user?.role === 'mentor') {
         updateData.skills = formData.skills;
+        updateData.maxMentees = formData.maxMentees;
+      } else if (user?.role === 'mentee') {
+        updateData.learningGoals = formData.learningGoals;
       }
 
       // 이미지가 선택된 경우 Base64로 인코딩하여 전송
@@ -165,7 +213,9 @@ export default function ProfilePage() {
       setFormData({
         name: user.profile?.name || '',
         bio: user.profile?.bio || '',
-        skills: user.role === 'mentor' ? (user.profile?.skills || []) : [],
+        skills: user.role === 'mentor' ? (user.profile?.skillDetails || []) : [],
+        learningGoals: user.role === 'mentee' ? (user.profile?.learningGoals || []) : [],
+        maxMentees: user.profile?.maxMentees || 1,
       });
     }
   };
@@ -231,7 +281,7 @@ export default function ProfilePage() {
                   ? 'bg-blue-100 text-blue-800' 
                   : 'bg-green-100 text-green-800'
               }`}>
-                {user.role === 'mentor' ? '멘토' : '멘티'}
+                {USER_ROLE_LABELS[user.role]}
               </span>
               
               {/* 이미지 업로드 인풋 (편집 모드에서만 표시) */}
@@ -241,7 +291,7 @@ export default function ProfilePage() {
                     id="profile"
                     ref={fileInputRef}
                     type="file"
-                    accept="image/png,image/jpg,image/jpeg"
+                    accept={allowedImageTypes.join(',')}
                     onChange={handleImageChange}
                     className="hidden"
                   />
@@ -264,13 +314,23 @@ export default function ProfilePage() {
                     )}
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    PNG, JPG 형식, 1MB 이하
+                    PNG, JPG 형식, {maxImageSizeLabel} 이하
                   </p>
                 </div>
               )}
             </div>
           </div>
 
+          {/* 이메일 미인증 안내 */}
+          {user.emailVerified === false && (
+            <div id="email-unverified" className="mb-4 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded flex items-center justify-between">
+              <span className="text-sm">이메일 인증이 완료되지 않았습니다.</span>
+              <Link href="/verify-email" className="text-sm font-medium text-yellow-900 underline">
+                인증하기
+              </Link>
+            </div>
+          )}
+
           {/* 알림 메시지 */}
           {error && (
             <div id="profile-error" className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
@@ -330,29 +390,54 @@ export default function ProfilePage() {
               {/* 기술 스택 (멘토만) */}
               {user.role === 'mentor' && (
                 <div>
-                  <label htmlFor="skills" className="block text-sm font-medium text-gray-700 mb-1">
+                  <label htmlFor="skillsets" className="block text-sm font-medium text-gray-700 mb-1">
                     기술 스택
                   </label>
                   {isEditing ? (
-                    <input
-                      id="skillsets"
-                      name="skills"
-                      type="text"
-                      value={formData.skills.join(', ')}
-                      onChange={handleSkillsChange}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="예: React, Node.js, Python (쉼표로 구분)"
-                    />
+                    <>
+                      <SkillTagInput
+                        id="skillsets"
+                        value={formData.skills.map(skill => skill.name)}
+                        onChange={handleSkillNamesChange}
+                      />
+                      {formData.skills.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {formData.skills.map(skill => (
+                            <div key={skill.name} className="flex items-center gap-2">
+                              <span className="w-32 truncate text-sm text-gray-900">{skill.name}</span>
+                              <SkillLevelSelect
+                                value={skill.level}
+                                onChange={level => updateSkill(skill.name, { level })}
+                                label={`${skill.name} 숙련도`}
+                              />
+                              <input
+                                type="number"
+                                min={0}
+                                max={50}
+                                value={skill.yearsOfExperience ?? ''}
+                                onChange={(e) => updateSkill(skill.name, {
+                                  yearsOfExperience: e.target.value === '' ? null : Number(e.target.value)
+                                })}
+                                aria-label={`${skill.name} 경력 연수`}
+                                placeholder="경력"
+                                className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <span className="text-sm text-gray-500">년</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
                   ) : (
                     <div className="py-2">
-                      {user.profile?.skills && user.profile.skills.length > 0 ? (
+                      {user.profile?.skillDetails && user.profile.skillDetails.length > 0 ? (
                         <div className="flex flex-wrap gap-2">
-                          {user.profile.skills.map((skill, index) => (
+                          {user.profile.skillDetails.map((skill, index) => (
                             <span
                               key={index}
                               className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
                             >
-                              {skill}
+                              {formatSkillDetail(skill)}
                             </span>
                           ))}
                         </div>
@@ -363,6 +448,85 @@ export default function ProfilePage() {
                   )}
                 </div>
               )}
+
+              {/* 학습 목표 (멘티만) */}
+              {user.role === 'mentee' && (
+                <div>
+                  <label htmlFor="learningGoals" className="block text-sm font-medium text-gray-700 mb-1">
+                    학습 목표
+                  </label>
+                  {isEditing ? (
+                    <>
+                      <SkillTagInput
+                        id="learningGoals"
+                        value={formData.learningGoals.map(goal => goal.name)}
+                        onChange={handleGoalNamesChange}
+                        placeholder="배우고 싶은 기술 (예: React, Python)"
+                      />
+                      {formData.learningGoals.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {formData.learningGoals.map(goal => (
+                            <div key={goal.name} className="flex items-center gap-2">
+                              <span className="w-32 truncate text-sm text-gray-900">{goal.name}</span>
+                              <span className="text-sm text-gray-500">현재 수준</span>
+                              <SkillLevelSelect
+                                value={goal.currentLevel}
+                                onChange={level => updateGoalLevel(goal.name, level)}
+                                label={`${goal.name} 현재 수준`}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="py-2">
+                      {user.profile?.learningGoals && user.profile.learningGoals.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                          {user.profile.learningGoals.map((goal, index) => (
+                            <span
+                              key={index}
+                              className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-sm"
+                            >
+                              {goal.name}
+                              {goal.currentLevel && ` (현재 ${SKILL_LEVEL_LABELS[goal.currentLevel]})`}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-gray-900">설정되지 않음</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* 최대 멘티 수 (멘토만) */}
+              {user.role === 'mentor' && (
+                <div>
+                  <label htmlFor="maxMentees" className="block text-sm font-medium text-gray-700 mb-1">
+                    최대 멘티 수
+                  </label>
+                  {isEditing ? (
+                    <input
+                      id="maxMentees"
+                      name="maxMentees"
+                      type="number"
+                      min={1}
+                      max={appConfig.matching.maxMenteesLimit}
+                      step={1}
+                      value={formData.maxMentees}
+                      onChange={handleMaxMenteesChange}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <p className="py-2 text-gray-900">{user.profile?.maxMentees ?? 1}명</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    수락한 멘티 수가 최대치에 도달하면 나머지 대기 중인 요청은 자동으로 거절됩니다.
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* 버튼 */}
@@ -388,6 +552,18 @@ export default function ProfilePage() {
             )}
           </form>
         </div>
+
+        {/* 멘토 요청 처리 통계 */}
+        {user.role === 'mentor' && <MyMentorStats mentorId={user.id} />}
+
+        {/* 멘토 주간 가능 시간 */}
+        {user.role === 'mentor' && <AvailabilityEditor mentorId={user.id} />}
+
+        {/* 차단한 사용자 관리 */}
+        {user.role !== 'admin' && <BlockedUsers />}
+
+        {/* 로그인된 기기 관리 */}
+        <ActiveSessions />
       </div>
     </div>
   );
@@ -1,20 +1,28 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { MatchingRequest } from '@/types';
 import { matchingApi } from '@/lib/api';
+import { getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorMessage, isConflictError } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import ExpiryCountdown from '@/components/ExpiryCountdown';
+import RequestTimeline from '@/components/RequestTimeline';
 
 export default function RequestsPage() {
   const { user } = useAuth();
   const [requests, setRequests] = useState<MatchingRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [expandedRequestId, setExpandedRequestId] = useState<number | null>(null);
 
   // 내가 보낸 요청 목록 조회
-  const fetchMyRequests = async () => {
+  // silent: 실시간 갱신 시에는 로딩 화면 없이 목록만 교체
+  const fetchMyRequests = async ({ silent = false } = {}) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError('');
       
       const requestsData = await matchingApi.getMyRequests();
@@ -34,44 +42,62 @@ export default function RequestsPage() {
     }
   }, [user]);
 
+  // 관련 요청의 상태가 바뀌거나 실시간 연결이 다시 연결되면 목록 갱신
+  useRealtimeEvents((event) => {
+    if (user?.role === 'mentee' && (event.type === 'request.updated' || event.type === 'ready')) {
+      fetchMyRequests({ silent: true });
+    }
+  });
+
   // 요청 취소
   const cancelRequest = async (requestId: number) => {
-    if (!confirm('정말로 이 매칭 요청을 취소하시겠습니까?')) {
+    // 사유는 선택 입력 (prompt를 닫으면 취소하지 않음)
+    const reason = prompt('정말로 이 매칭 요청을 취소하시겠습니까?\n취소 사유를 입력하세요. (선택)');
+    if (reason === null) {
       return;
     }
 
     try {
-      await matchingApi.cancelRequest(requestId);
+      await matchingApi.cancelRequest(requestId, reason.trim() || undefined);
       alert('매칭 요청이 취소되었습니다.');
       fetchMyRequests(); // 목록 새로고침
     } catch (error: any) {
       console.error('Failed to cancel request:', error);
+      if (isConflictError(error)) {
+        // 다른 곳에서 먼저 처리된 요청: 최신 상태로 목록 갱신
+        alert('이미 처리된 요청입니다. 목록을 새로고침합니다.');
+        fetchMyRequests();
+        return;
+      }
       alert(error.response?.data?.error || error.message || '요청 취소에 실패했습니다.');
     }
   };
 
-  // 상태별 색상
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'accepted': return 'bg-green-100 text-green-800';
-      case 'rejected': return 'bg-red-100 text-red-800';
-      case 'cancelled': return 'bg-gray-100 text-gray-800';
-      default: return 'bg-gray-100 text-gray-800';
+  // 멘토링 완료 처리
+  const completeRequest = async (requestId: number) => {
+    if (!confirm('멘토링을 완료 처리하시겠습니까?')) {
+      return;
     }
-  };
 
-  // 상태별 텍스트
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending': return '대기중';
-      case 'accepted': return '수락됨';
-      case 'rejected': return '거절됨';
-      case 'cancelled': return '취소됨';
-      default: return status;
+    try {
+      await matchingApi.completeRequest(requestId);
+      alert('멘토링이 완료 처리되었습니다.');
+      fetchMyRequests();
+    } catch (error) {
+      console.error('Failed to complete request:', error);
+      if (isConflictError(error)) {
+        alert('이미 처리된 요청입니다. 목록을 새로고침합니다.');
+        fetchMyRequests();
+        return;
+      }
+      alert(getErrorMessage(error, '완료 처리에 실패했습니다.'));
     }
   };
 
+  const toggleHistory = (requestId: number) => {
+    setExpandedRequestId(current => (current === requestId ? null : requestId));
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -141,12 +167,22 @@ export default function RequestsPage() {
                         {getStatusText(request.status)}
                       </span>
                     </div>
+
+                    {request.status === 'pending' && request.expiresAt && (
+                      <div className="mb-2">
+                        <ExpiryCountdown expiresAt={request.expiresAt} />
+                      </div>
+                    )}
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                       <div>
                         <p className="text-sm text-gray-500 mb-1">멘토 ID</p>
                         <p className="text-gray-900">{request.mentorId}</p>
                       </div>
+                      <div>
+                        <p className="text-sm text-gray-500 mb-1">요청 일시</p>
+                        <p className="text-gray-900">{request.createdAt ? formatDateTime(request.createdAt) : '정보 없음'}</p>
+                      </div>
                     </div>
 
                     {request.message && (
@@ -165,10 +201,17 @@ export default function RequestsPage() {
                         <p className="text-gray-900">{request.mentor_name}</p>
                       </div>
                     )}
+
+                    {request.statusReason && (
+                      <div className="mb-4">
+                        <p className="text-sm text-gray-500 mb-1">{getStatusText(request.status)} 사유</p>
+                        <p className="text-gray-900">{request.statusReason}</p>
+                      </div>
+                    )}
                   </div>
 
                   {/* 액션 버튼 */}
-                  <div className="ml-4">
+                  <div className="ml-4 flex flex-col items-end space-y-2">
                     {request.status === 'pending' && (
                       <button
                         onClick={() => cancelRequest(request.id)}
@@ -178,8 +221,37 @@ export default function RequestsPage() {
                         취소
                       </button>
                     )}
+                    {request.status === 'accepted' && (
+                      <button
+                        onClick={() => completeRequest(request.id)}
+                        data-request-id={request.id}
+                        className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                      >
+                        완료
+                      </button>
+                    )}
+                    {(request.status === 'accepted' || request.status === 'completed') && (
+                      <Link
+                        href={`/matches/${request.id}`}
+                        className="text-sm text-blue-600 hover:text-blue-800 underline"
+                      >
+                        대화하기
+                      </Link>
+                    )}
+                    <button
+                      onClick={() => toggleHistory(request.id)}
+                      className="text-sm text-gray-600 hover:text-gray-900 underline"
+                    >
+                      {expandedRequestId === request.id ? '이력 닫기' : '이력 보기'}
+                    </button>
                   </div>
                 </div>
+
+                {expandedRequestId === request.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <RequestTimeline requestId={request.id} status={request.status} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { Booking, SessionTime } from '@/types';
+import { bookingApi } from '@/lib/api';
+import {
+  addDays,
+  downloadFile,
+  formatDate,
+  formatTimeRange,
+  getBrowserTimeZone,
+  getDurationMinutes,
+  startOfWeek,
+  toDateKey
+} from '@/lib/schedule';
+import { getErrorCode, getErrorMessage } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import SlotPicker from '@/components/SlotPicker';
+
+export default function SchedulePage() {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  // 선택한 주의 예약 조회
+  // silent: 실시간 갱신 시에는 로딩 화면 없이 목록만 교체
+  const fetchBookings = useCallback(async ({ silent = false } = {}) => {
+    try {
+      if (!silent) setLoading(true);
+      setError('');
+
+      const data = await bookingApi.getBookings({
+        from: weekStart.toISOString(),
+        to: addDays(weekStart, 7).toISOString(),
+        includeCancelled: showCancelled
+      });
+      setBookings(data);
+
+    } catch (error) {
+      console.error('Failed to fetch bookings:', error);
+      setError(getErrorMessage(error, '일정을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart, showCancelled]);
+
+  useEffect(() => {
+    if (user) {
+      fetchBookings();
+    }
+  }, [user, fetchBookings]);
+
+  useRealtimeEvents((event) => {
+    if (user && (event.type === 'booking.updated' || event.type === 'ready')) {
+      fetchBookings({ silent: true });
+    }
+  });
+
+  const getPartnerName = (booking: Booking) =>
+    (user?.role === 'mentor' ? booking.menteeName : booking.mentorName) || '상대방';
+
+  const isChangeable = (booking: Booking) =>
+    booking.status === 'scheduled' && new Date(booking.startsAt) > new Date();
+
+  // 예약 취소
+  const cancelBooking = async (booking: Booking) => {
+    // 사유는 선택 입력 (prompt를 닫으면 취소하지 않음)
+    const reason = prompt(`${getPartnerName(booking)}님과의 세션을 취소하시겠습니까?\n취소 사유를 입력하세요. (선택)`);
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      await bookingApi.cancelBooking(booking.id, reason.trim() || undefined);
+      alert('세션이 취소되었습니다.');
+      fetchBookings();
+    } catch (error) {
+      console.error('Failed to cancel booking:', error);
+      alert(getErrorMessage(error, '세션 취소에 실패했습니다.'));
+      fetchBookings();
+    }
+  };
+
+  // 일정 변경 (선택한 새 시간으로)
+  const rescheduleBooking = async (slot: SessionTime) => {
+    if (!reschedulingBooking) return;
+
+    if (!confirm(`${formatDate(slot.startsAt)} ${formatTimeRange(slot.startsAt, slot.endsAt)}로 일정을 변경하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await bookingApi.rescheduleBooking(reschedulingBooking.id, slot);
+      alert('일정이 변경되었습니다.');
+      setReschedulingBooking(null);
+      fetchBookings();
+    } catch (error) {
+      console.error('Failed to reschedule booking:', error);
+      if (getErrorCode(error) === 'BOOKING_CONFLICT') {
+        alert('방금 다른 예약이 잡힌 시간입니다. 다른 시간을 선택해주세요.');
+        return;
+      }
+      alert(getErrorMessage(error, '일정 변경에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // iCalendar 파일 내려받기 (booking이 없으면 전체 일정)
+  const exportCalendar = async (booking?: Booking) => {
+    try {
+      const blob = await bookingApi.downloadCalendar(booking?.id);
+      downloadFile(blob, booking ? `tortee-session-${booking.id}.ics` : 'tortee-sessions.ics');
+    } catch (error) {
+      console.error('Failed to export calendar:', error);
+      alert(getErrorMessage(error, '캘린더 파일을 내려받지 못했습니다.'));
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">로그인이 필요합니다</h1>
+          <p className="text-gray-600">일정을 확인하려면 로그인하세요.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const todayKey = toDateKey(new Date());
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">멘토링 일정</h1>
+            <p className="text-gray-600">
+              예약된 세션을 확인하고 관리하세요. (시간대: {getBrowserTimeZone()})
+            </p>
+          </div>
+          <button
+            onClick={() => exportCalendar()}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm"
+          >
+            캘린더 내보내기 (.ics)
+          </button>
+        </div>
+
+        {/* 주 이동 */}
+        <div className="mb-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setWeekStart(current => addDays(current, -7))}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              이전 주
+            </button>
+            <button
+              onClick={() => setWeekStart(startOfWeek(new Date()))}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              이번 주
+            </button>
+            <button
+              onClick={() => setWeekStart(current => addDays(current, 7))}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              다음 주
+            </button>
+            <span className="ml-2 text-sm font-medium text-gray-700">
+              {formatDate(weekStart)} ~ {formatDate(addDays(weekStart, 6))}
+            </span>
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showCancelled}
+              onChange={(e) => setShowCancelled(e.target.checked)}
+              className="mr-2"
+            />
+            취소된 세션 표시
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+            {days.map(day => {
+              const dayKey = toDateKey(day);
+              const dayBookings = bookings.filter(booking => toDateKey(new Date(booking.startsAt)) === dayKey);
+
+              return (
+                <div
+                  key={dayKey}
+                  className={`bg-white rounded-lg border p-2 min-h-[8rem] ${dayKey === todayKey ? 'border-blue-500' : ''}`}
+                >
+                  <p className={`text-sm font-medium mb-2 ${dayKey === todayKey ? 'text-blue-600' : 'text-gray-700'}`}>
+                    {formatDate(day)}
+                  </p>
+
+                  <div className="space-y-2">
+                    {dayBookings.map(booking => (
+                      <div
+                        key={booking.id}
+                        className={`rounded-md p-2 text-xs ${
+                          booking.status === 'cancelled' ? 'bg-gray-100 text-gray-500 line-through' : 'bg-blue-50 text-blue-900'
+                        }`}
+                      >
+                        <p className="font-medium">{formatTimeRange(booking.startsAt, booking.endsAt)}</p>
+                        <p>{getPartnerName(booking)}</p>
+                        {booking.note && <p className="mt-1 text-gray-600 no-underline">{booking.note}</p>}
+                        {booking.status === 'cancelled' && booking.cancelReason && (
+                          <p className="mt-1">취소 사유: {booking.cancelReason}</p>
+                        )}
+
+                        <div className="mt-2 flex flex-wrap gap-x-2 gap-y-1 no-underline">
+                          <Link href={`/matches/${booking.requestId}`} className="underline hover:text-blue-700">
+                            대화방
+                          </Link>
+                          {booking.status === 'scheduled' && (
+                            <button onClick={() => exportCalendar(booking)} className="underline hover:text-blue-700">
+                              .ics
+                            </button>
+                          )}
+                          {isChangeable(booking) && (
+                            <>
+                              <button onClick={() => setReschedulingBooking(booking)} className="underline hover:text-blue-700">
+                                일정 변경
+                              </button>
+                              <button onClick={() => cancelBooking(booking)} className="underline text-red-600 hover:text-red-800">
+                                취소
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* 일정 변경 모달 */}
+        {reschedulingBooking && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[80vh] overflow-y-auto">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">일정 변경</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {getPartnerName(reschedulingBooking)}님과의 세션
+                ({formatDate(reschedulingBooking.startsAt)} {formatTimeRange(reschedulingBooking.startsAt, reschedulingBooking.endsAt)})을
+                옮길 시간을 선택하세요.
+              </p>
+              <SlotPicker
+                matchId={reschedulingBooking.requestId}
+                durationMinutes={getDurationMinutes(reschedulingBooking.startsAt, reschedulingBooking.endsAt)}
+                excludeBookingId={reschedulingBooking.id}
+                disabled={submitting}
+                onSelect={rescheduleBooking}
+              />
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={() => setReschedulingBooking(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  닫기
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+
+type VerifyStatus = 'idle' | 'verifying' | 'verified' | 'failed';
+
+function VerifyEmailContent() {
+  const { user, updateUser } = useAuth();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'idle');
+  const [error, setError] = useState('');
+  const [resendMessage, setResendMessage] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  // 토큰은 1회용이므로 개발 모드의 중복 effect 실행에도 한 번만 요청
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || requestedRef.current) {
+      return;
+    }
+    requestedRef.current = true;
+
+    const verify = async () => {
+      try {
+        await authApi.verifyEmail(token);
+        setStatus('verified');
+      } catch (error) {
+        setError(getErrorMessage(error, '이메일 인증에 실패했습니다.'));
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // 로그인 상태라면 인증 결과를 사용자 정보에 반영
+  useEffect(() => {
+    if (status === 'verified' && user && !user.emailVerified) {
+      updateUser({ ...user, emailVerified: true });
+    }
+  }, [status, user, updateUser]);
+
+  const resendVerification = async () => {
+    setIsResending(true);
+    setResendMessage('');
+    setError('');
+
+    try {
+      await authApi.requestEmailVerification();
+      setResendMessage('인증 메일을 다시 보냈습니다. 메일함을 확인하세요.');
+    } catch (error) {
+      setError(getErrorMessage(error, '인증 메일 발송에 실패했습니다.'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const canResend = !!user && !user.emailVerified && status !== 'verified';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center py-12 px-4">
+      <div className="max-w-md w-full space-y-6 bg-white rounded-lg shadow-md p-8 text-center">
+        <h2 id="verify-email-title" className="text-2xl font-extrabold text-gray-900">
+          이메일 인증
+        </h2>
+
+        {status === 'verifying' && (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <p id="verify-email-success" className="text-green-700">
+            이메일 인증이 완료되었습니다.
+          </p>
+        )}
+
+        {status === 'idle' && (
+          <p className="text-gray-600">
+            {user?.emailVerified
+              ? '이미 인증된 이메일입니다.'
+              : '가입 시 받은 메일의 링크를 눌러 이메일을 인증하세요.'}
+          </p>
+        )}
+
+        {error && (
+          <p id="verify-email-error" className="text-red-600 text-sm">
+            {error}
+          </p>
+        )}
+
+        {resendMessage && (
+          <p className="text-green-700 text-sm">{resendMessage}</p>
+        )}
+
+        {canResend && (
+          <button
+            onClick={resendVerification}
+            disabled={isResending}
+            className="w-full py-2 px-4 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isResending ? '전송 중...' : '인증 메일 다시 보내기'}
+          </button>
+        )}
+
+        <Link href={user ? '/profile' : '/login'} className="block text-sm font-medium text-blue-600 hover:text-blue-500">
+          {user ? '프로필로 이동' : '로그인하기'}
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { sessionApi } from '@/lib/api';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+import { Session } from '@/types';
+
+// 프로필 페이지의 로그인 세션 관리 섹션
+export default function ActiveSessions() {
+  const { clearSession } = useAuth();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const sessionsData = await sessionApi.getSessions();
+      setSessions(sessionsData);
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+      setError(getErrorMessage(error, '세션 목록을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  // 현재 세션이 폐기되면 로컬 상태를 정리하고 로그인 페이지로 이동
+  const endCurrentSession = () => {
+    clearSession();
+    router.push('/login');
+  };
+
+  const revokeSession = async (session: Session) => {
+    const message = session.current
+      ? '현재 기기에서 로그아웃됩니다. 계속하시겠습니까?'
+      : `${session.device} 세션을 로그아웃하시겠습니까?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      await sessionApi.revokeSession(session.id);
+      if (session.current) {
+        endCurrentSession();
+        return;
+      }
+      fetchSessions();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      alert(getErrorMessage(error, '세션 로그아웃에 실패했습니다.'));
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    if (!confirm('현재 기기를 제외한 모든 기기에서 로그아웃하시겠습니까?')) {
+      return;
+    }
+
+    try {
+      await sessionApi.revokeAllSessions(true);
+      fetchSessions();
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      alert(getErrorMessage(error, '세션 로그아웃에 실패했습니다.'));
+    }
+  };
+
+  const revokeAllSessions = async () => {
+    if (!confirm('현재 기기를 포함한 모든 기기에서 로그아웃하시겠습니까?')) {
+      return;
+    }
+
+    try {
+      await sessionApi.revokeAllSessions();
+      endCurrentSession();
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      alert(getErrorMessage(error, '세션 로그아웃에 실패했습니다.'));
+    }
+  };
+
+  return (
+    <div id="active-sessions" className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">로그인된 기기</h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={revokeOtherSessions}
+            disabled={loading || sessions.length <= 1}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded border hover:bg-gray-200 disabled:opacity-50"
+          >
+            다른 기기 로그아웃
+          </button>
+          <button
+            id="logout-all-devices"
+            onClick={revokeAllSessions}
+            disabled={loading}
+            className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded border hover:bg-red-200 disabled:opacity-50"
+          >
+            모든 기기에서 로그아웃
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-gray-600 text-sm">활성 세션이 없습니다.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-gray-900 font-medium">
+                  {session.device}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">
+                      현재 기기
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  로그인 {formatDateTime(session.issuedAt)}
+                  {' · '}
+                  마지막 활동 {formatDateTime(session.lastSeenAt)}
+                  {session.ipAddress && ` · ${session.ipAddress}`}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeSession(session)}
+                data-session-id={session.id}
+                className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+              >
+                로그아웃
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
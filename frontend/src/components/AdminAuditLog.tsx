@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AuditLogEntry } from '@/types';
+import { adminApi } from '@/lib/api';
+import { getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+
+interface AdminAuditLogProps {
+  // 값이 바뀌면 처음부터 다시 조회
+  refreshKey: number;
+}
+
+const PAGE_SIZE = 30;
+
+// 감사 기록을 사람이 읽을 수 있는 문장으로 변환
+const describeEntry = (entry: AuditLogEntry): string => {
+  switch (entry.action) {
+    case 'user.suspended':
+      return `사용자 #${entry.targetId} 계정을 정지했습니다.`;
+    case 'user.unsuspended':
+      return `사용자 #${entry.targetId} 계정의 정지를 해제했습니다.`;
+    case 'matching_request.resolved':
+      return `매칭 요청 #${entry.targetId}을(를) ${getStatusText(entry.details?.from || '')}에서 ${getStatusText(entry.details?.to || '')}(으)로 변경했습니다.`;
+    case 'report.resolved':
+      return `신고 #${entry.targetId}을(를) 조치 완료 처리했습니다.`;
+    case 'report.dismissed':
+      return `신고 #${entry.targetId}을(를) 기각했습니다.`;
+    default:
+      return `${entry.action} (#${entry.targetId})`;
+  }
+};
+
+// 관리자 작업 감사 로그 (최신순, 더 보기로 이전 기록 조회)
+export default function AdminAuditLog({ refreshKey }: AdminAuditLogProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // before: 이 ID보다 오래된 기록을 이어서 조회
+  const fetchEntries = async (before?: number) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const result = await adminApi.getAuditLog({ before, limit: PAGE_SIZE });
+      setEntries(current => (before ? [...current, ...result] : result));
+      setHasMore(result.length === PAGE_SIZE);
+
+    } catch (error) {
+      console.error('Failed to fetch audit log:', error);
+      setError(getErrorMessage(error, '감사 로그를 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [refreshKey]);
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error && (
+        <p className="text-center text-gray-500 py-8">아직 기록된 관리자 작업이 없습니다.</p>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {entries.map(entry => (
+          <li key={entry.id} className="py-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{entry.adminName || '삭제된 관리자'}</span>님이 {describeEntry(entry)}
+                </p>
+                {entry.details?.reason && (
+                  <p className="text-sm text-gray-600 mt-1">사유: {entry.details.reason}</p>
+                )}
+                {entry.details?.note && (
+                  <p className="text-sm text-gray-600 mt-1">메모: {entry.details.note}</p>
+                )}
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{formatDateTime(entry.createdAt)}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : hasMore && (
+        <div className="text-center mt-4">
+          <button
+            onClick={() => fetchEntries(entries[entries.length - 1].id)}
+            className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            더 보기
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
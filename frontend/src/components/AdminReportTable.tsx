@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminReport, ReportStatus } from '@/types';
+import { adminApi } from '@/lib/api';
+import { REPORT_CATEGORY_LABELS, REPORT_STATUS_LABELS } from '@/lib/reports';
+import { formatDateTime, getErrorMessage, isConflictError } from '@/lib/utils';
+import Pagination from '@/components/Pagination';
+
+interface AdminReportTableProps {
+  // 신고 처리나 계정 정지 후 현황과 감사 로그를 갱신하도록 알림
+  onChanged: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const REPORT_STATUS_COLORS: Record<ReportStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  dismissed: 'bg-gray-100 text-gray-800',
+};
+
+// 관리자 콘솔의 신고 검토 대기열 (기본: 검토 대기 중인 신고만)
+export default function AdminReportTable({ onChanged }: AdminReportTableProps) {
+  const [reports, setReports] = useState<AdminReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<ReportStatus | ''>('open');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const result = await adminApi.getReports({ status: status || undefined, page, limit: PAGE_SIZE });
+      setReports(result.reports);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+
+    } catch (error) {
+      console.error('Failed to fetch reports:', error);
+      setError(getErrorMessage(error, '신고 목록을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  // 신고 처리 (메모는 선택, 감사 로그에만 남음)
+  const resolveReport = async (report: AdminReport, to: Exclude<ReportStatus, 'open'>) => {
+    const note = prompt(`신고 #${report.id}을(를) ${REPORT_STATUS_LABELS[to]} 처리하시겠습니까?\n처리 메모를 입력하세요. (선택)`);
+    if (note === null) {
+      return;
+    }
+
+    try {
+      await adminApi.resolveReport(report.id, to, note.trim() || undefined);
+      fetchReports();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to resolve report:', error);
+      if (isConflictError(error)) {
+        // 다른 관리자가 먼저 처리한 신고
+        alert('이미 처리된 신고입니다. 목록을 새로고침합니다.');
+      } else {
+        alert(getErrorMessage(error, '신고 처리에 실패했습니다.'));
+      }
+      fetchReports();
+    }
+  };
+
+  // 신고된 사용자 계정 정지 (신고 처리와는 별도로 기록됨)
+  const suspendReportedUser = async (report: AdminReport) => {
+    const name = report.reportedUserName || `#${report.reportedUserId}`;
+    const reason = prompt(`${name} 계정을 정지하시겠습니까?\n정지 사유를 입력하세요.`, `신고 #${report.id}: ${REPORT_CATEGORY_LABELS[report.category]}`);
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      alert('정지 사유를 입력해주세요.');
+      return;
+    }
+
+    try {
+      await adminApi.suspendUser(report.reportedUserId, reason.trim());
+      fetchReports();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to suspend user:', error);
+      alert(getErrorMessage(error, '계정 정지에 실패했습니다.'));
+      fetchReports();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as ReportStatus | '');
+            setPage(1);
+          }}
+          aria-label="신고 상태"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">모든 상태</option>
+          {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map(value => (
+            <option key={value} value={value}>{REPORT_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {status === 'open' ? '검토 대기 중인 신고가 없습니다.' : '조건에 맞는 신고가 없습니다.'}
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-2">총 {total}건</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">신고자 → 대상</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">사유</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">접수일</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">상태</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {reports.map(report => (
+                  <tr key={report.id}>
+                    <td className="px-4 py-3 text-gray-500">#{report.id}</td>
+                    <td className="px-4 py-3 text-gray-900">
+                      {report.reporterName || `#${report.reporterId}`} → {report.reportedUserName || `#${report.reportedUserId}`}
+                      {report.reportedUserSuspendedAt && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">정지됨</span>
+                      )}
+                      {report.requestId && (
+                        <p className="text-xs text-gray-500 mt-1">매칭 요청 #{report.requestId}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 max-w-xs">
+                      <p className="font-medium">{REPORT_CATEGORY_LABELS[report.category]}</p>
+                      {report.description && (
+                        <p className="text-xs text-gray-500 mt-1 truncate" title={report.description}>
+                          {report.description}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDateTime(report.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs rounded-full ${REPORT_STATUS_COLORS[report.status]}`}>
+                        {REPORT_STATUS_LABELS[report.status]}
+                      </span>
+                      {report.resolvedAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {report.resolvedByName || '관리자'} · {formatDateTime(report.resolvedAt)}
+                        </p>
+                      )}
+                      {report.resolutionNote && (
+                        <p className="text-xs text-gray-500 mt-1">메모: {report.resolutionNote}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      {report.status === 'open' && (
+                        <>
+                          {!report.reportedUserSuspendedAt && (
+                            <button
+                              onClick={() => suspendReportedUser(report)}
+                              className="px-3 py-1 text-sm text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                            >
+                              계정 정지
+                            </button>
+                          )}
+                          <button
+                            onClick={() => resolveReport(report, 'resolved')}
+                            className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            조치 완료
+                          </button>
+                          <button
+                            onClick={() => resolveReport(report, 'dismissed')}
+                            className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            기각
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {!loading && (
+        <Pagination page={page} totalPages={totalPages} onChange={setPage} />
+      )}
+    </div>
+  );
+}
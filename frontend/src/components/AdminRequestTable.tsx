@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminMatchingRequest, AdminResolveStatus, MatchingStatus } from '@/types';
+import { adminApi } from '@/lib/api';
+import { MATCHING_STATUS_LABELS, getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorMessage, isConflictError } from '@/lib/utils';
+import Pagination from '@/components/Pagination';
+
+interface AdminRequestTableProps {
+  // 강제 처리 후 현황과 감사 로그를 갱신하도록 알림
+  onChanged: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+// 현재 상태에서 관리자가 할 수 있는 처리 (서버 상태 전이 규칙과 동일)
+const RESOLVE_ACTIONS: Partial<Record<MatchingStatus, { status: AdminResolveStatus; label: string }[]>> = {
+  pending: [
+    { status: 'rejected', label: '거절' },
+    { status: 'cancelled', label: '취소' },
+  ],
+  accepted: [{ status: 'completed', label: '완료' }],
+};
+
+// 관리자 콘솔의 전체 매칭 요청 목록 (상태 필터 + 강제 처리)
+export default function AdminRequestTable({ onChanged }: AdminRequestTableProps) {
+  const [requests, setRequests] = useState<AdminMatchingRequest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [status, setStatus] = useState<MatchingStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const result = await adminApi.getRequests({ status: status || undefined, page, limit: PAGE_SIZE });
+      setRequests(result.requests);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+
+    } catch (error) {
+      console.error('Failed to fetch matching requests:', error);
+      setError(getErrorMessage(error, '매칭 요청 목록을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  // 강제 처리 (사유 필수, 두 당사자에게 알림이 감)
+  const resolveRequest = async (request: AdminMatchingRequest, to: AdminResolveStatus) => {
+    const reason = prompt(`요청 #${request.id}을(를) ${getStatusText(to)} 상태로 변경하시겠습니까?\n멘토와 멘티에게 전달할 사유를 입력하세요.`);
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      alert('처리 사유를 입력해주세요.');
+      return;
+    }
+
+    try {
+      await adminApi.resolveRequest(request.id, to, reason.trim());
+      fetchRequests();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to resolve matching request:', error);
+      if (isConflictError(error)) {
+        // 당사자가 먼저 처리한 요청: 최신 상태로 목록 갱신
+        alert('이미 상태가 바뀐 요청입니다. 목록을 새로고침합니다.');
+      } else {
+        alert(getErrorMessage(error, '요청 처리에 실패했습니다.'));
+      }
+      fetchRequests();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as MatchingStatus | '');
+            setPage(1);
+          }}
+          aria-label="요청 상태"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">모든 상태</option>
+          {(Object.keys(MATCHING_STATUS_LABELS) as MatchingStatus[]).map(value => (
+            <option key={value} value={value}>{MATCHING_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : requests.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">조건에 맞는 매칭 요청이 없습니다.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-2">총 {total}건</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">멘티 → 멘토</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">메시지</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">요청일</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">상태</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {requests.map(request => (
+                  <tr key={request.id}>
+                    <td className="px-4 py-3 text-gray-500">#{request.id}</td>
+                    <td className="px-4 py-3 text-gray-900">
+                      {request.menteeName || `#${request.menteeId}`} → {request.mentorName || `#${request.mentorId}`}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 max-w-xs truncate" title={request.message}>
+                      {request.message}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatDateTime(request.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(request.status)}`}>
+                        {getStatusText(request.status)}
+                      </span>
+                      {request.statusReason && (
+                        <p className="text-xs text-gray-500 mt-1">사유: {request.statusReason}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      {(RESOLVE_ACTIONS[request.status] || []).map(action => (
+                        <button
+                          key={action.status}
+                          onClick={() => resolveRequest(request, action.status)}
+                          className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {!loading && (
+        <Pagination page={page} totalPages={totalPages} onChange={setPage} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { AdminUser, AdminUserSearchParams, UserRole } from '@/types';
+import { adminApi } from '@/lib/api';
+import { USER_ROLE_LABELS } from '@/lib/roles';
+import { formatDateTime, getErrorMessage, isConflictError } from '@/lib/utils';
+import Pagination from '@/components/Pagination';
+
+interface AdminUserTableProps {
+  // 정지/해제 후 현황과 감사 로그를 갱신하도록 알림
+  onChanged: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+// 관리자 콘솔의 사용자 목록 (검색/필터 + 계정 정지/해제)
+export default function AdminUserTable({ onChanged }: AdminUserTableProps) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<AdminUserSearchParams>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const result = await adminApi.getUsers({ ...filters, page, limit: PAGE_SIZE });
+      setUsers(result.users);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      setError(getErrorMessage(error, '사용자 목록을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const updateFilters = (changes: AdminUserSearchParams) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim() || undefined });
+  };
+
+  // 계정 정지 (사유 필수, prompt를 닫으면 정지하지 않음)
+  const suspendUser = async (target: AdminUser) => {
+    const reason = prompt(`${target.name || target.email} 계정을 정지하시겠습니까?\n정지 사유를 입력하세요. (감사 로그에 기록됩니다)`);
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      alert('정지 사유를 입력해주세요.');
+      return;
+    }
+
+    try {
+      await adminApi.suspendUser(target.id, reason.trim());
+      fetchUsers();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to suspend user:', error);
+      alert(isConflictError(error) ? '이미 정지된 계정입니다.' : getErrorMessage(error, '계정 정지에 실패했습니다.'));
+      fetchUsers();
+    }
+  };
+
+  const unsuspendUser = async (target: AdminUser) => {
+    if (!confirm(`${target.name || target.email} 계정의 정지를 해제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await adminApi.unsuspendUser(target.id);
+      fetchUsers();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to unsuspend user:', error);
+      alert(isConflictError(error) ? '정지되지 않은 계정입니다.' : getErrorMessage(error, '정지 해제에 실패했습니다.'));
+      fetchUsers();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            maxLength={100}
+            placeholder="이름 또는 이메일로 검색"
+            aria-label="사용자 검색"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            검색
+          </button>
+        </form>
+        <select
+          value={filters.role || ''}
+          onChange={(e) => updateFilters({ role: (e.target.value || undefined) as UserRole | undefined })}
+          aria-label="역할"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">모든 역할</option>
+          {(Object.keys(USER_ROLE_LABELS) as UserRole[]).map(role => (
+            <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status || ''}
+          onChange={(e) => updateFilters({ status: (e.target.value || undefined) as AdminUserSearchParams['status'] })}
+          aria-label="계정 상태"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">모든 상태</option>
+          <option value="active">정상</option>
+          <option value="suspended">정지됨</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">조건에 맞는 사용자가 없습니다.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-2">총 {total}명</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">이름 / 이메일</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">역할</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">가입일</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-600">상태</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map(target => (
+                  <tr key={target.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{target.name || '(이름 없음)'}</p>
+                      <p className="text-gray-500">{target.email}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{USER_ROLE_LABELS[target.role]}</td>
+                    <td className="px-4 py-3 text-gray-700">{formatDateTime(target.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      {target.suspendedAt ? (
+                        <div>
+                          <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">정지됨</span>
+                          {target.suspensionReason && (
+                            <p className="text-xs text-gray-500 mt-1">사유: {target.suspensionReason}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">정상</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {target.role !== 'admin' && (target.suspendedAt ? (
+                        <button
+                          onClick={() => unsuspendUser(target)}
+                          className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          정지 해제
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => suspendUser(target)}
+                          className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+                        >
+                          정지
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {!loading && (
+        <Pagination page={page} totalPages={totalPages} onChange={setPage} />
+      )}
+    </div>
+  );
+}
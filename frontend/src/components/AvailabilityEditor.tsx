@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { availabilityApi } from '@/lib/api';
+import { WEEKDAY_LABELS, getBrowserTimeZone, listTimeZones } from '@/lib/schedule';
+import { getErrorMessage } from '@/lib/utils';
+import { AvailabilitySlot } from '@/types';
+
+interface AvailabilityEditorProps {
+  mentorId: number;
+}
+
+const DEFAULT_SLOT: AvailabilitySlot = { weekday: 1, startTime: '09:00', endTime: '12:00' };
+
+// 프로필 페이지의 멘토 주간 가능 시간 설정 섹션
+export default function AvailabilityEditor({ mentorId }: AvailabilityEditorProps) {
+  const [timezone, setTimezone] = useState(getBrowserTimeZone());
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [timeZones] = useState(listTimeZones);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const availability = await availabilityApi.getAvailability(mentorId);
+      // 아직 가능 시간을 설정하지 않았다면 브라우저 시간대를 기본값으로 제안
+      setTimezone(availability.slots.length > 0 ? availability.timezone : getBrowserTimeZone());
+      setSlots(availability.slots);
+    } catch (error) {
+      console.error('Failed to fetch availability:', error);
+      setError(getErrorMessage(error, '가능 시간을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [mentorId]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const updateSlot = (index: number, changes: Partial<AvailabilitySlot>) => {
+    setSlots(current => current.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  const addSlot = () => {
+    setSlots(current => [...current, { ...DEFAULT_SLOT }]);
+  };
+
+  const removeSlot = (index: number) => {
+    setSlots(current => current.filter((_, i) => i !== index));
+  };
+
+  const saveAvailability = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      const saved = await availabilityApi.updateMyAvailability({
+        timezone,
+        slots: slots.map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime }))
+      });
+      setTimezone(saved.timezone);
+      setSlots(saved.slots);
+      alert('가능 시간이 저장되었습니다.');
+    } catch (error) {
+      console.error('Failed to save availability:', error);
+      setError(getErrorMessage(error, '가능 시간 저장에 실패했습니다.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div id="availability" className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">멘토링 가능 시간</h2>
+        <button
+          onClick={addSlot}
+          disabled={loading}
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded border hover:bg-gray-200 disabled:opacity-50"
+        >
+          시간 추가
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        매주 반복되는 가능 시간을 설정하면 매칭된 멘티가 이 시간 안에서 세션을 예약할 수 있습니다.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="mb-4">
+            <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+              시간대
+            </label>
+            <select
+              id="timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {!timeZones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+
+          {slots.length === 0 ? (
+            <p className="text-gray-600 text-sm mb-4">설정된 가능 시간이 없습니다.</p>
+          ) : (
+            <ul className="space-y-2 mb-4">
+              {slots.map((slot, index) => (
+                <li key={index} className="flex items-center space-x-2">
+                  <select
+                    value={slot.weekday}
+                    onChange={(e) => updateSlot(index, { weekday: Number(e.target.value) })}
+                    aria-label="요일"
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <option key={weekday} value={weekday}>{label}요일</option>
+                    ))}
+                  </select>
+                  <input
+                    type="time"
+                    value={slot.startTime}
+                    onChange={(e) => updateSlot(index, { startTime: e.target.value })}
+                    aria-label="시작 시각"
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <span className="text-gray-500">~</span>
+                  <input
+                    type="time"
+                    value={slot.endTime}
+                    onChange={(e) => updateSlot(index, { endTime: e.target.value })}
+                    aria-label="종료 시각"
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  <button
+                    onClick={() => removeSlot(index)}
+                    className="px-2 py-1 text-sm text-red-600 hover:text-red-800"
+                  >
+                    삭제
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={saveAvailability}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? '저장 중...' : '가능 시간 저장'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { blockApi } from '@/lib/api';
+import { USER_ROLE_LABELS } from '@/lib/roles';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+import { BlockedUser } from '@/types';
+
+// 프로필 페이지의 차단한 사용자 관리 섹션
+export default function BlockedUsers() {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchBlockedUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setBlockedUsers(await blockApi.getBlocks());
+    } catch (error) {
+      console.error('Failed to fetch blocked users:', error);
+      setError(getErrorMessage(error, '차단 목록을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBlockedUsers();
+  }, [fetchBlockedUsers]);
+
+  const unblock = async (blockedUser: BlockedUser) => {
+    if (!confirm(`${blockedUser.name || '이 사용자'}님의 차단을 해제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      await blockApi.unblock(blockedUser.userId);
+      fetchBlockedUsers();
+    } catch (error) {
+      console.error('Failed to unblock user:', error);
+      alert(getErrorMessage(error, '차단 해제에 실패했습니다.'));
+      fetchBlockedUsers();
+    }
+  };
+
+  return (
+    <div id="blocked-users" className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">차단한 사용자</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : blockedUsers.length === 0 ? (
+        <p className="text-gray-600 text-sm">차단한 사용자가 없습니다.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {blockedUsers.map(blockedUser => (
+            <li key={blockedUser.userId} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-gray-900 font-medium">
+                  {blockedUser.name || '이름 없음'}
+                  <span className="ml-2 text-xs text-gray-500">{USER_ROLE_LABELS[blockedUser.role]}</span>
+                </p>
+                <p className="text-xs text-gray-500">차단 {formatDateTime(blockedUser.createdAt)}</p>
+              </div>
+              <button
+                onClick={() => unblock(blockedUser)}
+                className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+              >
+                차단 해제
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDate, formatTime, formatTimeRange } from '@/lib/schedule';
+import { DashboardMatch, DashboardSession } from '@/types';
+
+// 멘토/멘티 대시보드 공용 카드
+
+interface DashboardCardProps {
+  title: string;
+  // 제목 옆 '전체 보기' 링크
+  href?: string;
+  children: React.ReactNode;
+}
+
+export function DashboardCard({ title, href, children }: DashboardCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+        {href && (
+          <Link href={href} className="text-sm text-blue-600 hover:text-blue-800">
+            전체 보기
+          </Link>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface UpcomingSessionsProps {
+  sessions: DashboardSession[];
+}
+
+// 다가오는 세션 (시작 시각 순)
+export function UpcomingSessions({ sessions }: UpcomingSessionsProps) {
+  return (
+    <DashboardCard title="다가오는 세션" href="/schedule">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">예정된 세션이 없습니다.</p>
+      ) : (
+        <ul className="divide-y">
+          {sessions.map(session => (
+            <li key={session.id} className="py-2 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{session.partnerName || '알 수 없음'}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(session.startsAt)} {formatTimeRange(session.startsAt, session.endsAt)}
+                </p>
+              </div>
+              <Link href={`/matches/${session.requestId}`} className="text-sm text-blue-600 hover:text-blue-800">
+                매칭 보기
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </DashboardCard>
+  );
+}
+
+interface ActiveMatchesProps {
+  title: string;
+  matches: DashboardMatch[];
+  emptyText: string;
+}
+
+// 진행 중인 매칭 (읽지 않은 메시지 수, 다음 세션)
+export function ActiveMatches({ title, matches, emptyText }: ActiveMatchesProps) {
+  return (
+    <DashboardCard title={title}>
+      {matches.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <ul className="divide-y">
+          {matches.map(match => (
+            <li key={match.requestId} className="py-2">
+              <Link href={`/matches/${match.requestId}`} className="flex items-center justify-between group">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 group-hover:underline">
+                    {match.partnerName || '알 수 없음'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {match.nextSessionAt
+                      ? `다음 세션 ${formatDate(match.nextSessionAt)} ${formatTime(match.nextSessionAt)}`
+                      : '예약된 세션 없음'}
+                  </p>
+                </div>
+                {match.unreadMessages > 0 && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    새 메시지 {match.unreadMessages}
+                  </span>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </DashboardCard>
+  );
+}
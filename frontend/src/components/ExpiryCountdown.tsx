@@ -0,0 +1,48 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDateTime, parseServerDate } from '@/lib/utils';
+
+interface ExpiryCountdownProps {
+  expiresAt: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// 남은 시간을 "n일 n시간", "n시간 n분", "n분" 형식으로 표시
+const formatRemaining = (remainingMs: number): string => {
+  const days = Math.floor(remainingMs / DAY_MS);
+  const hours = Math.floor((remainingMs % DAY_MS) / HOUR_MS);
+  const minutes = Math.max(Math.ceil((remainingMs % HOUR_MS) / MINUTE_MS), 1);
+
+  if (days > 0) return `${days}일 ${hours}시간`;
+  if (hours > 0) return `${hours}시간 ${minutes}분`;
+  return `${minutes}분`;
+};
+
+// 대기 중인 매칭 요청의 자동 만료까지 남은 시간 (1분마다 갱신)
+export default function ExpiryCountdown({ expiresAt }: ExpiryCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingMs = parseServerDate(expiresAt).getTime() - now;
+  // 만료 하루 전부터 강조 표시
+  const urgent = remainingMs < DAY_MS;
+
+  return (
+    <p
+      className={`request-expiry text-sm ${urgent ? 'text-red-600' : 'text-gray-500'}`}
+      title={`${formatDateTime(expiresAt)} 만료`}
+    >
+      {remainingMs > 0
+        ? `${formatRemaining(remainingMs)} 후 자동 만료`
+        : '곧 만료 처리됩니다'}
+    </p>
+  );
+}
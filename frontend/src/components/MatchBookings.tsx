@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { bookingApi } from '@/lib/api';
+import { formatDate, formatTimeRange } from '@/lib/schedule';
+import { getErrorCode, getErrorMessage } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { Booking, Match, SessionTime } from '@/types';
+import SlotPicker from './SlotPicker';
+
+interface MatchBookingsProps {
+  match: Match;
+  canBook: boolean;
+}
+
+const DURATION_OPTIONS = [30, 60, 90];
+
+// 대화방 상단의 세션 예약 섹션 (다가오는 예약 + 멘티의 새 예약)
+export default function MatchBookings({ match, canBook }: MatchBookingsProps) {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [showPicker, setShowPicker] = useState(false);
+  const [duration, setDuration] = useState(60);
+  const [submitting, setSubmitting] = useState(false);
+  // 예약 후 선택기를 다시 불러오도록 key로 사용
+  const [pickerVersion, setPickerVersion] = useState(0);
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      const data = await bookingApi.getMatchBookings(match.id);
+      setBookings(data);
+    } catch (error) {
+      console.error('Failed to fetch bookings:', error);
+    }
+  }, [match.id]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  useRealtimeEvents((event) => {
+    if ((event.type === 'booking.updated' && event.data.requestId === match.id) || event.type === 'ready') {
+      fetchBookings();
+      setPickerVersion(version => version + 1);
+    }
+  });
+
+  const createBooking = async (slot: SessionTime) => {
+    const note = prompt(
+      `${formatDate(slot.startsAt)} ${formatTimeRange(slot.startsAt, slot.endsAt)}에 세션을 예약하시겠습니까?\n멘토에게 전달할 메모를 입력하세요. (선택)`
+    );
+    if (note === null) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await bookingApi.createBooking(match.id, { ...slot, note: note.trim() || undefined });
+      alert('세션이 예약되었습니다.');
+      setShowPicker(false);
+      fetchBookings();
+    } catch (error) {
+      console.error('Failed to create booking:', error);
+      if (getErrorCode(error) === 'BOOKING_CONFLICT') {
+        alert('방금 다른 예약이 잡힌 시간입니다. 다른 시간을 선택해주세요.');
+        setPickerVersion(version => version + 1);
+        return;
+      }
+      alert(getErrorMessage(error, '세션 예약에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const now = new Date();
+  const upcoming = bookings.filter(item => item.status === 'scheduled' && new Date(item.endsAt) > now);
+
+  return (
+    <div className="px-6 py-3 border-b bg-gray-50">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-700">
+          {upcoming.length > 0
+            ? `다음 세션: ${formatDate(upcoming[0].startsAt)} ${formatTimeRange(upcoming[0].startsAt, upcoming[0].endsAt)}`
+            : '예정된 세션이 없습니다.'}
+          {upcoming.length > 1 && <span className="ml-1 text-gray-500">외 {upcoming.length - 1}건</span>}
+        </p>
+        <div className="flex items-center space-x-3">
+          <Link href="/schedule" className="text-sm text-gray-600 hover:text-gray-900 underline">
+            일정 관리
+          </Link>
+          {canBook && (
+            <button
+              onClick={() => setShowPicker(current => !current)}
+              className="text-sm text-blue-600 hover:text-blue-800 underline"
+            >
+              {showPicker ? '예약 닫기' : '세션 예약'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {canBook && showPicker && (
+        <div className="mt-3 max-h-64 overflow-y-auto">
+          <div className="flex items-center space-x-2 mb-3">
+            <label htmlFor="duration" className="text-sm text-gray-700">세션 길이</label>
+            <select
+              id="duration"
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              {DURATION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes}분</option>
+              ))}
+            </select>
+          </div>
+          <SlotPicker
+            key={pickerVersion}
+            matchId={match.id}
+            durationMinutes={duration}
+            disabled={submitting}
+            onSelect={createBooking}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { reviewApi } from '@/lib/api';
+import { formatDateTime, getErrorCode, getErrorMessage } from '@/lib/utils';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { Match, Review } from '@/types';
+import StarRating from './StarRating';
+
+interface MatchReviewProps {
+  match: Match;
+  role: 'mentor' | 'mentee';
+}
+
+const REVIEW_MAX_LENGTH = 2000;
+
+// 대화방 하단의 리뷰 섹션 (멘티는 리뷰 작성, 멘토는 답글 작성)
+export default function MatchReview({ match, role }: MatchReviewProps) {
+  const [review, setReview] = useState<Review | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rating, setRating] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [editingResponse, setEditingResponse] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchReview = useCallback(async () => {
+    try {
+      const data = await reviewApi.getMatchReview(match.id);
+      setReview(data);
+    } catch (error) {
+      console.error('Failed to fetch review:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [match.id]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  useRealtimeEvents((event) => {
+    if (
+      (event.type === 'notification' && event.data.type.startsWith('review_') && event.data.requestId === match.id) ||
+      event.type === 'ready'
+    ) {
+      fetchReview();
+    }
+  });
+
+  // 멘티: 리뷰 작성
+  const submitReview = async (e: FormEvent) => {
+    e.preventDefault();
+    if (rating < 1 || !draft.trim()) {
+      alert('평점과 리뷰 내용을 입력해주세요.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const created = await reviewApi.createReview(match.id, { rating, body: draft.trim() });
+      setReview(created);
+      setDraft('');
+      alert('리뷰가 등록되었습니다.');
+    } catch (error) {
+      console.error('Failed to create review:', error);
+      if (getErrorCode(error) === 'REVIEW_EXISTS') {
+        alert('이미 이 멘토링에 대한 리뷰를 작성했습니다.');
+        fetchReview();
+        return;
+      }
+      alert(getErrorMessage(error, '리뷰 등록에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // 멘토: 답글 작성/수정
+  const submitResponse = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!review || !draft.trim()) return;
+
+    try {
+      setSubmitting(true);
+      const updated = await reviewApi.respondToReview(review.id, draft.trim());
+      setReview(updated);
+      setDraft('');
+      setEditingResponse(false);
+    } catch (error) {
+      console.error('Failed to respond to review:', error);
+      alert(getErrorMessage(error, '답글 등록에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startEditingResponse = () => {
+    setDraft(review?.mentorResponse || '');
+    setEditingResponse(true);
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  // 아직 리뷰가 없으면 멘티에게만 작성 폼을 보여줌
+  if (!review) {
+    if (role !== 'mentee') {
+      return (
+        <div className="mt-6 bg-white rounded-lg shadow-sm border px-6 py-4 text-sm text-gray-500">
+          아직 멘티가 리뷰를 남기지 않았습니다.
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={submitReview} className="mt-6 bg-white rounded-lg shadow-sm border px-6 py-4">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">멘토링 리뷰</h2>
+        <p className="text-sm text-gray-500 mb-3">
+          {match.mentorName || '멘토'}님과의 멘토링은 어떠셨나요? 리뷰는 멘토 프로필에 공개되며 매칭당 한 번만 작성할 수 있습니다.
+        </p>
+        <StarRating rating={rating} onChange={setRating} size="lg" />
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={REVIEW_MAX_LENGTH}
+          rows={3}
+          placeholder="멘토링 경험을 들려주세요."
+          className="mt-3 w-full resize-none border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="mt-3 flex justify-end">
+          <button
+            type="submit"
+            disabled={submitting || rating < 1 || !draft.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? '등록 중...' : '리뷰 등록'}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-sm border px-6 py-4">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">멘토링 리뷰</h2>
+      <div className="flex items-center justify-between">
+        <StarRating rating={review.rating} />
+        <span className="text-xs text-gray-500">{formatDateTime(review.createdAt)}</span>
+      </div>
+      <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{review.body}</p>
+
+      {review.mentorResponse && !editingResponse && (
+        <div className="mt-3 ml-4 p-3 bg-gray-50 rounded text-sm text-gray-700">
+          <p className="text-xs font-medium text-gray-500 mb-1">멘토 답글</p>
+          <p className="whitespace-pre-wrap">{review.mentorResponse}</p>
+          {role === 'mentor' && (
+            <button onClick={startEditingResponse} className="mt-2 text-xs text-blue-600 hover:text-blue-800 underline">
+              답글 수정
+            </button>
+          )}
+        </div>
+      )}
+
+      {role === 'mentor' && (!review.mentorResponse || editingResponse) && (
+        <form onSubmit={submitResponse} className="mt-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={REVIEW_MAX_LENGTH}
+            rows={2}
+            placeholder="리뷰에 답글을 남겨보세요."
+            className="w-full resize-none border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="mt-2 flex justify-end space-x-2">
+            {editingResponse && (
+              <button
+                type="button"
+                onClick={() => setEditingResponse(false)}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+              >
+                취소
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={submitting || !draft.trim()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? '등록 중...' : '답글 등록'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { MATCHING_STATUS_LABELS, getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime } from '@/lib/utils';
+import { MatchingStatus, MenteeDashboard as MenteeDashboardData, NextStep } from '@/types';
+import { ActiveMatches, DashboardCard, UpcomingSessions } from './DashboardCards';
+
+interface MenteeDashboardProps {
+  dashboard: MenteeDashboardData;
+}
+
+// 요청 현황에 표시할 상태 (나머지는 '내 요청'에서 확인)
+const SUMMARY_STATUSES: MatchingStatus[] = ['pending', 'accepted', 'completed'];
+
+// 다음 할 일 → 안내 문구와 이동할 페이지
+const getNextStepLink = (step: NextStep): { text: string; href: string } => {
+  const matchHref = `/matches/${step.requestId}`;
+  switch (step.code) {
+    case 'READ_MESSAGES':
+      return { text: '멘토가 보낸 새 메시지를 확인하세요.', href: matchHref };
+    case 'BOOK_SESSION':
+      return { text: '멘토와 첫 세션을 예약하세요.', href: matchHref };
+    case 'WRITE_REVIEW':
+      return { text: '완료한 멘토링의 리뷰를 남겨 주세요.', href: matchHref };
+    case 'WAITING_FOR_RESPONSE':
+      return { text: '멘토가 요청을 검토하고 있습니다.', href: '/requests' };
+    case 'FIND_MENTOR':
+      return { text: '나에게 맞는 멘토를 찾아 매칭을 요청하세요.', href: '/mentors' };
+    case 'SET_LEARNING_GOALS':
+      return { text: '학습 목표를 등록하면 더 잘 맞는 멘토를 추천받을 수 있습니다.', href: '/profile' };
+    case 'COMPLETE_PROFILE':
+      return { text: '자기소개를 작성해 멘토에게 나를 알려 주세요.', href: '/profile' };
+  }
+};
+
+// 멘티 대시보드: 요청 현황, 매칭된 멘토, 다가오는 세션, 다음 할 일
+export default function MenteeDashboard({ dashboard }: MenteeDashboardProps) {
+  const { requests, nextSteps } = dashboard;
+
+  return (
+    <div className="space-y-6">
+      {nextSteps.length > 0 && (
+        <DashboardCard title="다음 할 일">
+          <ul className="space-y-2">
+            {nextSteps.map(step => {
+              const { text, href } = getNextStepLink(step);
+              return (
+                <li key={`${step.code}-${step.requestId ?? ''}`}>
+                  <Link href={href} className="flex items-center justify-between text-sm text-gray-700 hover:text-blue-700">
+                    <span>• {text}</span>
+                    <span className="text-blue-600">→</span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </DashboardCard>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {SUMMARY_STATUSES.map(status => (
+          <Link
+            key={status}
+            href="/requests"
+            className="bg-white rounded-lg shadow-sm border p-4 hover:border-blue-300 transition-colors"
+          >
+            <p className="text-sm text-gray-500">{MATCHING_STATUS_LABELS[status]} 요청</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{requests.counts[status]}건</p>
+          </Link>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ActiveMatches title="매칭된 멘토" matches={dashboard.mentors} emptyText="아직 매칭된 멘토가 없습니다." />
+        <UpcomingSessions sessions={dashboard.upcomingSessions} />
+      </div>
+
+      <DashboardCard title="최근 보낸 요청" href="/requests">
+        {requests.recent.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            보낸 요청이 없습니다.{' '}
+            <Link href="/mentors" className="text-blue-600 hover:text-blue-800 underline">멘토 찾기</Link>
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {requests.recent.map(request => (
+              <li key={request.id} className="py-2 flex items-center justify-between">
+                <div>
+                  <Link href={`/mentors/${request.mentorId}`} className="text-sm font-medium text-gray-900 hover:underline">
+                    {request.mentorName || '알 수 없음'}
+                  </Link>
+                  <p className="text-xs text-gray-500">{formatDateTime(request.createdAt)}</p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(request.status)}`}>
+                  {getStatusText(request.status)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DashboardCard>
+    </div>
+  );
+}
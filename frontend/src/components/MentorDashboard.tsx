@@ -0,0 +1,72 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDateTime } from '@/lib/utils';
+import { MentorDashboard as MentorDashboardData } from '@/types';
+import { ActiveMatches, DashboardCard, UpcomingSessions } from './DashboardCards';
+import ExpiryCountdown from './ExpiryCountdown';
+import MentorStatsSummary from './MentorStatsSummary';
+
+interface MentorDashboardProps {
+  dashboard: MentorDashboardData;
+}
+
+// 멘토 대시보드: 대기 중인 요청, 현재 멘티, 다가오는 세션, 요청 처리 통계
+export default function MentorDashboard({ dashboard }: MentorDashboardProps) {
+  const { pendingRequests, capacity, stats } = dashboard;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Link
+          href="/incoming-requests"
+          className="bg-white rounded-lg shadow-sm border p-4 hover:border-blue-300 transition-colors"
+        >
+          <p className="text-sm text-gray-500">대기 중인 요청</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{pendingRequests.count}건</p>
+        </Link>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <p className="text-sm text-gray-500">현재 멘티</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            {capacity.activeMentees} / {capacity.maxMentees}명
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border p-4">
+          <p className="text-sm text-gray-500">평균 평점</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            {stats.averageRating !== null ? `★ ${stats.averageRating.toFixed(1)}` : '-'}
+            <span className="text-sm font-normal text-gray-500 ml-1">(리뷰 {stats.reviewCount}개)</span>
+          </p>
+        </div>
+      </div>
+
+      <DashboardCard title="응답을 기다리는 요청" href="/incoming-requests">
+        {pendingRequests.oldest.length === 0 ? (
+          <p className="text-sm text-gray-500">대기 중인 요청이 없습니다.</p>
+        ) : (
+          <ul className="divide-y">
+            {pendingRequests.oldest.map(request => (
+              <li key={request.id} className="py-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">{request.menteeName || '알 수 없음'}</p>
+                  <p className="text-xs text-gray-500">{formatDateTime(request.createdAt)}</p>
+                </div>
+                <p className="text-sm text-gray-600 truncate">{request.message}</p>
+                {request.expiresAt && <ExpiryCountdown expiresAt={request.expiresAt} />}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DashboardCard>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ActiveMatches title="현재 멘티" matches={dashboard.mentees} emptyText="진행 중인 멘토링이 없습니다." />
+        <UpcomingSessions sessions={dashboard.upcomingSessions} />
+      </div>
+
+      <DashboardCard title="매칭 요청 응답 통계">
+        <MentorStatsSummary stats={stats} />
+      </DashboardCard>
+    </div>
+  );
+}
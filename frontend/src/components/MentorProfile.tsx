@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { blockApi, matchingApi, mentorApi } from '@/lib/api';
+import { appConfig } from '@/lib/config';
+import { getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { toMentorStats } from '@/lib/mentorStats';
+import { formatSkillDetail } from '@/lib/skills';
+import { getErrorMessage, isNotFoundError } from '@/lib/utils';
+import { MatchingRequest, MentorDetail } from '@/types';
+import MentorReviews from './MentorReviews';
+import MentorStatsSummary from './MentorStatsSummary';
+import SafetyActions from './SafetyActions';
+import StarRating from './StarRating';
+
+interface MentorProfileProps {
+  mentor: MentorDetail;
+}
+
+// 공개 멘토 상세 페이지 본문 (프로필 + 현재 멘티의 요청 상태 + 리뷰)
+export default function MentorProfile({ mentor }: MentorProfileProps) {
+  const { user } = useAuth();
+  const [existingRequest, setExistingRequest] = useState<MatchingRequest | null>(null);
+  const [showRequestForm, setShowRequestForm] = useState(false);
+  const [requestMessage, setRequestMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  // 로그인한 사용자와 차단 관계라 서버가 프로필을 숨긴 경우
+  const [hidden, setHidden] = useState(false);
+
+  const isMentee = user?.role === 'mentee';
+
+  // 멘토마다 요청은 한 번만 보낼 수 있으므로 기존 요청이 있으면 상태를 보여줌
+  const fetchExistingRequest = useCallback(async () => {
+    try {
+      const requests = await matchingApi.getMyRequests();
+      setExistingRequest(requests.find(request => request.mentorId === mentor.id) || null);
+    } catch (error) {
+      console.error('Failed to fetch my requests:', error);
+    }
+  }, [mentor.id]);
+
+  // 페이지는 비로그인 상태로 렌더링되므로 로그인한 사용자 기준으로 다시 조회해 차단 관계면 숨김
+  const fetchVisibility = useCallback(async () => {
+    try {
+      await mentorApi.getMentor(mentor.id);
+      setHidden(false);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        setHidden(true);
+      } else {
+        console.error('Failed to check mentor visibility:', error);
+      }
+    }
+  }, [mentor.id]);
+
+  // 내가 차단한 멘토인지 (숨겨진 프로필에서 차단 해제를 제공하기 위해 사용)
+  const fetchBlocked = useCallback(async () => {
+    try {
+      const blockedUsers = await blockApi.getBlocks();
+      setBlocked(blockedUsers.some(blockedUser => blockedUser.userId === mentor.id));
+    } catch (error) {
+      console.error('Failed to fetch blocked users:', error);
+    }
+  }, [mentor.id]);
+
+  useEffect(() => {
+    if (user) {
+      fetchVisibility();
+    }
+  }, [user, fetchVisibility]);
+
+  useEffect(() => {
+    if (isMentee) {
+      fetchExistingRequest();
+      fetchBlocked();
+    }
+  }, [isMentee, fetchExistingRequest, fetchBlocked]);
+
+  const handleBlockChange = (nextBlocked: boolean) => {
+    setBlocked(nextBlocked);
+    if (nextBlocked) {
+      setHidden(true);
+    } else {
+      // 상대방도 나를 차단했을 수 있으므로 다시 확인
+      fetchVisibility();
+    }
+  };
+
+  const submitMatchRequest = async () => {
+    if (!user || !requestMessage.trim()) {
+      alert('메시지를 입력해주세요.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const created = await matchingApi.sendRequest({
+        mentorId: mentor.id,
+        menteeId: user.id,
+        message: requestMessage
+      });
+      alert('매칭 요청이 성공적으로 전송되었습니다!');
+      setExistingRequest(created);
+      setShowRequestForm(false);
+      setRequestMessage('');
+    } catch (error) {
+      console.error('Failed to send match request:', error);
+      alert(getErrorMessage(error, '매칭 요청 전송에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // 현재 페이지 주소를 클립보드에 복사
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      alert('링크를 복사하지 못했습니다.');
+    }
+  };
+
+  if (hidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-3xl mx-auto px-4">
+          <div className="mb-6">
+            <Link href="/mentors" className="text-sm text-gray-600 hover:text-gray-900 underline">
+              ← 멘토 목록
+            </Link>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border p-6 text-center">
+            <p className="text-gray-700">
+              {blocked ? '차단한 멘토입니다. 차단을 해제하면 프로필을 다시 볼 수 있습니다.' : '이 멘토의 프로필을 볼 수 없습니다.'}
+            </p>
+            {isMentee && blocked && (
+              <div className="mt-4 flex justify-center">
+                <SafetyActions
+                  userId={mentor.id}
+                  userName={mentor.name}
+                  blocked={blocked}
+                  onBlockChange={handleBlockChange}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isFull = mentor.available_slots === 0;
+  const hasMatch = existingRequest?.status === 'accepted' || existingRequest?.status === 'completed';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4">
+        <div className="mb-6 flex items-center justify-between">
+          <Link href="/mentors" className="text-sm text-gray-600 hover:text-gray-900 underline">
+            ← 멘토 목록
+          </Link>
+          <div className="flex items-center space-x-3">
+            <button onClick={copyLink} className="text-sm text-gray-600 hover:text-gray-900 underline">
+              {copied ? '링크가 복사되었습니다' : '링크 복사'}
+            </button>
+            {isMentee && (
+              <SafetyActions
+                userId={mentor.id}
+                userName={mentor.name}
+                blocked={blocked}
+                onBlockChange={handleBlockChange}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* 프로필 */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <div className="flex items-center mb-6">
+            <img
+              src={new URL(mentor.profile_image_url, appConfig.apiUrl).toString()}
+              alt={mentor.name}
+              className="w-24 h-24 rounded-full object-cover border-2 border-gray-200"
+            />
+            <div className="ml-6">
+              <div className="flex items-center space-x-2">
+                <h1 className="text-2xl font-bold text-gray-900">{mentor.name}</h1>
+                {isFull && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                    정원 마감
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                남은 자리 {mentor.available_slots} / {mentor.max_mentees}
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                {mentor.review_count > 0 ? (
+                  <>
+                    <StarRating rating={mentor.average_rating ?? 0} />
+                    <span className="ml-1">{mentor.average_rating?.toFixed(1)} (리뷰 {mentor.review_count}개)</span>
+                  </>
+                ) : '아직 리뷰가 없습니다'}
+              </p>
+            </div>
+          </div>
+
+          <h2 className="text-sm font-medium text-gray-900 mb-2">자기소개</h2>
+          <p className="text-gray-700 whitespace-pre-wrap mb-6">{mentor.bio || '자기소개가 없습니다.'}</p>
+
+          <h2 className="text-sm font-medium text-gray-900 mb-2">매칭 요청 응답</h2>
+          <div className="mb-6">
+            <MentorStatsSummary stats={toMentorStats(mentor.stats)} />
+          </div>
+
+          <h2 className="text-sm font-medium text-gray-900 mb-2">기술 스택</h2>
+          {mentor.skill_details.length > 0 ? (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {mentor.skill_details.map(skill => (
+                <span key={skill.name} className="inline-block bg-blue-100 text-blue-800 text-sm px-3 py-1 rounded-full">
+                  {formatSkillDetail({ name: skill.name, level: skill.level, yearsOfExperience: skill.years_of_experience })}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-600 text-sm mb-6">등록된 기술 스택이 없습니다.</p>
+          )}
+
+          {/* 매칭 요청 */}
+          {!user ? (
+            <Link
+              href="/login"
+              className="block w-full text-center bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+            >
+              로그인하고 매칭 요청하기
+            </Link>
+          ) : isMentee && existingRequest ? (
+            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-md">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-700">내 매칭 요청</span>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(existingRequest.status)}`}>
+                  {getStatusText(existingRequest.status)}
+                </span>
+              </div>
+              <Link
+                href={hasMatch ? `/matches/${existingRequest.id}` : '/requests'}
+                className="text-sm text-blue-600 hover:text-blue-800 underline"
+              >
+                {hasMatch ? '대화하기' : '요청 관리'}
+              </Link>
+            </div>
+          ) : isMentee && blocked ? (
+            <div className="p-4 bg-gray-50 rounded-md text-sm text-gray-700">
+              차단한 멘토에게는 매칭 요청을 보낼 수 없습니다. 차단을 해제하면 다시 요청할 수 있습니다.
+            </div>
+          ) : isMentee && showRequestForm ? (
+            <div>
+              <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
+                요청 메시지
+              </label>
+              <textarea
+                id="message"
+                data-mentor-id={mentor.id}
+                value={requestMessage}
+                onChange={(e) => setRequestMessage(e.target.value)}
+                placeholder="멘토에게 보낼 메시지를 입력하세요..."
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <div className="mt-3 flex space-x-3">
+                <button
+                  onClick={() => setShowRequestForm(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  취소
+                </button>
+                <button
+                  onClick={submitMatchRequest}
+                  disabled={submitting || !requestMessage.trim()}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? '전송 중...' : '요청 보내기'}
+                </button>
+              </div>
+            </div>
+          ) : isMentee && (
+            <button
+              id="request"
+              data-mentor-id={mentor.id}
+              onClick={() => setShowRequestForm(true)}
+              disabled={isFull}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isFull ? '정원 마감' : '매칭 요청하기'}
+            </button>
+          )}
+        </div>
+
+        {/* 리뷰 */}
+        <div className="bg-white rounded-lg shadow-sm border p-6 mt-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">리뷰</h2>
+          <MentorReviews mentorId={mentor.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { reviewApi } from '@/lib/api';
+import { formatDate } from '@/lib/schedule';
+import { getErrorMessage, parseServerDate } from '@/lib/utils';
+import { Review, ReviewSummary } from '@/types';
+import StarRating from './StarRating';
+
+interface MentorReviewsProps {
+  mentorId: number;
+}
+
+const PAGE_SIZE = 5;
+
+// 멘토 상세 화면의 리뷰 섹션 (평점 요약 + 최신순 리뷰 목록)
+export default function MentorReviews({ mentorId }: MentorReviewsProps) {
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const page = await reviewApi.getMentorReviews(mentorId, { limit: PAGE_SIZE });
+      setSummary(page.summary);
+      setReviews(page.reviews);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Failed to fetch reviews:', error);
+      setError(getErrorMessage(error, '리뷰를 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [mentorId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  // 이전 리뷰 더 불러오기
+  const loadMore = async () => {
+    if (reviews.length === 0) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await reviewApi.getMentorReviews(mentorId, {
+        before: reviews[reviews.length - 1].id,
+        limit: PAGE_SIZE
+      });
+      setReviews(current => [...current, ...page.reviews]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Failed to fetch more reviews:', error);
+      alert(getErrorMessage(error, '리뷰를 더 불러오지 못했습니다.'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!summary || summary.reviewCount === 0) {
+    return <p className="text-sm text-gray-600">아직 작성된 리뷰가 없습니다.</p>;
+  }
+
+  return (
+    <div>
+      {/* 평점 요약 */}
+      <div className="flex items-start space-x-6 mb-4">
+        <div className="text-center">
+          <p className="text-3xl font-bold text-gray-900">{summary.averageRating?.toFixed(1)}</p>
+          <StarRating rating={summary.averageRating ?? 0} />
+          <p className="text-xs text-gray-500 mt-1">리뷰 {summary.reviewCount}개</p>
+        </div>
+        <ul className="flex-1 space-y-1">
+          {[5, 4, 3, 2, 1].map(score => {
+            const count = summary.distribution[score] ?? 0;
+            return (
+              <li key={score} className="flex items-center text-xs text-gray-600">
+                <span className="w-6">{score}점</span>
+                <div className="flex-1 h-2 mx-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-yellow-400"
+                    style={{ width: `${(count / summary.reviewCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-6 text-right">{count}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* 리뷰 목록 */}
+      <ul className="divide-y">
+        {reviews.map(review => (
+          <li key={review.id} className="py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <StarRating rating={review.rating} />
+                <span className="text-sm font-medium text-gray-900">{review.menteeName || '멘티'}</span>
+              </div>
+              <span className="text-xs text-gray-500">{formatDate(parseServerDate(review.createdAt))}</span>
+            </div>
+            <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{review.body}</p>
+            {review.mentorResponse && (
+              <div className="mt-2 ml-4 p-2 bg-gray-50 rounded text-sm text-gray-700">
+                <p className="text-xs font-medium text-gray-500 mb-1">멘토 답글</p>
+                <p className="whitespace-pre-wrap">{review.mentorResponse}</p>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="mt-2 w-full py-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {loadingMore ? '불러오는 중...' : '리뷰 더 보기'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { formatAcceptanceRate, formatResponseTime } from '@/lib/mentorStats';
+import { MentorStats } from '@/types';
+
+interface MentorStatsSummaryProps {
+  stats: MentorStats;
+}
+
+// 멘토 요청 처리 통계 (응답 시간 중앙값, 수락률, 현재 멘티 수)
+export default function MentorStatsSummary({ stats }: MentorStatsSummaryProps) {
+  const items = [
+    {
+      label: '보통 응답 시간',
+      value: stats.medianResponseHours !== null ? formatResponseTime(stats.medianResponseHours) : '-',
+    },
+    {
+      label: '수락률',
+      value: stats.acceptanceRate !== null ? formatAcceptanceRate(stats.acceptanceRate) : '-',
+    },
+    { label: '현재 멘티', value: `${stats.activeMentees}명` },
+  ];
+
+  return (
+    <div>
+      <dl className="grid grid-cols-3 gap-4">
+        {items.map(item => (
+          <div key={item.label} className="bg-gray-50 rounded-md p-3 text-center">
+            <dt className="text-xs text-gray-500">{item.label}</dt>
+            <dd className="text-lg font-semibold text-gray-900 mt-1">{item.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-gray-500 mt-2">
+        {stats.decidedRequests > 0
+          ? `처리한 매칭 요청 ${stats.decidedRequests}건 기준`
+          : '아직 처리한 매칭 요청이 없습니다.'}
+      </p>
+    </div>
+  );
+}
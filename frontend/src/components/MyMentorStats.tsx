@@ -0,0 +1,34 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { mentorApi } from '@/lib/api';
+import { toMentorStats } from '@/lib/mentorStats';
+import { MentorStats } from '@/types';
+import MentorStatsSummary from './MentorStatsSummary';
+
+interface MyMentorStatsProps {
+  mentorId: number;
+}
+
+// 프로필 페이지의 내 요청 처리 통계 (멘티에게 공개되는 값과 같음)
+export default function MyMentorStats({ mentorId }: MyMentorStatsProps) {
+  const [stats, setStats] = useState<MentorStats | null>(null);
+
+  useEffect(() => {
+    mentorApi.getMentor(mentorId)
+      .then(mentor => setStats(toMentorStats(mentor.stats)))
+      .catch(error => console.error('Failed to fetch mentor stats:', error));
+  }, [mentorId]);
+
+  if (!stats) {
+    return null;
+  }
+
+  return (
+    <div id="mentor-stats" className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">내 매칭 요청 응답 통계</h2>
+      <p className="text-sm text-gray-500 mb-4">멘토 목록과 상세 페이지에서 멘티에게 보이는 값입니다.</p>
+      <MentorStatsSummary stats={stats} />
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePathname, useRouter } from 'next/navigation';
+import NotificationBell from '@/components/NotificationBell';
+import { USER_ROLE_LABELS } from '@/lib/roles';
 
 export default function Navigation() {
   const { user, logout } = useAuth();
@@ -17,8 +19,8 @@ export default function Navigation() {
     return pathname === path ? 'bg-blue-700' : '';
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/');
   };
 
@@ -34,6 +36,21 @@ export default function Navigation() {
 
             {/* 네비게이션 메뉴 */}
             <div className="hidden md:flex space-x-4">
+              {user.role === 'admin' ? (
+                <Link
+                  href="/admin"
+                  className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/admin')}`}
+                >
+                  관리자
+                </Link>
+              ) : (
+                <Link
+                  href="/dashboard"
+                  className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/dashboard')}`}
+                >
+                  대시보드
+                </Link>
+              )}
               <Link
                 href="/profile"
                 className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/profile')}`}
@@ -66,11 +83,22 @@ export default function Navigation() {
                   받은 요청
                 </Link>
               )}
+
+              {user.role !== 'admin' && (
+                <Link
+                  href="/schedule"
+                  className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/schedule')}`}
+                >
+                  일정
+                </Link>
+              )}
             </div>
           </div>
 
           {/* 사용자 정보 & 로그아웃 */}
           <div className="flex items-center space-x-4">
+            <NotificationBell />
+
             <div className="hidden md:flex items-center space-x-2">
               <img
                 src={user.profile?.imageUrl || (user.role === 'mentor' 
@@ -83,7 +111,7 @@ export default function Navigation() {
                 {user.profile?.name || '사용자'}
               </span>
               <span className="text-xs bg-blue-500 px-2 py-1 rounded-full">
-                {user.role === 'mentor' ? '멘토' : '멘티'}
+                {USER_ROLE_LABELS[user.role]}
               </span>
             </div>
             
@@ -99,6 +127,21 @@ export default function Navigation() {
         {/* 모바일 메뉴 */}
         <div className="md:hidden pb-3">
           <div className="flex flex-col space-y-1">
+            {user.role === 'admin' ? (
+              <Link
+                href="/admin"
+                className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/admin')}`}
+              >
+                관리자
+              </Link>
+            ) : (
+              <Link
+                href="/dashboard"
+                className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/dashboard')}`}
+              >
+                대시보드
+              </Link>
+            )}
             <Link
               href="/profile"
               className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/profile')}`}
@@ -131,6 +174,15 @@ export default function Navigation() {
                 받은 요청
               </Link>
             )}
+
+            {user.role !== 'admin' && (
+              <Link
+                href="/schedule"
+                className={`px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${isActive('/schedule')}`}
+              >
+                일정
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { notificationApi } from '@/lib/api';
+import { formatDate, formatTime } from '@/lib/schedule';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+import { UserNotification } from '@/types';
+
+// 새 알림은 실시간 이벤트로 받고, 연결이 불안정한 경우를 대비해 주기적으로도 확인
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// 예약 알림의 세션 시작 시각 (예: 10월 20일 (화) 오전 09:00)
+const describeSessionTime = (startsAt?: string): string =>
+  startsAt ? `${formatDate(startsAt)} ${formatTime(startsAt)}` : '';
+
+// 알림을 사람이 읽을 수 있는 문장으로 변환
+const describeNotification = (notification: UserNotification): string => {
+  const actor = notification.actorName || '상대방';
+  const sessionTime = describeSessionTime(notification.data?.startsAt);
+
+  if (notification.data?.byAdmin) {
+    return notification.type === 'request_completed'
+      ? '관리자가 멘토링을 완료 처리했습니다.'
+      : `관리자가 매칭 요청을 ${notification.type === 'request_rejected' ? '거절' : '취소'} 처리했습니다.`;
+  }
+
+  switch (notification.type) {
+    case 'request_received':
+      return `${actor}님이 매칭을 요청했습니다.`;
+    case 'request_accepted':
+      return `${actor}님이 매칭 요청을 수락했습니다.`;
+    case 'request_rejected':
+      return notification.actorId === null
+        ? '멘토가 다른 요청을 수락하여 매칭 요청이 자동으로 거절되었습니다.'
+        : `${actor}님이 매칭 요청을 거절했습니다.`;
+    case 'request_cancelled':
+      return `${actor}님이 매칭 요청을 취소했습니다.`;
+    case 'request_expired':
+      return '응답 기한이 지나 매칭 요청이 만료되었습니다.';
+    case 'request_completed':
+      return `${actor}님이 멘토링을 완료 처리했습니다.`;
+    case 'booking_created':
+      return `${actor}님이 ${sessionTime} 세션을 예약했습니다.`;
+    case 'booking_rescheduled':
+      return `${actor}님이 세션 일정을 ${sessionTime}(으)로 변경했습니다.`;
+    case 'booking_cancelled':
+      return `${actor}님이 ${sessionTime} 세션을 취소했습니다.`;
+    case 'review_received':
+      return `${actor}님이 ${notification.data?.rating ?? ''}점 리뷰를 남겼습니다.`;
+    case 'review_responded':
+      return `${actor}님이 리뷰에 답글을 남겼습니다.`;
+    default:
+      return '새 알림이 있습니다.';
+  }
+};
+
+// 네비게이션의 알림 아이콘 (읽지 않은 알림 수 배지 + 드롭다운 목록)
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const data = await notificationApi.getNotifications({ limit: 10 });
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+      setError('');
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+      setError(getErrorMessage(error, '알림을 불러오지 못했습니다.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchNotifications]);
+
+  useRealtimeEvents((event) => {
+    if (event.type === 'notification' || event.type === 'ready') {
+      fetchNotifications();
+    }
+  });
+
+  // 드롭다운 바깥을 클릭하면 닫기
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggleOpen = () => {
+    if (!open) {
+      fetchNotifications();
+    }
+    setOpen(prev => !prev);
+  };
+
+  // 알림을 읽음 처리하고 관련 화면(예약 알림은 일정, 그 외는 요청 목록)으로 이동
+  const openNotification = async (notification: UserNotification) => {
+    if (!notification.read) {
+      try {
+        await notificationApi.markRead(notification.id);
+        setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+        setUnreadCount(prev => Math.max(prev - 1, 0));
+      } catch (error) {
+        console.error('Failed to mark notification as read:', error);
+      }
+    }
+
+    setOpen(false);
+    if (notification.type.startsWith('booking_')) {
+      router.push('/schedule');
+      return;
+    }
+    if (notification.type.startsWith('review_') && notification.requestId) {
+      router.push(`/matches/${notification.requestId}`);
+      return;
+    }
+    router.push(user?.role === 'mentor' ? '/incoming-requests' : '/requests');
+  };
+
+  const markAllRead = async () => {
+    try {
+      await notificationApi.markAllRead();
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark all notifications as read:', error);
+      alert(getErrorMessage(error, '알림을 읽음 처리하지 못했습니다.'));
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        id="notification-bell"
+        onClick={toggleOpen}
+        className="relative p-2 rounded-md hover:bg-blue-700 transition-colors"
+        aria-label={unreadCount > 0 ? `읽지 않은 알림 ${unreadCount}개` : '알림'}
+      >
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="notification-badge absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white text-gray-900 rounded-lg shadow-lg border z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h3 className="text-sm font-semibold">알림</h3>
+            {unreadCount > 0 && (
+              <button onClick={markAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                모두 읽음
+              </button>
+            )}
+          </div>
+
+          {error ? (
+            <p className="px-4 py-6 text-sm text-red-600">{error}</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">새 알림이 없습니다.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className={`notification-item w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.read ? '' : 'bg-blue-50'}`}
+                    data-notification-id={notification.id}
+                  >
+                    <p className="text-sm">{describeNotification(notification)}</p>
+                    {notification.data?.reason && (
+                      <p className="text-xs text-gray-600 mt-1">사유: {notification.data.reason}</p>
+                    )}
+                    <time className="text-xs text-gray-500">{formatDateTime(notification.createdAt)}</time>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
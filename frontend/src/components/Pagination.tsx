@@ -0,0 +1,54 @@
+'use client';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onChange: (page: number) => void;
+}
+
+// 현재 페이지 주변의 페이지 번호 (최대 5개)
+const getPageWindow = (page: number, totalPages: number): number[] => {
+  const start = Math.max(1, Math.min(page - 2, totalPages - 4));
+  const end = Math.min(totalPages, start + 4);
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+};
+
+// 이전/다음 버튼과 페이지 번호 목록 (페이지가 하나뿐이면 표시하지 않음)
+export default function Pagination({ page, totalPages, onChange }: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 flex items-center justify-center space-x-2">
+      <button
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        이전
+      </button>
+      {getPageWindow(page, totalPages).map(pageNumber => (
+        <button
+          key={pageNumber}
+          onClick={() => onChange(pageNumber)}
+          aria-current={pageNumber === page ? 'page' : undefined}
+          className={`px-3 py-1 text-sm rounded-md border ${
+            pageNumber === page
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {pageNumber}
+        </button>
+      ))}
+      <button
+        onClick={() => onChange(page + 1)}
+        disabled={page >= totalPages}
+        className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        다음
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import Link from 'next/link';
+import { formatResponseTime } from '@/lib/mentorStats';
+import { SKILL_LEVEL_LABELS, getSkillDetails } from '@/lib/skills';
+import { MentorRecommendation, RecommendationReason } from '@/types';
+
+interface RecommendedMentorsProps {
+  recommendations: MentorRecommendation[];
+  // false면 학습 목표 등록 안내를 함께 표시
+  personalized: boolean;
+  onRequest: (mentorId: number) => void;
+}
+
+const getReasonText = (reason: RecommendationReason): string => {
+  switch (reason.code) {
+    case 'SKILL_MATCH':
+      return `학습 목표와 일치: ${reason.skills?.join(', ')}`;
+    case 'SIMILAR_PROFILE':
+      return `관심사가 비슷함: ${reason.terms?.join(', ')}`;
+    case 'RESPONSIVE': {
+      const rate = `응답률 ${Math.round((reason.responseRate ?? 0) * 100)}%`;
+      return reason.medianResponseHours != null
+        ? `${rate} · 응답 시간 보통 ${formatResponseTime(reason.medianResponseHours)}`
+        : rate;
+    }
+    case 'HAS_CAPACITY':
+      return `남은 자리 ${reason.availableSlots}개`;
+  }
+};
+
+// 멘토 목록 상단의 멘티 맞춤 추천 (점수 높은 순, 추천 이유 표시)
+export default function RecommendedMentors({ recommendations, personalized, onRequest }: RecommendedMentorsProps) {
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">나에게 맞는 추천 멘토</h2>
+        {!personalized && (
+          <p className="text-sm text-gray-500">
+            <Link href="/profile" className="text-blue-600 hover:text-blue-800 underline">프로필</Link>에
+            학습 목표를 등록하면 더 잘 맞는 멘토를 추천해 드립니다.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {recommendations.map(({ mentor, score, reasons }) => (
+          <div key={mentor.id} className="border rounded-lg p-4 flex flex-col">
+            <div className="flex items-center justify-between mb-2">
+              <Link href={`/mentors/${mentor.id}`} className="font-medium text-gray-900 hover:underline">
+                {mentor.profile.name}
+              </Link>
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                매칭도 {score}%
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-1 mb-3">
+              {getSkillDetails(mentor.profile).slice(0, 4).map(skill => (
+                <span key={skill.name} className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                  {skill.name}
+                  {skill.level && <span className="text-blue-600"> · {SKILL_LEVEL_LABELS[skill.level]}</span>}
+                </span>
+              ))}
+            </div>
+
+            <ul className="text-xs text-gray-600 space-y-1 mb-4 flex-1">
+              {reasons.map(reason => (
+                <li key={reason.code}>• {getReasonText(reason)}</li>
+              ))}
+            </ul>
+
+            <button
+              onClick={() => onRequest(mentor.id)}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md text-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+            >
+              매칭 요청하기
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { ReportCategory } from '@/types';
+import { reportApi } from '@/lib/api';
+import { REPORT_CATEGORY_LABELS } from '@/lib/reports';
+import { getErrorCode, getErrorMessage } from '@/lib/utils';
+
+interface ReportDialogProps {
+  // 사용자 자체를 신고하면 userId, 매칭 요청을 신고하면 requestId도 함께 전달
+  userId: number;
+  userName: string;
+  requestId?: number;
+  onClose: () => void;
+}
+
+const DESCRIPTION_MAX_LENGTH = 1000;
+
+// 사용자/매칭 요청 신고 모달 (관리자 검토 대기열에 등록)
+export default function ReportDialog({ userId, userName, requestId, onClose }: ReportDialogProps) {
+  const [category, setCategory] = useState<ReportCategory>('spam');
+  const [description, setDescription] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const descriptionRequired = category === 'other';
+
+  const submitReport = async () => {
+    if (descriptionRequired && !description.trim()) {
+      setError('기타 사유는 상세 내용을 입력해주세요.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      await reportApi.create({
+        ...(requestId ? { requestId } : { reportedUserId: userId }),
+        category,
+        description: description.trim() || undefined,
+      });
+      alert('신고가 접수되었습니다. 관리자가 검토한 뒤 조치합니다.');
+      onClose();
+    } catch (error) {
+      console.error('Failed to create report:', error);
+      setError(getErrorCode(error) === 'REPORT_EXISTS'
+        ? '이미 신고한 대상입니다. 관리자가 검토 중입니다.'
+        : getErrorMessage(error, '신고 접수에 실패했습니다.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+          {requestId ? '매칭 요청 신고' : '사용자 신고'}
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {userName}님{requestId ? `의 요청 #${requestId}` : ''}을(를) 신고합니다. 신고자 정보는 상대방에게 공개되지 않습니다.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label htmlFor="report-category" className="block text-sm font-medium text-gray-700 mb-2">
+            신고 사유
+          </label>
+          <select
+            id="report-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as ReportCategory)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]).map(value => (
+              <option key={value} value={value}>{REPORT_CATEGORY_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="report-description" className="block text-sm font-medium text-gray-700 mb-2">
+            상세 내용{descriptionRequired ? '' : ' (선택)'}
+          </label>
+          <textarea
+            id="report-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={DESCRIPTION_MAX_LENGTH}
+            rows={4}
+            placeholder="어떤 문제가 있었는지 알려주세요."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={submitReport}
+            disabled={submitting}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? '접수 중...' : '신고하기'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
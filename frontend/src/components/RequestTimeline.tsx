@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { matchingApi } from '@/lib/api';
+import { getStatusColor, getStatusText } from '@/lib/matchingStatus';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+import { MatchingRequestEvent } from '@/types';
+
+interface RequestTimelineProps {
+  requestId: number;
+  // 목록이 새로고침되면 이력도 다시 조회하도록 현재 상태를 전달
+  status: string;
+}
+
+// 이벤트를 사람이 읽을 수 있는 문장으로 변환
+const describeEvent = (event: MatchingRequestEvent): string => {
+  if (event.fromStatus === null) {
+    return `${event.actorName || '멘티'}님이 매칭을 요청했습니다.`;
+  }
+
+  if (event.actorRole === 'system') {
+    if (event.toStatus === 'rejected') {
+      return '멘토가 다른 요청을 수락하여 자동으로 거절되었습니다.';
+    }
+    if (event.toStatus === 'expired') {
+      return '응답 기한이 지나 요청이 만료되었습니다.';
+    }
+    return `시스템에 의해 ${getStatusText(event.toStatus)} 처리되었습니다.`;
+  }
+
+  if (event.actorRole === 'admin') {
+    return `관리자가 ${getStatusText(event.toStatus)} 처리했습니다.`;
+  }
+
+  const actor = event.actorName || (event.actorRole === 'mentor' ? '멘토' : '멘티');
+  return `${actor}님이 ${getStatusText(event.toStatus)} 처리했습니다.`;
+};
+
+// 매칭 요청의 상태 변경 이력
+export default function RequestTimeline({ requestId, status }: RequestTimelineProps) {
+  const [events, setEvents] = useState<MatchingRequestEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const history = await matchingApi.getHistory(requestId);
+        setEvents(history);
+      } catch (error) {
+        console.error('Failed to fetch request history:', error);
+        setError(getErrorMessage(error, '이력을 불러오지 못했습니다.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [requestId, status]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">이력을 불러오는 중...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 request-timeline" data-request-id={requestId}>
+      {events.map(event => (
+        <li key={event.id} className="mb-4 ml-4">
+          <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+          <div className="flex items-center space-x-2 mb-1">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(event.toStatus)}`}>
+              {getStatusText(event.toStatus)}
+            </span>
+            <time className="text-xs text-gray-500">{formatDateTime(event.createdAt)}</time>
+          </div>
+          <p className="text-sm text-gray-900">{describeEvent(event)}</p>
+          {event.reason && (
+            <p className="text-sm text-gray-600 mt-1">사유: {event.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
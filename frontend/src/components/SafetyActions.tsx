@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { blockApi } from '@/lib/api';
+import { getErrorMessage, isConflictError } from '@/lib/utils';
+import ReportDialog from './ReportDialog';
+
+interface SafetyActionsProps {
+  userId: number;
+  userName: string;
+  // 매칭 요청에서 신고하면 요청 ID를 함께 전달
+  requestId?: number;
+  blocked: boolean;
+  onBlockChange: (blocked: boolean) => void;
+}
+
+// 상대방 신고/차단 버튼 (멘토 상세, 받은 요청 등에서 사용)
+export default function SafetyActions({ userId, userName, requestId, blocked, onBlockChange }: SafetyActionsProps) {
+  const [showReport, setShowReport] = useState(false);
+
+  const toggleBlock = async () => {
+    const message = blocked
+      ? `${userName}님의 차단을 해제하시겠습니까?`
+      : `${userName}님을 차단하시겠습니까?\n차단하면 서로 매칭 요청을 주고받을 수 없고 멘토 목록에서도 보이지 않습니다. 대기 중인 요청은 취소되고, 진행 중인 매칭에서는 메시지와 새 예약이 막힙니다.`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      if (blocked) {
+        await blockApi.unblock(userId);
+      } else {
+        await blockApi.block(userId);
+      }
+      onBlockChange(!blocked);
+    } catch (error) {
+      console.error('Failed to update block:', error);
+      if (isConflictError(error)) {
+        // 다른 기기에서 이미 차단한 경우
+        onBlockChange(true);
+        return;
+      }
+      alert(getErrorMessage(error, blocked ? '차단 해제에 실패했습니다.' : '차단에 실패했습니다.'));
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center space-x-3 text-sm">
+        <button onClick={() => setShowReport(true)} className="text-gray-500 hover:text-red-600 underline">
+          신고
+        </button>
+        <button onClick={toggleBlock} className="text-gray-500 hover:text-red-600 underline">
+          {blocked ? '차단 해제' : '차단'}
+        </button>
+      </div>
+
+      {showReport && (
+        <ReportDialog
+          userId={userId}
+          userName={userName}
+          requestId={requestId}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+
+// 세션이 만료되면 현재 페이지 위에서 다시 로그인하도록 안내 (작성 중인 입력 보존)
+export default function SessionExpiredDialog() {
+  const { user, sessionStatus, login, logout } = useAuth();
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  if (sessionStatus !== 'expired' || !user) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await login(user.email, password);
+      setPassword('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '로그인에 실패했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    router.push('/login');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+        <h3 id="session-expired-title" className="text-lg font-semibold text-gray-900 mb-2">
+          세션이 만료되었습니다
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          작성 중인 내용은 그대로 유지됩니다. 계속하려면 비밀번호를 다시 입력하세요.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="session-email" className="block text-sm font-medium text-gray-700">
+              이메일
+            </label>
+            <input
+              id="session-email"
+              type="email"
+              value={user.email}
+              disabled
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100 text-gray-700"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="session-password" className="block text-sm font-medium text-gray-700">
+              비밀번호
+            </label>
+            <input
+              id="session-password"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="비밀번호를 입력하세요"
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm">{error}</div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              로그아웃
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !password}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? '로그인 중...' : '다시 로그인'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { SKILL_LEVEL_LABELS, SKILL_LEVELS } from '@/lib/skills';
+import { SkillLevel } from '@/types';
+
+interface SkillLevelSelectProps {
+  value: SkillLevel | null;
+  onChange: (level: SkillLevel | null) => void;
+  // 스크린 리더용 이름 (예: 'React 숙련도')
+  label: string;
+}
+
+// 숙련도 선택 (선택 안 함 → null)
+export default function SkillLevelSelect({ value, onChange, label }: SkillLevelSelectProps) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || null) as SkillLevel | null)}
+      aria-label={label}
+      className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="">수준 선택</option>
+      {SKILL_LEVELS.map(level => (
+        <option key={level} value={level}>
+          {SKILL_LEVEL_LABELS[level]}
+        </option>
+      ))}
+    </select>
+  );
+}
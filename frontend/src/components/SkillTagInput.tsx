@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { skillApi } from '@/lib/api';
+import { Skill } from '@/types';
+
+interface SkillTagInputProps {
+  value: string[];
+  onChange: (skills: string[]) => void;
+  id?: string;
+  placeholder?: string;
+  maxTags?: number;
+}
+
+// 입력을 멈춘 뒤 자동완성을 요청하기까지 기다리는 시간
+const SUGGEST_DELAY_MS = 200;
+
+// 기술 스택 태그 입력 (등록된 기술 자동완성, Enter 또는 쉼표로 추가)
+export default function SkillTagInput({
+  value,
+  onChange,
+  id,
+  placeholder = '예: React, Node.js, Python',
+  maxTags = 20
+}: SkillTagInputProps) {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<Skill[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [focused, setFocused] = useState(false);
+
+  const isFull = value.length >= maxTags;
+
+  useEffect(() => {
+    const query = input.trim();
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const skills = await skillApi.search({ q: query, limit: 8 });
+        if (!cancelled) {
+          setSuggestions(skills);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error('Failed to fetch skill suggestions:', error);
+      }
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input]);
+
+  // 대소문자만 다른 기술은 한 번만 추가
+  const addTag = (name: string) => {
+    const skill = name.trim();
+    setInput('');
+    setSuggestions([]);
+    if (!skill || isFull || value.some(tag => tag.toLowerCase() === skill.toLowerCase())) {
+      return;
+    }
+    onChange([...value, skill]);
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) {
+      return;
+    }
+
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(activeIndex >= 0 ? suggestions[activeIndex].name : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value.length - 1);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map((skill, index) => (
+          <span
+            key={skill}
+            className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
+          >
+            {skill}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              aria-label={`${skill} 삭제`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          disabled={isFull}
+          placeholder={isFull ? `최대 ${maxTags}개까지 등록할 수 있습니다` : value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] py-1 text-sm focus:outline-none disabled:bg-transparent"
+          autoComplete="off"
+        />
+      </div>
+
+      {focused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((skill, index) => (
+            <li key={skill.id}>
+              <button
+                type="button"
+                // 누르는 동안 입력창 포커스가 빠져 목록이 닫히지 않도록
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(skill.name)}
+                className={`w-full flex justify-between px-3 py-2 text-sm text-left ${
+                  index === activeIndex ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span>{skill.name}</span>
+                <span className="text-xs text-gray-400">{skill.usageCount}명 사용</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-1 text-xs text-gray-500">Enter 또는 쉼표로 추가 ({value.length}/{maxTags})</p>
+    </div>
+  );
+}
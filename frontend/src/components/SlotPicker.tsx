@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { bookingApi } from '@/lib/api';
+import { formatDate, formatTime, toDateKey } from '@/lib/schedule';
+import { getErrorMessage } from '@/lib/utils';
+import { SessionTime } from '@/types';
+
+interface SlotPickerProps {
+  matchId: number;
+  durationMinutes: number;
+  // 일정 변경 시 현재 예약은 충돌 확인에서 제외
+  excludeBookingId?: number;
+  disabled?: boolean;
+  onSelect: (slot: SessionTime) => void;
+}
+
+// 멘토 가능 시간 중 예약 가능한 세션 시간을 날짜별로 보여주는 선택기 (브라우저 시간대 기준)
+export default function SlotPicker({ matchId, durationMinutes, excludeBookingId, disabled, onSelect }: SlotPickerProps) {
+  const [slots, setSlots] = useState<SessionTime[]>([]);
+  const [mentorTimeZone, setMentorTimeZone] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchSlots = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const data = await bookingApi.getOpenSlots(matchId, {
+        days: 14,
+        duration: durationMinutes,
+        exclude: excludeBookingId
+      });
+      setSlots(data.slots);
+      setMentorTimeZone(data.timezone);
+    } catch (error) {
+      console.error('Failed to fetch open slots:', error);
+      setError(getErrorMessage(error, '예약 가능한 시간을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId, durationMinutes, excludeBookingId]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (slots.length === 0) {
+    return <p className="text-sm text-gray-600">앞으로 2주 동안 예약 가능한 시간이 없습니다.</p>;
+  }
+
+  // 로컬 날짜별로 묶기
+  const groups = new Map<string, SessionTime[]>();
+  slots.forEach(slot => {
+    const key = toDateKey(new Date(slot.startsAt));
+    groups.set(key, [...(groups.get(key) || []), slot]);
+  });
+
+  return (
+    <div className="space-y-3">
+      {Array.from(groups.values()).map(daySlots => (
+        <div key={daySlots[0].startsAt}>
+          <p className="text-sm font-medium text-gray-700 mb-1">{formatDate(daySlots[0].startsAt)}</p>
+          <div className="flex flex-wrap gap-2">
+            {daySlots.map(slot => (
+              <button
+                key={slot.startsAt}
+                onClick={() => onSelect(slot)}
+                disabled={disabled}
+                className="px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded-md hover:bg-blue-50 disabled:opacity-50"
+              >
+                {formatTime(slot.startsAt)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {mentorTimeZone && (
+        <p className="text-xs text-gray-500">멘토 시간대: {mentorTimeZone}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+interface StarRatingProps {
+  rating: number;
+  // 지정하면 별을 눌러 평점을 고를 수 있음
+  onChange?: (rating: number) => void;
+  size?: 'sm' | 'lg';
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+// 5점 만점 별점 표시 (평균 평점은 반올림한 개수만큼 채움)
+export default function StarRating({ rating, onChange, size = 'sm' }: StarRatingProps) {
+  const filled = Math.round(rating);
+  const sizeClass = size === 'lg' ? 'text-2xl' : 'text-sm';
+
+  if (!onChange) {
+    return (
+      <span className={`${sizeClass} text-yellow-500`} aria-label={`5점 만점에 ${rating}점`}>
+        {STARS.map(star => (star <= filled ? '★' : '☆')).join('')}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${sizeClass} inline-flex`} role="radiogroup" aria-label="평점 선택">
+      {STARS.map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={star === filled}
+          aria-label={`${star}점`}
+          onClick={() => onChange(star)}
+          className={`px-0.5 ${star <= filled ? 'text-yellow-500' : 'text-gray-300'} hover:text-yellow-400`}
+        >
+          ★
+        </button>
+      ))}
+    </span>
+  );
+}
@@ -1,18 +1,39 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { User } from '@/types';
-import { authApi } from '@/lib/api';
+import { LoginErrorCode, LoginErrorResponse, User } from '@/types';
+import { authApi, onSessionExpired, tokenStorage } from '@/lib/api';
+import { restartRealtime } from '@/lib/realtime';
+
+// loading: 초기 확인 중, expired: 토큰 갱신 실패 (사용자 정보와 화면 상태는 유지)
+export type SessionStatus = 'loading' | 'authenticated' | 'expired' | 'unauthenticated';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
+  sessionStatus: SessionStatus;
   login: (email: string, password: string) => Promise<void>;
   signup: (name: string, email: string, password: string, role: 'mentor' | 'mentee') => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  clearSession: () => void;
   updateUser: (user: User) => void;
 }
 
+// 로그인 실패 사유 (잠금/대기 시간 안내용)
+export class LoginError extends Error {
+  code?: LoginErrorCode;
+  retryAfter?: number;
+  remainingAttempts?: number;
+
+  constructor(message: string, details: Partial<LoginErrorResponse> = {}) {
+    super(message);
+    this.name = 'LoginError';
+    this.code = details.code;
+    this.retryAfter = details.retryAfter;
+    this.remainingAttempts = details.remainingAttempts;
+  }
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -26,18 +47,23 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>('loading');
 
   useEffect(() => {
     const initAuth = async () => {
-      const token = localStorage.getItem('authToken');
+      const token = tokenStorage.getAccessToken();
       if (token) {
         try {
           const userData = await authApi.getMe();
           setUser(userData);
+          setSessionStatus('authenticated');
         } catch (error) {
           console.error('Failed to get user info:', error);
-          localStorage.removeItem('authToken');
+          tokenStorage.clear();
+          setSessionStatus('unauthenticated');
         }
+      } else {
+        setSessionStatus('unauthenticated');
       }
       setIsLoading(false);
     };
@@ -45,19 +71,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     initAuth();
   }, []);
 
+  // 토큰 갱신까지 실패하면 로그인 페이지로 보내지 않고 세션 만료 상태로 전환
+  useEffect(() => {
+    return onSessionExpired(() => {
+      setSessionStatus((prev) => (prev === 'authenticated' ? 'expired' : prev));
+    });
+  }, []);
+
   const login = async (email: string, password: string) => {
     try {
       const response = await authApi.login({ email, password });
       if (response.token) {
-        localStorage.setItem('authToken', response.token);
+        tokenStorage.setTokens(response);
+        restartRealtime();
         // 토큰 저장 후 사용자 정보를 별도로 조회
         const userData = await authApi.getMe();
         setUser(userData);
+        setSessionStatus('authenticated');
       } else {
         throw new Error('로그인에 실패했습니다.');
       }
     } catch (error: any) {
-      throw new Error(error.response?.data?.error || error.message || '로그인에 실패했습니다.');
+      const data: Partial<LoginErrorResponse> = error.response?.data || {};
+      throw new LoginError(data.error || error.message || '로그인에 실패했습니다.', data);
     }
   };
 
@@ -75,9 +111,30 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('authToken');
+  const logout = async () => {
+    const refreshToken = tokenStorage.getRefreshToken();
+
+    // 서버 측 세션 폐기 (실패해도 로컬 로그아웃은 진행)
+    if (refreshToken) {
+      try {
+        await authApi.logout(refreshToken);
+      } catch (error) {
+        console.error('Failed to revoke session:', error);
+      }
+    }
+
+    tokenStorage.clear();
+    restartRealtime();
+    setUser(null);
+    setSessionStatus('unauthenticated');
+  };
+
+  // 다른 기기에서 폐기된 경우 등 서버 호출 없이 로컬 상태만 정리
+  const clearSession = () => {
+    tokenStorage.clear();
+    restartRealtime();
     setUser(null);
+    setSessionStatus('unauthenticated');
   };
 
   const updateUser = (updatedUser: User) => {
@@ -87,9 +144,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     isLoading,
+    sessionStatus,
     login,
     signup,
     logout,
+    clearSession,
     updateUser,
   };
 
@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { subscribeRealtime } from '@/lib/realtime';
+import { RealtimeEvent } from '@/types';
+
+// 컴포넌트가 마운트된 동안 실시간 이벤트 구독 (handler는 매 렌더링의 최신 함수를 사용)
+export function useRealtimeEvents(handler: (event: RealtimeEvent) => void) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => subscribeRealtime((event) => handlerRef.current(event)), []);
+}
@@ -1,14 +1,50 @@
-import axios, { AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { 
   User, 
+  Mentor,
+  MentorDetail,
+  MentorPage,
+  MentorRecommendations,
+  MentorSearchParams,
   LoginRequest, 
+  LoginResponse,
   SignupRequest, 
   ProfileUpdateRequest,
   MatchingRequest,
-  MatchingRequestCreate 
+  MatchingRequestCreate,
+  MatchingRequestEvent,
+  Match,
+  Message,
+  Availability,
+  Booking,
+  OpenSlotList,
+  SessionTime,
+  MessagePage,
+  Review,
+  ReviewPage,
+  Skill,
+  Dashboard,
+  AdminUser,
+  AdminUserPage,
+  AdminUserSearchParams,
+  AdminMatchingRequest,
+  AdminMatchingRequestPage,
+  AdminResolveStatus,
+  PlatformStats,
+  AuditLogEntry,
+  AdminReport,
+  AdminReportPage,
+  BlockedUser,
+  Report,
+  ReportCreate,
+  ReportStatus,
+  MatchingStatus,
+  NotificationList,
+  Session
 } from '@/types';
+import { appConfig } from '@/lib/config';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+const API_BASE_URL = appConfig.apiUrl;
 
 const api = axios.create({
   baseURL: `${API_BASE_URL}/api`,
@@ -17,24 +53,126 @@ const api = axios.create({
   },
 });
 
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// 토큰 저장소 (localStorage)
+export const tokenStorage = {
+  getAccessToken: () => localStorage.getItem(ACCESS_TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  setTokens: (tokens: { token: string; refreshToken?: string }) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    }
+  },
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+};
+
+// 세션 만료 구독 (갱신까지 실패한 경우 AuthContext에 알림)
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const notifySessionExpired = () => {
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
 // Add auth token to requests
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
+  const token = tokenStorage.getAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Handle auth errors
+// 동시에 여러 요청이 401을 받아도 갱신은 한 번만 수행
+let refreshPromise: Promise<string> | null = null;
+
+// 탭들이 localStorage의 같은 리프레시 토큰을 공유하므로 탭 사이에서도 갱신을 하나씩 수행
+const REFRESH_LOCK_NAME = 'tortee-token-refresh';
+
+const withRefreshLock = <T>(work: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK_NAME, work)
+    : work();
+
+// 실시간 이벤트 스트림처럼 axios를 거치지 않는 요청에서도 같은 갱신 로직을 사용
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const staleRefreshToken = tokenStorage.getRefreshToken();
+    refreshPromise = withRefreshLock(async () => {
+      const refreshToken = tokenStorage.getRefreshToken();
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      // 잠금을 기다리는 동안 다른 탭이 이미 갱신했으면 저장된 새 토큰을 그대로 사용
+      const accessToken = tokenStorage.getAccessToken();
+      if (refreshToken !== staleRefreshToken && accessToken) {
+        return accessToken;
+      }
+
+      const response = await axios.post<LoginResponse>(`${API_BASE_URL}/api/token/refresh`, { refreshToken });
+      tokenStorage.setTokens(response.data);
+      return response.data.token;
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// 갱신 대상에서 제외할 인증 엔드포인트
+const AUTH_ENDPOINTS = [
+  '/login',
+  '/signup',
+  '/token/refresh',
+  '/logout',
+  '/password/forgot',
+  '/password/reset',
+  '/email/verify',
+];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Handle auth errors: 액세스 토큰 만료 시 갱신 후 원래 요청 재시도
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('authToken');
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      AUTH_ENDPOINTS.includes(originalRequest.url || '')
+    ) {
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return api(originalRequest);
+    } catch {
+      // 갱신 실패: 페이지 이동 없이 세션 만료만 알려 입력 중인 내용을 보존
+      tokenStorage.clear();
+      notifySessionExpired();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
@@ -44,8 +182,37 @@ export const authApi = {
     return response.data;
   },
 
-  login: async (data: LoginRequest): Promise<{ token: string }> => {
-    const response: AxiosResponse<{ token: string }> = await api.post('/login', data);
+  login: async (data: LoginRequest): Promise<LoginResponse> => {
+    const response: AxiosResponse<LoginResponse> = await api.post('/login', data);
+    return response.data;
+  },
+
+  refresh: async (refreshToken: string): Promise<LoginResponse> => {
+    const response: AxiosResponse<LoginResponse> = await api.post('/token/refresh', { refreshToken });
+    return response.data;
+  },
+
+  logout: async (refreshToken: string): Promise<void> => {
+    await api.post('/logout', { refreshToken });
+  },
+
+  requestPasswordReset: async (email: string): Promise<{ message: string }> => {
+    const response: AxiosResponse<{ message: string }> = await api.post('/password/forgot', { email });
+    return response.data;
+  },
+
+  resetPassword: async (token: string, password: string): Promise<{ message: string }> => {
+    const response: AxiosResponse<{ message: string }> = await api.post('/password/reset', { token, password });
+    return response.data;
+  },
+
+  requestEmailVerification: async (): Promise<{ message: string }> => {
+    const response: AxiosResponse<{ message: string }> = await api.post('/email/verification');
+    return response.data;
+  },
+
+  verifyEmail: async (token: string): Promise<{ message: string }> => {
+    const response: AxiosResponse<{ message: string }> = await api.post('/email/verify', { token });
     return response.data;
   },
 
@@ -55,6 +222,24 @@ export const authApi = {
   },
 };
 
+export const sessionApi = {
+  getSessions: async (): Promise<Session[]> => {
+    const response: AxiosResponse<Session[]> = await api.get('/sessions');
+    return response.data;
+  },
+
+  revokeSession: async (sessionId: string): Promise<void> => {
+    await api.delete(`/sessions/${sessionId}`);
+  },
+
+  revokeAllSessions: async (keepCurrent = false): Promise<{ revoked: number }> => {
+    const response: AxiosResponse<{ revoked: number }> = await api.delete('/sessions', {
+      params: { keepCurrent },
+    });
+    return response.data;
+  },
+};
+
 export const profileApi = {
   getProfile: async (): Promise<User> => {
     const response: AxiosResponse<User> = await api.get('/profile');
@@ -79,11 +264,27 @@ export const profileApi = {
 };
 
 export const mentorApi = {
-  getMentors: async (params?: { 
-    skill?: string; 
-    order_by?: 'name' | 'skill'; 
-  }): Promise<User[]> => {
-    const response: AxiosResponse<User[]> = await api.get('/mentors', { params });
+  getMentors: async (params?: MentorSearchParams): Promise<MentorPage> => {
+    const response: AxiosResponse<Mentor[]> = await api.get('/mentors', { params });
+    const total = Number(response.headers['x-total-count'] ?? response.data.length);
+    return {
+      mentors: response.data,
+      total,
+      page: Number(response.headers['x-page'] ?? 1),
+      totalPages: Number(response.headers['x-total-pages'] ?? 1),
+    };
+  },
+
+  // 멘티 전용
+  getRecommended: async (limit?: number): Promise<MentorRecommendations> => {
+    const response: AxiosResponse<MentorRecommendations> = await api.get('/mentors/recommended', {
+      params: { limit },
+    });
+    return response.data;
+  },
+
+  getMentor: async (mentorId: number): Promise<MentorDetail> => {
+    const response: AxiosResponse<MentorDetail> = await api.get(`/mentors/${mentorId}`);
     return response.data;
   },
 };
@@ -109,13 +310,238 @@ export const matchingApi = {
     return response.data;
   },
 
-  rejectRequest: async (requestId: number): Promise<MatchingRequest> => {
-    const response: AxiosResponse<MatchingRequest> = await api.put(`/match-requests/${requestId}/reject`);
+  rejectRequest: async (requestId: number, reason?: string): Promise<MatchingRequest> => {
+    const response: AxiosResponse<MatchingRequest> = await api.put(`/match-requests/${requestId}/reject`, { reason });
+    return response.data;
+  },
+
+  cancelRequest: async (requestId: number, reason?: string): Promise<MatchingRequest> => {
+    const response: AxiosResponse<MatchingRequest> = await api.delete(`/match-requests/${requestId}`, {
+      data: { reason },
+    });
+    return response.data;
+  },
+
+  completeRequest: async (requestId: number): Promise<MatchingRequest> => {
+    const response: AxiosResponse<MatchingRequest> = await api.put(`/match-requests/${requestId}/complete`);
+    return response.data;
+  },
+
+  getHistory: async (requestId: number): Promise<MatchingRequestEvent[]> => {
+    const response: AxiosResponse<MatchingRequestEvent[]> = await api.get(`/match-requests/${requestId}/history`);
+    return response.data;
+  },
+};
+
+export const notificationApi = {
+  getNotifications: async (params?: { unread?: boolean; limit?: number; before?: number }): Promise<NotificationList> => {
+    const response: AxiosResponse<NotificationList> = await api.get('/notifications', { params });
+    return response.data;
+  },
+
+  markRead: async (notificationId: number): Promise<void> => {
+    await api.put(`/notifications/${notificationId}/read`);
+  },
+
+  markAllRead: async (): Promise<{ updated: number }> => {
+    const response: AxiosResponse<{ updated: number }> = await api.put('/notifications/read-all');
+    return response.data;
+  },
+};
+
+// 매칭된 멘토-멘티 간 메시지 API
+export const messageApi = {
+  getMatch: async (matchId: number): Promise<Match> => {
+    const response: AxiosResponse<Match> = await api.get(`/matches/${matchId}`);
+    return response.data;
+  },
+
+  getMessages: async (matchId: number, params?: { before?: number; limit?: number }): Promise<MessagePage> => {
+    const response: AxiosResponse<MessagePage> = await api.get(`/matches/${matchId}/messages`, { params });
+    return response.data;
+  },
+
+  sendMessage: async (matchId: number, body: string): Promise<Message> => {
+    const response: AxiosResponse<Message> = await api.post(`/matches/${matchId}/messages`, { body });
+    return response.data;
+  },
+
+  markRead: async (matchId: number, upToId?: number): Promise<{ updated: number }> => {
+    const response: AxiosResponse<{ updated: number }> = await api.put(`/matches/${matchId}/messages/read`, { upToId });
+    return response.data;
+  },
+};
+
+// 멘토 주간 가능 시간 API
+export const availabilityApi = {
+  getAvailability: async (mentorId: number): Promise<Availability> => {
+    const response: AxiosResponse<Availability> = await api.get(`/mentors/${mentorId}/availability`);
+    return response.data;
+  },
+
+  // 멘토 전용: 시간대와 가능 시간 전체를 교체
+  updateMyAvailability: async (availability: Availability): Promise<Availability> => {
+    const response: AxiosResponse<Availability> = await api.put('/me/availability', availability);
+    return response.data;
+  },
+};
+
+// 멘토링 세션 예약 API
+export const bookingApi = {
+  getOpenSlots: async (
+    matchId: number,
+    params?: { from?: string; days?: number; duration?: number; exclude?: number }
+  ): Promise<OpenSlotList> => {
+    const response: AxiosResponse<OpenSlotList> = await api.get(`/matches/${matchId}/slots`, { params });
+    return response.data;
+  },
+
+  getMatchBookings: async (matchId: number): Promise<Booking[]> => {
+    const response: AxiosResponse<Booking[]> = await api.get(`/matches/${matchId}/bookings`);
+    return response.data;
+  },
+
+  getBookings: async (params?: { from?: string; to?: string; includeCancelled?: boolean }): Promise<Booking[]> => {
+    const response: AxiosResponse<Booking[]> = await api.get('/bookings', { params });
+    return response.data;
+  },
+
+  // 멘티 전용
+  createBooking: async (matchId: number, data: SessionTime & { note?: string }): Promise<Booking> => {
+    const response: AxiosResponse<Booking> = await api.post(`/matches/${matchId}/bookings`, data);
+    return response.data;
+  },
+
+  rescheduleBooking: async (bookingId: number, time: SessionTime): Promise<Booking> => {
+    const response: AxiosResponse<Booking> = await api.put(`/bookings/${bookingId}/reschedule`, time);
+    return response.data;
+  },
+
+  cancelBooking: async (bookingId: number, reason?: string): Promise<Booking> => {
+    const response: AxiosResponse<Booking> = await api.put(`/bookings/${bookingId}/cancel`, { reason });
+    return response.data;
+  },
+
+  // iCalendar(.ics) 파일 (bookingId가 없으면 전체 예약)
+  downloadCalendar: async (bookingId?: number): Promise<Blob> => {
+    const url = bookingId ? `/bookings/${bookingId}/ics` : '/bookings/calendar.ics';
+    const response: AxiosResponse<Blob> = await api.get(url, { responseType: 'blob' });
+    return response.data;
+  },
+};
+
+// 멘토 리뷰 API
+export const reviewApi = {
+  getMentorReviews: async (mentorId: number, params?: { before?: number; limit?: number }): Promise<ReviewPage> => {
+    const response: AxiosResponse<ReviewPage> = await api.get(`/mentors/${mentorId}/reviews`, { params });
+    return response.data;
+  },
+
+  // 아직 작성되지 않았으면 null
+  getMatchReview: async (matchId: number): Promise<Review | null> => {
+    const response: AxiosResponse<{ review: Review | null }> = await api.get(`/matches/${matchId}/review`);
+    return response.data.review;
+  },
+
+  // 멘티 전용
+  createReview: async (matchId: number, data: { rating: number; body: string }): Promise<Review> => {
+    const response: AxiosResponse<Review> = await api.post(`/matches/${matchId}/review`, data);
+    return response.data;
+  },
+
+  // 멘토 전용
+  respondToReview: async (reviewId: number, responseText: string): Promise<Review> => {
+    const response: AxiosResponse<Review> = await api.put(`/reviews/${reviewId}/response`, { response: responseText });
+    return response.data;
+  },
+};
+
+// 기술 스택 API
+export const skillApi = {
+  // 자동완성 (q가 없으면 많이 쓰이는 기술 순)
+  search: async (params?: { q?: string; limit?: number }): Promise<Skill[]> => {
+    const response: AxiosResponse<Skill[]> = await api.get('/skills', { params });
+    return response.data;
+  },
+};
+
+// 대시보드 API
+export const dashboardApi = {
+  // 로그인한 사용자의 역할에 맞는 대시보드
+  get: async (): Promise<Dashboard> => {
+    const response: AxiosResponse<Dashboard> = await api.get('/dashboard');
+    return response.data;
+  },
+};
+
+export const blockApi = {
+  getBlocks: async (): Promise<BlockedUser[]> => {
+    const response: AxiosResponse<BlockedUser[]> = await api.get('/blocks');
+    return response.data;
+  },
+
+  block: async (userId: number): Promise<BlockedUser> => {
+    const response: AxiosResponse<BlockedUser> = await api.post('/blocks', { userId });
+    return response.data;
+  },
+
+  unblock: async (userId: number): Promise<void> => {
+    await api.delete(`/blocks/${userId}`);
+  },
+};
+
+export const reportApi = {
+  create: async (data: ReportCreate): Promise<Report> => {
+    const response: AxiosResponse<Report> = await api.post('/reports', data);
+    return response.data;
+  },
+};
+
+export const adminApi = {
+  getStats: async (): Promise<PlatformStats> => {
+    const response: AxiosResponse<PlatformStats> = await api.get('/admin/stats');
+    return response.data;
+  },
+
+  getUsers: async (params: AdminUserSearchParams = {}): Promise<AdminUserPage> => {
+    const response: AxiosResponse<AdminUserPage> = await api.get('/admin/users', { params });
+    return response.data;
+  },
+
+  suspendUser: async (userId: number, reason: string): Promise<AdminUser> => {
+    const response: AxiosResponse<AdminUser> = await api.post(`/admin/users/${userId}/suspend`, { reason });
+    return response.data;
+  },
+
+  unsuspendUser: async (userId: number): Promise<AdminUser> => {
+    const response: AxiosResponse<AdminUser> = await api.post(`/admin/users/${userId}/unsuspend`);
+    return response.data;
+  },
+
+  getRequests: async (params: { status?: MatchingStatus; userId?: number; page?: number; limit?: number } = {}): Promise<AdminMatchingRequestPage> => {
+    const response: AxiosResponse<AdminMatchingRequestPage> = await api.get('/admin/match-requests', { params });
+    return response.data;
+  },
+
+  // 당사자 대신 요청 상태 변경 (사유 필수)
+  resolveRequest: async (requestId: number, status: AdminResolveStatus, reason: string): Promise<AdminMatchingRequest> => {
+    const response: AxiosResponse<AdminMatchingRequest> = await api.post(`/admin/match-requests/${requestId}/resolve`, { status, reason });
+    return response.data;
+  },
+
+  getReports: async (params: { status?: ReportStatus; page?: number; limit?: number } = {}): Promise<AdminReportPage> => {
+    const response: AxiosResponse<AdminReportPage> = await api.get('/admin/reports', { params });
+    return response.data;
+  },
+
+  // 신고 처리 (resolved: 조치함, dismissed: 기각)
+  resolveReport: async (reportId: number, status: Exclude<ReportStatus, 'open'>, note?: string): Promise<AdminReport> => {
+    const response: AxiosResponse<AdminReport> = await api.post(`/admin/reports/${reportId}/resolve`, { status, note });
     return response.data;
   },
 
-  cancelRequest: async (requestId: number): Promise<MatchingRequest> => {
-    const response: AxiosResponse<MatchingRequest> = await api.delete(`/match-requests/${requestId}`);
+  getAuditLog: async (params?: { targetType?: AuditLogEntry['targetType']; targetId?: number; before?: number; limit?: number }): Promise<AuditLogEntry[]> => {
+    const response: AxiosResponse<AuditLogEntry[]> = await api.get('/admin/audit-log', { params });
     return response.data;
   },
 };
@@ -0,0 +1,54 @@
+// 프론트엔드 런타임 설정 (NEXT_PUBLIC_* 환경변수, 빌드 시 주입)
+// 백엔드 config 모듈의 upload, matching 설정과 같은 값을 사용해야 합니다.
+
+export interface AppConfig {
+  apiUrl: string;
+  upload: {
+    maxImageBytes: number;
+    minImageDimension: number;
+    maxImageDimension: number;
+    allowedImageTypes: string[];
+  };
+  matching: {
+    maxMenteesLimit: number;
+  };
+}
+
+const parseIntSetting = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid configuration: ${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseUrlSetting = (name: string, value: string | undefined, fallback: string): string => {
+  const url = value || fallback;
+  try {
+    new URL(url);
+  } catch {
+    throw new Error(`Invalid configuration: ${name} must be a valid URL, got "${url}"`);
+  }
+  return url.replace(/\/$/, '');
+};
+
+// Next.js는 process.env.NEXT_PUBLIC_* 를 정적으로 치환하므로 키를 직접 참조
+export const appConfig: AppConfig = {
+  apiUrl: parseUrlSetting('NEXT_PUBLIC_API_URL', process.env.NEXT_PUBLIC_API_URL, 'http://localhost:8080'),
+  upload: {
+    maxImageBytes: parseIntSetting('NEXT_PUBLIC_UPLOAD_MAX_IMAGE_BYTES', process.env.NEXT_PUBLIC_UPLOAD_MAX_IMAGE_BYTES, 1024 * 1024),
+    minImageDimension: parseIntSetting('NEXT_PUBLIC_IMAGE_MIN_DIMENSION', process.env.NEXT_PUBLIC_IMAGE_MIN_DIMENSION, 500),
+    maxImageDimension: parseIntSetting('NEXT_PUBLIC_IMAGE_MAX_DIMENSION', process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION, 1000),
+    allowedImageTypes: ['image/png', 'image/jpg', 'image/jpeg'],
+  },
+  matching: {
+    maxMenteesLimit: parseIntSetting('NEXT_PUBLIC_MATCHING_MAX_MENTEES_LIMIT', process.env.NEXT_PUBLIC_MATCHING_MAX_MENTEES_LIMIT, 10),
+  },
+};
+
+if (appConfig.upload.minImageDimension > appConfig.upload.maxImageDimension) {
+  throw new Error('Invalid configuration: NEXT_PUBLIC_IMAGE_MIN_DIMENSION must not exceed NEXT_PUBLIC_IMAGE_MAX_DIMENSION');
+}
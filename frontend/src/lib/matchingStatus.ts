@@ -0,0 +1,26 @@
+import { MatchingStatus } from '@/types';
+
+// 매칭 요청 상태별 표시 텍스트와 배지 색상
+export const MATCHING_STATUS_LABELS: Record<MatchingStatus, string> = {
+  pending: '대기중',
+  accepted: '수락됨',
+  rejected: '거절됨',
+  cancelled: '취소됨',
+  expired: '만료됨',
+  completed: '완료됨',
+};
+
+export const MATCHING_STATUS_COLORS: Record<MatchingStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  expired: 'bg-orange-100 text-orange-800',
+  completed: 'bg-blue-100 text-blue-800',
+};
+
+export const getStatusText = (status: string): string =>
+  MATCHING_STATUS_LABELS[status as MatchingStatus] ?? status;
+
+export const getStatusColor = (status: string): string =>
+  MATCHING_STATUS_COLORS[status as MatchingStatus] ?? 'bg-gray-100 text-gray-800';
@@ -0,0 +1,18 @@
+import { MentorDetail, MentorStats } from '@/types';
+
+// 응답 시간 표시 (예: '1시간 이내', '5시간', '2일')
+export const formatResponseTime = (hours: number): string => {
+  if (hours < 1) return '1시간 이내';
+  if (hours < 24) return `${Math.round(hours)}시간`;
+  return `${Math.round(hours / 24)}일`;
+};
+
+export const formatAcceptanceRate = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+// GET /mentors/:id 응답의 통계 → 목록 응답과 같은 형식
+export const toMentorStats = (stats: MentorDetail['stats']): MentorStats => ({
+  medianResponseHours: stats.median_response_hours,
+  acceptanceRate: stats.acceptance_rate,
+  activeMentees: stats.active_mentees,
+  decidedRequests: stats.decided_requests,
+});
@@ -0,0 +1,212 @@
+import { appConfig } from '@/lib/config';
+import { refreshAccessToken, tokenStorage } from '@/lib/api';
+import { RealtimeEvent } from '@/types';
+
+// 실시간 이벤트 스트림 (/api/events, Server-Sent Events)
+// EventSource는 Authorization 헤더를 보낼 수 없어 fetch 스트림으로 연결한다.
+// 탭당 연결은 하나만 열고 구독자들이 공유하며, 구독자가 모두 해제되면 연결을 닫는다.
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+// 스트림을 연 토큰의 유효시간 80% 지점에서 미리 갱신하고 다시 연결
+// 탭들이 같은 토큰을 쓰므로 만료 순간 모든 탭이 함께 401을 받고 갱신하지 않도록 지터를 더함
+const REFRESH_AHEAD_RATIO = 0.8;
+const RECONNECT_JITTER_MS = 5 * 1000;
+
+const EVENT_TYPES: RealtimeEvent['type'][] = ['ready', 'request.updated', 'notification', 'message.created', 'messages.read', 'booking.updated'];
+
+const listeners = new Set<RealtimeListener>();
+let controller: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// 현재 스트림을 연 액세스 토큰
+let streamToken: string | null = null;
+let retryDelay = INITIAL_RETRY_MS;
+// 한 번이라도 연결된 뒤의 ready는 재연결을 뜻함 (끊긴 동안 놓친 이벤트를 다시 조회하도록 전달)
+let hasConnected = false;
+
+const dispatch = (event: RealtimeEvent) => {
+  if (event.type === 'ready') {
+    scheduleTokenRefresh(event.data.expiresIn);
+    const reconnected = hasConnected;
+    hasConnected = true;
+    if (!reconnected) return;
+  }
+  listeners.forEach((listener) => listener(event));
+};
+
+// "event: ...\ndata: ..." 블록 하나를 이벤트로 변환 (주석, retry 등은 무시)
+const parseBlock = (block: string): RealtimeEvent | null => {
+  let type = '';
+  const dataLines: string[] = [];
+
+  block.split('\n').forEach((line) => {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  });
+
+  if (!EVENT_TYPES.includes(type as RealtimeEvent['type']) || dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { type, data: JSON.parse(dataLines.join('\n')) } as RealtimeEvent;
+  } catch {
+    return null;
+  }
+};
+
+const readStream = async (body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) dispatch(event);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+};
+
+const jitter = () => Math.random() * RECONNECT_JITTER_MS;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+// 만료 전에 토큰을 갱신하고 새 토큰으로 다시 연결 (다른 탭이 이미 갱신했으면 저장된 토큰으로 연결만 함)
+const refreshAndReconnect = async () => {
+  refreshTimer = null;
+
+  try {
+    if (tokenStorage.getAccessToken() === streamToken) {
+      await refreshAccessToken();
+    }
+  } catch {
+    // 갱신에 실패하면 지금 스트림을 유지 (만료 시 서버가 닫으면 401 처리 흐름을 따름)
+    return;
+  }
+
+  if (listeners.size === 0) return;
+  controller?.abort();
+  controller = null;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  connect();
+};
+
+const scheduleTokenRefresh = (expiresIn: number | null) => {
+  clearRefreshTimer();
+  if (expiresIn === null) return;
+  refreshTimer = setTimeout(refreshAndReconnect, expiresIn * 1000 * REFRESH_AHEAD_RATIO + jitter());
+};
+
+const scheduleReconnect = (delay: number) => {
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+};
+
+const connect = async () => {
+  const token = tokenStorage.getAccessToken();
+  if (!token || listeners.size === 0) {
+    return;
+  }
+
+  const current = new AbortController();
+  controller = current;
+  streamToken = token;
+  let nextDelay = retryDelay;
+
+  try {
+    const response = await fetch(`${appConfig.apiUrl}/api/events`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+      signal: current.signal,
+    });
+
+    if (response.status === 401) {
+      // 액세스 토큰 만료: 갱신 후 바로 다시 연결
+      // 갱신에 실패하면 재연결하지 않음 (세션 만료 안내는 API 요청 쪽에서 처리, 다시 로그인하면 restartRealtime)
+      try {
+        await refreshAccessToken();
+      } catch {
+        controller = null;
+        return;
+      }
+      nextDelay = 0;
+    } else if (!response.ok || !response.body) {
+      throw new Error(`Event stream responded with ${response.status}`);
+    } else {
+      retryDelay = INITIAL_RETRY_MS;
+      // 서버가 스트림을 닫으면(토큰 만료 등) 반환되고 아래에서 다시 연결 (탭마다 시점이 겹치지 않도록 지터)
+      await readStream(response.body);
+      nextDelay = jitter();
+    }
+  } catch (error) {
+    if (current.signal.aborted) return;
+    console.error('Realtime connection error:', error);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+  }
+
+  if (controller === current) {
+    clearRefreshTimer();
+    if (listeners.size > 0) {
+      controller = null;
+      scheduleReconnect(nextDelay);
+    }
+  }
+};
+
+const disconnect = () => {
+  controller?.abort();
+  controller = null;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  clearRefreshTimer();
+  retryDelay = INITIAL_RETRY_MS;
+  hasConnected = false;
+};
+
+/**
+ * 실시간 이벤트 구독 (첫 구독자가 생기면 연결)
+ * ready 이벤트는 재연결된 경우에만 전달되며, 끊긴 동안의 변경을 다시 조회하는 데 사용한다.
+ * @returns 구독 해제 함수
+ */
+export const subscribeRealtime = (listener: RealtimeListener) => {
+  listeners.add(listener);
+  if (!controller && !reconnectTimer) {
+    connect();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+};
+
+// 로그인/로그아웃으로 토큰이 바뀌면 기존 연결을 닫고 (구독자가 있으면) 새 토큰으로 다시 연결
+export const restartRealtime = () => {
+  disconnect();
+  connect();
+};
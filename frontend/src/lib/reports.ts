@@ -0,0 +1,16 @@
+import { ReportCategory, ReportStatus } from '@/types';
+
+// 신고 사유 분류별 표시 텍스트
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  spam: '스팸/광고',
+  harassment: '괴롭힘/욕설',
+  inappropriate: '부적절한 내용',
+  fake_profile: '허위 프로필',
+  other: '기타',
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: '검토 대기',
+  resolved: '조치함',
+  dismissed: '기각',
+};
@@ -0,0 +1,12 @@
+import { UserRole } from '@/types';
+
+// 사용자 역할별 표시 텍스트
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  mentor: '멘토',
+  mentee: '멘티',
+  admin: '관리자',
+};
+
+// 로그인한 사용자의 첫 화면 (관리자는 관리자 콘솔, 멘토/멘티는 역할별 대시보드)
+export const getHomePath = (role: UserRole): string =>
+  role === 'admin' ? '/admin' : '/dashboard';
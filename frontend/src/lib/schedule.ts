@@ -0,0 +1,59 @@
+// 세션 예약 화면 공용 헬퍼 (시간은 모두 브라우저 시간대 기준으로 표시)
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// 선택 가능한 IANA 시간대 목록 (지원하지 않는 브라우저는 현재 시간대만)
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [getBrowserTimeZone()];
+};
+
+// 로컬 날짜 키 ('YYYY-MM-DD')
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// 해당 날짜가 속한 주의 일요일 0시 (로컬)
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const formatTime = (value: string): string =>
+  new Date(value).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+
+// 예: 10월 20일 (화)
+export const formatDate = (value: string | Date): string => {
+  const date = new Date(value);
+  return `${date.getMonth() + 1}월 ${date.getDate()}일 (${WEEKDAY_LABELS[date.getDay()]})`;
+};
+
+export const formatTimeRange = (startsAt: string, endsAt: string): string =>
+  `${formatTime(startsAt)} ~ ${formatTime(endsAt)}`;
+
+export const getDurationMinutes = (startsAt: string, endsAt: string): number =>
+  Math.round((new Date(endsAt).getTime() - new Date(startsAt).getTime()) / 60000);
+
+// Blob을 파일로 내려받기
+export const downloadFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
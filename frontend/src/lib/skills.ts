@@ -0,0 +1,32 @@
+import { SkillDetail, SkillLevel, UserProfile } from '@/types';
+
+// 기술 숙련도 (낮은 순) 표시 텍스트
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: '입문',
+  intermediate: '중급',
+  advanced: '고급',
+  expert: '전문가',
+};
+
+export const SKILL_LEVELS = Object.keys(SKILL_LEVEL_LABELS) as SkillLevel[];
+
+// 예: 'React · 전문가 · 7년' (입력하지 않은 항목은 생략)
+export const formatSkillDetail = (skill: SkillDetail): string =>
+  [
+    skill.name,
+    skill.level && SKILL_LEVEL_LABELS[skill.level],
+    skill.yearsOfExperience !== null && `${skill.yearsOfExperience}년`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// 태그 입력의 이름 목록에 맞춰 항목 목록 갱신 (남은 항목의 입력값은 유지, 새 이름은 create로 생성)
+export const syncByName = <T extends { name: string }>(
+  items: T[],
+  names: string[],
+  create: (name: string) => T
+): T[] => names.map(name => items.find(item => item.name === name) ?? create(name));
+
+// 숙련도 정보가 없는 응답은 이름만 있는 항목으로 취급
+export const getSkillDetails = (profile: UserProfile): SkillDetail[] =>
+  profile.skillDetails ?? (profile.skills ?? []).map(name => ({ name, level: null, yearsOfExperience: null }));
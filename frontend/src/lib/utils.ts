@@ -0,0 +1,32 @@
+import { isAxiosError } from 'axios';
+
+// API 오류 응답의 error 필드를 우선으로 사용자에게 보여줄 메시지 추출
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (isAxiosError(error)) {
+    return error.response?.data?.error || error.message || fallback;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+// API 오류 응답의 code 필드 (예: REQUEST_CONFLICT, MENTOR_AT_CAPACITY)
+export const getErrorCode = (error: unknown): string | undefined =>
+  isAxiosError(error) ? error.response?.data?.code : undefined;
+
+// 다른 사용자/기기에서 먼저 처리되어 상태가 바뀐 경우 (409 Conflict)
+export const isConflictError = (error: unknown): boolean =>
+  isAxiosError(error) && error.response?.status === 409;
+
+// 없거나 볼 수 없는 리소스 (404 Not Found)
+export const isNotFoundError = (error: unknown): boolean =>
+  isAxiosError(error) && error.response?.status === 404;
+
+// SQLite CURRENT_TIMESTAMP('YYYY-MM-DD HH:MM:SS', UTC) 또는 ISO 문자열을 Date로 변환
+export const parseServerDate = (value: string): Date => {
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+    return new Date(value.replace(' ', 'T') + 'Z');
+  }
+  return new Date(value);
+};
+
+export const formatDateTime = (value: string): string =>
+  parseServerDate(value).toLocaleString('ko-KR');
@@ -3,34 +3,557 @@ export interface UserProfile {
   bio: string;
   imageUrl: string;
   skills?: string[];
+  // 기술별 숙련도/경력 (멘토만, skills와 같은 순서)
+  skillDetails?: SkillDetail[];
+  // 배우고 싶은 기술 (멘티만)
+  learningGoals?: LearningGoal[];
+  maxMentees?: number;
 }
 
+export type UserRole = 'mentor' | 'mentee' | 'admin';
+
 export interface User {
   id: number;
   email: string;
-  role: 'mentor' | 'mentee';
+  role: UserRole;
+  emailVerified?: boolean;
   profile: UserProfile;
 }
 
 export interface Mentor extends User {
   role: 'mentor';
   profile: UserProfile & { skills: string[] };
+  // 남은 멘티 자리 수 (0이면 정원 마감)
+  availableSlots: number;
+  // 리뷰 평균 평점 (리뷰가 없으면 null)
+  averageRating?: number | null;
+  reviewCount?: number;
+  stats?: MentorStats;
+}
+
+// 멘토 요청 처리 통계 (처리한 요청이 없으면 응답 시간과 수락률은 null)
+export interface MentorStats {
+  // 요청을 받고 수락/거절하기까지 걸린 시간의 중앙값
+  medianResponseHours: number | null;
+  // 0 ~ 1 (응답했거나 응답 없이 만료된 요청 기준)
+  acceptanceRate: number | null;
+  activeMentees: number;
+  // 통계에 반영된 요청 수
+  decidedRequests: number;
+}
+
+// GET /mentors 조회 조건
+export interface MentorSearchParams {
+  skill?: string;
+  // 쉼표로 구분한 기술 스택 (정확히 일치)
+  skills?: string;
+  skill_match?: 'any' | 'all';
+  // 이름/자기소개 키워드
+  q?: string;
+  order_by?: 'name' | 'skill' | 'rating' | 'relevance';
+  order?: 'asc' | 'desc';
+  available?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// 페이지 정보는 응답 헤더(X-Total-Count 등)로 전달됨
+export interface MentorPage {
+  mentors: Mentor[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+// 추천 이유 (code별로 해당 값만 포함)
+export interface RecommendationReason {
+  code: 'SKILL_MATCH' | 'SIMILAR_PROFILE' | 'RESPONSIVE' | 'HAS_CAPACITY';
+  // SKILL_MATCH: 학습 목표와 일치하는 기술
+  skills?: string[];
+  // SIMILAR_PROFILE: 자기소개에 함께 나온 단어
+  terms?: string[];
+  // RESPONSIVE: 응답률(0 ~ 1)과 응답 시간 중앙값
+  responseRate?: number;
+  medianResponseHours?: number | null;
+  // HAS_CAPACITY: 남은 자리 수
+  availableSlots?: number;
+}
+
+export interface MentorRecommendation {
+  mentor: Mentor;
+  // 추천 점수 (0 ~ 100)
+  score: number;
+  // 항목별 점수 (0 ~ 100)
+  breakdown: { skills: number; text: number; capacity: number; response: number };
+  reasons: RecommendationReason[];
+}
+
+export interface MentorRecommendations {
+  // false면 학습 목표와 자기소개가 없어 남은 자리와 응답 이력만 반영한 결과
+  personalized: boolean;
+  recommendations: MentorRecommendation[];
+}
+
+// GET /mentors/:id 응답 (공개 멘토 프로필, 백엔드 필드명 그대로)
+export interface MentorDetail {
+  id: number;
+  name: string;
+  bio: string;
+  skillsets: string[];
+  skill_details: { name: string; level: SkillLevel | null; years_of_experience: number | null }[];
+  profile_image_url: string;
+  max_mentees: number;
+  available_slots: number;
+  average_rating: number | null;
+  review_count: number;
+  stats: {
+    median_response_hours: number | null;
+    acceptance_rate: number | null;
+    active_mentees: number;
+    decided_requests: number;
+  };
+  created_at: string;
 }
 
 export interface Mentee extends User {
   role: 'mentee';
 }
 
+export type MatchingStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired' | 'completed';
+
 export interface MatchingRequest {
   id: number;
   menteeId: number;
   mentorId: number;
   message: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
+  status: MatchingStatus;
+  statusReason?: string | null;
+  createdAt?: string;
+  // 대기 중인 요청이 자동으로 만료되는 시각 (대기 중이 아니면 null)
+  expiresAt?: string | null;
   mentee_name?: string;
   mentor_name?: string;
 }
 
+export interface MatchingRequestEvent {
+  id: number;
+  fromStatus: MatchingStatus | null;
+  toStatus: MatchingStatus;
+  actorId: number | null;
+  actorName: string | null;
+  actorRole: 'mentor' | 'mentee' | 'system' | 'admin';
+  reason: string | null;
+  createdAt: string;
+}
+
+export type NotificationType =
+  | 'request_received'
+  | 'request_accepted'
+  | 'request_rejected'
+  | 'request_cancelled'
+  | 'request_expired'
+  | 'request_completed'
+  | 'booking_created'
+  | 'booking_rescheduled'
+  | 'booking_cancelled'
+  | 'review_received'
+  | 'review_responded';
+
+// 브라우저 내장 Notification과 이름이 겹치지 않도록 UserNotification으로 정의
+export interface UserNotification {
+  id: number;
+  type: NotificationType;
+  requestId: number | null;
+  actorId: number | null;
+  actorName: string | null;
+  data: {
+    reason?: string;
+    bookingId?: number;
+    startsAt?: string;
+    previousStartsAt?: string;
+    reviewId?: number;
+    rating?: number;
+    // 관리자가 당사자 대신 요청 상태를 바꾼 경우
+    byAdmin?: boolean;
+  } | null;
+  read: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationList {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+// 수락(또는 완료)된 매칭 요청 = 멘토와 멘티의 대화방
+export interface Match {
+  id: number;
+  status: MatchingStatus;
+  mentorId: number;
+  mentorName: string | null;
+  menteeId: number;
+  menteeName: string | null;
+  message: string;
+  unreadCount: number;
+  createdAt: string;
+}
+
+export interface Message {
+  id: number;
+  requestId: number;
+  senderId: number;
+  senderName: string | null;
+  body: string;
+  // 상대방이 읽은 시각
+  readAt: string | null;
+  createdAt: string;
+}
+
+// 메시지는 오래된 순으로 정렬, hasMore는 더 이전 메시지가 있는지 여부
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// 매칭이 끝난 멘티가 멘토에게 남기는 리뷰 (매칭당 하나)
+export interface Review {
+  id: number;
+  requestId: number;
+  mentorId: number;
+  menteeId: number;
+  menteeName: string | null;
+  rating: number;
+  body: string;
+  mentorResponse: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+export interface ReviewSummary {
+  averageRating: number | null;
+  reviewCount: number;
+  // 평점(1~5)별 리뷰 수
+  distribution: Record<string, number>;
+}
+
+export interface ReviewPage {
+  summary: ReviewSummary;
+  reviews: Review[];
+  hasMore: boolean;
+}
+
+// 기술 스택 (별칭은 대표 이름으로 합쳐짐)
+export interface Skill {
+  id: number;
+  name: string;
+  // 이 기술을 등록한 사용자 수
+  usageCount: number;
+}
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export interface SkillDetail {
+  name: string;
+  level: SkillLevel | null;
+  yearsOfExperience: number | null;
+}
+
+export interface LearningGoal {
+  name: string;
+  // 현재 수준
+  currentLevel: SkillLevel | null;
+}
+
+// 멘토 주간 가능 시간 (startTime/endTime은 멘토 시간대 기준 'HH:MM')
+export interface AvailabilitySlot {
+  id?: number;
+  // 0(일) ~ 6(토)
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface Availability {
+  // IANA 시간대 (예: Asia/Seoul)
+  timezone: string;
+  slots: AvailabilitySlot[];
+}
+
+// 세션 시작/종료 시각 (UTC ISO 문자열)
+export interface SessionTime {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface OpenSlotList {
+  // 멘토 시간대
+  timezone: string;
+  slots: SessionTime[];
+}
+
+export type BookingStatus = 'scheduled' | 'cancelled';
+
+export interface Booking extends SessionTime {
+  id: number;
+  requestId: number;
+  mentorId: number;
+  mentorName: string | null;
+  menteeId: number;
+  menteeName: string | null;
+  status: BookingStatus;
+  note: string | null;
+  cancelledBy: number | null;
+  cancelReason: string | null;
+  createdAt: string;
+}
+
+// GET /dashboard: 역할별 대시보드
+export interface DashboardSession extends SessionTime {
+  id: number;
+  requestId: number;
+  // 상대방 (멘토는 멘티, 멘티는 멘토)
+  partnerId: number;
+  partnerName: string | null;
+}
+
+// 진행 중인 매칭
+export interface DashboardMatch {
+  requestId: number;
+  partnerId: number;
+  partnerName: string | null;
+  unreadMessages: number;
+  // 다음 예약 시작 시각 (예약이 없으면 null)
+  nextSessionAt: string | null;
+}
+
+export interface MentorDashboard {
+  role: 'mentor';
+  unreadNotifications: number;
+  upcomingSessions: DashboardSession[];
+  pendingRequests: {
+    count: number;
+    // 만료가 가까운 순
+    oldest: {
+      id: number;
+      menteeId: number;
+      menteeName: string | null;
+      message: string;
+      createdAt: string;
+      expiresAt: string | null;
+    }[];
+  };
+  mentees: DashboardMatch[];
+  capacity: { activeMentees: number; maxMentees: number };
+  stats: MentorStats & { averageRating: number | null; reviewCount: number };
+}
+
+export type NextStepCode =
+  | 'READ_MESSAGES'
+  | 'BOOK_SESSION'
+  | 'WRITE_REVIEW'
+  | 'WAITING_FOR_RESPONSE'
+  | 'FIND_MENTOR'
+  | 'SET_LEARNING_GOALS'
+  | 'COMPLETE_PROFILE';
+
+export interface NextStep {
+  code: NextStepCode;
+  // 특정 매칭 요청에 대한 제안일 때만
+  requestId?: number;
+}
+
+export interface MenteeDashboard {
+  role: 'mentee';
+  unreadNotifications: number;
+  upcomingSessions: DashboardSession[];
+  requests: {
+    counts: Record<MatchingStatus, number>;
+    recent: {
+      id: number;
+      mentorId: number;
+      mentorName: string | null;
+      status: MatchingStatus;
+      createdAt: string;
+      expiresAt: string | null;
+    }[];
+  };
+  mentors: DashboardMatch[];
+  // 우선순위 순
+  nextSteps: NextStep[];
+}
+
+export type Dashboard = MentorDashboard | MenteeDashboard;
+
+export interface BlockedUser {
+  userId: number;
+  name: string | null;
+  role: UserRole;
+  // 차단한 시각
+  createdAt: string;
+}
+
+export type ReportCategory = 'spam' | 'harassment' | 'inappropriate' | 'fake_profile' | 'other';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+// 사용자 자체를 신고하면 reportedUserId, 매칭 요청을 신고하면 requestId (상대방이 신고 대상)
+export interface ReportCreate {
+  reportedUserId?: number;
+  requestId?: number;
+  category: ReportCategory;
+  description?: string;
+}
+
+export interface Report {
+  id: number;
+  reportedUserId: number;
+  requestId: number | null;
+  category: ReportCategory;
+  description: string | null;
+  status: ReportStatus;
+  createdAt: string;
+}
+
+export interface AdminUser {
+  id: number;
+  email: string;
+  role: UserRole;
+  name: string;
+  emailVerified: boolean;
+  // 정지되지 않은 계정은 null
+  suspendedAt: string | null;
+  suspensionReason: string | null;
+  createdAt: string;
+}
+
+export interface AdminUserPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface AdminUserSearchParams {
+  q?: string;
+  role?: UserRole;
+  status?: 'active' | 'suspended';
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminMatchingRequest {
+  id: number;
+  menteeId: number;
+  menteeName: string | null;
+  mentorId: number;
+  mentorName: string | null;
+  message: string;
+  status: MatchingStatus;
+  statusReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface AdminMatchingRequestPage {
+  requests: AdminMatchingRequest[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface AdminReport extends Report {
+  reporterId: number;
+  reporterName: string | null;
+  reportedUserName: string | null;
+  // 신고된 사용자가 정지되지 않았으면 null
+  reportedUserSuspendedAt: string | null;
+  resolvedBy: number | null;
+  resolvedByName: string | null;
+  resolvedAt: string | null;
+  resolutionNote: string | null;
+}
+
+export interface AdminReportPage {
+  reports: AdminReport[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+// 관리자가 강제로 바꿀 수 있는 상태
+export type AdminResolveStatus = 'rejected' | 'cancelled' | 'completed';
+
+export interface PlatformStats {
+  users: {
+    total: number;
+    byRole: Record<UserRole, number>;
+    suspended: number;
+  };
+  matchingRequests: Record<MatchingStatus, number>;
+  upcomingSessions: number;
+  reviews: {
+    count: number;
+    averageRating: number | null;
+  };
+  // 검토 대기 중인 신고 수
+  openReports: number;
+}
+
+export type AuditAction =
+  | 'user.suspended'
+  | 'user.unsuspended'
+  | 'matching_request.resolved'
+  | 'report.resolved'
+  | 'report.dismissed';
+
+export interface AuditLogEntry {
+  id: number;
+  adminId: number | null;
+  adminName: string | null;
+  action: AuditAction;
+  targetType: 'user' | 'matching_request' | 'report';
+  targetId: number;
+  // 정지 사유 reason, 강제 처리 from/to/reason, 신고 처리 메모 note
+  details: { reason?: string | null; from?: MatchingStatus; to?: MatchingStatus; note?: string } | null;
+  createdAt: string;
+}
+
+// /api/events 스트림으로 전달되는 실시간 이벤트
+export type RealtimeEvent =
+  | { type: 'ready'; data: { userId: number; expiresIn: number | null } }
+  | { type: 'request.updated'; data: { requestId: number; status: MatchingStatus } }
+  | { type: 'notification'; data: { id: number; type: NotificationType; requestId: number | null } }
+  | { type: 'message.created'; data: { requestId: number; message: Message } }
+  | { type: 'messages.read'; data: { requestId: number; readerId: number; upToId: number; readAt: string } }
+  | { type: 'booking.updated'; data: { bookingId: number; requestId: number; status: BookingStatus } };
+
+export interface LoginResponse {
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+export type LoginErrorCode = 'INVALID_CREDENTIALS' | 'LOGIN_THROTTLED' | 'ACCOUNT_LOCKED' | 'IP_LOCKED' | 'ACCOUNT_SUSPENDED';
+
+export interface LoginErrorResponse {
+  error: string;
+  code?: LoginErrorCode;
+  retryAfter?: number;
+  remainingAttempts?: number;
+}
+
+export interface Session {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  issuedAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 export interface AuthResponse {
   token: string;
   user: User;
@@ -61,7 +584,10 @@ export interface ProfileUpdateRequest {
   role: 'mentor' | 'mentee';
   bio: string;
   image?: string;
-  skills?: string[];
+  // 이름만 보내면 기존 숙련도/경력 유지
+  skills?: (string | SkillDetail)[];
+  learningGoals?: LearningGoal[];
+  maxMentees?: number;
 }
 
 export interface MatchingRequestCreate {